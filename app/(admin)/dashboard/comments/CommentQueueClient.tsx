@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Ban, Check, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { isLikelySpam } from '@/lib/comments/spam';
+
+interface QueuedComment {
+  id: string;
+  authorName: string;
+  authorEmail: string;
+  ipAddress: string | null;
+  /** Sanitized HTML */
+  body: string;
+  spamScore: number;
+  inReplyTo: string | null;
+  post: { id: string; title: string; url: string };
+  submittedAt: Date;
+}
+
+interface CommentQueueClientProps {
+  comments: QueuedComment[];
+  onApprove: (id: string) => Promise<void>;
+  onReject: (id: string) => Promise<void>;
+  onBan: (id: string, reason?: string) => Promise<void>;
+}
+
+export function CommentQueueClient({ comments, onApprove, onReject, onBan }: CommentQueueClientProps) {
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [banning, setBanning] = useState<QueuedComment | null>(null);
+  const [reason, setReason] = useState('');
+  const [isBanning, setIsBanning] = useState(false);
+
+  const moderate = async (id: string, action: (id: string) => Promise<void>, message: string) => {
+    setPendingId(id);
+    try {
+      await action(id);
+      toast.success(message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to moderate comment');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const openBan = (comment: QueuedComment) => {
+    setReason('');
+    setBanning(comment);
+  };
+
+  const handleBan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!banning) return;
+
+    setIsBanning(true);
+    try {
+      await onBan(banning.id, reason);
+      toast.success(`${banning.authorEmail} banned`);
+      setBanning(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to ban commenter');
+    } finally {
+      setIsBanning(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Author</TableHead>
+              <TableHead>Comment</TableHead>
+              <TableHead>Post</TableHead>
+              <TableHead>Spam Score</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  <p className="text-muted-foreground">No comments awaiting moderation</p>
+                </TableCell>
+              </TableRow>
+            ) : (
+              comments.map((comment) => (
+                <TableRow key={comment.id}>
+                  <TableCell className="align-top">
+                    <p className="font-medium">{comment.authorName}</p>
+                    <p className="text-xs text-muted-foreground">{comment.authorEmail}</p>
+                    {comment.ipAddress && (
+                      <p className="text-xs text-muted-foreground">{comment.ipAddress}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-md align-top whitespace-normal">
+                    {comment.inReplyTo && (
+                      <p className="text-xs text-muted-foreground mb-1">In reply to {comment.inReplyTo}</p>
+                    )}
+                    {/* Bodies are sanitized before storage */}
+                    <div
+                      className="line-clamp-4 text-sm whitespace-pre-line break-words"
+                      dangerouslySetInnerHTML={{ __html: comment.body }}
+                    />
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Link href={comment.post.url} target="_blank" className="hover:underline">
+                      {comment.post.title}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="align-top">
+                    {isLikelySpam(comment.spamScore) ? (
+                      <Badge variant="destructive">Likely spam ({comment.spamScore})</Badge>
+                    ) : (
+                      <Badge variant="secondary">{comment.spamScore}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top">{format(comment.submittedAt, 'MMM d, yyyy HH:mm')}</TableCell>
+                  <TableCell className="text-right align-top">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        disabled={pendingId === comment.id}
+                        onClick={() => moderate(comment.id, onApprove, 'Comment approved')}
+                      >
+                        <Check className="mr-1 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={pendingId === comment.id}
+                        onClick={() => moderate(comment.id, onReject, 'Comment rejected')}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive hover:text-destructive"
+                        disabled={pendingId === comment.id}
+                        onClick={() => openBan(comment)}
+                      >
+                        <Ban className="mr-1 h-4 w-4" />
+                        Ban
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={banning !== null} onOpenChange={(open) => !open && setBanning(null)}>
+        <DialogContent>
+          <form onSubmit={handleBan}>
+            <DialogHeader>
+              <DialogTitle>Ban Commenter</DialogTitle>
+              <DialogDescription>
+                Future comments from {banning?.authorEmail}
+                {banning?.ipAddress ? ` or ${banning.ipAddress}` : ''} will be discarded, and their
+                pending comments will be marked as spam.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="ban-reason">Reason (optional)</Label>
+              <Input
+                id="ban-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                placeholder="e.g. Repeated link spam"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setBanning(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isBanning}>
+                {isBanning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ban
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
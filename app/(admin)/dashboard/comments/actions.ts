@@ -0,0 +1,63 @@
+'use server';
+
+import { requireAdmin } from '@/lib/auth';
+import { commentModerationService, type ModeratedComment } from '@/lib/admin/comments';
+import { logActivity } from '@/lib/admin/logger';
+import { revalidatePath } from 'next/cache';
+
+function revalidateComment(comment: ModeratedComment) {
+  revalidatePath('/dashboard/comments');
+  revalidatePath(`/${comment.post.locale}/blog/${comment.post.slug}`);
+}
+
+export async function approveComment(id: string) {
+  const user = await requireAdmin();
+  const comment = await commentModerationService.approveComment(id, user.id);
+
+  await logActivity({
+    action: 'APPROVE_COMMENT',
+    entityType: 'COMMENT',
+    entityId: id,
+    userId: user.id,
+    details: { postId: comment.postId, author: comment.authorName },
+  });
+
+  revalidateComment(comment);
+}
+
+export async function rejectComment(id: string) {
+  const user = await requireAdmin();
+  const comment = await commentModerationService.rejectComment(id, user.id);
+
+  await logActivity({
+    action: 'REJECT_COMMENT',
+    entityType: 'COMMENT',
+    entityId: id,
+    userId: user.id,
+    details: { postId: comment.postId, author: comment.authorName },
+  });
+
+  revalidateComment(comment);
+}
+
+export async function banCommenter(id: string, reason?: string) {
+  const user = await requireAdmin();
+  const trimmedReason = reason?.trim() || undefined;
+
+  const { ban, comment, flagged } = await commentModerationService.banCommenter(id, user.id, trimmedReason);
+
+  await logActivity({
+    action: 'BAN_COMMENTER',
+    entityType: 'COMMENT',
+    entityId: id,
+    userId: user.id,
+    details: {
+      email: ban.email,
+      ipAddress: ban.ipAddress,
+      reason: trimmedReason,
+      flaggedComments: flagged,
+    },
+  });
+
+  revalidateComment(comment);
+}
@@ -0,0 +1,49 @@
+import { requireAdmin } from '@/lib/auth/roles';
+import { commentModerationService } from '@/lib/admin/comments';
+import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
+import { CommentQueueClient } from './CommentQueueClient';
+import { approveComment, rejectComment, banCommenter } from './actions';
+
+export default async function CommentModerationPage() {
+  await requireAdmin();
+
+  const comments = await commentModerationService.getModerationQueue();
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <div className="flex-1">
+        <AdminHeader title="Comments" />
+        <main className="p-4 md:p-6">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Moderation Queue</h2>
+            <p className="text-muted-foreground">
+              Approve, reject or ban reader comments ({comments.length} pending)
+            </p>
+          </div>
+
+          <CommentQueueClient
+            comments={comments.map((comment) => ({
+              id: comment.id,
+              authorName: comment.authorName,
+              authorEmail: comment.authorEmail,
+              ipAddress: comment.ipAddress,
+              body: comment.body,
+              spamScore: comment.spamScore,
+              inReplyTo: comment.parent?.authorName ?? null,
+              post: {
+                id: comment.post.id,
+                title: comment.post.title,
+                url: `/${comment.post.locale}/blog/${comment.post.slug}`,
+              },
+              submittedAt: comment.createdAt,
+            }))}
+            onApprove={approveComment}
+            onReject={rejectComment}
+            onBan={banCommenter}
+          />
+        </main>
+      </div>
+    </div>
+  );
+}
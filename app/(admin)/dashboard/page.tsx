@@ -2,6 +2,9 @@ import { requireEditor } from '@/lib/auth/roles';
 import { analyticsService } from '@/lib/admin/analytics';
 import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
 import { StatsCard } from '@/components/admin/StatsCard';
+import { NewsQuotaCard } from '@/components/admin/NewsQuotaCard';
+import { getNewsService } from '@/lib/news/service';
+import { getNewsProviderUsage } from '@/lib/news/breaker';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { FileText, Eye, TrendingUp, Clock } from 'lucide-react';
 import Link from 'next/link';
@@ -10,6 +13,7 @@ export default async function AdminDashboard() {
   await requireEditor();
   
   const stats = await analyticsService.getDashboardStats();
+  const newsUsage = getNewsService().isAvailable() ? await getNewsProviderUsage() : [];
 
   return (
     <div className="flex min-h-screen">
@@ -39,7 +43,7 @@ export default async function AdminDashboard() {
             <StatsCard
               title="Drafts"
               value={stats.draftPosts}
-              description={`${stats.scheduledPosts} scheduled`}
+              description={`${stats.scheduledPosts} scheduled · ${stats.inReviewPosts} in review`}
               icon={<Clock className="h-4 w-4" />}
             />
           </div>
@@ -80,6 +84,9 @@ export default async function AdminDashboard() {
             </CardContent>
           </Card>
 
+          {/* News provider quota and circuit breakers */}
+          {newsUsage.length > 0 && <NewsQuotaCard usage={newsUsage} className="mt-6" />}
+
           {/* Quick Actions */}
           <div className="mt-6 grid gap-4 md:grid-cols-3">
             <Link href="/dashboard/posts/new">
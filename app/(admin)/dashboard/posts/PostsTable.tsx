@@ -0,0 +1,436 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  CalendarClock,
+  EyeOff,
+  FolderInput,
+  ImageIcon,
+  Loader2,
+  Pencil,
+  Send,
+  Star,
+  Tags,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DateTimePicker } from '@/components/admin/DateTimePicker';
+import { DeletePostButton } from '@/components/admin/DeletePostButton';
+import { PostStatusSelect } from '@/components/admin/PostStatusSelect';
+import { TagSelector } from '@/components/admin/TagSelector';
+import type { AdminPost, BulkPostAction } from '@/lib/admin/posts';
+import type { TagWithCount } from '@/lib/admin/tags';
+import type { CategoryNode } from '@/lib/categories/tree';
+import type { PostStatus } from '@/lib/generated/prisma';
+import { bulkUpdatePosts, updatePostStatus } from './actions';
+
+interface PostsTableProps {
+  posts: AdminPost[];
+  /** Statuses the current user may move each post to, keyed by post ID */
+  allowedStatuses: Record<string, PostStatus[]>;
+  categories: CategoryNode[];
+  tags: TagWithCount[];
+}
+
+/** Bulk actions that need more input before they run */
+type BulkDialog = 'schedule' | 'category' | 'addTags' | 'removeTags' | 'delete' | null;
+
+const NO_CATEGORY = '__none__';
+
+function flattenCategories(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCategories(node.children ?? [])]);
+}
+
+export function PostsTable({ posts, allowedStatuses, categories, tags }: PostsTableProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<BulkDialog>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [publishAt, setPublishAt] = useState<Date | undefined>();
+  const [categoryId, setCategoryId] = useState<string>(NO_CATEGORY);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+
+  const flatCategories = useMemo(() => flattenCategories(categories), [categories]);
+
+  // Drop selections for posts that left the page after a refresh
+  const selectedIds = posts.filter((post) => selected.has(post.id)).map((post) => post.id);
+  const allSelected = posts.length > 0 && selectedIds.length === posts.length;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(posts.map((post) => post.id)));
+  };
+
+  const openDialog = (next: BulkDialog) => {
+    setPublishAt(undefined);
+    setCategoryId(NO_CATEGORY);
+    setTagIds([]);
+    setDialog(next);
+  };
+
+  const runBulk = async (action: BulkPostAction) => {
+    setIsPending(true);
+    try {
+      const { count } = await bulkUpdatePosts(selectedIds, action);
+      toast.success(`Updated ${count} post${count === 1 ? '' : 's'}`);
+      setSelected(new Set());
+      setDialog(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bulk action failed');
+      console.error(error);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <>
+      {selectedIds.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+          <span className="px-2 text-sm font-medium">{selectedIds.length} selected</span>
+          <Button size="sm" variant="outline" disabled={isPending} onClick={() => runBulk({ type: 'publish' })}>
+            <Send className="mr-2 h-4 w-4" />
+            Publish
+          </Button>
+          <Button size="sm" variant="outline" disabled={isPending} onClick={() => runBulk({ type: 'unpublish' })}>
+            <EyeOff className="mr-2 h-4 w-4" />
+            Unpublish
+          </Button>
+          <Button size="sm" variant="outline" disabled={isPending} onClick={() => openDialog('schedule')}>
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Schedule
+          </Button>
+          <Button size="sm" variant="outline" disabled={isPending} onClick={() => openDialog('category')}>
+            <FolderInput className="mr-2 h-4 w-4" />
+            Category
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" disabled={isPending}>
+                <Tags className="mr-2 h-4 w-4" />
+                Tags
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onSelect={() => openDialog('addTags')}>Add tags</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openDialog('removeTags')}>Remove tags</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline" disabled={isPending}>
+                <Star className="mr-2 h-4 w-4" />
+                Featured
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onSelect={() => runBulk({ type: 'setFeatured', featured: true })}>
+                Mark as featured
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => runBulk({ type: 'setFeatured', featured: false })}>
+                Remove from featured
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-destructive"
+            disabled={isPending}
+            onClick={() => openDialog('delete')}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button size="sm" variant="ghost" className="ml-auto" onClick={() => setSelected(new Set())}>
+            <X className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  aria-label="Select all posts"
+                  checked={allSelected}
+                  disabled={posts.length === 0}
+                  onChange={toggleAll}
+                />
+              </TableHead>
+              <TableHead className="w-[120px]">Image</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Locale</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {posts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8">
+                  <p className="text-muted-foreground">No posts yet</p>
+                  <Link href="/dashboard/posts/new">
+                    <Button variant="link">Create your first post</Button>
+                  </Link>
+                </TableCell>
+              </TableRow>
+            ) : (
+              posts.map((post) => {
+                const coverMedia = post.postMedia?.find((pm) => pm.isCover) || post.postMedia?.[0];
+                const imageUrl = coverMedia?.media?.url;
+
+                return (
+                  <TableRow key={post.id} data-state={selected.has(post.id) ? 'selected' : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select ${post.title}`}
+                        checked={selected.has(post.id)}
+                        onChange={() => toggle(post.id)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="relative aspect-video w-24 overflow-hidden rounded-md bg-muted">
+                        {imageUrl ? (
+                          <Image
+                            src={imageUrl}
+                            alt={post.title}
+                            fill
+                            className="object-cover"
+                            sizes="96px"
+                          />
+                        ) : (
+                          <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+                            <ImageIcon className="h-4 w-4" />
+                          </div>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/dashboard/posts/${post.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {post.title}
+                      </Link>
+                      {post.featured && <Star className="ml-2 inline h-3 w-3 fill-current text-yellow-500" />}
+                    </TableCell>
+                    <TableCell>
+                      <PostStatusSelect
+                        postId={post.id}
+                        currentStatus={post.status}
+                        allowedStatuses={allowedStatuses[post.id] ?? []}
+                        onStatusChange={updatePostStatus}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {post.category?.name || '-'}
+                    </TableCell>
+                    <TableCell className="uppercase">
+                      {post.locale}
+                    </TableCell>
+                    <TableCell>
+                      {format(post.createdAt, 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link href={`/dashboard/posts/${post.id}`}>
+                          <Button variant="ghost" size="icon">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <DeletePostButton id={post.id} title={post.title} />
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={dialog === 'schedule'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule posts</DialogTitle>
+            <DialogDescription>
+              {selectedIds.length} selected posts will be published at this time.
+            </DialogDescription>
+          </DialogHeader>
+          <DateTimePicker date={publishAt} onDateChange={setPublishAt} minDate={new Date()} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isPending || !publishAt}
+              onClick={() => publishAt && runBulk({ type: 'schedule', publishAt })}
+            >
+              {isPending ? 'Scheduling...' : 'Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'category'} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change category</DialogTitle>
+            <DialogDescription>
+              Move {selectedIds.length} selected posts to another category.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                {flatCategories.map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    {'\u00A0\u00A0\u00A0\u00A0'.repeat(cat.depth)}
+                    {cat.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isPending}
+              onClick={() =>
+                runBulk({ type: 'setCategory', categoryId: categoryId === NO_CATEGORY ? null : categoryId })
+              }
+            >
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={dialog === 'addTags' || dialog === 'removeTags'}
+        onOpenChange={(open) => !open && setDialog(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog === 'removeTags' ? 'Remove tags' : 'Add tags'}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'removeTags'
+                ? `These tags will be removed from ${selectedIds.length} selected posts.`
+                : `These tags will be added to ${selectedIds.length} selected posts.`}
+            </DialogDescription>
+          </DialogHeader>
+          <TagSelector selectedTagIds={tagIds} onSelect={setTagIds} initialTags={tags} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isPending || tagIds.length === 0}
+              onClick={() =>
+                runBulk(dialog === 'removeTags' ? { type: 'removeTags', tagIds } : { type: 'addTags', tagIds })
+              }
+            >
+              {isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={dialog === 'delete'} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Posts</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {selectedIds.length} selected posts? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                runBulk({ type: 'delete' });
+              }}
+              disabled={isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,12 +1,18 @@
-import { requireEditor, getCurrentUser } from '@/lib/auth';
+import { requireEditor, getCurrentUser, getUserRoleFromClerk } from '@/lib/auth';
 import { adminPostService } from '@/lib/admin/posts';
+import { getAllowedStatuses } from '@/lib/admin/workflow';
 import { categoryService } from '@/lib/admin/categories';
 import { tagService } from '@/lib/admin/tags';
+import { postRevisionService } from '@/lib/admin/revisions';
 import { logActivity } from '@/lib/admin/logger';
 import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
 import { PostForm } from '@/components/admin/PostForm';
+import { PostRevisionHistory } from '@/components/admin/PostRevisionHistory';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { restorePostRevision } from '../actions';
 import { notFound } from 'next/navigation';
 import readingTime from 'reading-time';
+import type { PostStatus } from '@/lib/generated/prisma';
 
 interface EditPostPageProps {
   params: Promise<{ id: string }>;
@@ -14,15 +20,17 @@ interface EditPostPageProps {
 
 export default async function EditPostPage({ params }: EditPostPageProps) {
   await requireEditor();
+  const role = await getUserRoleFromClerk();
   
   const { id } = await params;
   
   // Use getCategoryTree() to get hierarchical categories for the dropdown
   // Requirements: 5.1, 5.3
-  const [post, categories, tags] = await Promise.all([
+  const [post, categories, tags, revisions] = await Promise.all([
     adminPostService.getPostById(id),
     categoryService.getCategoryTree(),
     tagService.getAllTags(),
+    postRevisionService.getRevisions(id),
   ]);
 
   if (!post) {
@@ -35,9 +43,10 @@ export default async function EditPostPage({ params }: EditPostPageProps) {
     content: string;
     excerpt?: string;
     locale: string;
-    status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED';
+    status: PostStatus;
     categoryId?: string;
     tagIds?: string[];
+    unpublishAt?: Date | null;
     featured?: boolean;
   }): Promise<{ id: string }> {
     'use server';
@@ -47,15 +56,26 @@ export default async function EditPostPage({ params }: EditPostPageProps) {
       throw new Error('Not authenticated');
     }
 
+    // Enforce editorial workflow against the stored status
+    const current = await adminPostService.getPostById(id);
+    if (!current) {
+      throw new Error('Post not found');
+    }
+    adminPostService.assertStatusTransition(current.status, data.status, await getUserRoleFromClerk());
+
     const stats = readingTime(data.content);
 
-    await adminPostService.updatePost(id, {
-      ...data,
-      readingTime: Math.ceil(stats.minutes),
-    });
+    await adminPostService.updatePost(
+      id,
+      {
+        ...data,
+        readingTime: Math.ceil(stats.minutes),
+      },
+      user.id
+    );
 
     await logActivity({
-      action: 'UPDATE_POST',
+      action: data.status === 'IN_REVIEW' && current.status !== 'IN_REVIEW' ? 'SUBMIT_POST' : 'UPDATE_POST',
       entityType: 'POST',
       entityId: id,
       details: { title: data.title, status: data.status },
@@ -73,12 +93,28 @@ export default async function EditPostPage({ params }: EditPostPageProps) {
         <AdminHeader title="Edit Post" />
         <main className="p-4 md:p-6">
           <div className="mx-auto max-w-4xl">
-            <PostForm
-              post={post}
-              categories={categories}
-              tags={tags}
-              onSubmit={updatePost}
-            />
+            <Tabs defaultValue="edit">
+              <TabsList>
+                <TabsTrigger value="edit">Edit</TabsTrigger>
+                <TabsTrigger value="history">History ({revisions.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="edit" className="mt-4">
+                <PostForm
+                  post={post}
+                  categories={categories}
+                  tags={tags}
+                  allowedStatuses={getAllowedStatuses(post.status, role)}
+                  onSubmit={updatePost}
+                />
+              </TabsContent>
+              <TabsContent value="history" className="mt-4">
+                <PostRevisionHistory
+                  postId={post.id}
+                  revisions={revisions}
+                  onRestore={restorePostRevision}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
         </main>
       </div>
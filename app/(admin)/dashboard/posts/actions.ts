@@ -1,8 +1,10 @@
 'use server';
 
-import { requireEditor, getCurrentUser } from '@/lib/auth';
-import { adminPostService } from '@/lib/admin/posts';
-import { logActivity } from '@/lib/admin/logger';
+import { requireEditor, getCurrentUser, getUserRoleFromClerk } from '@/lib/auth';
+import { adminPostService, type BulkPostAction } from '@/lib/admin/posts';
+import { postRevisionService } from '@/lib/admin/revisions';
+import { logActivity, type ActivityAction } from '@/lib/admin/logger';
+import { bulkPostActionSchema } from '@/lib/security/api-schemas';
 import { revalidatePath } from 'next/cache';
 import type { PostStatus } from '@/lib/generated/prisma';
 
@@ -33,11 +35,12 @@ export async function updatePostStatus(id: string, status: PostStatus) {
   }
 
   await requireEditor();
+  const role = await getUserRoleFromClerk();
 
-  await adminPostService.updatePost(id, { status });
+  await adminPostService.changeStatus(id, status, { id: user.id, role });
 
   await logActivity({
-    action: 'UPDATE_POST',
+    action: status === 'IN_REVIEW' ? 'SUBMIT_POST' : 'UPDATE_POST',
     entityType: 'POST',
     entityId: id,
     userId: user.id,
@@ -46,3 +49,72 @@ export async function updatePostStatus(id: string, status: PostStatus) {
 
   revalidatePath('/dashboard/posts');
 }
+
+function bulkActivityAction(action: BulkPostAction): ActivityAction {
+  switch (action.type) {
+    case 'publish':
+      return 'PUBLISH_POST';
+    case 'delete':
+      return 'DELETE_POST';
+    default:
+      return 'UPDATE_POST';
+  }
+}
+
+export async function bulkUpdatePosts(ids: string[], action: BulkPostAction) {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  await requireEditor();
+  const role = await getUserRoleFromClerk();
+
+  const parsed = bulkPostActionSchema.safeParse({ ids, action });
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0]?.message ?? 'Invalid bulk action');
+  }
+
+  const result = await adminPostService.bulkUpdate(parsed.data.ids, parsed.data.action, { id: user.id, role });
+
+  for (const post of result.affected) {
+    await logActivity({
+      action: bulkActivityAction(parsed.data.action),
+      entityType: 'POST',
+      entityId: post.id,
+      userId: user.id,
+      details: { bulk: true, ...parsed.data.action, title: post.title },
+    });
+  }
+
+  revalidatePath('/dashboard/posts');
+
+  return { count: result.affected.length };
+}
+
+export async function restorePostRevision(postId: string, revisionId: string) {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  await requireEditor();
+
+  const revision = await postRevisionService.getRevisionById(revisionId);
+  if (!revision || revision.postId !== postId) {
+    throw new Error('Revision not found');
+  }
+
+  await postRevisionService.restoreRevision(revisionId, user.id);
+
+  await logActivity({
+    action: 'UPDATE_POST',
+    entityType: 'POST',
+    entityId: postId,
+    userId: user.id,
+    details: { restoredRevisionId: revisionId },
+  });
+
+  revalidatePath(`/dashboard/posts/${postId}`);
+  revalidatePath('/dashboard/posts');
+}
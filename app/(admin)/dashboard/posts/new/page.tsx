@@ -1,15 +1,18 @@
-import { requireEditor, getCurrentUser } from '@/lib/auth';
+import { requireEditor, getCurrentUser, getUserRoleFromClerk } from '@/lib/auth';
 import { categoryService } from '@/lib/admin/categories';
 import { tagService } from '@/lib/admin/tags';
 import { adminPostService } from '@/lib/admin/posts';
+import { getInitialStatuses } from '@/lib/admin/workflow';
 import { logActivity } from '@/lib/admin/logger';
 import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
 import { PostForm } from '@/components/admin/PostForm';
 
 import readingTime from 'reading-time';
+import type { PostStatus } from '@/lib/generated/prisma';
 
 export default async function NewPostPage() {
   await requireEditor();
+  const role = await getUserRoleFromClerk();
   
   // Use getCategoryTree() to get hierarchical categories for the dropdown
   // Requirements: 5.1, 5.3
@@ -24,9 +27,10 @@ export default async function NewPostPage() {
     content: string;
     excerpt?: string;
     locale: string;
-    status: 'DRAFT' | 'SCHEDULED' | 'PUBLISHED';
+    status: PostStatus;
     categoryId?: string;
     tagIds?: string[];
+    unpublishAt?: Date | null;
     featured?: boolean;
   }): Promise<{ id: string }> {
     'use server';
@@ -36,10 +40,14 @@ export default async function NewPostPage() {
       throw new Error('Not authenticated');
     }
 
+    // New posts start as drafts; the workflow decides who may skip review
+    adminPostService.assertStatusTransition('DRAFT', data.status, await getUserRoleFromClerk());
+
     const stats = readingTime(data.content);
 
     const post = await adminPostService.createPost({
       ...data,
+      unpublishAt: data.unpublishAt ?? undefined,
       authorId: user.id,
       readingTime: Math.ceil(stats.minutes),
     });
@@ -66,6 +74,7 @@ export default async function NewPostPage() {
             <PostForm
               categories={categories}
               tags={tags}
+              allowedStatuses={getInitialStatuses(role)}
               onSubmit={createPost}
             />
           </div>
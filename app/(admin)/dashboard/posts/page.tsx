@@ -1,17 +1,10 @@
-import { requireEditor } from '@/lib/auth/roles';
+import { requireEditor, getUserRoleFromClerk } from '@/lib/auth/roles';
 import { adminPostService } from '@/lib/admin/posts';
+import { categoryService } from '@/lib/admin/categories';
+import { tagService } from '@/lib/admin/tags';
+import { getAllowedStatuses } from '@/lib/admin/workflow';
 import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
-import { DeletePostButton } from '@/components/admin/DeletePostButton';
-import { PostStatusSelect } from '@/components/admin/PostStatusSelect';
 import { Button } from '@/components/ui/button';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '@/components/ui/table';
 import {
   Pagination,
   PaginationContent,
@@ -21,11 +14,9 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination';
-import { Plus, Pencil, ImageIcon } from 'lucide-react';
+import { Plus } from 'lucide-react';
 import Link from 'next/link';
-import Image from 'next/image';
-import { format } from 'date-fns';
-import { updatePostStatus } from './actions';
+import { PostsTable } from './PostsTable';
 
 interface PostsPageProps {
   searchParams: Promise<{ page?: string }>;
@@ -33,14 +24,20 @@ interface PostsPageProps {
 
 export default async function PostsPage({ searchParams }: PostsPageProps) {
   await requireEditor();
+  const role = await getUserRoleFromClerk();
   
   const params = await searchParams;
   const currentPage = Math.max(1, parseInt(params.page || '1', 10));
   const limit = 10;
 
-  const { data: posts, pagination } = await adminPostService.getPaginatedPosts(
-    undefined,
-    { page: currentPage, limit }
+  const [{ data: posts, pagination }, categories, tags] = await Promise.all([
+    adminPostService.getPaginatedPosts(undefined, { page: currentPage, limit }),
+    categoryService.getCategoryTree(),
+    tagService.getAllTags(),
+  ]);
+
+  const allowedStatuses = Object.fromEntries(
+    posts.map((post) => [post.id, getAllowedStatuses(post.status, role)])
   );
 
   return (
@@ -64,94 +61,12 @@ export default async function PostsPage({ searchParams }: PostsPageProps) {
             </Link>
           </div>
 
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead className="w-[120px]">Image</TableHead>
-                  <TableHead>Title</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Category</TableHead>
-                  <TableHead>Locale</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {posts.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8">
-                      <p className="text-muted-foreground">No posts yet</p>
-                      <Link href="/dashboard/posts/new">
-                        <Button variant="link">Create your first post</Button>
-                      </Link>
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  posts.map((post) => {
-                    const coverMedia = post.postMedia?.find((pm) => pm.isCover) || post.postMedia?.[0];
-                    const imageUrl = coverMedia?.media?.url;
-                    
-                    return (
-                      <TableRow key={post.id}>
-                        <TableCell>
-                          <div className="relative aspect-video w-24 overflow-hidden rounded-md bg-muted">
-                            {imageUrl ? (
-                              <Image 
-                                src={imageUrl} 
-                                alt={post.title} 
-                                fill
-                                className="object-cover"
-                                sizes="96px"
-                              />
-                            ) : (
-                              <div className="flex h-full w-full items-center justify-center text-muted-foreground">
-                                <ImageIcon className="h-4 w-4" />
-                              </div>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Link
-                            href={`/dashboard/posts/${post.id}`}
-                            className="font-medium hover:underline"
-                          >
-                            {post.title}
-                          </Link>
-                        </TableCell>
-                        <TableCell>
-                          <PostStatusSelect
-                            postId={post.id}
-                            currentStatus={post.status}
-                            onStatusChange={updatePostStatus}
-                          />
-                        </TableCell>
-                        <TableCell>
-                          {post.category?.name || '-'}
-                        </TableCell>
-                        <TableCell className="uppercase">
-                          {post.locale}
-                        </TableCell>
-                        <TableCell>
-                          {format(post.createdAt, 'MMM d, yyyy')}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Link href={`/dashboard/posts/${post.id}`}>
-                              <Button variant="ghost" size="icon">
-                                <Pencil className="h-4 w-4" />
-                              </Button>
-                            </Link>
-                            <DeletePostButton id={post.id} title={post.title} />
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })
-                )}
-              </TableBody>
-            </Table>
-          </div>
+          <PostsTable
+            posts={posts}
+            allowedStatuses={allowedStatuses}
+            categories={categories}
+            tags={tags}
+          />
 
           {pagination.totalPages > 1 && (
             <div className="mt-6">
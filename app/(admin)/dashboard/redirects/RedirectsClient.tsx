@@ -0,0 +1,334 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ArrowRight, Loader2, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { RedirectStatusCode } from '@/lib/redirects/types';
+
+interface Redirect {
+  id: string;
+  source: string;
+  target: string | null;
+  statusCode: number;
+  hits: number;
+  lastHitAt: Date | null;
+  automatic: boolean;
+  createdAt: Date;
+}
+
+interface RedirectInput {
+  source: string;
+  target?: string;
+  statusCode: RedirectStatusCode;
+}
+
+interface RedirectsClientProps {
+  statusCodes: RedirectStatusCode[];
+  redirects: Redirect[];
+  onCreate: (input: RedirectInput) => Promise<void>;
+  onUpdate: (id: string, input: RedirectInput) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const statusLabels: Record<RedirectStatusCode, string> = {
+  301: '301 Permanent',
+  302: '302 Temporary',
+  410: '410 Gone',
+};
+
+export function RedirectsClient({ statusCodes, redirects, onCreate, onUpdate, onDelete }: RedirectsClientProps) {
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Redirect | 'new' | null>(null);
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [statusCode, setStatusCode] = useState<RedirectStatusCode>(301);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleting, setDeleting] = useState<Redirect | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const search = query.trim().toLowerCase();
+  const visible = search
+    ? redirects.filter(
+        (redirect) =>
+          redirect.source.toLowerCase().includes(search) || redirect.target?.toLowerCase().includes(search)
+      )
+    : redirects;
+
+  const openEditor = (redirect: Redirect | 'new') => {
+    setSource(redirect === 'new' ? '' : redirect.source);
+    setTarget(redirect === 'new' ? '' : redirect.target ?? '');
+    setStatusCode(redirect === 'new' ? 301 : (redirect.statusCode as RedirectStatusCode));
+    setEditing(redirect);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setIsSaving(true);
+    try {
+      const input = { source, target: statusCode === 410 ? undefined : target, statusCode };
+      if (editing === 'new') {
+        await onCreate(input);
+        toast.success('Redirect added');
+      } else {
+        await onUpdate(editing.id, input);
+        toast.success('Redirect updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save redirect');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setBusyId(deleting.id);
+    try {
+      await onDelete(deleting.id);
+      toast.success('Redirect deleted');
+      setDeleting(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete redirect');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Redirects</CardTitle>
+            <CardDescription>
+              Hit counts are updated when the cron job runs
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEditor('new')}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Redirect
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter by path..."
+              className="pl-8"
+            />
+          </div>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Hits</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <p className="text-muted-foreground">
+                        {redirects.length === 0 ? 'No redirects yet' : 'No redirects match this filter'}
+                      </p>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visible.map((redirect) => (
+                    <TableRow key={redirect.id}>
+                      <TableCell className="max-w-xs">
+                        <p className="font-mono text-sm truncate" title={redirect.source}>{redirect.source}</p>
+                        {redirect.automatic && (
+                          <Badge variant="secondary" className="mt-1">Automatic</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        {redirect.target ? (
+                          <p className="flex items-center gap-1 font-mono text-sm truncate" title={redirect.target}>
+                            <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                            {redirect.target}
+                          </p>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={redirect.statusCode === 410 ? 'destructive' : 'outline'}>
+                          {statusLabels[redirect.statusCode as RedirectStatusCode] ?? redirect.statusCode}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p>{redirect.hits}</p>
+                        {redirect.lastHitAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Last {format(redirect.lastHitAt, 'MMM d, yyyy')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(redirect.createdAt, 'MMM d, yyyy')}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" title="Edit" onClick={() => openEditor(redirect)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Delete"
+                            className="text-destructive"
+                            onClick={() => setDeleting(redirect)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editing === 'new' ? 'Add Redirect' : 'Edit Redirect'}</DialogTitle>
+              <DialogDescription>
+                Visitors to the source path are sent to the target, or told the page is gone.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="redirect-source">Source path</Label>
+                <Input
+                  id="redirect-source"
+                  required
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  placeholder="/en/blog/old-slug"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="redirect-status">Status</Label>
+                <Select
+                  value={String(statusCode)}
+                  onValueChange={(value) => setStatusCode(Number(value) as RedirectStatusCode)}
+                >
+                  <SelectTrigger id="redirect-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statusCodes.map((code) => (
+                      <SelectItem key={code} value={String(code)}>
+                        {statusLabels[code]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {statusCode !== 410 && (
+                <div className="space-y-2">
+                  <Label htmlFor="redirect-target">Target</Label>
+                  <Input
+                    id="redirect-target"
+                    required
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    placeholder="/en/blog/new-slug or https://example.com/page"
+                    className="font-mono"
+                  />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Redirect</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the redirect from {deleting?.source}? Links to this path will return 404 again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleting !== null && busyId === deleting.id}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use server';
+
+import { requireAdmin } from '@/lib/auth';
+import { logActivity } from '@/lib/admin/logger';
+import { redirectService } from '@/lib/redirects';
+import { validateBody, redirectSchema, type RedirectFormInput } from '@/lib/security/api-schemas';
+import { revalidatePath } from 'next/cache';
+
+function parseRedirect(input: RedirectFormInput): RedirectFormInput {
+  const validation = validateBody(input, redirectSchema);
+  if (!validation.success) {
+    throw new Error(validation.details?.[0]?.message ?? 'Invalid redirect');
+  }
+  return validation.data!;
+}
+
+export async function createRedirect(input: RedirectFormInput) {
+  const user = await requireAdmin();
+  const data = parseRedirect(input);
+
+  const redirect = await redirectService.createRedirect(data);
+
+  await logActivity({
+    action: 'CREATE_REDIRECT',
+    entityType: 'REDIRECT',
+    entityId: redirect.id,
+    userId: user.id,
+    details: { source: redirect.source, target: redirect.target, statusCode: redirect.statusCode },
+  });
+
+  revalidatePath('/dashboard/redirects');
+}
+
+export async function updateRedirect(id: string, input: RedirectFormInput) {
+  const user = await requireAdmin();
+  const data = parseRedirect(input);
+
+  const redirect = await redirectService.updateRedirect(id, data);
+
+  await logActivity({
+    action: 'UPDATE_REDIRECT',
+    entityType: 'REDIRECT',
+    entityId: id,
+    userId: user.id,
+    details: { source: redirect.source, target: redirect.target, statusCode: redirect.statusCode },
+  });
+
+  revalidatePath('/dashboard/redirects');
+}
+
+export async function deleteRedirect(id: string) {
+  const user = await requireAdmin();
+  const redirect = await redirectService.deleteRedirect(id);
+
+  await logActivity({
+    action: 'DELETE_REDIRECT',
+    entityType: 'REDIRECT',
+    entityId: id,
+    userId: user.id,
+    details: { source: redirect.source },
+  });
+
+  revalidatePath('/dashboard/redirects');
+}
@@ -0,0 +1,45 @@
+import { requireAdmin } from '@/lib/auth/roles';
+import { redirectService, REDIRECT_STATUS_CODES } from '@/lib/redirects';
+import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
+import { RedirectsClient } from './RedirectsClient';
+import { createRedirect, updateRedirect, deleteRedirect } from './actions';
+
+export default async function RedirectsPage() {
+  await requireAdmin();
+
+  const redirects = await redirectService.getRedirects();
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <div className="flex-1">
+        <AdminHeader title="Redirects" />
+        <main className="p-4 md:p-6">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Redirects</h2>
+            <p className="text-muted-foreground">
+              Keep old links working; post and category slug changes are redirected automatically
+            </p>
+          </div>
+
+          <RedirectsClient
+            statusCodes={[...REDIRECT_STATUS_CODES]}
+            redirects={redirects.map((redirect) => ({
+              id: redirect.id,
+              source: redirect.source,
+              target: redirect.target,
+              statusCode: redirect.statusCode,
+              hits: redirect.hits,
+              lastHitAt: redirect.lastHitAt,
+              automatic: redirect.automatic,
+              createdAt: redirect.createdAt,
+            }))}
+            onCreate={createRedirect}
+            onUpdate={updateRedirect}
+            onDelete={deleteRedirect}
+          />
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Check, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ReviewPost {
+  id: string;
+  title: string;
+  locale: string;
+  category: string | null;
+  author: string;
+  submittedAt: Date;
+  scheduledAt: Date | null;
+}
+
+type Decision = 'APPROVE' | 'REJECT';
+
+interface ReviewQueueClientProps {
+  posts: ReviewPost[];
+  onApprove: (id: string, comment?: string) => Promise<void>;
+  onReject: (id: string, comment: string) => Promise<void>;
+}
+
+export function ReviewQueueClient({ posts, onApprove, onReject }: ReviewQueueClientProps) {
+  const [reviewing, setReviewing] = useState<{ post: ReviewPost; decision: Decision } | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openReview = (post: ReviewPost, decision: Decision) => {
+    setComment('');
+    setReviewing({ post, decision });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reviewing) return;
+
+    setIsSubmitting(true);
+    try {
+      if (reviewing.decision === 'APPROVE') {
+        await onApprove(reviewing.post.id, comment);
+        toast.success('Post approved');
+      } else {
+        await onReject(reviewing.post.id, comment);
+        toast.success('Post rejected');
+      }
+      setReviewing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review post');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isReject = reviewing?.decision === 'REJECT';
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Title</TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Locale</TableHead>
+              <TableHead>Submitted</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {posts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  <p className="text-muted-foreground">No posts awaiting review</p>
+                </TableCell>
+              </TableRow>
+            ) : (
+              posts.map((post) => (
+                <TableRow key={post.id}>
+                  <TableCell>
+                    <Link
+                      href={`/dashboard/posts/${post.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {post.title}
+                    </Link>
+                    {post.scheduledAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Scheduled for {format(post.scheduledAt, 'MMM d, yyyy HH:mm')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{post.author}</TableCell>
+                  <TableCell>{post.category || '-'}</TableCell>
+                  <TableCell className="uppercase">{post.locale}</TableCell>
+                  <TableCell>{format(post.submittedAt, 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" onClick={() => openReview(post, 'APPROVE')}>
+                        <Check className="mr-1 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => openReview(post, 'REJECT')}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{isReject ? 'Reject Post' : 'Approve Post'}</DialogTitle>
+              <DialogDescription>
+                {isReject
+                  ? 'The author will see your comment and can resubmit after making changes.'
+                  : reviewing?.post.scheduledAt && reviewing.post.scheduledAt > new Date()
+                    ? 'The post will be scheduled for its publish date.'
+                    : 'The post will be published immediately.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="review-comment">
+                Comment {isReject ? '' : '(optional)'}
+              </Label>
+              <textarea
+                id="review-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                required={isReject}
+                maxLength={2000}
+                className="min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                placeholder={isReject ? 'What needs to change?' : 'Notes for the author...'}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReviewing(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={isReject ? 'destructive' : 'default'}
+                disabled={isSubmitting || (isReject && !comment.trim())}
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isReject ? 'Reject' : 'Approve'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
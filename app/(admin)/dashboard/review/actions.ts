@@ -0,0 +1,54 @@
+'use server';
+
+import { requireAdmin } from '@/lib/auth';
+import { adminPostService } from '@/lib/admin/posts';
+import { logActivity } from '@/lib/admin/logger';
+import { revalidatePath } from 'next/cache';
+
+export async function approvePost(id: string, comment?: string) {
+  const user = await requireAdmin();
+  const trimmedComment = comment?.trim() || undefined;
+
+  const post = await adminPostService.approvePost(
+    id,
+    { id: user.id, role: user.publicMetadata.role ?? null },
+    trimmedComment
+  );
+
+  await logActivity({
+    action: 'APPROVE_POST',
+    entityType: 'POST',
+    entityId: id,
+    userId: user.id,
+    details: { title: post.title, status: post.status, comment: trimmedComment },
+  });
+
+  revalidatePath('/dashboard/review');
+  revalidatePath('/dashboard/posts');
+}
+
+export async function rejectPost(id: string, comment: string) {
+  const user = await requireAdmin();
+  const trimmedComment = comment.trim();
+
+  if (!trimmedComment) {
+    throw new Error('A comment is required when rejecting a post');
+  }
+
+  const post = await adminPostService.rejectPost(
+    id,
+    { id: user.id, role: user.publicMetadata.role ?? null },
+    trimmedComment
+  );
+
+  await logActivity({
+    action: 'REJECT_POST',
+    entityType: 'POST',
+    entityId: id,
+    userId: user.id,
+    details: { title: post.title, comment: trimmedComment },
+  });
+
+  revalidatePath('/dashboard/review');
+  revalidatePath('/dashboard/posts');
+}
@@ -0,0 +1,44 @@
+import { requireAdmin } from '@/lib/auth/roles';
+import { adminPostService } from '@/lib/admin/posts';
+import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
+import { ReviewQueueClient } from './ReviewQueueClient';
+import { approvePost, rejectPost } from './actions';
+
+export default async function ReviewQueuePage() {
+  await requireAdmin();
+
+  const posts = await adminPostService.getReviewQueue();
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <div className="flex-1">
+        <AdminHeader title="Review Queue" />
+        <main className="p-4 md:p-6">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Awaiting Review</h2>
+            <p className="text-muted-foreground">
+              Approve or reject posts submitted by editors ({posts.length} pending)
+            </p>
+          </div>
+
+          <ReviewQueueClient
+            posts={posts.map((post) => ({
+              id: post.id,
+              title: post.title,
+              locale: post.locale,
+              category: post.category?.name ?? null,
+              author:
+                [post.author.firstName, post.author.lastName].filter(Boolean).join(' ') ||
+                post.author.email,
+              submittedAt: post.updatedAt,
+              scheduledAt: post.scheduledAt,
+            }))}
+            onApprove={approvePost}
+            onReject={rejectPost}
+          />
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { AlertTriangle, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatusBadge } from '@/components/admin/StatusBadge';
+import { locales, localeNames, type Locale } from '@/lib/i18n/config';
+import type { TranslationRow } from '@/lib/admin/translations';
+
+type CoverageFilter = 'all' | 'missing' | 'outdated';
+
+interface TranslationsClientProps {
+  rows: TranslationRow[];
+  onCreateTranslation: (sourceId: string, locale: string) => Promise<{ id: string }>;
+}
+
+export function TranslationsClient({ rows, onCreateTranslation }: TranslationsClientProps) {
+  const router = useRouter();
+  const [filter, setFilter] = useState<CoverageFilter>('all');
+  const [creating, setCreating] = useState<string | null>(null);
+
+  const filteredRows = useMemo(() => {
+    if (filter === 'missing') return rows.filter((row) => row.missing.length > 0);
+    if (filter === 'outdated') return rows.filter((row) => row.outdated.length > 0);
+    return rows;
+  }, [rows, filter]);
+
+  const localeStats = useMemo(
+    () =>
+      locales.map((locale) => ({
+        locale,
+        translated: rows.filter((row) => row.cells[locale]).length,
+        outdated: rows.filter((row) => row.cells[locale]?.outdated).length,
+      })),
+    [rows]
+  );
+
+  const handleCreate = async (sourceId: string, locale: Locale) => {
+    const key = `${sourceId}:${locale}`;
+    setCreating(key);
+    try {
+      const { id } = await onCreateTranslation(sourceId, locale);
+      toast.success(`${localeNames[locale]} draft created`);
+      router.push(`/dashboard/posts/${id}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create translation');
+      setCreating(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Coverage per locale */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {localeStats.map(({ locale, translated, outdated }) => (
+          <Card key={locale}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{localeNames[locale]}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {rows.length > 0 ? Math.round((translated / rows.length) * 100) : 0}%
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {translated} of {rows.length} posts
+                {outdated > 0 && ` · ${outdated} outdated`}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Select value={filter} onValueChange={(value) => setFilter(value as CoverageFilter)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All posts</SelectItem>
+            <SelectItem value="missing">Missing translations</SelectItem>
+            <SelectItem value="outdated">Outdated translations</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Posts × locales matrix */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Post</TableHead>
+              {locales.map((locale) => (
+                <TableHead key={locale} className="text-center uppercase">
+                  {locale}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={locales.length + 1} className="text-center py-8">
+                  <p className="text-muted-foreground">No posts found</p>
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredRows.map((row) => (
+                <TableRow key={row.source.id}>
+                  <TableCell>
+                    <Link
+                      href={`/dashboard/posts/${row.source.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {row.source.title}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      Source: {localeNames[row.source.locale as Locale] ?? row.source.locale}
+                    </p>
+                  </TableCell>
+                  {locales.map((locale) => {
+                    const cell = row.cells[locale];
+                    const key = `${row.source.id}:${locale}`;
+
+                    return (
+                      <TableCell key={locale} className="text-center">
+                        {cell ? (
+                          <div className="flex flex-col items-center gap-1">
+                            <Link href={`/dashboard/posts/${cell.postId}`} title={cell.title}>
+                              <StatusBadge status={cell.status} />
+                            </Link>
+                            {cell.isSource && (
+                              <span className="text-xs text-muted-foreground">Source</span>
+                            )}
+                            {cell.outdated && (
+                              <Badge variant="outline" className="gap-1 text-amber-600">
+                                <AlertTriangle className="h-3 w-3" />
+                                Outdated
+                              </Badge>
+                            )}
+                          </div>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={creating !== null}
+                            onClick={() => handleCreate(row.source.id, locale)}
+                          >
+                            {creating === key ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Plus className="mr-1 h-4 w-4" />
+                            )}
+                            Create
+                          </Button>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use server';
+
+import { requireEditor, getCurrentUser } from '@/lib/auth';
+import { translationService } from '@/lib/admin/translations';
+import { logActivity } from '@/lib/admin/logger';
+import { isValidLocale } from '@/lib/i18n/config';
+import { revalidatePath } from 'next/cache';
+
+export async function createTranslation(sourceId: string, locale: string): Promise<{ id: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  await requireEditor();
+
+  if (!isValidLocale(locale)) {
+    throw new Error('Invalid locale');
+  }
+
+  const post = await translationService.createTranslation(sourceId, locale, user.id);
+
+  await logActivity({
+    action: 'CREATE_POST',
+    entityType: 'POST',
+    entityId: post.id,
+    userId: user.id,
+    details: { title: post.title, locale, translationOf: sourceId },
+  });
+
+  revalidatePath('/dashboard/translations');
+  revalidatePath('/dashboard/posts');
+
+  return { id: post.id };
+}
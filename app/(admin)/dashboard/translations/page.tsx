@@ -0,0 +1,30 @@
+import { requireEditor } from '@/lib/auth/roles';
+import { translationService } from '@/lib/admin/translations';
+import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
+import { TranslationsClient } from './TranslationsClient';
+import { createTranslation } from './actions';
+
+export default async function TranslationsPage() {
+  await requireEditor();
+
+  const rows = await translationService.getCoverageMatrix();
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <div className="flex-1">
+        <AdminHeader title="Translations" />
+        <main className="p-4 md:p-6">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Translation Coverage</h2>
+            <p className="text-muted-foreground">
+              Published posts by locale, with missing and outdated translations
+            </p>
+          </div>
+
+          <TranslationsClient rows={rows} onCreateTranslation={createTranslation} />
+        </main>
+      </div>
+    </div>
+  );
+}
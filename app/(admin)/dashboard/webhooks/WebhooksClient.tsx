@@ -0,0 +1,489 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Copy, KeyRound, Loader2, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { WebhookEventType } from '@/lib/webhooks/types';
+
+interface Endpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  enabled: boolean;
+  secret: string;
+  deliveryCount: number;
+}
+
+interface Delivery {
+  id: string;
+  endpointUrl: string;
+  event: string;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  payload: string;
+  responseBody: string | null;
+  createdAt: Date;
+  nextAttemptAt: Date | null;
+}
+
+interface EndpointInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+}
+
+interface WebhooksClientProps {
+  events: WebhookEventType[];
+  endpoints: Endpoint[];
+  deliveries: Delivery[];
+  onCreate: (input: EndpointInput) => Promise<void>;
+  onUpdate: (id: string, input: EndpointInput) => Promise<void>;
+  onToggle: (id: string, enabled: boolean) => Promise<void>;
+  onRotateSecret: (id: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onResend: (id: string) => Promise<{ status: string; responseStatus: number | null }>;
+}
+
+const statusVariant = {
+  SUCCEEDED: 'default',
+  PENDING: 'secondary',
+  FAILED: 'destructive',
+} as const;
+
+export function WebhooksClient({
+  events,
+  endpoints,
+  deliveries,
+  onCreate,
+  onUpdate,
+  onToggle,
+  onRotateSecret,
+  onDelete,
+  onResend,
+}: WebhooksClientProps) {
+  const [editing, setEditing] = useState<Endpoint | 'new' | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedEvents, setSelectedEvents] = useState<WebhookEventType[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [secretFor, setSecretFor] = useState<Endpoint | null>(null);
+  const [deleting, setDeleting] = useState<Endpoint | null>(null);
+  const [inspecting, setInspecting] = useState<Delivery | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const openEditor = (endpoint: Endpoint | 'new') => {
+    setUrl(endpoint === 'new' ? '' : endpoint.url);
+    setDescription(endpoint === 'new' ? '' : endpoint.description ?? '');
+    setSelectedEvents(endpoint === 'new' ? [] : (endpoint.events as WebhookEventType[]));
+    setEditing(endpoint);
+  };
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setSelectedEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setIsSaving(true);
+    try {
+      const input = { url, description: description || undefined, events: selectedEvents };
+      if (editing === 'new') {
+        await onCreate(input);
+        toast.success('Webhook endpoint added');
+      } else {
+        await onUpdate(editing.id, input);
+        toast.success('Webhook endpoint updated');
+      }
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save webhook endpoint');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const run = async (id: string, action: () => Promise<void>, message: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResend = (delivery: Delivery) =>
+    run(
+      delivery.id,
+      async () => {
+        const result = await onResend(delivery.id);
+        if (result.status !== 'SUCCEEDED') {
+          throw new Error(
+            `Endpoint did not accept the delivery${result.responseStatus ? ` (${result.responseStatus})` : ''}`
+          );
+        }
+      },
+      'Delivery resent'
+    );
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast.success('Secret copied');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Endpoints</CardTitle>
+            <CardDescription>
+              Payloads are signed with svix headers; verify them with the endpoint&apos;s secret
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEditor('new')}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Endpoint
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8">
+                      <p className="text-muted-foreground">No webhook endpoints yet</p>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  endpoints.map((endpoint) => (
+                    <TableRow key={endpoint.id}>
+                      <TableCell className="max-w-xs">
+                        <p className="font-medium truncate">{endpoint.url}</p>
+                        {endpoint.description && (
+                          <p className="text-xs text-muted-foreground truncate">{endpoint.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {endpoint.events.map((event) => (
+                            <Badge key={event} variant="outline">{event}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{endpoint.deliveryCount}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === endpoint.id}
+                          onClick={() =>
+                            run(
+                              endpoint.id,
+                              () => onToggle(endpoint.id, !endpoint.enabled),
+                              endpoint.enabled ? 'Endpoint disabled' : 'Endpoint enabled'
+                            )
+                          }
+                        >
+                          {endpoint.enabled ? 'Enabled' : 'Disabled'}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button size="icon" variant="ghost" title="Signing secret" onClick={() => setSecretFor(endpoint)}>
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" title="Edit" onClick={() => openEditor(endpoint)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Delete"
+                            className="text-destructive"
+                            onClick={() => setDeleting(endpoint)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Deliveries</CardTitle>
+          <CardDescription>
+            Failed deliveries are retried with exponential backoff when the cron job runs
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      <p className="text-muted-foreground">No deliveries yet</p>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell>
+                        <button type="button" className="font-mono text-sm hover:underline" onClick={() => setInspecting(delivery)}>
+                          {delivery.event}
+                        </button>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{delivery.endpointUrl}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant[delivery.status]}>{delivery.status}</Badge>
+                        {delivery.nextAttemptAt && delivery.status === 'PENDING' && (
+                          <p className="text-xs text-muted-foreground">
+                            Retry {format(delivery.nextAttemptAt, 'MMM d, HH:mm')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={delivery.error ?? undefined}>
+                        {delivery.responseStatus ?? delivery.error ?? '-'}
+                      </TableCell>
+                      <TableCell>{format(delivery.createdAt, 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === delivery.id}
+                          onClick={() => handleResend(delivery)}
+                        >
+                          {busyId === delivery.id ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                          )}
+                          Resend
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editing === 'new' ? 'Add Endpoint' : 'Edit Endpoint'}</DialogTitle>
+              <DialogDescription>Events are POSTed to this URL as JSON.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  required
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/webhooks/newsloop"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description (optional)</Label>
+                <Input
+                  id="webhook-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  maxLength={200}
+                  placeholder="e.g. Mobile app cache"
+                />
+              </div>
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">Events</legend>
+                {events.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedEvents.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                    />
+                    <span className="font-mono">{event}</span>
+                  </label>
+                ))}
+              </fieldset>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || selectedEvents.length === 0}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={secretFor !== null} onOpenChange={(open) => !open && setSecretFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Verify the svix-id, svix-timestamp and svix-signature headers with this secret,
+              e.g. <code>new Webhook(secret).verify(body, headers)</code> from the svix package.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2 py-4">
+            <Input readOnly value={secretFor?.secret ?? ''} className="font-mono" />
+            <Button type="button" size="icon" variant="outline" onClick={() => secretFor && copySecret(secretFor.secret)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={secretFor !== null && busyId === secretFor.id}
+              onClick={() =>
+                secretFor &&
+                run(secretFor.id, async () => {
+                  await onRotateSecret(secretFor.id);
+                  setSecretFor(null);
+                }, 'Secret rotated')
+              }
+            >
+              Rotate Secret
+            </Button>
+            <Button type="button" onClick={() => setSecretFor(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={inspecting !== null} onOpenChange={(open) => !open && setInspecting(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{inspecting?.event}</DialogTitle>
+            <DialogDescription>{inspecting?.endpointUrl}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Payload</Label>
+              <pre className="mt-1 max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+                {inspecting && JSON.stringify(JSON.parse(inspecting.payload), null, 2)}
+              </pre>
+            </div>
+            <div>
+              <Label>Last Response</Label>
+              <pre className="mt-1 max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">
+                {inspecting?.responseStatus ?? inspecting?.error ?? 'No response'}
+                {inspecting?.responseBody ? `\n\n${inspecting.responseBody}` : ''}
+              </pre>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Endpoint</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {deleting?.url} and its delivery log? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (!deleting) return;
+                run(deleting.id, async () => {
+                  await onDelete(deleting.id);
+                  setDeleting(null);
+                }, 'Endpoint deleted');
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
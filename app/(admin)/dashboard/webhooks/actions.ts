@@ -0,0 +1,115 @@
+'use server';
+
+import { requireAdmin } from '@/lib/auth';
+import { webhookService } from '@/lib/admin/webhooks';
+import { logActivity } from '@/lib/admin/logger';
+import { resendDelivery as resendWebhookDelivery } from '@/lib/webhooks';
+import { validateBody, webhookEndpointSchema, type WebhookEndpointInput } from '@/lib/security/api-schemas';
+import { revalidatePath } from 'next/cache';
+
+function parseEndpoint(input: WebhookEndpointInput): WebhookEndpointInput {
+  const validation = validateBody(input, webhookEndpointSchema);
+  if (!validation.success) {
+    throw new Error(validation.details?.[0]?.message ?? 'Invalid webhook endpoint');
+  }
+  return validation.data!;
+}
+
+export async function createWebhook(input: WebhookEndpointInput) {
+  const user = await requireAdmin();
+  const data = parseEndpoint(input);
+
+  const endpoint = await webhookService.createEndpoint({ ...data, createdById: user.id });
+
+  await logActivity({
+    action: 'CREATE_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: endpoint.id,
+    userId: user.id,
+    details: { url: endpoint.url, events: endpoint.events },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+}
+
+export async function updateWebhook(id: string, input: WebhookEndpointInput) {
+  const user = await requireAdmin();
+  const data = parseEndpoint(input);
+
+  const endpoint = await webhookService.updateEndpoint(id, {
+    ...data,
+    description: data.description ?? null,
+  });
+
+  await logActivity({
+    action: 'UPDATE_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: id,
+    userId: user.id,
+    details: { url: endpoint.url, events: endpoint.events },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+}
+
+export async function setWebhookEnabled(id: string, enabled: boolean) {
+  const user = await requireAdmin();
+  const endpoint = await webhookService.updateEndpoint(id, { enabled });
+
+  await logActivity({
+    action: 'UPDATE_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: id,
+    userId: user.id,
+    details: { url: endpoint.url, enabled },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+}
+
+export async function rotateWebhookSecret(id: string) {
+  const user = await requireAdmin();
+  const endpoint = await webhookService.rotateSecret(id);
+
+  await logActivity({
+    action: 'UPDATE_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: id,
+    userId: user.id,
+    details: { url: endpoint.url, action: 'rotate-secret' },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+}
+
+export async function deleteWebhook(id: string) {
+  const user = await requireAdmin();
+  const endpoint = await webhookService.deleteEndpoint(id);
+
+  await logActivity({
+    action: 'DELETE_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: id,
+    userId: user.id,
+    details: { url: endpoint.url },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+}
+
+export async function resendDelivery(id: string) {
+  const user = await requireAdmin();
+  const delivery = await resendWebhookDelivery(id);
+
+  await logActivity({
+    action: 'RESEND_WEBHOOK',
+    entityType: 'WEBHOOK',
+    entityId: delivery.endpointId,
+    userId: user.id,
+    details: { deliveryId: id, event: delivery.event, status: delivery.status },
+  });
+
+  revalidatePath('/dashboard/webhooks');
+
+  return { status: delivery.status, responseStatus: delivery.responseStatus };
+}
@@ -0,0 +1,71 @@
+import { requireAdmin } from '@/lib/auth/roles';
+import { webhookService } from '@/lib/admin/webhooks';
+import { WEBHOOK_EVENTS } from '@/lib/webhooks/types';
+import { Sidebar, AdminHeader } from '@/components/admin/Sidebar';
+import { WebhooksClient } from './WebhooksClient';
+import {
+  createWebhook,
+  updateWebhook,
+  setWebhookEnabled,
+  rotateWebhookSecret,
+  deleteWebhook,
+  resendDelivery,
+} from './actions';
+
+export default async function WebhooksPage() {
+  await requireAdmin();
+
+  const [endpoints, deliveries] = await Promise.all([
+    webhookService.getEndpoints(),
+    webhookService.getDeliveries(),
+  ]);
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar />
+      <div className="flex-1">
+        <AdminHeader title="Webhooks" />
+        <main className="p-4 md:p-6">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold">Webhooks</h2>
+            <p className="text-muted-foreground">
+              Notify other systems when content is published, updated or removed
+            </p>
+          </div>
+
+          <WebhooksClient
+            events={[...WEBHOOK_EVENTS]}
+            endpoints={endpoints.map((endpoint) => ({
+              id: endpoint.id,
+              url: endpoint.url,
+              description: endpoint.description,
+              events: endpoint.events,
+              enabled: endpoint.enabled,
+              secret: endpoint.secret,
+              deliveryCount: endpoint._count.deliveries,
+            }))}
+            deliveries={deliveries.map((delivery) => ({
+              id: delivery.id,
+              endpointUrl: delivery.endpoint.url,
+              event: delivery.event,
+              status: delivery.status,
+              attempts: delivery.attempts,
+              responseStatus: delivery.responseStatus,
+              error: delivery.error,
+              payload: delivery.payload,
+              responseBody: delivery.responseBody,
+              createdAt: delivery.createdAt,
+              nextAttemptAt: delivery.nextAttemptAt,
+            }))}
+            onCreate={createWebhook}
+            onUpdate={updateWebhook}
+            onToggle={setWebhookEnabled}
+            onRotateSecret={rotateWebhookSecret}
+            onDelete={deleteWebhook}
+            onResend={resendDelivery}
+          />
+        </main>
+      </div>
+    </div>
+  );
+}
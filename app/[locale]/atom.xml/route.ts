@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getLocaleFeed, handleFeedRequest } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /[locale]/atom.xml - Atom feed of the latest posts in a locale
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string }> }
+) {
+  const { locale } = await params;
+  return handleFeedRequest(request, 'atom', () => getLocaleFeed(locale));
+}
@@ -0,0 +1,35 @@
+import { isValidLocale, defaultLocale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { getFallbackPost } from "@/lib/posts";
+import { renderOgImage } from "@/lib/og";
+import { OG_IMAGE_SIZE, siteName } from "@/lib/seo";
+
+export const alt = siteName;
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+interface PostImageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+/**
+ * Open Graph card for a blog post with its title, category and author.
+ * Unknown posts get a plain site card.
+ */
+export default async function Image({ params }: PostImageProps) {
+  const { locale, slug } = await params;
+  const validLocale = isValidLocale(locale) ? locale : defaultLocale;
+  const result = await getFallbackPost(slug, validLocale);
+
+  if (!result) {
+    return renderOgImage({ title: siteName, locale: validLocale });
+  }
+
+  const { post } = result;
+  return renderOgImage({
+    title: post.title,
+    eyebrow: post.category,
+    byline: `${t("blog.by", validLocale)} ${post.author.name}`,
+    locale: validLocale,
+  });
+}
@@ -1,4 +1,4 @@
-import { notFound } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import type { Metadata } from "next";
 import { isValidLocale, defaultLocale, type Locale } from "@/lib/i18n/config";
 import { t } from "@/lib/i18n/translations";
@@ -7,9 +7,11 @@ import { PostHeader } from "@/components/PostHeader";
 import { PostContent } from "@/components/PostContent";
 import { RelatedPosts } from "@/components/RelatedPosts";
 import { PostTags } from "@/components/PostTags";
+import { CommentSection } from "@/components/CommentSection";
 import { LocaleFallbackNotice } from "@/components/LocaleFallbackNotice";
 import { PageViewTracker } from "@/components/PageViewTracker";
 import { generatePostMetadata } from "@/lib/seo";
+import { getApprovedComments } from "@/lib/comments";
 import { ArticleJsonLd } from "@/components/JsonLd";
 import Image from "next/image";
 
@@ -63,8 +65,9 @@ export async function generateMetadata({
 }
 
 /**
- * Blog post page with full content, header, and related posts.
- * Handles locale fallback with notice.
+ * Blog post page with full content, header, related posts and comments.
+ * Handles locale fallback with notice and redirects to the localized slug
+ * of a translation.
  * Requirements: 2.1, 2.2, 2.5, 9.4, 9.5
  */
 export default async function BlogPostPage({ params }: BlogPostPageProps) {
@@ -82,7 +85,16 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
   }
 
   const { post, isFallback } = result;
-  const relatedPosts = await getRelatedPosts(post, 3);
+
+  // The slug belonged to another locale version; move to this locale's own slug
+  if (!isFallback && post.slug !== slug) {
+    redirect(`/${validLocale}/blog/${post.slug}`);
+  }
+
+  const [relatedPosts, comments] = await Promise.all([
+    getRelatedPosts(post, 3),
+    getApprovedComments(post.id),
+  ]);
 
   return (
     <>
@@ -137,6 +149,9 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
             title={t("blog.relatedPosts", validLocale)}
           />
         )}
+
+        {/* Reader Comments */}
+        <CommentSection postId={post.id} locale={validLocale} comments={comments} />
       </article>
     </>
   );
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getCategoryFeed, handleFeedRequest } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /[locale]/category/[category]/atom.xml - Atom feed of a category
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string; category: string }> }
+) {
+  const { locale, category } = await params;
+  return handleFeedRequest(request, 'atom', () => getCategoryFeed(locale, decodeURIComponent(category)));
+}
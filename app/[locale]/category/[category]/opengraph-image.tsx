@@ -0,0 +1,34 @@
+import { isValidLocale, defaultLocale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { categoryService } from "@/lib/admin/categories";
+import { renderOgImage } from "@/lib/og";
+import { OG_IMAGE_SIZE, siteName } from "@/lib/seo";
+
+export const alt = siteName;
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+interface CategoryImageProps {
+  params: Promise<{ locale: string; category: string }>;
+}
+
+/**
+ * Open Graph card for a category page.
+ * Unknown categories get a plain site card.
+ */
+export default async function Image({ params }: CategoryImageProps) {
+  const { locale, category } = await params;
+  const validLocale = isValidLocale(locale) ? locale : defaultLocale;
+  const categoryData = await categoryService.getCategoryBySlug(decodeURIComponent(category));
+
+  if (!categoryData) {
+    return renderOgImage({ title: siteName, locale: validLocale });
+  }
+
+  return renderOgImage({
+    title: categoryData.name,
+    eyebrow: t("common.categories", validLocale),
+    byline: t("news.categoryDescription", validLocale, { category: categoryData.name }),
+    locale: validLocale,
+  });
+}
@@ -1,11 +1,13 @@
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 import { isValidLocale, type Locale } from "@/lib/i18n/config";
-import { generateCategoryMetadata } from "@/lib/seo";
+import { generateCategoryMetadata, getCategoryBreadcrumbItems } from "@/lib/seo";
+import { t } from "@/lib/i18n/translations";
 import { categoryService } from "@/lib/admin/categories";
 import { toPostPreview } from "@/lib/posts";
 import { NewsPageLayout } from "@/components/news/NewsPageLayout";
 import { CategoryBreadcrumb } from "@/components/CategoryBreadcrumb";
+import { BreadcrumbJsonLd } from "@/components/JsonLd";
 import { SubCategoryNav } from "@/components/news/SubCategoryNav";
 
 interface CategoryPageProps {
@@ -114,6 +116,9 @@ export default async function CategoryPage({
       {/* Breadcrumb Navigation */}
       {currentCategoryData && (
         <div className="mb-6">
+          <BreadcrumbJsonLd
+            items={getCategoryBreadcrumbItems(validLocale, t("common.home", validLocale), ancestors, currentCategoryData)}
+          />
           <CategoryBreadcrumb
             ancestors={ancestors.map(a => ({ id: a.id, name: a.name, slug: a.slug }))}
             currentCategory={{ id: currentCategoryData.id, name: currentCategoryData.name, slug: currentCategoryData.slug }}
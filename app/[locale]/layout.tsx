@@ -2,6 +2,7 @@ import { notFound } from "next/navigation";
 import { locales, isValidLocale, type Locale } from "@/lib/i18n/config";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
+import { OrganizationJsonLd, WebsiteJsonLd } from "@/components/JsonLd";
 import prisma from "@/lib/db/prisma";
 import { postCache } from "@/lib/cache/posts";
 
@@ -73,6 +74,9 @@ export default async function LocaleLayout({
 
   return (
     <div className="min-h-screen flex flex-col">
+      {/* Site-wide structured data: publisher and site search */}
+      <OrganizationJsonLd />
+      <WebsiteJsonLd locale={validLocale} />
       <Header locale={validLocale} initialCategories={categories} />
       <main className="flex-1">{children}</main>
       <Footer locale={validLocale} />
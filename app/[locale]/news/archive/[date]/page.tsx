@@ -0,0 +1,127 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { isValidLocale, type Locale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { getArchivedNews, parseArchiveDate } from "@/lib/news/archive";
+import { NewsList } from "@/components/NewsList";
+
+interface NewsArchiveDayPageProps {
+  params: Promise<{ locale: string; date: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+function formatArchiveDate(day: Date, locale: Locale): string {
+  return new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  }).format(day);
+}
+
+/**
+ * Generate metadata for a news archive day.
+ */
+export async function generateMetadata({
+  params,
+}: NewsArchiveDayPageProps): Promise<Metadata> {
+  const { locale, date } = await params;
+  const day = parseArchiveDate(date);
+
+  if (!isValidLocale(locale) || !day) {
+    return { title: "Not Found" };
+  }
+
+  const validLocale = locale as Locale;
+  const title = t("news.archiveDay", validLocale, { date: formatArchiveDate(day, validLocale) });
+  const description = t("news.archiveDescription", validLocale);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+    },
+  };
+}
+
+/**
+ * External news stored on one UTC day, newest first.
+ */
+export default async function NewsArchiveDayPage({
+  params,
+  searchParams,
+}: NewsArchiveDayPageProps) {
+  const { locale, date } = await params;
+  const { page } = await searchParams;
+  const day = parseArchiveDate(date);
+
+  if (!isValidLocale(locale) || !day) {
+    notFound();
+  }
+
+  const validLocale = locale as Locale;
+  const currentPage = Math.max(1, parseInt(page || "1", 10) || 1);
+  const newsResponse = await getArchivedNews(validLocale, day, currentPage);
+  const formattedDate = formatArchiveDate(day, validLocale);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6" aria-label="Breadcrumb">
+        <ol className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <li>
+            <Link
+              href={`/${validLocale}/news`}
+              className="hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              {t("news.title", validLocale)}
+            </Link>
+          </li>
+          <li>
+            <span className="mx-2">/</span>
+          </li>
+          <li>
+            <Link
+              href={`/${validLocale}/news/archive`}
+              className="hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              {t("news.archive", validLocale)}
+            </Link>
+          </li>
+          <li>
+            <span className="mx-2">/</span>
+          </li>
+          <li className="font-medium text-gray-900 dark:text-gray-100">
+            {formattedDate}
+          </li>
+        </ol>
+      </nav>
+
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          {t("news.archiveDay", validLocale, { date: formattedDate })}
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {t("news.archiveCount", validLocale, { count: newsResponse.totalResults })}
+        </p>
+      </div>
+
+      {/* News List */}
+      <NewsList
+        articles={newsResponse.articles}
+        currentPage={newsResponse.page}
+        totalPages={newsResponse.totalPages}
+        basePath={`/${validLocale}/news/archive/${date}`}
+        locale={validLocale}
+        emptyMessage={t("news.archiveEmpty", validLocale)}
+        emptyActionLabel={t("news.backToArchive", validLocale)}
+        emptyActionHref={`/${validLocale}/news/archive`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { isValidLocale, type Locale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { getNewsArchiveDays } from "@/lib/news/archive";
+import type { NewsArchiveDay } from "@/lib/news/types";
+
+interface NewsArchivePageProps {
+  params: Promise<{ locale: string }>;
+}
+
+/**
+ * Generate metadata for the news archive page.
+ */
+export async function generateMetadata({
+  params,
+}: NewsArchivePageProps): Promise<Metadata> {
+  const { locale } = await params;
+
+  if (!isValidLocale(locale)) {
+    return { title: "Not Found" };
+  }
+
+  const validLocale = locale as Locale;
+  const title = t("news.archiveTitle", validLocale);
+  const description = t("news.archiveDescription", validLocale);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+    },
+  };
+}
+
+/**
+ * News archive index: days with stored external articles, grouped by month.
+ */
+export default async function NewsArchivePage({ params }: NewsArchivePageProps) {
+  const { locale } = await params;
+
+  if (!isValidLocale(locale)) {
+    notFound();
+  }
+
+  const validLocale = locale as Locale;
+  const days = await getNewsArchiveDays(validLocale);
+
+  // Days arrive newest first, so months do too
+  const months = new Map<string, NewsArchiveDay[]>();
+  for (const day of days) {
+    const month = day.date.slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), day]);
+  }
+
+  const monthFormat = new Intl.DateTimeFormat(validLocale, {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+  const dayFormat = new Intl.DateTimeFormat(validLocale, {
+    weekday: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Breadcrumb */}
+      <nav className="mb-6" aria-label="Breadcrumb">
+        <ol className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <li>
+            <Link
+              href={`/${validLocale}/news`}
+              className="hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              {t("news.title", validLocale)}
+            </Link>
+          </li>
+          <li>
+            <span className="mx-2">/</span>
+          </li>
+          <li className="font-medium text-gray-900 dark:text-gray-100">
+            {t("news.archive", validLocale)}
+          </li>
+        </ol>
+      </nav>
+
+      {/* Page Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          {t("news.archiveTitle", validLocale)}
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {t("news.archiveDescription", validLocale)}
+        </p>
+      </div>
+
+      {months.size === 0 ? (
+        <p className="text-center py-12 text-gray-500 dark:text-gray-400">
+          {t("news.archiveEmpty", validLocale)}
+        </p>
+      ) : (
+        <div className="space-y-10">
+          {[...months].map(([month, monthDays]) => (
+            <section key={month}>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                {monthFormat.format(new Date(`${month}-01T00:00:00Z`))}
+              </h2>
+              <ul className="grid gap-3 grid-cols-2 sm:grid-cols-4 lg:grid-cols-7">
+                {monthDays.map((day) => (
+                  <li key={day.date}>
+                    <Link
+                      href={`/${validLocale}/news/archive/${day.date}`}
+                      className="block rounded-lg border border-gray-200 dark:border-gray-800 p-3 hover:border-blue-400 dark:hover:border-blue-600 transition-colors"
+                    >
+                      <span className="block font-medium text-gray-900 dark:text-gray-100">
+                        {dayFormat.format(new Date(`${day.date}T00:00:00Z`))}
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {t("news.archiveCount", validLocale, { count: day.count })}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
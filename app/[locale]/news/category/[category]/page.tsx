@@ -3,7 +3,7 @@ import Link from "next/link";
 import type { Metadata } from "next";
 import { isValidLocale, type Locale } from "@/lib/i18n/config";
 import { t } from "@/lib/i18n/translations";
-import { getNewsService } from "@/lib/news/service";
+import { getNewsService, NEWS_PAGE_SIZE } from "@/lib/news/service";
 import { NEWS_CATEGORY_LIST } from "@/lib/news/types";
 import { NewsList } from "@/components/NewsList";
 import { NewsFilter } from "@/components/NewsFilter";
@@ -14,8 +14,6 @@ interface NewsCategoryPageProps {
   searchParams: Promise<{ page?: string }>;
 }
 
-const NEWS_PER_PAGE = 12;
-
 /**
  * Generate static params for all news categories.
  */
@@ -91,7 +89,7 @@ export default async function NewsCategoryPage({
   const newsService = getNewsService();
 
   // Check if news service is available
-  if (!newsService.isAvailable()) {
+  if (!newsService.isAvailable(validLocale)) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center py-12">
@@ -112,7 +110,7 @@ export default async function NewsCategoryPage({
     newsResponse = await newsService.getNewsByCategory(category, {
       locale: validLocale,
       page: currentPage,
-      pageSize: NEWS_PER_PAGE,
+      pageSize: NEWS_PAGE_SIZE,
     });
   } catch (error) {
     console.error("Failed to fetch news:", error);
@@ -120,7 +118,7 @@ export default async function NewsCategoryPage({
       articles: [],
       totalResults: 0,
       page: 1,
-      pageSize: NEWS_PER_PAGE,
+      pageSize: NEWS_PAGE_SIZE,
       totalPages: 0,
     };
   }
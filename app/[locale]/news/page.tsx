@@ -1,8 +1,9 @@
 import { notFound } from "next/navigation";
+import Link from "next/link";
 import type { Metadata } from "next";
 import { isValidLocale, type Locale } from "@/lib/i18n/config";
 import { t } from "@/lib/i18n/translations";
-import { getNewsService } from "@/lib/news/service";
+import { getNewsService, NEWS_PAGE_SIZE } from "@/lib/news/service";
 import { NewsList } from "@/components/NewsList";
 import { NewsFilter } from "@/components/NewsFilter";
 import { NewsSearch } from "@/components/NewsSearch";
@@ -12,8 +13,6 @@ interface NewsPageProps {
   searchParams: Promise<{ page?: string; q?: string }>;
 }
 
-const NEWS_PER_PAGE = 12;
-
 /**
  * Generate metadata for the news page.
  * @requirements 7.2
@@ -63,7 +62,7 @@ export default async function NewsPage({ params, searchParams }: NewsPageProps)
   const newsService = getNewsService();
 
   // Check if news service is available
-  if (!newsService.isAvailable()) {
+  if (!newsService.isAvailable(validLocale)) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center py-12">
@@ -73,6 +72,12 @@ export default async function NewsPage({ params, searchParams }: NewsPageProps)
           <p className="text-gray-500 dark:text-gray-400">
             {t("news.unavailable", validLocale)}
           </p>
+          <Link
+            href={`/${validLocale}/news/archive`}
+            className="mt-4 inline-block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {t("news.archive", validLocale)} →
+          </Link>
         </div>
       </div>
     );
@@ -85,13 +90,13 @@ export default async function NewsPage({ params, searchParams }: NewsPageProps)
       newsResponse = await newsService.searchNews(searchQuery, {
         locale: validLocale,
         page: currentPage,
-        pageSize: NEWS_PER_PAGE,
+        pageSize: NEWS_PAGE_SIZE,
       });
     } else {
       newsResponse = await newsService.getNews({
         locale: validLocale,
         page: currentPage,
-        pageSize: NEWS_PER_PAGE,
+        pageSize: NEWS_PAGE_SIZE,
       });
     }
   } catch (error) {
@@ -100,7 +105,7 @@ export default async function NewsPage({ params, searchParams }: NewsPageProps)
       articles: [],
       totalResults: 0,
       page: 1,
-      pageSize: NEWS_PER_PAGE,
+      pageSize: NEWS_PAGE_SIZE,
       totalPages: 0,
     };
   }
@@ -119,6 +124,12 @@ export default async function NewsPage({ params, searchParams }: NewsPageProps)
         <p className="text-gray-600 dark:text-gray-400">
           {t("news.subtitle", validLocale)}
         </p>
+        <Link
+          href={`/${validLocale}/news/archive`}
+          className="mt-2 inline-block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {t("news.archive", validLocale)} →
+        </Link>
       </div>
 
       {/* Search and Filter Section */}
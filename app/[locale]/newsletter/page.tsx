@@ -0,0 +1,82 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { isValidLocale, type Locale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { siteUrl } from "@/lib/seo";
+import { categoryService } from "@/lib/admin/categories";
+import { SubscribeForm } from "@/components/SubscribeForm";
+
+interface NewsletterPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ status?: string }>;
+}
+
+// Outcome of a confirm or unsubscribe link, set by the newsletter API routes
+const STATUS_MESSAGES = {
+  confirmed: "newsletter.confirmed",
+  unsubscribed: "newsletter.unsubscribed",
+  invalid: "newsletter.invalidToken",
+} as const;
+
+export async function generateMetadata({ params }: NewsletterPageProps): Promise<Metadata> {
+  const { locale } = await params;
+
+  if (!isValidLocale(locale)) {
+    return { title: "Not Found" };
+  }
+
+  return {
+    title: t("newsletter.title", locale),
+    description: t("newsletter.subscribeDescription", locale),
+    alternates: { canonical: `${siteUrl}/${locale}/newsletter` },
+  };
+}
+
+/**
+ * Newsletter sign-up with category preferences. Also shows the result of
+ * confirm and unsubscribe links.
+ */
+export default async function NewsletterPage({ params, searchParams }: NewsletterPageProps) {
+  const { locale } = await params;
+  const { status } = await searchParams;
+
+  if (!isValidLocale(locale)) {
+    notFound();
+  }
+
+  const validLocale = locale as Locale;
+  const messageKey = status && status in STATUS_MESSAGES ? STATUS_MESSAGES[status as keyof typeof STATUS_MESSAGES] : null;
+
+  let categories: { name: string; slug: string }[] = [];
+  try {
+    categories = (await categoryService.getAllCategories()).map(({ name, slug }) => ({ name, slug }));
+  } catch (error) {
+    console.error("Error fetching newsletter categories:", error);
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+        {t("newsletter.subscribeTitle", validLocale)}
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        {t("newsletter.subscribeDescription", validLocale)}
+      </p>
+
+      {messageKey && (
+        <div
+          role="status"
+          className={`mb-8 p-4 rounded-md text-sm ${
+            status === "invalid"
+              ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300"
+              : "bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300"
+          }`}
+        >
+          {t(messageKey, validLocale)}
+        </div>
+      )}
+
+      <SubscribeForm locale={validLocale} categories={categories} />
+    </div>
+  );
+}
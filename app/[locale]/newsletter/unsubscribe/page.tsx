@@ -0,0 +1,59 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { isValidLocale, type Locale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+
+interface UnsubscribePageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
+
+export async function generateMetadata({ params }: UnsubscribePageProps): Promise<Metadata> {
+  const { locale } = await params;
+
+  if (!isValidLocale(locale)) {
+    return { title: "Not Found" };
+  }
+
+  return {
+    title: t("newsletter.unsubscribeTitle", locale),
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * Confirmation step of an unsubscribe link. Opening the link changes
+ * nothing, so mail scanners and link prefetchers cannot unsubscribe anyone;
+ * the form POSTs to the API route, which redirects back with the outcome.
+ */
+export default async function UnsubscribePage({ params, searchParams }: UnsubscribePageProps) {
+  const { locale } = await params;
+  const { token } = await searchParams;
+
+  if (!isValidLocale(locale) || !token) {
+    notFound();
+  }
+
+  const validLocale = locale as Locale;
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+        {t("newsletter.unsubscribeTitle", validLocale)}
+      </h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        {t("newsletter.unsubscribeConfirm", validLocale)}
+      </p>
+
+      <form method="post" action={`/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}`}>
+        <input type="hidden" name="confirm" value="page" />
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white transition-colors"
+        >
+          {t("newsletter.unsubscribeButton", validLocale)}
+        </button>
+      </form>
+    </div>
+  );
+}
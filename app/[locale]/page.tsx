@@ -2,7 +2,6 @@ import { notFound } from "next/navigation";
 import type { Metadata } from "next";
 import { isValidLocale, type Locale } from "@/lib/i18n/config";
 import { generateHomeMetadata } from "@/lib/seo";
-import { WebsiteJsonLd } from "@/components/JsonLd";
 import { HomepageClient } from "./HomepageClient";
 
 interface HomePageProps {
@@ -67,9 +66,6 @@ export default async function HomePage({ params }: HomePageProps) {
 
   return (
     <>
-      {/* JSON-LD Structured Data for SEO */}
-      <WebsiteJsonLd locale={validLocale} />
-
       <HomepageClient
         locale={validLocale}
         initialData={homepageData}
@@ -3,15 +3,19 @@ import Link from "next/link";
 import type { Metadata } from "next";
 import { isValidLocale, type Locale } from "@/lib/i18n/config";
 import { t } from "@/lib/i18n/translations";
-import { getAllPosts } from "@/lib/posts";
-import { search } from "@/lib/search";
+import { buildSearchUrl, hasActiveFilters, parseSearchFilters, searchPosts } from "@/lib/search";
+import { getDidYouMean } from "@/lib/suggest";
+import { searchExternalArticles } from "@/lib/news/archive";
 import { SearchBar } from "@/components/SearchBar";
 import { SearchResultCard } from "@/components/SearchResultCard";
+import { ExternalSearchResultCard } from "@/components/ExternalSearchResultCard";
+import { SearchFilters } from "@/components/SearchFilters";
+import { Pagination } from "@/components/Pagination";
 import { generateSearchMetadata } from "@/lib/seo";
 
 interface SearchPageProps {
   params: Promise<{ locale: string }>;
-  searchParams: Promise<{ q?: string }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }
 
 /**
@@ -29,13 +33,15 @@ export async function generateMetadata({
     return { title: "Not Found" };
   }
 
-  const query = q?.trim() || "";
+  const query = (typeof q === "string" && q.trim()) || "";
 
   return generateSearchMetadata(locale as Locale, query || undefined);
 }
 
 /**
- * Search page with results and highlighting.
+ * Search page with results, highlighting, facet filters and sorting.
+ * Filters and sort live in the URL, e.g. ?q=next&category=tech&sort=newest.
+ * The first page also lists matching external news, badged as external.
  * Requirements: 4.1, 4.2, 4.4
  */
 export default async function SearchPage({
@@ -43,21 +49,40 @@ export default async function SearchPage({
   searchParams,
 }: SearchPageProps) {
   const { locale } = await params;
-  const { q } = await searchParams;
+  const rawParams = await searchParams;
 
   if (!isValidLocale(locale)) {
     notFound();
   }
 
   const validLocale = locale as Locale;
-  const query = q?.trim() || "";
+  const query = (typeof rawParams.q === "string" && rawParams.q.trim()) || "";
+  const page = typeof rawParams.page === "string" ? rawParams.page : "1";
+  const currentPage = Math.max(1, parseInt(page, 10) || 1);
+  const filters = parseSearchFilters(rawParams);
+  const isSearching = Boolean(query) || hasActiveFilters(filters);
+
+  // External news has no categories, tags or authors, so those filters leave it out
+  const includeExternal =
+    Boolean(query) && currentPage === 1 && !filters.category && !filters.tag && !filters.author;
+
+  // Ranked full-text search in the current locale, plus matching archived news
+  const [{ results: searchResults, total, totalPages, facets }, externalResults] = await Promise.all([
+    searchPosts(query, {
+      locale: validLocale,
+      page: currentPage,
+      filters,
+    }),
+    includeExternal
+      ? searchExternalArticles(query, { locale: validLocale, from: filters.from, to: filters.to })
+      : Promise.resolve([]),
+  ]);
 
-  // Fetch all posts and search
-  const allPosts = await getAllPosts();
-  const searchResults = search(query, allPosts);
+  // Spelling hint when a query finds nothing
+  const didYouMean = query && total === 0 ? await getDidYouMean(query, validLocale) : null;
 
   return (
-    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Page Header */}
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-4">
@@ -74,50 +99,111 @@ export default async function SearchPage({
 
       {/* Search Results */}
       <div>
-        {query ? (
-          <>
-            {/* Results Header */}
-            <div className="mb-6">
-              <p className="text-gray-600 dark:text-gray-400">
-                {searchResults.length > 0 ? (
-                  <>
-                    {t("blog.showingResultsFor", validLocale, { query })}
-                    {" "}
-                    <span className="font-medium">
-                      ({t("search.results", validLocale, { count: searchResults.length })})
-                    </span>
-                  </>
-                ) : (
-                  t("blog.noResults", validLocale, { query })
-                )}
-              </p>
+        {isSearching ? (
+          <div className="grid gap-8 md:grid-cols-4">
+            <div className="md:col-span-1">
+              <SearchFilters
+                locale={validLocale}
+                query={query}
+                filters={filters}
+                facets={facets}
+              />
             </div>
 
-            {/* Results List */}
-            {searchResults.length > 0 ? (
-              <div className="space-y-6">
-                {searchResults.map((result) => (
-                  <SearchResultCard
-                    key={result.post.slug}
-                    result={result}
-                    locale={validLocale}
-                  />
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-12">
-                <p className="text-gray-500 dark:text-gray-400 mb-4">
-                  {t("blog.tryDifferentSearch", validLocale)}
+            <div className="md:col-span-3">
+              {/* Results Header */}
+              <div className="mb-6">
+                <p className="text-gray-600 dark:text-gray-400">
+                  {searchResults.length > 0 ? (
+                    query ? (
+                      <>
+                        {t("blog.showingResultsFor", validLocale, { query })}
+                        {" "}
+                        <span className="font-medium">
+                          ({t("search.results", validLocale, { count: total })})
+                        </span>
+                      </>
+                    ) : (
+                      <span className="font-medium">
+                        {t("search.results", validLocale, { count: total })}
+                      </span>
+                    )
+                  ) : query ? (
+                    t("blog.noResults", validLocale, { query })
+                  ) : (
+                    t("search.noResults", validLocale)
+                  )}
                 </p>
-                <Link
-                  href={`/${validLocale}`}
-                  className="text-blue-600 dark:text-blue-400 hover:underline"
-                >
-                  ← {t("blog.allPosts", validLocale)}
-                </Link>
               </div>
-            )}
-          </>
+
+              {/* Results List */}
+              {searchResults.length > 0 ? (
+                <div className="space-y-6">
+                  {searchResults.map((result) => (
+                    <SearchResultCard
+                      key={result.post.slug}
+                      result={result}
+                      locale={validLocale}
+                    />
+                  ))}
+                  <Pagination
+                    currentPage={currentPage}
+                    totalPages={totalPages}
+                    basePath={buildSearchUrl(validLocale, query, filters)}
+                  />
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  {didYouMean && (
+                    <p className="text-lg text-gray-700 dark:text-gray-300 mb-4">
+                      {t("search.didYouMean", validLocale)}{" "}
+                      <Link
+                        href={buildSearchUrl(validLocale, didYouMean, filters)}
+                        className="font-medium italic text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {didYouMean}
+                      </Link>
+                      ?
+                    </p>
+                  )}
+                  <p className="text-gray-500 dark:text-gray-400 mb-4">
+                    {t("blog.tryDifferentSearch", validLocale)}
+                  </p>
+                  <Link
+                    href={`/${validLocale}`}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    ← {t("blog.allPosts", validLocale)}
+                  </Link>
+                </div>
+              )}
+
+              {/* Archived external news */}
+              {externalResults.length > 0 && (
+                <section className="mt-10">
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                    {t("search.externalResults", validLocale)}
+                  </h2>
+                  <div className="space-y-4">
+                    {externalResults.map((result) => (
+                      <ExternalSearchResultCard
+                        key={result.article.id}
+                        result={result}
+                        badgeLabel={t("search.external", validLocale)}
+                        locale={validLocale}
+                      />
+                    ))}
+                  </div>
+                  <Link
+                    href={`/${validLocale}/news?q=${encodeURIComponent(query)}`}
+                    className="mt-4 inline-block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {t("search.moreNews", validLocale, { query })} →
+                  </Link>
+                </section>
+              )}
+            </div>
+          </div>
         ) : (
           <div className="text-center py-12">
             <p className="text-gray-500 dark:text-gray-400">
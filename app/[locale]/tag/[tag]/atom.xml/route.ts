@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { getTagFeed, handleFeedRequest } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /[locale]/tag/[tag]/atom.xml - Atom feed of a tag
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locale: string; tag: string }> }
+) {
+  const { locale, tag } = await params;
+  return handleFeedRequest(request, 'atom', () => getTagFeed(locale, decodeURIComponent(tag)));
+}
@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { verifyAdminRole } from '@/lib/auth/roles';
+import { logActivity } from '@/lib/admin/logger';
+import { ensureUserExists } from '@/lib/admin/users';
+import {
+  ArchiveError,
+  RestoreInterruptedError,
+  decodeStream,
+  exportArchiveLines,
+  restoreArchive,
+  splitLines,
+  toReadableStream,
+  type RestoreReport,
+} from '@/lib/archive';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import { validateMethod, createUnauthorizedResponse, createForbiddenResponse } from '@/lib/security/headers';
+import {
+  archiveRestoreQuerySchema,
+  validateQuery,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+
+const ALLOWED_METHODS = ['GET', 'POST'] as const;
+
+/**
+ * Audit-logs a restore that wrote to the database, including one that
+ * stopped part-way
+ */
+async function logRestore(userId: string, conflict: string, report: RestoreReport, error?: string) {
+  if (report.dryRun) return;
+
+  await logActivity({
+    action: 'RESTORE_ARCHIVE',
+    entityType: 'SYSTEM',
+    userId,
+    details: { conflict, counts: report.counts, warnings: report.warnings.length, ...(error ? { error } : {}) },
+  });
+}
+
+/**
+ * GET /api/admin/archive
+ * Download the whole site as an NDJSON archive
+ * Requirements: 4.1, 5.4 - Rate limiting applied, method validation
+ */
+export async function GET(request: Request) {
+  // Validate HTTP method - Requirements: 5.4
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    // Apply rate limiting for admin endpoints
+    const rateLimitResult = await applyRateLimit(request, 'ADMIN');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const user = await verifyAdminRole();
+    await ensureUserExists(user);
+
+    await logActivity({
+      action: 'EXPORT_ARCHIVE',
+      entityType: 'SYSTEM',
+      userId: user.id,
+    });
+
+    const now = new Date();
+    const filename = `newsloop-archive-${now.toISOString().slice(0, 10)}.ndjson`;
+
+    return new Response(toReadableStream(exportArchiveLines(now)), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return createUnauthorizedResponse();
+      }
+      if (error.message === 'Admin role required') {
+        return createForbiddenResponse();
+      }
+    }
+    console.error('Error exporting archive:', error);
+    return NextResponse.json({ error: 'Failed to export archive' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/archive?conflict=skip|overwrite|rename&dryRun=true&author=<userId>
+ * Restore an NDJSON archive sent as the request body
+ * Requirements: 4.1, 5.4 - Rate limiting applied, method validation, 8.1 - Zod schema validation
+ */
+export async function POST(request: Request) {
+  // Validate HTTP method - Requirements: 5.4
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    // Apply rate limiting for admin endpoints
+    const rateLimitResult = await applyRateLimit(request, 'ADMIN');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const user = await verifyAdminRole();
+    await ensureUserExists(user);
+
+    // Validate query with Zod schema - Requirements: 8.1
+    const { searchParams } = new URL(request.url);
+    const validation = validateQuery(searchParams, archiveRestoreQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    if (!request.body) {
+      return NextResponse.json({ error: 'Archive body is required' }, { status: 400 });
+    }
+
+    const { conflict, dryRun, author } = validation.data!;
+    try {
+      const report = await restoreArchive(splitLines(decodeStream(request.body)), {
+        conflict,
+        dryRun,
+        defaultAuthorId: author ?? user.id,
+      });
+      await logRestore(user.id, conflict, report);
+      return NextResponse.json({ report });
+    } catch (error) {
+      // Records before the failure stay restored; report them with the error
+      if ((error instanceof ArchiveError || error instanceof RestoreInterruptedError) && error.report) {
+        await logRestore(user.id, conflict, error.report, error.message);
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return NextResponse.json({ error: error.message, report: error.report }, { status: 400 });
+    }
+    if (error instanceof RestoreInterruptedError) {
+      console.error('Error restoring archive:', error.cause);
+      return NextResponse.json({ error: 'Failed to restore archive', report: error.report }, { status: 500 });
+    }
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return createUnauthorizedResponse();
+      }
+      if (error.message === 'Admin role required') {
+        return createForbiddenResponse();
+      }
+    }
+    console.error('Error restoring archive:', error);
+    return NextResponse.json({ error: 'Failed to restore archive' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRole } from '@/lib/auth/roles';
+import { adminPostService } from '@/lib/admin/posts';
+import { PostWorkflowError } from '@/lib/admin/workflow';
+import { logActivity } from '@/lib/admin/logger';
+import { ensureUserExists } from '@/lib/admin/users';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  validateMethod,
+  createUnauthorizedResponse,
+  createForbiddenResponse,
+} from '@/lib/security/headers';
+import {
+  reviewPostSchema,
+  validateBody,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+
+const ALLOWED_METHODS = ['POST'] as const;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/admin/posts/[id]/review - Approve or reject a post in review
+ * Approved posts are published, or scheduled when scheduledAt is in the future
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  // Validate HTTP method - Requirements: 5.4
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    // Apply rate limiting for admin endpoints - Requirements: 4.1
+    const rateLimitResult = await applyRateLimit(request, 'ADMIN');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    // Only admins can review posts
+    const user = await verifyAdminRole();
+    await ensureUserExists(user);
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate input with Zod schema - Requirements: 8.1
+    const validation = validateBody(body, reviewPostSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const existingPost = await adminPostService.getPostById(id);
+    if (!existingPost) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const { decision, comment } = validation.data!;
+    const actor = { id: user.id, role: user.publicMetadata.role ?? null };
+    const trimmedComment = comment?.trim();
+
+    const post =
+      decision === 'APPROVE'
+        ? await adminPostService.approvePost(id, actor, trimmedComment)
+        : await adminPostService.rejectPost(id, actor, trimmedComment!);
+
+    await logActivity({
+      action: decision === 'APPROVE' ? 'APPROVE_POST' : 'REJECT_POST',
+      entityType: 'POST',
+      entityId: id,
+      userId: user.id,
+      details: { title: existingPost.title, status: post.status, comment: trimmedComment },
+    });
+
+    return NextResponse.json({ post });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Authentication required') {
+        return createUnauthorizedResponse();
+      }
+      if (error.message === 'Admin role required') {
+        return createForbiddenResponse();
+      }
+      if (error instanceof PostWorkflowError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+    }
+    console.error('Failed to review post:', error);
+    return NextResponse.json({ error: 'Failed to review post' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyEditorRole } from '@/lib/auth/roles';
 import { adminPostService } from '@/lib/admin/posts';
+import { PostWorkflowError } from '@/lib/admin/workflow';
 import { logActivity } from '@/lib/admin/logger';
 import { ensureUserExists } from '@/lib/admin/users';
 import { applyRateLimit } from '@/lib/security/rate-limit';
@@ -99,7 +100,16 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Post not found' }, { status: 404 });
     }
 
-    const updateData = validation.data!;
+    const { translationOf, ...updateData } = validation.data!;
+
+    // Enforce editorial workflow for status changes
+    if (updateData.status && updateData.status !== existingPost.status) {
+      adminPostService.assertStatusTransition(
+        existingPost.status,
+        updateData.status,
+        user.publicMetadata.role ?? null
+      );
+    }
 
     // Sanitize HTML content if provided - Requirements: 3.2
     if (updateData.content) {
@@ -114,11 +124,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       updateData.title = updateData.title.trim();
     }
 
-    const post = await adminPostService.updatePost(id, updateData);
+    let post = await adminPostService.updatePost(id, updateData, user.id);
+
+    // Link into (or remove from) a translation group once the locale is final
+    if (translationOf !== undefined) {
+      if (translationOf === null) {
+        await adminPostService.unlinkTranslation(id);
+      } else {
+        await adminPostService.linkTranslation(id, translationOf);
+      }
+      post = (await adminPostService.getPostById(id))!;
+    }
 
     // Log activity - Requirements: 9.1
     await logActivity({
-      action: 'UPDATE_POST',
+      action:
+        updateData.status === 'IN_REVIEW' && existingPost.status !== 'IN_REVIEW'
+          ? 'SUBMIT_POST'
+          : 'UPDATE_POST',
       entityType: 'POST',
       entityId: id,
       userId: user.id,
@@ -134,6 +157,15 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       if (error.message === 'Editor role required') {
         return createForbiddenResponse();
       }
+      if (error instanceof PostWorkflowError) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.message === 'Translation source not found') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error.message.startsWith('Translation group already has')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       // Handle unique constraint violation (duplicate slug+locale)
       if (error.message.includes('Unique constraint')) {
         return NextResponse.json(
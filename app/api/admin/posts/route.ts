@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyEditorRole } from '@/lib/auth/roles';
 import { adminPostService } from '@/lib/admin/posts';
+import { PostWorkflowError } from '@/lib/admin/workflow';
 import { logActivity } from '@/lib/admin/logger';
 import { ensureUserExists } from '@/lib/admin/users';
 import { applyRateLimit } from '@/lib/security/rate-limit';
@@ -101,13 +102,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(formatValidationError(validation), { status: 400 });
     }
 
-    const { title, content, excerpt, slug, locale, status, categoryId, tagIds, scheduledAt, featured, readingTime } =
+    const { title, content, excerpt, slug, locale, status, categoryId, tagIds, scheduledAt, unpublishAt, featured, readingTime, translationOf } =
       validation.data!;
 
+    // New posts start as drafts; only the workflow decides who may skip review
+    adminPostService.assertStatusTransition('DRAFT', status, user.publicMetadata.role ?? null);
+
     // Sanitize HTML content to prevent XSS - Requirements: 3.2
     const sanitizedContent = sanitizeHtml(content);
     const sanitizedExcerpt = excerpt ? sanitizeHtml(excerpt) : undefined;
 
+    // Join the source post's translation group when creating a translation
+    const translationGroupId = translationOf
+      ? await adminPostService.resolveTranslationGroup(translationOf, locale)
+      : undefined;
+
     const post = await adminPostService.createPost({
       title: title.trim(),
       content: sanitizedContent,
@@ -119,8 +128,10 @@ export async function POST(request: NextRequest) {
       tagIds,
       authorId: user.id,
       scheduledAt,
+      unpublishAt,
       featured,
       readingTime,
+      translationGroupId,
     });
 
     // Log activity - Requirements: 9.1
@@ -141,6 +152,15 @@ export async function POST(request: NextRequest) {
       if (error.message === 'Editor role required') {
         return createForbiddenResponse();
       }
+      if (error instanceof PostWorkflowError) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      if (error.message === 'Translation source not found') {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      if (error.message.startsWith('Translation group already has')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
       // Handle unique constraint violation (duplicate slug+locale)
       if (error.message.includes('Unique constraint')) {
         return NextResponse.json(
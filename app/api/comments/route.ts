@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CommentError, submitComment } from '@/lib/comments';
+import { applyRateLimit, getClientIdentifier } from '@/lib/security/rate-limit';
+import {
+  commentSubmitSchema,
+  validateBody,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['POST'] as const;
+
+const ERROR_STATUS: Record<CommentError['code'], number> = {
+  POST_NOT_FOUND: 404,
+  PARENT_NOT_FOUND: 404,
+  MAX_DEPTH: 400,
+  EMPTY_BODY: 400,
+};
+
+/**
+ * POST /api/comments - Submit a reader comment for moderation
+ * Body: { postId, parentId?, authorName, authorEmail, body }
+ * Answers 202; the comment appears once a moderator approves it.
+ */
+export async function POST(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'COMMENT');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = validateBody(body, commentSubmitSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const ipAddress = getClientIdentifier(request);
+    await submitComment({
+      ...validation.data!,
+      ipAddress: ipAddress === 'unknown' ? undefined : ipAddress,
+    });
+
+    return NextResponse.json({ success: true, status: 'pending' }, { status: 202 });
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    console.error('Error submitting comment:', error);
+    return NextResponse.json({ error: 'Failed to submit comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { authorizeCron, respondWithCronSteps } from '@/lib/api/cron';
+import { createMailTransport, sendDigests } from '@/lib/newsletter';
+
+/**
+ * GET /api/cron/digest - Email the daily digest to confirmed newsletter
+ * subscribers; scheduled once a day in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  const authError = authorizeCron(request);
+  if (authError) return authError;
+
+  return respondWithCronSteps({
+    digests: () => sendDigests(createMailTransport()),
+  });
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { authorizeCron, respondWithCronSteps } from '@/lib/api/cron';
+import { ingestExternalArticles } from '@/lib/news/archive';
+
+/**
+ * GET /api/cron/news-ingest - Store the cached news headlines for the archive
+ * and site search; scheduled hourly in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  const authError = authorizeCron(request);
+  if (authError) return authError;
+
+  return respondWithCronSteps({
+    externalArticles: () => ingestExternalArticles(),
+  });
+}
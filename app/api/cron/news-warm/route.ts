@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { authorizeCron, respondWithCronSteps } from '@/lib/api/cron';
+import { warmNewsCache } from '@/lib/news/warm';
+
+/**
+ * GET /api/cron/news-warm - Refresh cached news category pages before they
+ * expire; scheduled every 15 minutes in vercel.json (NEWS_WARM_AHEAD_SECONDS)
+ */
+export async function GET(request: NextRequest) {
+  const authError = authorizeCron(request);
+  if (authError) return authError;
+
+  return respondWithCronSteps({
+    newsWarming: () => warmNewsCache(),
+  });
+}
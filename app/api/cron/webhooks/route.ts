@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { authorizeCron, respondWithCronSteps } from '@/lib/api/cron';
+import { processDueDeliveries } from '@/lib/webhooks';
+
+/**
+ * GET /api/cron/webhooks - Retry webhook deliveries whose backoff has
+ * elapsed; scheduled every minute in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  const authError = authorizeCron(request);
+  if (authError) return authError;
+
+  return respondWithCronSteps({
+    webhooks: () => processDueDeliveries(),
+  });
+}
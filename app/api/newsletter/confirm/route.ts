@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmSubscription } from '@/lib/newsletter';
+import { defaultLocale } from '@/lib/i18n/config';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import { newsletterTokenQuerySchema, validateQuery } from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET'] as const;
+
+/**
+ * GET /api/newsletter/confirm?token= - Confirm a pending subscription
+ * Redirects to the newsletter page with the outcome.
+ */
+export async function GET(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const validation = validateQuery(request.nextUrl.searchParams, newsletterTokenQuerySchema);
+    const subscriber = validation.success ? await confirmSubscription(validation.data!.token) : null;
+
+    const locale = subscriber?.locale ?? defaultLocale;
+    const status = subscriber ? 'confirmed' : 'invalid';
+    return NextResponse.redirect(new URL(`/${locale}/newsletter?status=${status}`, request.url));
+  } catch (error) {
+    console.error('Error confirming newsletter subscription:', error);
+    return NextResponse.json({ error: 'Failed to confirm subscription' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMailTransport, subscribe } from '@/lib/newsletter';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  newsletterSubscribeSchema,
+  validateBody,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['POST'] as const;
+
+/**
+ * POST /api/newsletter/subscribe - Start a double opt-in subscription
+ * Body: { email, locale?, categories?: string[] (category slugs) }
+ * Always answers 202 for a valid request so addresses cannot be probed.
+ */
+export async function POST(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'NEWSLETTER');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const body = await request.json().catch(() => null);
+
+    const validation = validateBody(body, newsletterSubscribeSchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    await subscribe(validation.data!, createMailTransport());
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    console.error('Error subscribing to newsletter:', error);
+    return NextResponse.json({ error: 'Failed to subscribe' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findByUnsubscribeToken, unsubscribe } from '@/lib/newsletter';
+import { defaultLocale } from '@/lib/i18n/config';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import { newsletterTokenQuerySchema, validateQuery } from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET', 'POST'] as const;
+
+function tokenFromRequest(request: NextRequest): string | null {
+  const validation = validateQuery(request.nextUrl.searchParams, newsletterTokenQuerySchema);
+  return validation.success ? validation.data!.token : null;
+}
+
+/**
+ * Whether a POST came from the confirmation page rather than a mail
+ * client's one-click request
+ */
+async function isConfirmationForm(request: NextRequest): Promise<boolean> {
+  if (!request.headers.get('content-type')?.includes('application/x-www-form-urlencoded')) {
+    return false;
+  }
+  return (await request.formData()).get('confirm') === 'page';
+}
+
+/**
+ * GET /api/newsletter/unsubscribe?token= - Unsubscribe link from an email
+ * Changes nothing: mail scanners and link prefetchers open these links, so
+ * it redirects to a confirmation page that POSTs back here.
+ */
+export async function GET(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const token = tokenFromRequest(request);
+    const subscriber = token ? await findByUnsubscribeToken(token) : null;
+    if (!token || !subscriber) {
+      return NextResponse.redirect(new URL(`/${defaultLocale}/newsletter?status=invalid`, request.url));
+    }
+
+    return NextResponse.redirect(
+      new URL(`/${subscriber.locale}/newsletter/unsubscribe?token=${encodeURIComponent(token)}`, request.url)
+    );
+  } catch (error) {
+    console.error('Error unsubscribing from newsletter:', error);
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/newsletter/unsubscribe?token= - One-click unsubscribe (RFC 8058)
+ * Sent by mail clients from the List-Unsubscribe-Post header, and by the
+ * confirmation page, which is redirected to the newsletter page with the
+ * outcome.
+ */
+export async function POST(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const token = tokenFromRequest(request);
+    const subscriber = token ? await unsubscribe(token) : null;
+
+    if (await isConfirmationForm(request)) {
+      const locale = subscriber?.locale ?? defaultLocale;
+      const status = subscriber ? 'unsubscribed' : 'invalid';
+      // 303 so the browser follows with a GET
+      return NextResponse.redirect(new URL(`/${locale}/newsletter?status=${status}`, request.url), 303);
+    }
+
+    if (!subscriber) {
+      return NextResponse.json({ error: 'Invalid unsubscribe token' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing from newsletter:', error);
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+  }
+}
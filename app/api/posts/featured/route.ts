@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db/prisma';
 import { postCache } from '@/lib/cache/posts';
 import type { Prisma } from '@/lib/generated/prisma';
+import { publicPostWhere } from '@/lib/posts';
 import { validateMethod } from '@/lib/security/headers';
 
 export const dynamic = 'force-dynamic';
@@ -75,10 +76,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Base where clause - ไม่ filter locale, แสดงทุกภาษารวมกัน
-    const baseWhere: Prisma.PostWhereInput = {
-      status: 'PUBLISHED',
-      publishedAt: { lte: new Date() },
-    };
+    const baseWhere: Prisma.PostWhereInput = publicPostWhere();
 
     // Fetch different post types in parallel
     const [
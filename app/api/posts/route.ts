@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db/prisma';
 import cacheService, { CACHE_TTL } from '@/lib/cache/redis';
 import type { Prisma } from '@/lib/generated/prisma';
+import { publicPostWhere } from '@/lib/posts';
 import {
   postsListQuerySchema,
   validateQuery,
@@ -52,10 +53,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Build where clause
-    const where: Prisma.PostWhereInput = {
-      status: 'PUBLISHED',
-      publishedAt: { lte: new Date() },
-    };
+    const where: Prisma.PostWhereInput = publicPostWhere();
 
     if (locale) {
       where.locale = locale;
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSuggestions } from '@/lib/suggest';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  searchSuggestQuerySchema,
+  validateQuery,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET'] as const;
+
+/**
+ * GET /api/search/suggest - Typo-tolerant autocomplete for the search bar
+ * Query params:
+ * - q: Partial or misspelled query (required, max 100 chars)
+ * - locale: Locale to suggest from (default: en)
+ * - limit: Suggestions per group (default: 5, max: 10)
+ * Returns post title, tag and category suggestions plus a "did you mean" hint.
+ */
+export async function GET(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    // Every keystroke hits this endpoint, so it is rate limited per client
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validation = validateQuery(searchParams, searchSuggestQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const { q, locale, limit } = validation.data!;
+    const suggestions = await getSuggestions(q, locale, limit);
+
+    return NextResponse.json(suggestions, {
+      headers: { 'Cache-Control': 'public, max-age=60' },
+    });
+  } catch (error) {
+    console.error('Error fetching search suggestions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPost, v1Json } from '@/lib/api/v1';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  v1PostQuerySchema,
+  validateQuery,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET'] as const;
+
+/**
+ * GET /api/v1/posts/[slug] - A published post with its sanitized HTML content
+ * Query params:
+ * - locale: Locale of the post (default: en)
+ * Responds 304 when If-None-Match matches the current ETag.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const validation = validateQuery(searchParams, v1PostQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const post = await getPost(decodeURIComponent(slug), validation.data!.locale);
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    return v1Json(request, { data: post });
+  } catch (error) {
+    console.error('Error fetching v1 post:', error);
+    return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InvalidCursorError, listPosts, v1Json } from '@/lib/api/v1';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  v1PostsQuerySchema,
+  validateQuery,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET'] as const;
+
+/**
+ * GET /api/v1/posts - Published posts, newest first, with cursor pagination
+ * Query params:
+ * - locale: Filter by locale (en, es, fr, th)
+ * - category: Filter by category slug
+ * - tag: Filter by tag slug
+ * - featured: Featured posts only
+ * - cursor: `pagination.nextCursor` from the previous page
+ * - limit: Posts per page (default: 20, max: 50)
+ * Responds 304 when If-None-Match matches the current ETag.
+ */
+export async function GET(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validation = validateQuery(searchParams, v1PostsQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const posts = await listPosts(validation.data!);
+    return v1Json(request, posts);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching v1 posts:', error);
+    return NextResponse.json({ error: 'Failed to fetch posts' }, { status: 500 });
+  }
+}
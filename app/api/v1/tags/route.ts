@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InvalidCursorError, listTags, v1Json } from '@/lib/api/v1';
+import { applyRateLimit } from '@/lib/security/rate-limit';
+import {
+  v1TermsQuerySchema,
+  validateQuery,
+  formatValidationError,
+} from '@/lib/security/api-schemas';
+import { validateMethod } from '@/lib/security/headers';
+
+export const dynamic = 'force-dynamic';
+
+const ALLOWED_METHODS = ['GET'] as const;
+
+/**
+ * GET /api/v1/tags - Tags ordered by slug, with published post counts
+ * Query params:
+ * - locale: Count only posts in this locale (en, es, fr, th)
+ * - cursor: `pagination.nextCursor` from the previous page
+ * - limit: Tags per page (default: 50, max: 50)
+ * Responds 304 when If-None-Match matches the current ETag.
+ */
+export async function GET(request: NextRequest) {
+  const methodError = validateMethod(request, [...ALLOWED_METHODS]);
+  if (methodError) return methodError;
+
+  try {
+    const rateLimitResult = await applyRateLimit(request, 'API');
+    if (rateLimitResult) {
+      return rateLimitResult.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validation = validateQuery(searchParams, v1TermsQuerySchema);
+    if (!validation.success) {
+      return NextResponse.json(formatValidationError(validation), { status: 400 });
+    }
+
+    const tags = await listTags(validation.data!);
+    return v1Json(request, tags);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error fetching v1 tags:', error);
+    return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 });
+  }
+}
@@ -13,7 +13,7 @@ import { locales, defaultLocale, type Locale } from "@/lib/i18n/config";
  * for localized versions.
  *
  * This test validates the sitemap generation logic by testing a pure function
- * that mirrors the sitemap generation algorithm. The actual sitemap.ts uses
+ * that mirrors the sitemap generation algorithm. The actual lib/sitemap.ts uses
  * async database calls, so we test the core logic separately.
  */
 describe("Property 13: Sitemap completeness", () => {
@@ -64,7 +64,7 @@ describe("Property 13: Sitemap completeness", () => {
 
   /**
    * Pure function that generates sitemap entries for blog posts.
-   * This mirrors the logic in app/sitemap.ts but works with in-memory data.
+   * This mirrors the logic in lib/sitemap.ts but works with in-memory data.
    */
   function generatePostSitemapEntries(
     posts: Post[],
@@ -0,0 +1,11 @@
+import { getSitemapIndex, handleSitemapRequest, renderSitemapIndex } from '@/lib/sitemap';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemap.xml - Sitemap index of the per-locale chunks and the news sitemap
+ * Requirements: 6.3, 10.4
+ */
+export async function GET() {
+  return handleSitemapRequest(async () => renderSitemapIndex(await getSitemapIndex()));
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { isValidLocale } from '@/lib/i18n/config';
+import { getSitemapChunk, handleSitemapRequest, parseSitemapFile, renderUrlset } from '@/lib/sitemap';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/[locale]/[section]-[n].xml - One chunk of a locale's pages,
+ * categories, tags or posts, with hreflang alternates
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ locale: string; file: string }> }
+) {
+  const { locale, file } = await params;
+
+  return handleSitemapRequest(async () => {
+    const parsed = parseSitemapFile(file);
+    if (!isValidLocale(locale) || !parsed) return null;
+
+    const urls = await getSitemapChunk(locale, parsed.section, parsed.chunk);
+    return urls && renderUrlset(urls);
+  });
+}
@@ -0,0 +1,10 @@
+import { getNewsSitemapItems, handleSitemapRequest, renderNewsSitemap } from '@/lib/sitemap';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/news.xml - Google News sitemap of posts published in the last 48 hours
+ */
+export async function GET() {
+  return handleSitemapRequest(async () => renderNewsSitemap(await getNewsSitemapItems()));
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useId, useState } from "react";
+import { t } from "@/lib/i18n/translations";
+
+export interface CommentFormProps {
+  postId: string;
+  locale: string;
+  /** Comment being replied to; omit for the top-level form */
+  parentId?: string;
+  /** Author of the comment being replied to, shown on the reply toggle */
+  replyTo?: string;
+}
+
+type FormState = "idle" | "submitting" | "success" | "rateLimited" | "error";
+
+const inputClassName =
+  "w-full px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-red-600";
+
+/**
+ * Comment form posting to /api/comments. New comments wait for moderation,
+ * so a successful submission shows a notice instead of the comment.
+ * Reply forms stay collapsed behind a "Reply" button until opened.
+ */
+export function CommentForm({ postId, locale, parentId, replyTo }: CommentFormProps) {
+  const [open, setOpen] = useState(!parentId);
+  const [authorName, setAuthorName] = useState("");
+  const [authorEmail, setAuthorEmail] = useState("");
+  const [body, setBody] = useState("");
+  const [state, setState] = useState<FormState>("idle");
+  const id = useId();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setState("submitting");
+
+    try {
+      const res = await fetch("/api/comments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ postId, parentId, authorName, authorEmail, body }),
+      });
+      if (res.ok) {
+        setBody("");
+        setState("success");
+      } else {
+        setState(res.status === 429 ? "rateLimited" : "error");
+      }
+    } catch {
+      setState("error");
+    }
+  };
+
+  if (state === "success") {
+    return (
+      <p role="status" className="text-sm text-green-600 dark:text-green-400">
+        {t("comments.pending", locale)}
+      </p>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-sm font-medium text-red-600 hover:text-red-700"
+        aria-label={replyTo ? t("comments.replyTo", locale, { name: replyTo }) : undefined}
+      >
+        {t("comments.reply", locale)}
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <label htmlFor={`${id}-name`} className="block text-sm font-medium mb-1">
+            {t("comments.nameLabel", locale)}
+          </label>
+          <input
+            id={`${id}-name`}
+            required
+            maxLength={100}
+            value={authorName}
+            onChange={(e) => setAuthorName(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${id}-email`} className="block text-sm font-medium mb-1">
+            {t("comments.emailLabel", locale)}
+          </label>
+          <input
+            id={`${id}-email`}
+            type="email"
+            required
+            maxLength={254}
+            value={authorEmail}
+            onChange={(e) => setAuthorEmail(e.target.value)}
+            aria-describedby={`${id}-email-hint`}
+            className={inputClassName}
+          />
+          <p id={`${id}-email-hint`} className="mt-1 text-xs text-gray-500">
+            {t("comments.emailHint", locale)}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-body`} className="block text-sm font-medium mb-1">
+          {replyTo ? t("comments.replyTo", locale, { name: replyTo }) : t("comments.bodyLabel", locale)}
+        </label>
+        <textarea
+          id={`${id}-body`}
+          required
+          maxLength={5000}
+          rows={parentId ? 3 : 5}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      {(state === "error" || state === "rateLimited") && (
+        <p role="alert" className="text-sm text-red-600">
+          {t(state === "rateLimited" ? "comments.rateLimited" : "comments.error", locale)}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={state === "submitting"}
+          className="px-4 py-2 text-sm font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white disabled:opacity-60 transition-colors"
+        >
+          {state === "submitting" ? t("comments.submitting", locale) : t("comments.submit", locale)}
+        </button>
+        {parentId && (
+          <button
+            type="button"
+            onClick={() => setOpen(false)}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-700"
+          >
+            {t("comments.cancel", locale)}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
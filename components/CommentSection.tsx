@@ -0,0 +1,78 @@
+import { t } from "@/lib/i18n/translations";
+import { countComments, MAX_COMMENT_DEPTH } from "@/lib/comments/threads";
+import type { CommentNode } from "@/lib/comments/types";
+import { CommentForm } from "./CommentForm";
+
+export interface CommentSectionProps {
+  postId: string;
+  locale: string;
+  /** Approved comments, already threaded */
+  comments: CommentNode[];
+}
+
+function CommentItem({ comment, postId, locale }: { comment: CommentNode; postId: string; locale: string }) {
+  const formattedDate = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  }).format(comment.createdAt);
+
+  return (
+    <li id={`comment-${comment.id}`}>
+      <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4">
+        <div className="flex items-baseline justify-between gap-2 mb-2">
+          <span className="font-semibold text-gray-900 dark:text-gray-100">{comment.authorName}</span>
+          <time dateTime={comment.createdAt.toISOString()} className="text-xs text-gray-500 dark:text-gray-400">
+            {formattedDate}
+          </time>
+        </div>
+        {/* Bodies are sanitized before storage */}
+        <div
+          className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-line"
+          dangerouslySetInnerHTML={{ __html: comment.body }}
+        />
+        {comment.depth < MAX_COMMENT_DEPTH && (
+          <div className="mt-3">
+            <CommentForm postId={postId} locale={locale} parentId={comment.id} replyTo={comment.authorName} />
+          </div>
+        )}
+      </div>
+
+      {comment.replies.length > 0 && (
+        <ol className="mt-4 ml-4 sm:ml-8 space-y-4 border-l border-gray-200 dark:border-gray-800 pl-4">
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} postId={postId} locale={locale} />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Threaded reader comments with the form for a new top-level comment.
+ */
+export function CommentSection({ postId, locale, comments }: CommentSectionProps) {
+  return (
+    <section id="comments" className="mt-12 pt-8 border-t border-gray-200 dark:border-gray-800">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        {t("comments.title", locale, { count: countComments(comments) })}
+      </h2>
+
+      {comments.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 mb-8">{t("comments.empty", locale)}</p>
+      ) : (
+        <ol className="space-y-4 mb-8">
+          {comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} postId={postId} locale={locale} />
+          ))}
+        </ol>
+      )}
+
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        {t("comments.leaveComment", locale)}
+      </h3>
+      <CommentForm postId={postId} locale={locale} />
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import type { ExternalSearchResult } from "@/lib/news/types";
+
+export interface ExternalSearchResultCardProps {
+  result: ExternalSearchResult;
+  /** Label of the badge marking the result as external */
+  badgeLabel: string;
+  locale?: string;
+}
+
+/**
+ * ExternalSearchResultCard displays an archived news article found by site search.
+ * Badged as external and opens the original article in a new tab.
+ */
+export function ExternalSearchResultCard({
+  result,
+  badgeLabel,
+  locale = "en",
+}: ExternalSearchResultCardProps) {
+  const { article, highlightedTitle, highlightedExcerpt } = result;
+
+  const formattedDate = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  }).format(new Date(article.publishedAt));
+
+  return (
+    <article className="group rounded-lg border border-gray-200 dark:border-gray-800 p-6 hover:border-gray-300 dark:hover:border-gray-700 transition-colors">
+      <a href={article.url} target="_blank" rel="noopener noreferrer" className="block">
+        {/* Meta info */}
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-2">
+          <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+            {badgeLabel}
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+              />
+            </svg>
+          </span>
+          <span className="font-medium text-gray-700 dark:text-gray-300">{article.source.name}</span>
+          <span>•</span>
+          <time dateTime={new Date(article.publishedAt).toISOString()}>{formattedDate}</time>
+        </div>
+
+        {/* Title with highlighting */}
+        <h3
+          className="text-lg font-semibold text-gray-900 dark:text-gray-100 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors mb-2 [&_mark]:bg-yellow-200 [&_mark]:dark:bg-yellow-800 [&_mark]:px-0.5 [&_mark]:rounded"
+          dangerouslySetInnerHTML={{ __html: highlightedTitle }}
+        />
+
+        {/* Description with highlighting */}
+        {highlightedExcerpt && (
+          <p
+            className="text-gray-600 dark:text-gray-300 line-clamp-2 [&_mark]:bg-yellow-200 [&_mark]:dark:bg-yellow-800 [&_mark]:px-0.5 [&_mark]:rounded"
+            dangerouslySetInnerHTML={{ __html: highlightedExcerpt }}
+          />
+        )}
+      </a>
+    </article>
+  );
+}
+
+export default ExternalSearchResultCard;
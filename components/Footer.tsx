@@ -2,6 +2,8 @@ import Link from "next/link";
 import Image from "next/image";
 import prisma from "@/lib/db/prisma";
 import type { Locale } from "@/lib/i18n/config";
+import { t } from "@/lib/i18n/translations";
+import { SubscribeForm } from "./SubscribeForm";
 
 const SOCIAL_LINKS = [
   { name: "Facebook", icon: "facebook", url: "#" },
@@ -115,6 +117,13 @@ export async function Footer({ locale }: FooterProps) {
                 </a>
               ))}
             </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-bold uppercase tracking-wider text-white">
+                {t("newsletter.title", locale)}
+              </h3>
+              <p className="text-xs text-gray-400">{t("newsletter.subscribeDescription", locale)}</p>
+              <SubscribeForm locale={locale} />
+            </div>
           </div>
 
           {/* Column 2: Trending Posts */}
@@ -1,4 +1,4 @@
-import type { Locale } from "@/lib/i18n/config";
+import { defaultLocale, type Locale } from "@/lib/i18n/config";
 import { siteUrl } from "@/lib/seo";
 
 interface HreflangTagsProps {
@@ -9,6 +9,7 @@ interface HreflangTagsProps {
 
 /**
  * Generates hreflang link tags for alternate language versions of a post.
+ * Versions come from the post's translation group, so each may have its own slug.
  * Requirements: 10.3
  */
 export function HreflangTags({
@@ -20,6 +21,9 @@ export function HreflangTags({
     return null;
   }
 
+  // x-default points at the default-locale version, which may use a different slug
+  const defaultVersion = availableLocales.find((alt) => alt.locale === defaultLocale);
+
   return (
     <>
       {availableLocales.map((alt) => (
@@ -34,7 +38,7 @@ export function HreflangTags({
       <link
         rel="alternate"
         hrefLang="x-default"
-        href={`${siteUrl}/en/blog/${slug}`}
+        href={`${siteUrl}/${defaultLocale}/blog/${defaultVersion?.slug ?? slug}`}
       />
     </>
   );
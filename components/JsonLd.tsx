@@ -1,6 +1,22 @@
 import type { Post, LocalizedPost } from "@/lib/types";
 import type { Locale } from "@/lib/i18n/config";
-import { siteUrl } from "@/lib/seo";
+import {
+  generateBreadcrumbJsonLd,
+  generateNewsArticleJsonLd,
+  generateOrganizationJsonLd,
+  generateWebsiteJsonLd,
+  serializeJsonLd,
+  type JsonLd,
+} from "@/lib/seo";
+
+function JsonLdScript({ data }: { data: JsonLd }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
 
 interface ArticleJsonLdProps {
   post: Post | LocalizedPost;
@@ -8,53 +24,11 @@ interface ArticleJsonLdProps {
 }
 
 /**
- * Generates Article schema JSON-LD structured data for blog posts.
+ * Generates NewsArticle schema JSON-LD structured data for blog posts.
  * Requirements: 6.2
  */
 export function ArticleJsonLd({ post, locale }: ArticleJsonLdProps) {
-  const url = `${siteUrl}/${locale}/blog/${post.slug}`;
-  
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "Article",
-    headline: post.title,
-    description: post.excerpt,
-    author: {
-      "@type": "Person",
-      name: post.author.name,
-      ...(post.author.social?.twitter && {
-        sameAs: [`https://twitter.com/${post.author.social.twitter}`],
-      }),
-      ...(post.author.social?.github && {
-        sameAs: [`https://github.com/${post.author.social.github}`],
-      }),
-    },
-    datePublished: post.publishedAt.toISOString(),
-    ...(post.updatedAt && {
-      dateModified: post.updatedAt.toISOString(),
-    }),
-    mainEntityOfPage: {
-      "@type": "WebPage",
-      "@id": url,
-    },
-    publisher: {
-      "@type": "Organization",
-      name: "Advanced Web Blog",
-      url: siteUrl,
-    },
-    inLanguage: locale,
-    keywords: post.tags.join(", "),
-    articleSection: post.category,
-    wordCount: post.content.split(/\s+/).filter(Boolean).length,
-    timeRequired: `PT${post.readingTime}M`,
-  };
-
-  return (
-    <script
-      type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-    />
-  );
+  return <JsonLdScript data={generateNewsArticleJsonLd(post, locale)} />;
 }
 
 interface WebsiteJsonLdProps {
@@ -62,32 +36,17 @@ interface WebsiteJsonLdProps {
 }
 
 /**
- * Generates Website schema JSON-LD for the homepage.
+ * Generates Website schema JSON-LD with a search action.
  */
 export function WebsiteJsonLd({ locale }: WebsiteJsonLdProps) {
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "WebSite",
-    name: "Advanced Web Blog",
-    description: "A modern, performant blog platform built with Next.js",
-    url: `${siteUrl}/${locale}`,
-    inLanguage: locale,
-    potentialAction: {
-      "@type": "SearchAction",
-      target: {
-        "@type": "EntryPoint",
-        urlTemplate: `${siteUrl}/${locale}/search?q={search_term_string}`,
-      },
-      "query-input": "required name=search_term_string",
-    },
-  };
+  return <JsonLdScript data={generateWebsiteJsonLd(locale)} />;
+}
 
-  return (
-    <script
-      type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-    />
-  );
+/**
+ * Generates Organization schema JSON-LD for the publisher.
+ */
+export function OrganizationJsonLd() {
+  return <JsonLdScript data={generateOrganizationJsonLd()} />;
 }
 
 interface BreadcrumbJsonLdProps {
@@ -98,21 +57,5 @@ interface BreadcrumbJsonLdProps {
  * Generates BreadcrumbList schema JSON-LD for navigation.
  */
 export function BreadcrumbJsonLd({ items }: BreadcrumbJsonLdProps) {
-  const jsonLd = {
-    "@context": "https://schema.org",
-    "@type": "BreadcrumbList",
-    itemListElement: items.map((item, index) => ({
-      "@type": "ListItem",
-      position: index + 1,
-      name: item.name,
-      item: item.url,
-    })),
-  };
-
-  return (
-    <script
-      type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
-    />
-  );
+  return <JsonLdScript data={generateBreadcrumbJsonLd(items)} />;
 }
@@ -48,7 +48,9 @@ export function LocaleSwitcher({ currentLocale }: LocaleSwitcherProps) {
     // Persist the preference
     setLocaleCookie(newLocale);
 
-    // Build the new path by replacing the locale segment
+    // Build the new path by replacing the locale segment. Blog posts keep
+    // their current slug; the post page resolves it through the translation
+    // group and redirects to the localized slug.
     const segments = pathname.split("/");
     if (segments[1] && locales.includes(segments[1] as Locale)) {
       segments[1] = newLocale;
@@ -3,6 +3,9 @@
 import Image from "next/image";
 import type { NewsArticle } from "@/lib/news/types";
 
+/** Other sources linked on a card; the rest are counted */
+const MAX_COVERAGE_LINKS = 3;
+
 export interface NewsCardProps {
   article: NewsArticle;
   locale?: string;
@@ -10,7 +13,7 @@ export interface NewsCardProps {
 
 /**
  * NewsCard component displays a news article preview with title, source, date, thumbnail, and excerpt.
- * Opens original article URL in new tab when clicked.
+ * Opens original article URL in new tab when clicked. Aggregated stories also link the other sources.
  * 
  * @requirements 1.2, 1.3, 6.2
  */
@@ -91,6 +94,31 @@ export function NewsCard({ article, locale = "en" }: NewsCardProps) {
           )}
         </a>
 
+        {/* Other sources carrying the same story */}
+        {article.alsoCoveredBy && article.alsoCoveredBy.length > 0 && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            {locale === "th" ? "แหล่งข่าวอื่น: " :
+             locale === "es" ? "También en: " :
+             locale === "fr" ? "Aussi couvert par : " :
+             "Also covered by: "}
+            {article.alsoCoveredBy.slice(0, MAX_COVERAGE_LINKS).map((coverage, index) => (
+              <span key={coverage.url}>
+                {index > 0 && ", "}
+                <a
+                  href={coverage.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                >
+                  {coverage.source.name}
+                </a>
+              </span>
+            ))}
+            {article.alsoCoveredBy.length > MAX_COVERAGE_LINKS &&
+              ` +${article.alsoCoveredBy.length - MAX_COVERAGE_LINKS}`}
+          </p>
+        )}
+
         {/* Read more link */}
         <a
           href={article.url}
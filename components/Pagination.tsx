@@ -52,7 +52,9 @@ export function Pagination({ currentPage, totalPages, basePath }: PaginationProp
   };
 
   const buildPageUrl = (page: number) => {
-    return page === 1 ? basePath : `${basePath}?page=${page}`;
+    if (page === 1) return basePath;
+    // basePath may already carry a query string (e.g. search results)
+    return `${basePath}${basePath.includes("?") ? "&" : "?"}page=${page}`;
   };
 
   return (
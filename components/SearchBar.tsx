@@ -1,7 +1,17 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { FileText, Folder, Hash, Search, Sparkles } from "lucide-react";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { t } from "@/lib/i18n/translations";
+import type { SearchSuggestion, SearchSuggestions } from "@/lib/types";
 
 export interface SearchBarProps {
   initialQuery?: string;
@@ -10,8 +20,20 @@ export interface SearchBarProps {
   onSearch?: (query: string) => void;
 }
 
+// Wait for typing to pause before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 200;
+const MIN_SUGGEST_LENGTH = 2;
+
+const SUGGESTION_PATHS: Record<SearchSuggestion["type"], string> = {
+  post: "blog",
+  tag: "tag",
+  category: "category",
+};
+
 /**
  * SearchBar component for searching posts.
+ * Shows a keyboard-navigable dropdown of typo-tolerant suggestions from
+ * /api/search/suggest while typing.
  * Requirements: 4.1
  */
 export function SearchBar({
@@ -21,85 +43,185 @@ export function SearchBar({
   onSearch,
 }: SearchBarProps) {
   const [query, setQuery] = useState(initialQuery);
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<{ query: string; suggestions: SearchSuggestions } | null>(null);
   const router = useRouter();
 
-  const handleSubmit = useCallback(
-    (e: React.FormEvent) => {
-      e.preventDefault();
-      const trimmedQuery = query.trim();
-      
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (onSearch || trimmedQuery.length < MIN_SUGGEST_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ q: trimmedQuery, locale });
+      fetch(`/api/search/suggest?${params}`, { signal: controller.signal })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((suggestions: SearchSuggestions | null) => {
+          if (suggestions) setResult({ query: trimmedQuery, suggestions });
+        })
+        .catch(() => {
+          // Suggestions are best-effort; the search itself still works
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmedQuery, locale, onSearch]);
+
+  // Only show suggestions that belong to the current input
+  const suggestions =
+    result && result.query === trimmedQuery && trimmedQuery.length >= MIN_SUGGEST_LENGTH
+      ? result.suggestions
+      : null;
+
+  const submitSearch = useCallback(
+    (value: string) => {
+      setOpen(false);
+
       if (onSearch) {
-        onSearch(trimmedQuery);
+        onSearch(value);
       } else {
         // Navigate to search page with query
-        if (trimmedQuery) {
-          router.push(`/${locale}/search?q=${encodeURIComponent(trimmedQuery)}`);
+        if (value) {
+          router.push(`/${locale}/search?q=${encodeURIComponent(value)}`);
         } else {
           router.push(`/${locale}/search`);
         }
       }
     },
-    [query, locale, router, onSearch]
+    [locale, router, onSearch]
+  );
+
+  const handleSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      submitSearch(trimmedQuery);
+    },
+    [trimmedQuery, submitSearch]
+  );
+
+  const handleSelectSuggestion = useCallback(
+    (suggestion: SearchSuggestion) => {
+      setOpen(false);
+      router.push(`/${locale}/${SUGGESTION_PATHS[suggestion.type]}/${suggestion.slug}`);
+    },
+    [locale, router]
   );
 
   const handleClear = useCallback(() => {
     setQuery("");
+    setOpen(false);
     if (onSearch) {
       onSearch("");
     }
   }, [onSearch]);
 
+  const suggestionGroup = (heading: string, items: SearchSuggestion[], Icon: typeof FileText) =>
+    items.length > 0 && (
+      <CommandGroup heading={heading}>
+        {items.map((suggestion) => (
+          <CommandItem
+            key={`${suggestion.type}:${suggestion.slug}`}
+            value={`${suggestion.type}:${suggestion.slug}`}
+            onSelect={() => handleSelectSuggestion(suggestion)}
+          >
+            <Icon />
+            <span className="truncate">{suggestion.label}</span>
+          </CommandItem>
+        ))}
+      </CommandGroup>
+    );
+
+  const showDropdown = open && !onSearch && trimmedQuery.length >= MIN_SUGGEST_LENGTH;
+
   return (
     <form onSubmit={handleSubmit} className="relative" role="search">
       <label htmlFor="search-input" className="sr-only">
         Search posts
       </label>
-      <div className="relative">
-        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-          <svg
-            className="h-5 w-5 text-gray-400"
-            xmlns="http://www.w3.org/2000/svg"
-            viewBox="0 0 20 20"
-            fill="currentColor"
-            aria-hidden="true"
-          >
-            <path
-              fillRule="evenodd"
-              d="M9 3.5a5.5 5.5 0 100 11 5.5 5.5 0 000-11zM2 9a7 7 0 1112.452 4.391l3.328 3.329a.75.75 0 11-1.06 1.06l-3.329-3.328A7 7 0 012 9z"
-              clipRule="evenodd"
-            />
-          </svg>
+      <Command
+        shouldFilter={false}
+        loop
+        className="overflow-visible bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent"
+      >
+        <div className="relative [&_[data-slot=command-input-wrapper]]:h-10 [&_[data-slot=command-input-wrapper]]:border-0 [&_[data-slot=command-input-wrapper]]:pr-10">
+          <CommandInput
+            id="search-input"
+            value={query}
+            onValueChange={(value) => {
+              setQuery(value);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setOpen(false);
+              // Command swallows Enter to select an item; without a dropdown, submit directly
+              if (e.key === "Enter" && !showDropdown) {
+                e.preventDefault();
+                submitSearch(trimmedQuery);
+              }
+            }}
+            placeholder={placeholder}
+            className="text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label="Clear search"
+            >
+              <svg
+                className="h-5 w-5"
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.28 7.22a.75.75 0 00-1.06 1.06L8.94 10l-1.72 1.72a.75.75 0 101.06 1.06L10 11.06l1.72 1.72a.75.75 0 101.06-1.06L11.06 10l1.72-1.72a.75.75 0 00-1.06-1.06L10 8.94 8.28 7.22z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </button>
+          )}
         </div>
-        <input
-          id="search-input"
-          type="search"
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          placeholder={placeholder}
-          className="block w-full pl-10 pr-10 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-        />
-        {query && (
-          <button
-            type="button"
-            onClick={handleClear}
-            className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-            aria-label="Clear search"
+
+        {showDropdown && (
+          <CommandList
+            // Keep focus in the input while clicking a suggestion
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 right-0 top-full z-50 mt-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg"
           >
-            <svg
-              className="h-5 w-5"
-              xmlns="http://www.w3.org/2000/svg"
-              viewBox="0 0 20 20"
-              fill="currentColor"
-            >
-              <path
-                fillRule="evenodd"
-                d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.28 7.22a.75.75 0 00-1.06 1.06L8.94 10l-1.72 1.72a.75.75 0 101.06 1.06L10 11.06l1.72 1.72a.75.75 0 101.06-1.06L11.06 10l1.72-1.72a.75.75 0 00-1.06-1.06L10 8.94 8.28 7.22z"
-                clipRule="evenodd"
-              />
-            </svg>
-          </button>
+            {/* First item, so Enter searches for the typed text */}
+            <CommandGroup>
+              <CommandItem value="search" onSelect={() => submitSearch(trimmedQuery)}>
+                <Search />
+                <span className="truncate">{t("search.searchFor", locale, { query: trimmedQuery })}</span>
+              </CommandItem>
+              {suggestions?.didYouMean && (
+                <CommandItem value="did-you-mean" onSelect={() => submitSearch(suggestions.didYouMean!)}>
+                  <Sparkles />
+                  <span className="truncate">
+                    {t("search.didYouMean", locale)} <em>{suggestions.didYouMean}</em>?
+                  </span>
+                </CommandItem>
+              )}
+            </CommandGroup>
+            {suggestions && (
+              <>
+                {suggestionGroup(t("search.postSuggestions", locale), suggestions.posts, FileText)}
+                {suggestionGroup(t("common.categories", locale), suggestions.categories, Folder)}
+                {suggestionGroup(t("common.tags", locale), suggestions.tags, Hash)}
+              </>
+            )}
+          </CommandList>
         )}
-      </div>
+      </Command>
     </form>
   );
 }
@@ -0,0 +1,128 @@
+import Link from "next/link";
+import type { Locale } from "@/lib/i18n/config";
+import { t, type TranslationKey } from "@/lib/i18n/translations";
+import { buildSearchUrl, hasActiveFilters, SEARCH_SORTS } from "@/lib/search";
+import type { FacetCount, SearchFacets, SearchFilters as Filters, SearchSort } from "@/lib/types";
+
+export interface SearchFiltersProps {
+  locale: Locale;
+  query: string;
+  filters: Filters;
+  facets: SearchFacets;
+}
+
+const SORT_LABELS: Record<SearchSort, TranslationKey> = {
+  relevance: "search.sortRelevance",
+  newest: "search.sortNewest",
+  views: "search.sortMostViewed",
+};
+
+const linkClass = (active: boolean) =>
+  `flex items-center justify-between rounded-md px-2 py-1 text-sm transition-colors ${
+    active
+      ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 font-medium"
+      : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+  }`;
+
+/**
+ * SearchFilters renders URL-driven facets, sort options and a date range for
+ * the search page. Every option is a plain link, so filtering works without JS.
+ */
+export function SearchFilters({ locale, query, filters, facets }: SearchFiltersProps) {
+  const facetList = (title: string, key: "category" | "tag" | "author", values: FacetCount[]) => {
+    if (values.length === 0) return null;
+
+    return (
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">{title}</h3>
+        <ul className="space-y-0.5">
+          {values.map((facet) => {
+            const active = filters[key] === facet.value;
+            return (
+              <li key={facet.value} style={{ paddingLeft: `${(facet.depth ?? 0) * 0.75}rem` }}>
+                <Link
+                  href={buildSearchUrl(locale, query, { ...filters, [key]: active ? undefined : facet.value })}
+                  className={linkClass(active)}
+                  aria-current={active ? "true" : undefined}
+                >
+                  <span className="truncate">{facet.label}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{facet.count}</span>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  const activeSort = filters.sort ?? (query ? "relevance" : "newest");
+
+  return (
+    <aside className="space-y-6" aria-label={t("search.filters", locale)}>
+      {/* Sort */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          {t("search.sortBy", locale)}
+        </h3>
+        <ul className="space-y-0.5">
+          {SEARCH_SORTS.filter((sort) => query || sort !== "relevance").map((sort) => (
+            <li key={sort}>
+              <Link href={buildSearchUrl(locale, query, { ...filters, sort })} className={linkClass(activeSort === sort)}>
+                {t(SORT_LABELS[sort], locale)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {facetList(t("common.categories", locale), "category", facets.categories)}
+      {facetList(t("common.tags", locale), "tag", facets.tags)}
+      {facetList(t("search.author", locale), "author", facets.authors)}
+
+      {/* Date range */}
+      <form action={`/${locale}/search`} method="get" className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{t("search.dateRange", locale)}</h3>
+        {query && <input type="hidden" name="q" value={query} />}
+        {(["category", "tag", "author", "sort"] as const).map(
+          (key) => filters[key] && <input key={key} type="hidden" name={key} value={filters[key]} />
+        )}
+        <label className="block text-xs text-gray-600 dark:text-gray-400">
+          {t("search.from", locale)}
+          <input
+            type="date"
+            name="from"
+            defaultValue={filters.from}
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 bg-transparent px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="block text-xs text-gray-600 dark:text-gray-400">
+          {t("search.to", locale)}
+          <input
+            type="date"
+            name="to"
+            defaultValue={filters.to}
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 bg-transparent px-2 py-1 text-sm"
+          />
+        </label>
+        <button
+          type="submit"
+          className="w-full rounded-md bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+        >
+          {t("search.apply", locale)}
+        </button>
+      </form>
+
+      {hasActiveFilters(filters) && (
+        <Link
+          href={buildSearchUrl(locale, query, { sort: filters.sort })}
+          className="block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {t("search.clearFilters", locale)}
+        </Link>
+      )}
+    </aside>
+  );
+}
+
+export default SearchFilters;
@@ -0,0 +1,109 @@
+"use client";
+
+import { useId, useState } from "react";
+import { t } from "@/lib/i18n/translations";
+
+export interface SubscribeFormProps {
+  locale: string;
+  /** Categories the reader can follow; omit for an email-only form */
+  categories?: { name: string; slug: string }[];
+  className?: string;
+}
+
+type FormState = "idle" | "submitting" | "success" | "error";
+
+/**
+ * Newsletter sign-up form. Posts to /api/newsletter/subscribe, after which
+ * the reader confirms their address from the email they receive.
+ */
+export function SubscribeForm({ locale, categories = [], className = "" }: SubscribeFormProps) {
+  const [email, setEmail] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [state, setState] = useState<FormState>("idle");
+  const emailId = useId();
+
+  const toggleCategory = (slug: string) => {
+    setSelected((current) =>
+      current.includes(slug) ? current.filter((s) => s !== slug) : [...current, slug]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setState("submitting");
+
+    try {
+      const res = await fetch("/api/newsletter/subscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, locale, categories: selected }),
+      });
+      setState(res.ok ? "success" : "error");
+    } catch {
+      setState("error");
+    }
+  };
+
+  if (state === "success") {
+    return (
+      <p role="status" className={`text-sm text-green-600 dark:text-green-400 ${className}`}>
+        {t("newsletter.checkInbox", locale)}
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`space-y-3 ${className}`}>
+      <label htmlFor={emailId} className="sr-only">
+        {t("newsletter.emailLabel", locale)}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={emailId}
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder={t("newsletter.emailPlaceholder", locale)}
+          className="flex-1 min-w-0 px-3 py-2 text-sm rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-red-600"
+        />
+        <button
+          type="submit"
+          disabled={state === "submitting"}
+          className="px-4 py-2 text-sm font-semibold rounded-md bg-red-600 hover:bg-red-700 text-white disabled:opacity-60 transition-colors"
+        >
+          {state === "submitting" ? t("newsletter.subscribing", locale) : t("newsletter.subscribe", locale)}
+        </button>
+      </div>
+
+      {categories.length > 0 && (
+        <fieldset>
+          <legend className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+            {t("newsletter.categoriesLabel", locale)}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {categories.map((category) => (
+              <label
+                key={category.slug}
+                className="flex items-center gap-1.5 px-3 py-1 text-sm rounded-full border border-gray-300 dark:border-gray-700 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(category.slug)}
+                  onChange={() => toggleCategory(category.slug)}
+                />
+                {category.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {state === "error" && (
+        <p role="alert" className="text-sm text-red-600">
+          {t("newsletter.error", locale)}
+        </p>
+      )}
+    </form>
+  );
+}
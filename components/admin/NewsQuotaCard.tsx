@@ -0,0 +1,72 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { NewsProviderId } from '@/lib/config/news';
+import type { NewsBreakerState, NewsProviderUsage } from '@/lib/news/breaker';
+
+const providerLabels: Record<NewsProviderId, string> = {
+  newsapi: 'NewsAPI.org',
+  gnews: 'GNews',
+  rss: 'RSS/Atom feeds',
+};
+
+const stateConfig: Record<NewsBreakerState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  closed: { label: 'Closed', variant: 'secondary' },
+  'half-open': { label: 'Half-open', variant: 'outline' },
+  open: { label: 'Open', variant: 'destructive' },
+};
+
+interface NewsQuotaCardProps {
+  usage: NewsProviderUsage[];
+  className?: string;
+}
+
+/**
+ * Today's request count against each news provider's daily quota, and the
+ * state of its circuit breaker
+ */
+export function NewsQuotaCard({ usage, className }: NewsQuotaCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>News Providers</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {usage.map(({ provider, requests, quota, breaker }) => {
+          const state = stateConfig[breaker.state];
+          const percent = quota ? Math.min(100, Math.round((requests / quota) * 100)) : 0;
+
+          return (
+            <div key={provider} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{providerLabels[provider]}</span>
+                <Badge variant={state.variant}>{state.label}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {quota !== null
+                  ? `${requests.toLocaleString()} of ${quota.toLocaleString()} requests today`
+                  : `${requests.toLocaleString()} requests today (no quota)`}
+              </p>
+              {quota !== null && (
+                <div className="h-2 rounded-full bg-muted">
+                  <div
+                    className={cn('h-2 rounded-full', percent >= 90 ? 'bg-destructive' : 'bg-primary')}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+              {breaker.state === 'open' && breaker.retryAt && (
+                <p className="text-xs text-muted-foreground">
+                  Paused until {new Date(breaker.retryAt).toLocaleString()}
+                  {breaker.reason && ` · ${breaker.reason}`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default NewsQuotaCard;
@@ -17,7 +17,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Loader2, Calendar, ImagePlus, Maximize2, Minimize2 } from 'lucide-react';
+import { Loader2, Calendar, CalendarOff, ImagePlus, Maximize2, Minimize2, MessageSquareWarning } from 'lucide-react';
 import { PostSection } from './PostSection';
 import { RichTextEditor } from './RichTextEditor';
 import { DateTimePicker } from './DateTimePicker';
@@ -29,6 +29,7 @@ import { TagSelector } from './TagSelector';
 import type { AdminPost } from '@/lib/admin/posts';
 import type { CategoryNode } from '@/lib/categories/tree';
 import type { TagWithCount } from '@/lib/admin/tags';
+import type { PostStatus } from '@/lib/generated/prisma';
 
 interface MediaItem {
   id: string;
@@ -46,12 +47,16 @@ const postSchema = z.object({
   content: z.string().min(1, 'Content is required'),
   excerpt: z.string().optional(),
   locale: z.string().min(1, 'Locale is required'),
-  status: z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED']),
+  status: z.enum(['DRAFT', 'IN_REVIEW', 'REJECTED', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']),
   categoryId: z.string().optional(),
   tagIds: z.array(z.string()).optional(),
   scheduledAt: z.date().optional().nullable(),
+  unpublishAt: z.date().optional().nullable(),
   featured: z.boolean().optional(),
-});
+}).refine(
+  (data) => !data.unpublishAt || !data.scheduledAt || data.unpublishAt > data.scheduledAt,
+  { message: 'Unpublish date must be after the publish date', path: ['unpublishAt'] }
+);
 
 type PostFormData = z.infer<typeof postSchema>;
 
@@ -59,9 +64,19 @@ interface PostFormProps {
   post?: AdminPost;
   categories: CategoryNode[];
   tags: TagWithCount[];
+  allowedStatuses: PostStatus[];
   onSubmit: (data: PostFormData) => Promise<void | { id: string }>;
 }
 
+const statusLabels: Record<PostStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  REJECTED: 'Rejected',
+  SCHEDULED: 'Scheduled',
+  PUBLISHED: 'Published',
+  ARCHIVED: 'Archived',
+};
+
 /**
  * Flattens a category tree into a list with path information for display
  * Used to show categories hierarchically in the dropdown with full paths
@@ -93,7 +108,7 @@ function flattenTreeWithPaths(
   return result;
 }
 
-export function PostForm({ post, categories, tags: initialTags, onSubmit }: PostFormProps) {
+export function PostForm({ post, categories, tags: initialTags, allowedStatuses, onSubmit }: PostFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [useRichEditor, setUseRichEditor] = useState(true);
@@ -135,6 +150,7 @@ export function PostForm({ post, categories, tags: initialTags, onSubmit }: Post
       categoryId: post?.categoryId || undefined,
       tagIds: post?.tags.map((t) => t.tagId) || [],
       scheduledAt: post?.scheduledAt ? new Date(post.scheduledAt) : undefined,
+      unpublishAt: post?.unpublishAt ? new Date(post.unpublishAt) : undefined,
       featured: post?.featured || false,
     },
   });
@@ -143,6 +159,7 @@ export function PostForm({ post, categories, tags: initialTags, onSubmit }: Post
   const content = watch('content');
   const status = watch('status');
   const scheduledAt = watch('scheduledAt');
+  const unpublishAt = watch('unpublishAt');
   const tagIds = watch('tagIds') || [];
 
   // Show date picker when status is SCHEDULED
@@ -426,13 +443,27 @@ export function PostForm({ post, categories, tags: initialTags, onSubmit }: Post
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="DRAFT">Draft</SelectItem>
-                        <SelectItem value="SCHEDULED">Scheduled</SelectItem>
-                        <SelectItem value="PUBLISHED">Published</SelectItem>
+                        {allowedStatuses.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {statusLabels[value]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
 
+                  {post?.reviewComment && (
+                    <div className="space-y-1 rounded-lg border bg-muted/50 p-3">
+                      <p className="flex items-center gap-2 text-sm font-medium">
+                        <MessageSquareWarning className="h-4 w-4" />
+                        Reviewer comment
+                      </p>
+                      <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                        {post.reviewComment}
+                      </p>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label>Locale</Label>
                     <Select
@@ -527,6 +558,49 @@ export function PostForm({ post, categories, tags: initialTags, onSubmit }: Post
                     )}
                   </div>
                 )}
+
+                {/* Expiry Section */}
+                {(status === 'SCHEDULED' || status === 'PUBLISHED') && (
+                  <div className="space-y-2 rounded-lg border bg-muted/50 p-4 mt-4">
+                    <Label className="flex items-center gap-2">
+                      <CalendarOff className="h-4 w-4" />
+                      Unpublish At (optional)
+                    </Label>
+                    <DateTimePicker
+                      date={unpublishAt || undefined}
+                      onDateChange={(date) => setValue('unpublishAt', date || null, { shouldValidate: true })}
+                      placeholder="Keep published indefinitely"
+                      minDate={scheduledAt || new Date()}
+                    />
+                    {errors.unpublishAt && (
+                      <p className="text-sm text-destructive">{errors.unpublishAt.message}</p>
+                    )}
+                    {unpublishAt && (
+                      <div className="flex items-center justify-between mt-2">
+                        <p className="text-xs text-muted-foreground">
+                          Will be archived on{' '}
+                          <span className="font-medium">
+                            {unpublishAt.toLocaleDateString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </span>
+                        </p>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
+                          onClick={() => setValue('unpublishAt', null)}
+                        >
+                          Clear
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             </PostSection>
 
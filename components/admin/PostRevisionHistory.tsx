@@ -0,0 +1,254 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { diffHtml, diffLines, toSideBySide, type DiffCell, type DiffMode } from '@/lib/diff';
+import type { PostRevisionWithEditor } from '@/lib/admin/revisions';
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  revisions: PostRevisionWithEditor[];
+  onRestore: (postId: string, revisionId: string) => Promise<void>;
+}
+
+const cellStyles: Record<DiffCell['type'], string> = {
+  equal: '',
+  removed: 'bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-200',
+  added: 'bg-green-50 text-green-900 dark:bg-green-950/40 dark:text-green-200',
+};
+
+function editorName(revision: PostRevisionWithEditor): string {
+  if (!revision.editor) return 'Unknown';
+  return (
+    [revision.editor.firstName, revision.editor.lastName].filter(Boolean).join(' ') ||
+    revision.editor.email
+  );
+}
+
+function revisionLabel(revision: PostRevisionWithEditor, index: number): string {
+  const suffix = index === 0 ? ' (current)' : '';
+  return `${format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')} · ${editorName(revision)}${suffix}`;
+}
+
+function DiffColumn({ cell }: { cell: DiffCell | null }) {
+  return (
+    <td
+      className={cn(
+        'w-1/2 border-l px-2 py-0.5 align-top font-mono text-xs whitespace-pre-wrap break-words',
+        cell ? cellStyles[cell.type] : 'bg-muted/40'
+      )}
+    >
+      {cell && (
+        <span className="mr-2 inline-block w-6 select-none text-right text-muted-foreground">
+          {cell.lineNumber}
+        </span>
+      )}
+      {cell?.value}
+    </td>
+  );
+}
+
+/**
+ * Revision history with side-by-side diff and restore
+ */
+export function PostRevisionHistory({ postId, revisions, onRestore }: PostRevisionHistoryProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [mode, setMode] = useState<DiffMode>('text');
+  const [baseId, setBaseId] = useState<string | undefined>(revisions[1]?.id ?? revisions[0]?.id);
+  const [compareId, setCompareId] = useState<string | undefined>(revisions[0]?.id);
+
+  const base = revisions.find((r) => r.id === baseId);
+  const compare = revisions.find((r) => r.id === compareId);
+
+  const rows = useMemo(() => {
+    if (!base || !compare) return [];
+    const titleRows = toSideBySide(diffLines([base.title], [compare.title]));
+    const excerptRows = toSideBySide(diffLines([base.excerpt ?? ''], [compare.excerpt ?? '']));
+    return [
+      { section: 'Title', rows: titleRows },
+      { section: 'Excerpt', rows: excerptRows },
+      { section: 'Content', rows: diffHtml(base.content, compare.content, mode) },
+    ];
+  }, [base, compare, mode]);
+
+  const handleRestore = (revisionId: string) => {
+    startTransition(async () => {
+      try {
+        await onRestore(postId, revisionId);
+        toast.success('Revision restored');
+        router.refresh();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+      }
+    });
+  };
+
+  if (revisions.length === 0) {
+    return (
+      <div className="rounded-lg border p-8 text-center text-muted-foreground">
+        <History className="mx-auto mb-2 h-6 w-6" />
+        No revisions recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Compare from</Label>
+          <Select value={baseId} onValueChange={setBaseId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision, index) => (
+                <SelectItem key={revision.id} value={revision.id}>
+                  {revisionLabel(revision, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Compare to</Label>
+          <Select value={compareId} onValueChange={setCompareId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision, index) => (
+                <SelectItem key={revision.id} value={revision.id}>
+                  {revisionLabel(revision, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>View</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as DiffMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="html">HTML source</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-md border">
+        <table className="w-full table-fixed border-collapse">
+          <tbody>
+            {rows.map(({ section, rows: sectionRows }) => (
+              <SectionRows key={section} section={section} rows={sectionRows} />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">All revisions ({revisions.length})</h3>
+        <ul className="divide-y rounded-md border">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="flex items-center justify-between gap-4 px-4 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{revision.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')} by {editorName(revision)}
+                </p>
+              </div>
+              {index === 0 ? (
+                <Badge variant="secondary">Current</Badge>
+              ) : (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="outline" size="sm" disabled={isPending}>
+                      {isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                      )}
+                      Restore
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Restore Revision</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Replace the current title, excerpt and content with this revision? The
+                        current version stays available in the history.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRestore(revision.id)}>
+                        Restore
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function SectionRows({ section, rows }: { section: string; rows: ReturnType<typeof toSideBySide> }) {
+  return (
+    <>
+      <tr className="bg-muted">
+        <th colSpan={2} className="px-2 py-1 text-left text-xs font-semibold uppercase tracking-wide">
+          {section}
+        </th>
+      </tr>
+      {rows.length === 0 ? (
+        <tr>
+          <td colSpan={2} className="px-2 py-1 text-xs text-muted-foreground">
+            Empty
+          </td>
+        </tr>
+      ) : (
+        rows.map((row, index) => (
+          <tr key={index} className="border-t">
+            <DiffColumn cell={row.left} />
+            <DiffColumn cell={row.right} />
+          </tr>
+        ))
+      )}
+    </>
+  );
+}
+
+export default PostRevisionHistory;
@@ -14,24 +14,32 @@ import type { PostStatus } from '@/lib/generated/prisma';
 interface PostStatusSelectProps {
   postId: string;
   currentStatus: PostStatus;
+  allowedStatuses: PostStatus[];
   onStatusChange: (id: string, status: PostStatus) => Promise<void>;
 }
 
 const statusOptions: { value: PostStatus; label: string }[] = [
   { value: 'DRAFT', label: 'Draft' },
+  { value: 'IN_REVIEW', label: 'In Review' },
+  { value: 'REJECTED', label: 'Rejected' },
   { value: 'SCHEDULED', label: 'Scheduled' },
   { value: 'PUBLISHED', label: 'Published' },
+  { value: 'ARCHIVED', label: 'Archived' },
 ];
 
 const statusColors: Record<PostStatus, string> = {
   DRAFT: 'text-yellow-600',
+  IN_REVIEW: 'text-purple-600',
+  REJECTED: 'text-red-600',
   SCHEDULED: 'text-blue-600',
   PUBLISHED: 'text-green-600',
+  ARCHIVED: 'text-gray-500',
 };
 
 export function PostStatusSelect({
   postId,
   currentStatus,
+  allowedStatuses,
   onStatusChange,
 }: PostStatusSelectProps) {
   const [isPending, startTransition] = useTransition();
@@ -44,17 +52,17 @@ export function PostStatusSelect({
     startTransition(async () => {
       try {
         await onStatusChange(postId, newStatus);
-        toast.success(`Status updated to ${newStatus.toLowerCase()}`);
-      } catch {
+        toast.success(`Status updated to ${newStatus.toLowerCase().replace('_', ' ')}`);
+      } catch (error) {
         setStatus(currentStatus);
-        toast.error('Failed to update status');
+        toast.error(error instanceof Error ? error.message : 'Failed to update status');
       }
     });
   };
 
   return (
     <Select value={status} onValueChange={handleChange} disabled={isPending}>
-      <SelectTrigger className="w-[120px] h-8">
+      <SelectTrigger className="w-[130px] h-8">
         <SelectValue>
           <span className={statusColors[status]}>
             {statusOptions.find((o) => o.value === status)?.label}
@@ -62,11 +70,13 @@ export function PostStatusSelect({
         </SelectValue>
       </SelectTrigger>
       <SelectContent>
-        {statusOptions.map((option) => (
-          <SelectItem key={option.value} value={option.value}>
-            <span className={statusColors[option.value]}>{option.label}</span>
-          </SelectItem>
-        ))}
+        {statusOptions
+          .filter((option) => allowedStatuses.includes(option.value))
+          .map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <span className={statusColors[option.value]}>{option.label}</span>
+            </SelectItem>
+          ))}
       </SelectContent>
     </Select>
   );
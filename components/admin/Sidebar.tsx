@@ -12,6 +12,11 @@ import {
   BarChart3,
   Menu,
   Users,
+  ClipboardCheck,
+  Languages,
+  MessageSquare,
+  Webhook,
+  Signpost,
 } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
@@ -25,9 +30,14 @@ const navItems = [
   { href: '/dashboard/posts', label: 'Posts', icon: FileText, roles: ['admin', 'editor'] },
   { href: '/dashboard/categories', label: 'Categories', icon: FolderOpen, roles: ['admin', 'editor'] },
   { href: '/dashboard/tags', label: 'Tags', icon: Tags, roles: ['admin', 'editor'] },
+  { href: '/dashboard/translations', label: 'Translations', icon: Languages, roles: ['admin', 'editor'] },
   { href: '/dashboard/media', label: 'Media', icon: Image, roles: ['admin', 'editor'] },
   { href: '/dashboard/analytics', label: 'Analytics', icon: BarChart3, roles: ['admin', 'editor'] },
+  { href: '/dashboard/review', label: 'Review', icon: ClipboardCheck, roles: ['admin'] },
+  { href: '/dashboard/comments', label: 'Comments', icon: MessageSquare, roles: ['admin'] },
   { href: '/dashboard/users', label: 'Users', icon: Users, roles: ['admin'] },
+  { href: '/dashboard/webhooks', label: 'Webhooks', icon: Webhook, roles: ['admin'] },
+  { href: '/dashboard/redirects', label: 'Redirects', icon: Signpost, roles: ['admin'] },
 ];
 
 function NavLink({ href, label, icon: Icon, isActive }: {
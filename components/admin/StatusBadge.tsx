@@ -1,11 +1,14 @@
 import { Badge } from '@/components/ui/badge';
 
-type PostStatus = 'DRAFT' | 'SCHEDULED' | 'PUBLISHED';
+type PostStatus = 'DRAFT' | 'IN_REVIEW' | 'REJECTED' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
 
 const statusConfig: Record<PostStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
   DRAFT: { label: 'Draft', variant: 'secondary' },
+  IN_REVIEW: { label: 'In Review', variant: 'outline' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
   SCHEDULED: { label: 'Scheduled', variant: 'outline' },
   PUBLISHED: { label: 'Published', variant: 'default' },
+  ARCHIVED: { label: 'Archived', variant: 'secondary' },
 };
 
 interface StatusBadgeProps {
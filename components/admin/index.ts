@@ -1,7 +1,9 @@
 export { Sidebar, AdminHeader } from './Sidebar';
 export { StatsCard } from './StatsCard';
+export { NewsQuotaCard } from './NewsQuotaCard';
 export { StatusBadge } from './StatusBadge';
 export { PostForm } from './PostForm';
+export { PostRevisionHistory } from './PostRevisionHistory';
 export { CategoryForm } from './CategoryForm';
 export { CategoryTreeView } from './CategoryTreeView';
 export { TagForm } from './TagForm';
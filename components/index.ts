@@ -13,6 +13,7 @@ export { CategoryList, type CategoryListProps } from "./CategoryList";
 export { TagList, type TagListProps } from "./TagList";
 export { SearchBar, type SearchBarProps } from "./SearchBar";
 export { SearchResultCard, type SearchResultCardProps } from "./SearchResultCard";
+export { ExternalSearchResultCard, type ExternalSearchResultCardProps } from "./ExternalSearchResultCard";
 
 // News components
 export { NewsCard, type NewsCardProps } from "./NewsCard";
@@ -29,9 +30,16 @@ export { IncludeSubcategoriesToggle, type IncludeSubcategoriesToggleProps } from
 export { LocaleSwitcher, type LocaleSwitcherProps } from "./LocaleSwitcher";
 export { LocaleFallbackNotice, type LocaleFallbackNoticeProps } from "./LocaleFallbackNotice";
 
+// Newsletter components
+export { SubscribeForm, type SubscribeFormProps } from "./SubscribeForm";
+
+// Comment components
+export { CommentSection, type CommentSectionProps } from "./CommentSection";
+export { CommentForm, type CommentFormProps } from "./CommentForm";
+
 // Theme components
 export { ThemeToggle } from "./ThemeToggle";
 
 // SEO components
-export { ArticleJsonLd, WebsiteJsonLd, BreadcrumbJsonLd } from "./JsonLd";
+export { ArticleJsonLd, WebsiteJsonLd, OrganizationJsonLd, BreadcrumbJsonLd } from "./JsonLd";
 export { HreflangTags, generateHreflangAlternates } from "./HreflangTags";
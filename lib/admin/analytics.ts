@@ -77,6 +77,7 @@ export const analyticsService = {
       publishedPosts,
       draftPosts,
       scheduledPosts,
+      inReviewPosts,
       totalViews,
       viewsThisWeek,
       viewsToday,
@@ -86,6 +87,7 @@ export const analyticsService = {
       prisma.post.count({ where: { status: 'PUBLISHED' } }),
       prisma.post.count({ where: { status: 'DRAFT' } }),
       prisma.post.count({ where: { status: 'SCHEDULED' } }),
+      prisma.post.count({ where: { status: 'IN_REVIEW' } }),
       prisma.pageView.count(),
       prisma.pageView.count({ where: { viewedAt: { gte: weekAgo } } }),
       prisma.pageView.count({ where: { viewedAt: { gte: todayStart } } }),
@@ -97,6 +99,7 @@ export const analyticsService = {
       publishedPosts,
       draftPosts,
       scheduledPosts,
+      inReviewPosts,
       totalViews,
       viewsThisWeek,
       viewsToday,
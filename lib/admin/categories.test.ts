@@ -208,6 +208,10 @@ vi.mock('@/lib/db/prisma', () => {
         }),
       },
 
+      redirect: {
+        deleteMany: vi.fn(async () => ({ count: 0 })),
+      },
+
       $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => {
         return fn({
           category: {
@@ -250,6 +254,11 @@ vi.mock('@/lib/cache/posts', () => ({
   },
 }));
 
+// Mock outbound webhooks
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+}));
+
 // Import after mocking
 import { categoryService, type CreateCategoryInput } from './categories';
 
@@ -1,5 +1,7 @@
 import prisma from '@/lib/db/prisma';
 import { postCache } from '@/lib/cache/posts';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
+import { redirectService, categoryPaths } from '@/lib/redirects';
 import type { Category } from '@/lib/generated/prisma';
 import type { Post } from '@/lib/types';
 import { MAX_CATEGORY_DEPTH, validateNoCycle } from '@/lib/categories/validation';
@@ -161,6 +163,9 @@ export const categoryService = {
     // Invalidate cache
     await postCache.invalidateCategories();
 
+    // The new category takes over its paths from any earlier redirects
+    await redirectService.clearRedirectsFrom(categoryPaths(category.slug));
+
     return category;
   },
 
@@ -185,6 +190,10 @@ export const categoryService = {
       }
     }
 
+    const current = data.slug
+      ? await prisma.category.findUnique({ where: { id }, select: { slug: true } })
+      : null;
+
     const category = await prisma.category.update({
       where: { id },
       data,
@@ -194,6 +203,14 @@ export const categoryService = {
     await postCache.invalidateCategories();
     await postCache.invalidateAllPosts();
 
+    // Keep old category links working after a slug change
+    if (current && current.slug !== category.slug) {
+      const newPaths = categoryPaths(category.slug);
+      await redirectService.recordPathChanges(
+        categoryPaths(current.slug).map((from, index) => ({ from, to: newPaths[index] }))
+      );
+    }
+
     return category;
   },
 
@@ -422,6 +439,14 @@ export const categoryService = {
     await postCache.invalidateCategories();
     await postCache.invalidateAllPosts();
 
+    await dispatchWebhookEvent('category.moved', {
+      id: updatedCategory.id,
+      slug: updatedCategory.slug,
+      name: updatedCategory.name,
+      previousParentId: category.parentId,
+      parentId: updatedCategory.parentId,
+    });
+
     return updatedCategory;
   },
 
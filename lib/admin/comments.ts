@@ -0,0 +1,111 @@
+import prisma from '@/lib/db/prisma';
+import type { Comment, CommentBan } from '@/lib/generated/prisma';
+
+export interface ModerationComment extends Comment {
+  post: { id: string; title: string; slug: string; locale: string };
+  parent: { authorName: string; body: string } | null;
+}
+
+export interface ModeratedComment extends Comment {
+  post: { slug: string; locale: string };
+}
+
+export interface BanResult {
+  ban: CommentBan;
+  comment: ModeratedComment;
+  /** Other pending comments by the same author that were marked as spam */
+  flagged: number;
+}
+
+const postSummary = { select: { id: true, title: true, slug: true, locale: true } } as const;
+
+/**
+ * Comment Moderation Service - review queue for reader comments
+ */
+export const commentModerationService = {
+  /**
+   * Get pending comments, oldest first
+   */
+  async getModerationQueue(): Promise<ModerationComment[]> {
+    return prisma.comment.findMany({
+      where: { status: 'PENDING' },
+      include: {
+        post: postSummary,
+        parent: { select: { authorName: true, body: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  },
+
+  /**
+   * Count comments waiting for moderation
+   */
+  async getPendingCount(): Promise<number> {
+    return prisma.comment.count({ where: { status: 'PENDING' } });
+  },
+
+  /**
+   * Publish a comment under its post
+   */
+  async approveComment(id: string, moderatorId: string): Promise<ModeratedComment> {
+    return prisma.comment.update({
+      where: { id },
+      data: { status: 'APPROVED', moderatedAt: new Date(), moderatedById: moderatorId },
+      include: { post: postSummary },
+    });
+  },
+
+  /**
+   * Hide a comment. Replies to it disappear from the thread as well.
+   */
+  async rejectComment(id: string, moderatorId: string): Promise<ModeratedComment> {
+    return prisma.comment.update({
+      where: { id },
+      data: { status: 'REJECTED', moderatedAt: new Date(), moderatedById: moderatorId },
+      include: { post: postSummary },
+    });
+  },
+
+  /**
+   * Ban a comment's author by email and IP address, mark the comment as
+   * spam and flag the author's other pending comments as spam too
+   */
+  async banCommenter(id: string, moderatorId: string, reason?: string): Promise<BanResult> {
+    return prisma.$transaction(async (tx) => {
+      const target = await tx.comment.findUnique({ where: { id } });
+      if (!target) {
+        throw new Error('Comment not found');
+      }
+
+      const ban = await tx.commentBan.upsert({
+        where: { email: target.authorEmail },
+        create: {
+          email: target.authorEmail,
+          ipAddress: target.ipAddress,
+          reason: reason ?? null,
+          createdById: moderatorId,
+        },
+        update: {
+          ipAddress: target.ipAddress ?? undefined,
+          reason: reason ?? undefined,
+          createdById: moderatorId,
+        },
+      });
+
+      const moderation = { status: 'SPAM' as const, moderatedAt: new Date(), moderatedById: moderatorId };
+
+      const comment = await tx.comment.update({
+        where: { id },
+        data: moderation,
+        include: { post: postSummary },
+      });
+
+      const { count: flagged } = await tx.comment.updateMany({
+        where: { authorEmail: target.authorEmail, status: 'PENDING', id: { not: id } },
+        data: moderation,
+      });
+
+      return { ban, comment, flagged };
+    });
+  },
+};
@@ -1,5 +1,9 @@
 export { adminPostService, type AdminPost, type PostFilters, type CreatePostInput, type UpdatePostInput } from './posts';
+export { postRevisionService, type PostRevisionWithEditor } from './revisions';
+export { translationService, type TranslationRow, type TranslationCell } from './translations';
 export { categoryService, type CategoryWithCount, type CreateCategoryInput, type UpdateCategoryInput, type CategoryNode } from './categories';
 export { tagService, type TagWithCount, type CreateTagInput, type UpdateTagInput } from './tags';
 export { mediaService, type UploadResult, type PaginatedMedia } from './media';
 export { analyticsService, type DateRange, type ViewStats, type PostWithViews } from './analytics';
+export { commentModerationService, type ModerationComment, type ModeratedComment, type BanResult } from './comments';
+export { webhookService, type CreateWebhookInput, type UpdateWebhookInput, type WebhookEndpointWithStats, type DeliveryLogEntry } from './webhooks';
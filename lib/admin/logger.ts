@@ -6,6 +6,9 @@ export type ActivityAction =
   | 'UPDATE_POST'
   | 'DELETE_POST'
   | 'PUBLISH_POST'
+  | 'SUBMIT_POST'
+  | 'APPROVE_POST'
+  | 'REJECT_POST'
   | 'CREATE_CATEGORY'
   | 'UPDATE_CATEGORY'
   | 'DELETE_CATEGORY'
@@ -14,9 +17,21 @@ export type ActivityAction =
   | 'DELETE_MEDIA'
   | 'UPDATE_USER'
   | 'DELETE_USER'
-  | 'INVITE_USER';
+  | 'INVITE_USER'
+  | 'APPROVE_COMMENT'
+  | 'REJECT_COMMENT'
+  | 'BAN_COMMENTER'
+  | 'CREATE_WEBHOOK'
+  | 'UPDATE_WEBHOOK'
+  | 'DELETE_WEBHOOK'
+  | 'RESEND_WEBHOOK'
+  | 'EXPORT_ARCHIVE'
+  | 'RESTORE_ARCHIVE'
+  | 'CREATE_REDIRECT'
+  | 'UPDATE_REDIRECT'
+  | 'DELETE_REDIRECT';
 
-export type EntityType = 'POST' | 'CATEGORY' | 'TAG' | 'MEDIA' | 'USER' | 'SYSTEM';
+export type EntityType = 'POST' | 'CATEGORY' | 'TAG' | 'MEDIA' | 'USER' | 'COMMENT' | 'WEBHOOK' | 'REDIRECT' | 'SYSTEM';
 
 interface LogActivityParams {
   action: ActivityAction;
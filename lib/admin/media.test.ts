@@ -129,6 +129,11 @@ vi.mock('@/lib/media/upload', () => ({
   validateFile: vi.fn(() => ({ valid: true })),
 }));
 
+// Mock outbound webhooks
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+}));
+
 // Import after mocking
 import { mediaService } from './media';
 
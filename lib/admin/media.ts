@@ -1,6 +1,7 @@
 import prisma from '@/lib/db/prisma';
 import imagekit, { getOptimizedUrl, getThumbnailUrl } from '@/lib/media/imagekit';
 import { validateFile } from '@/lib/media/upload';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
 import type { Media } from '@/lib/generated/prisma';
 
 export interface UploadResult {
@@ -209,6 +210,13 @@ export const mediaService = {
 
     // Delete from database
     await prisma.media.delete({ where: { id } });
+
+    await dispatchWebhookEvent('media.deleted', {
+      id: media.id,
+      fileId: media.fileId,
+      url: media.url,
+      filename: media.filename,
+    });
   },
 
   /**
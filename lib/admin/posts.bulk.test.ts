@@ -0,0 +1,252 @@
+/**
+ * Tests for bulk actions on posts
+ *
+ * Property: A bulk action SHALL change every selected post or none of them,
+ * and SHALL invalidate the cache once for the whole selection.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+type StoredPost = {
+  id: string;
+  slug: string;
+  locale: string;
+  title: string;
+  status: string;
+  categoryId: string | null;
+  featured: boolean;
+  publishedAt: Date | null;
+  scheduledAt: Date | null;
+  updatedAt: Date;
+};
+
+const { postStore, postTagStore } = vi.hoisted(() => ({
+  postStore: new Map<string, StoredPost>(),
+  postTagStore: [] as { postId: string; tagId: string }[],
+}));
+
+type IdWhere = { id: { in: string[] }; status?: { not: string } };
+
+function matching(where: IdWhere): StoredPost[] {
+  return where.id.in
+    .map((id) => postStore.get(id))
+    .filter((post): post is StoredPost => !!post && post.status !== where.status?.not);
+}
+
+vi.mock('@/lib/db/prisma', () => {
+  const client = {
+    post: {
+      findMany: vi.fn(async ({ where }: { where: IdWhere }) => matching(where).map((post) => ({ ...post }))),
+      updateMany: vi.fn(async ({ where, data }: { where: IdWhere; data: Partial<StoredPost> }) => {
+        const posts = matching(where);
+        for (const post of posts) {
+          postStore.set(post.id, { ...post, ...data });
+        }
+        return { count: posts.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: IdWhere }) => {
+        const posts = matching(where);
+        for (const post of posts) {
+          postStore.delete(post.id);
+        }
+        return { count: posts.length };
+      }),
+    },
+    postTag: {
+      createMany: vi.fn(async ({ data }: { data: { postId: string; tagId: string }[] }) => {
+        const fresh = data.filter(
+          (row) => !postTagStore.some((pt) => pt.postId === row.postId && pt.tagId === row.tagId)
+        );
+        postTagStore.push(...fresh);
+        return { count: fresh.length };
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: { postId: { in: string[] }; tagId: { in: string[] } } }) => {
+        const kept = postTagStore.filter(
+          (pt) => !(where.postId.in.includes(pt.postId) && where.tagId.in.includes(pt.tagId))
+        );
+        const count = postTagStore.length - kept.length;
+        postTagStore.splice(0, postTagStore.length, ...kept);
+        return { count };
+      }),
+    },
+    redirect: {
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+    },
+    $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) => fn(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('@/lib/cache/posts', () => ({
+  postCache: {
+    invalidatePost: vi.fn(async () => {}),
+    invalidatePosts: vi.fn(async () => {}),
+    invalidateAllPosts: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+  toPostEventData: vi.fn((post: { id: string }) => ({ id: post.id })),
+}));
+
+// Import after mocking
+import prisma from '@/lib/db/prisma';
+import { adminPostService } from './posts';
+import { PostWorkflowError } from './workflow';
+import { postCache } from '@/lib/cache/posts';
+import { updateSearchVectors } from '@/lib/search';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
+
+const admin = { id: 'admin-1', role: 'admin' as const };
+const editor = { id: 'editor-1', role: 'editor' as const };
+
+const statusArb = fc.constantFrom('DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+
+function seed(statuses: string[]): string[] {
+  postStore.clear();
+  postTagStore.length = 0;
+  vi.clearAllMocks();
+
+  return statuses.map((status, i) => {
+    const id = `post-${i}`;
+    postStore.set(id, {
+      id,
+      slug: `post-${i}`,
+      locale: 'en',
+      title: `Post ${i}`,
+      status,
+      categoryId: null,
+      featured: false,
+      publishedAt: status === 'PUBLISHED' ? new Date('2025-01-01T00:00:00Z') : null,
+      scheduledAt: null,
+      updatedAt: new Date('2025-01-01T00:00:00Z'),
+    });
+    return id;
+  });
+}
+
+describe('adminPostService.bulkUpdate', () => {
+  beforeEach(() => {
+    seed([]);
+  });
+
+  it('publishes every selected post and keeps existing publish dates', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(statusArb, { minLength: 1, maxLength: 10 }), async (statuses) => {
+        const ids = seed(statuses);
+        const before = new Map([...postStore].map(([id, post]) => [id, post.publishedAt]));
+
+        const result = await adminPostService.bulkUpdate(ids, { type: 'publish' }, admin);
+
+        expect(result.affected).toHaveLength(ids.length);
+        for (const id of ids) {
+          const post = postStore.get(id)!;
+          expect(post.status).toBe('PUBLISHED');
+          expect(post.publishedAt).not.toBeNull();
+          if (before.get(id)) {
+            expect(post.publishedAt).toEqual(before.get(id));
+          }
+        }
+        expect(postCache.invalidatePosts).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(postCache.invalidatePosts).mock.calls[0][0]).toHaveLength(ids.length);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('changes nothing when any post may not make the transition', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(statusArb, { minLength: 1, maxLength: 10 }), async (statuses) => {
+        const ids = seed(['DRAFT', ...statuses]);
+        const snapshot = structuredClone([...postStore.values()]);
+
+        await expect(adminPostService.bulkUpdate(ids, { type: 'publish' }, editor)).rejects.toBeInstanceOf(
+          PostWorkflowError
+        );
+
+        expect([...postStore.values()]).toEqual(snapshot);
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+        expect(postCache.invalidatePosts).not.toHaveBeenCalled();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('rejects selections containing unknown posts', async () => {
+    const ids = seed(['DRAFT']);
+
+    await expect(
+      adminPostService.bulkUpdate([...ids, 'missing'], { type: 'setFeatured', featured: true }, admin)
+    ).rejects.toThrow('Some posts were not found');
+    expect(postStore.get(ids[0])?.featured).toBe(false);
+  });
+
+  it('adds tags once and removes only the chosen tags', async () => {
+    const ids = seed(['DRAFT', 'PUBLISHED']);
+
+    await adminPostService.bulkUpdate(ids, { type: 'addTags', tagIds: ['a', 'b'] }, editor);
+    await adminPostService.bulkUpdate(ids, { type: 'addTags', tagIds: ['b'] }, editor);
+    expect(postTagStore).toHaveLength(4);
+
+    await adminPostService.bulkUpdate(ids, { type: 'removeTags', tagIds: ['a'] }, editor);
+    expect(postTagStore.map((pt) => pt.tagId).sort()).toEqual(['b', 'b']);
+    expect(updateSearchVectors).toHaveBeenLastCalledWith(ids);
+  });
+
+  it('sets category and featured on every selected post', async () => {
+    const ids = seed(['DRAFT', 'IN_REVIEW', 'PUBLISHED']);
+
+    await adminPostService.bulkUpdate(ids, { type: 'setCategory', categoryId: 'cat-1' }, editor);
+    await adminPostService.bulkUpdate(ids, { type: 'setFeatured', featured: true }, editor);
+
+    for (const id of ids) {
+      expect(postStore.get(id)).toMatchObject({ categoryId: 'cat-1', featured: true });
+    }
+  });
+
+  it('schedules drafts, posts in review and already scheduled posts without a publish date', async () => {
+    const ids = seed(['DRAFT', 'IN_REVIEW', 'SCHEDULED']);
+    // A rescheduled post keeps no publish date from an earlier run
+    postStore.get(ids[2])!.publishedAt = new Date('2025-01-01T00:00:00Z');
+    const publishAt = new Date('2030-01-01T09:00:00Z');
+
+    await adminPostService.bulkUpdate(ids, { type: 'schedule', publishAt }, admin);
+
+    for (const id of ids) {
+      expect(postStore.get(id)).toMatchObject({ status: 'SCHEDULED', scheduledAt: publishAt, publishedAt: null });
+    }
+    expect(dispatchWebhookEvent).not.toHaveBeenCalled();
+  });
+
+  it('unpublishes posts and sends events only for posts that were public', async () => {
+    const ids = seed(['PUBLISHED', 'ARCHIVED', 'DRAFT']);
+
+    await adminPostService.bulkUpdate(ids, { type: 'unpublish' }, admin);
+
+    for (const id of ids) {
+      expect(postStore.get(id)).toMatchObject({ status: 'DRAFT', publishedAt: null });
+    }
+    expect(vi.mocked(dispatchWebhookEvent).mock.calls.map(([type]) => type)).toEqual(['post.unpublished']);
+  });
+
+  it('deletes every selected post and sends a delete event for each', async () => {
+    const ids = seed(['DRAFT', 'PUBLISHED', 'ARCHIVED']);
+
+    const result = await adminPostService.bulkUpdate(ids, { type: 'delete' }, editor);
+
+    expect(result.affected.map((post) => post.id)).toEqual(ids);
+    expect(postStore.size).toBe(0);
+    expect(vi.mocked(dispatchWebhookEvent).mock.calls.map(([type]) => type)).toEqual([
+      'post.deleted',
+      'post.deleted',
+      'post.deleted',
+    ]);
+    expect(postCache.invalidatePosts).toHaveBeenCalledTimes(1);
+  });
+});
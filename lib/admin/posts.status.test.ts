@@ -64,6 +64,16 @@ vi.mock('@/lib/db/prisma', () => {
                 });
               }
             }
+            // Handle unpublishAt filter for processExpiredPosts
+            if (where?.unpublishAt && typeof where.unpublishAt === 'object') {
+              const unpublishAtFilter = where.unpublishAt as { lte?: Date };
+              if (unpublishAtFilter.lte) {
+                posts = posts.filter((p) => {
+                  if (!p.unpublishAt) return false;
+                  return new Date(p.unpublishAt as string) <= unpublishAtFilter.lte!;
+                });
+              }
+            }
 
             // Add relations if included
             if (include) {
@@ -175,6 +185,7 @@ vi.mock('@/lib/db/prisma', () => {
               status: data.status || 'DRAFT',
               publishedAt: data.publishedAt || null,
               scheduledAt: data.scheduledAt || null,
+              unpublishAt: data.unpublishAt || null,
               createdAt: now,
               updatedAt: now,
               readingTime: data.readingTime || 0,
@@ -289,6 +300,20 @@ vi.mock('@/lib/db/prisma', () => {
         }),
       },
 
+      postRevision: {
+        create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => data),
+        // Every post here was created through createPost, which records a revision
+        count: vi.fn(async () => 1),
+      },
+
+      redirect: {
+        deleteMany: vi.fn(async () => ({ count: 0 })),
+      },
+
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) =>
+        fn((await import('@/lib/db/prisma')).default)
+      ),
+
       postTag: {
         deleteMany: vi.fn(async ({ where }: { where: { postId: string } }) => {
           postTagStore.delete(where.postId);
@@ -318,8 +343,20 @@ vi.mock('@/lib/cache/posts', () => ({
   },
 }));
 
+// Mock the full-text search index
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+// Mock outbound webhooks
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+  toPostEventData: vi.fn((post: { id: string }) => ({ id: post.id })),
+}));
+
 // Import after mocking
 import { adminPostService, type CreatePostInput } from './posts';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
 
 // Helper to reset mock state
 function resetMockState() {
@@ -607,4 +644,80 @@ describe('Property 23: Post status transitions', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * Property: For any published post whose unpublishAt has passed,
+   * processExpiredPosts SHALL change status to 'ARCHIVED'; posts with a
+   * future unpublishAt SHALL stay published.
+   */
+  it('published posts are archived when unpublishAt is reached', async () => {
+    const hoursArb = fc.integer({ min: 1, max: 30 * 24 });
+
+    await fc.assert(
+      fc.asyncProperty(draftPostInputArb, hoursArb, fc.boolean(), async (input, hours, expired) => {
+        resetMockState();
+
+        const offset = hours * 60 * 60 * 1000;
+        const unpublishAt = new Date(expired ? Date.now() - offset : Date.now() + offset);
+        const post = await adminPostService.createPost({
+          ...(input as CreatePostInput),
+          status: 'PUBLISHED',
+          unpublishAt,
+        });
+
+        const processedCount = await adminPostService.processExpiredPosts();
+        expect(processedCount).toBe(expired ? 1 : 0);
+
+        const updatedPost = await adminPostService.getPostById(post.id);
+        expect(updatedPost!.status).toBe(expired ? 'ARCHIVED' : 'PUBLISHED');
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Post lifecycle webhooks', () => {
+  beforeEach(() => {
+    resetMockState();
+  });
+
+  const dispatchedEvents = () => vi.mocked(dispatchWebhookEvent).mock.calls.map(([type]) => type);
+
+  /**
+   * Property: Only changes to public posts SHALL be sent to webhooks -
+   * publishing, editing while published and taking a post down.
+   */
+  it('sends publish, update and unpublish events for public posts only', async () => {
+    await fc.assert(
+      fc.asyncProperty(draftPostInputArb, async (input) => {
+        resetMockState();
+
+        const draft = await adminPostService.createPost(input as CreatePostInput);
+        await adminPostService.updatePost(draft.id, { title: `${input.title} (edited)` });
+        expect(dispatchedEvents()).toEqual([]);
+
+        await adminPostService.publishPost(draft.id);
+        await adminPostService.updatePost(draft.id, { excerpt: 'Updated' });
+        await adminPostService.unpublishPost(draft.id);
+        await adminPostService.deletePost(draft.id);
+
+        expect(dispatchedEvents()).toEqual(['post.published', 'post.updated', 'post.unpublished', 'post.deleted']);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('sends post.published for scheduled posts when they go live', async () => {
+    await fc.assert(
+      fc.asyncProperty(scheduledPostInputArb, async (input) => {
+        resetMockState();
+
+        await adminPostService.createPost(input as CreatePostInput);
+        await adminPostService.processScheduledPosts();
+
+        expect(dispatchedEvents()).toEqual(['post.published']);
+      }),
+      { numRuns: 50 }
+    );
+  });
 });
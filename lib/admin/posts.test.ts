@@ -13,14 +13,16 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 
 // Use vi.hoisted to create stores that can be accessed by vi.mock
-const { postStore, postTagStore, generateId, resetIdCounter } = vi.hoisted(() => {
+const { postStore, postTagStore, revisionStore, generateId, resetIdCounter } = vi.hoisted(() => {
   const postStore = new Map<string, Record<string, unknown>>();
   const postTagStore = new Map<string, { postId: string; tagId: string }[]>();
+  const revisionStore: Record<string, unknown>[] = [];
   let idCounter = 0;
   
   return {
     postStore,
     postTagStore,
+    revisionStore,
     generateId: () => `test-post-${++idCounter}`,
     resetIdCounter: () => { idCounter = 0; },
   };
@@ -178,6 +180,25 @@ vi.mock('@/lib/db/prisma', () => {
         }),
       },
       
+      postRevision: {
+        create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+          revisionStore.push(data);
+          return data;
+        }),
+
+        count: vi.fn(async ({ where }: { where: { postId: string } }) =>
+          revisionStore.filter((revision) => revision.postId === where.postId).length
+        ),
+      },
+
+      redirect: {
+        deleteMany: vi.fn(async () => ({ count: 0 })),
+      },
+
+      $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) =>
+        fn((await import('@/lib/db/prisma')).default)
+      ),
+      
       postTag: {
         deleteMany: vi.fn(async ({ where }: { where: { postId: string } }) => {
           postTagStore.delete(where.postId);
@@ -205,13 +226,26 @@ vi.mock('@/lib/cache/posts', () => ({
   },
 }));
 
+// Mock the full-text search index
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+// Mock outbound webhooks
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+  toPostEventData: vi.fn((post: { id: string }) => ({ id: post.id })),
+}));
+
 // Import after mocking
+import prisma from '@/lib/db/prisma';
 import { adminPostService, type CreatePostInput } from './posts';
 
 // Helper to reset mock state
 function resetMockState() {
   postStore.clear();
   postTagStore.clear();
+  revisionStore.length = 0;
   resetIdCounter();
   vi.clearAllMocks();
 }
@@ -461,4 +495,105 @@ describe('Property 22: Post CRUD consistency', () => {
       { numRuns: 50 }
     );
   });
+
+  /**
+   * Property: Every content save SHALL record a revision holding the saved
+   * title, content and excerpt; saves that leave them untouched SHALL NOT.
+   */
+  it('updatePost records a revision only when content fields change', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        createPostInputArb,
+        fc.string({ minLength: 1, maxLength: 100 }).filter(s => s.trim().length > 0),
+        fc.uuid(),
+        async (input, newTitle, editorId) => {
+          resetMockState();
+
+          const createdPost = await adminPostService.createPost(input as CreatePostInput);
+          expect(revisionStore).toHaveLength(1);
+          expect(revisionStore[0].editorId).toBe(input.authorId);
+
+          // Non-content update does not create a revision
+          await adminPostService.updatePost(createdPost.id, { featured: !createdPost.featured }, editorId);
+          expect(revisionStore).toHaveLength(1);
+
+          await adminPostService.updatePost(createdPost.id, { title: newTitle }, editorId);
+          const expectedCount = newTitle === input.title ? 1 : 2;
+          expect(revisionStore).toHaveLength(expectedCount);
+
+          const latest = revisionStore[revisionStore.length - 1];
+          expect(latest.postId).toBe(createdPost.id);
+          expect(latest.title).toBe(newTitle);
+          expect(latest.content).toBe(input.content);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  /**
+   * Property: The first edit of a post that has no revisions yet SHALL keep
+   * its previous content as a revision before the edited one.
+   */
+  it('updatePost keeps the original content of a post without revisions', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        createPostInputArb,
+        fc.string({ minLength: 1, maxLength: 500 }).filter(s => s.trim().length > 0),
+        fc.uuid(),
+        async (input, newContent, editorId) => {
+          fc.pre(newContent !== input.content);
+          resetMockState();
+
+          // A post stored before revisions were recorded
+          postStore.set('legacy-post', {
+            id: 'legacy-post',
+            slug: input.slug,
+            locale: input.locale,
+            title: input.title,
+            content: input.content,
+            excerpt: input.excerpt ?? null,
+            status: input.status,
+            authorId: input.authorId,
+          });
+
+          await adminPostService.updatePost('legacy-post', { content: newContent }, editorId);
+          await adminPostService.updatePost('legacy-post', { content: `${newContent} (edited)` }, editorId);
+
+          expect(revisionStore.map((revision) => revision.content)).toEqual([
+            input.content,
+            newContent,
+            `${newContent} (edited)`,
+          ]);
+          expect(revisionStore[0]).toMatchObject({ postId: 'legacy-post', title: input.title, excerpt: input.excerpt ?? null });
+          expect(revisionStore[0].editorId).toBeUndefined();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  /**
+   * Property: A new post, and a post once it is published, SHALL take over
+   * its path from any redirect left there by an earlier slug.
+   */
+  it('createPost and publishing clear redirects from the post path', async () => {
+    await fc.assert(
+      fc.asyncProperty(createPostInputArb, async (input) => {
+        resetMockState();
+        const clearedPaths = () => vi.mocked(prisma.redirect.deleteMany).mock.calls.map(([args]) => args?.where);
+        const path = { source: { in: [`/${input.locale}/blog/${input.slug}`] } };
+
+        const createdPost = await adminPostService.createPost({ ...input, status: 'DRAFT' } as CreatePostInput);
+        expect(clearedPaths()).toEqual([path]);
+
+        await adminPostService.updatePost(createdPost.id, { featured: !createdPost.featured });
+        expect(clearedPaths()).toEqual([path]);
+
+        await adminPostService.publishPost(createdPost.id);
+        expect(clearedPaths()).toEqual([path, path]);
+      }),
+      { numRuns: 30 }
+    );
+  });
 });
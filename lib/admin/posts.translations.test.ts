@@ -0,0 +1,219 @@
+/**
+ * Property-Based Tests for Translation Groups
+ *
+ * Property: Linking posts into a translation group SHALL give every version
+ * the same translationGroupId, keep at most one version per locale, and pull
+ * in legacy versions that were linked only by a shared slug. A new
+ * translation SHALL get a slug not yet used in its locale.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+type StoredPost = {
+  id: string;
+  slug: string;
+  locale: string;
+  translationGroupId: string | null;
+};
+
+const { postStore } = vi.hoisted(() => ({
+  postStore: new Map<string, StoredPost>(),
+}));
+
+// Minimal where-clause matcher for the filters used by the translation methods
+function matches(post: StoredPost, where: Record<string, unknown>): boolean {
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'OR') {
+      if (!(value as Record<string, unknown>[]).some((w) => matches(post, w))) return false;
+    } else if (value !== null && typeof value === 'object' && 'not' in value) {
+      if (post[key as keyof StoredPost] === (value as { not: unknown }).not) return false;
+    } else if (post[key as keyof StoredPost] !== value) {
+      return false;
+    }
+  }
+  return true;
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  default: {
+    post: {
+      findUnique: vi.fn(async ({ where }: { where: { id: string } }) => postStore.get(where.id) ?? null),
+      findFirst: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        Array.from(postStore.values()).find((p) => matches(p, where)) ?? null
+      ),
+      findMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+        Array.from(postStore.values()).filter((p) => matches(p, where))
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredPost> }) => {
+        const post = { ...postStore.get(where.id)!, ...data };
+        postStore.set(where.id, post);
+        return post;
+      }),
+      updateMany: vi.fn(
+        async ({ where, data }: { where: Record<string, unknown>; data: Partial<StoredPost> }) => {
+          let count = 0;
+          for (const post of postStore.values()) {
+            if (matches(post, where)) {
+              postStore.set(post.id, { ...post, ...data });
+              count++;
+            }
+          }
+          return { count };
+        }
+      ),
+      create: vi.fn(async ({ data }: { data: Omit<StoredPost, 'id'> }) => {
+        const post = { ...data, id: `post-${postStore.size + 1}` };
+        postStore.set(post.id, post);
+        return post;
+      }),
+    },
+    postRevision: {
+      create: vi.fn(async () => ({})),
+    },
+    redirect: {
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+    },
+    $transaction: vi.fn(async (fn: (tx: unknown) => Promise<unknown>) =>
+      fn((await import('@/lib/db/prisma')).default)
+    ),
+  },
+}));
+
+vi.mock('@/lib/cache/posts', () => ({
+  postCache: {
+    invalidatePost: vi.fn(async () => {}),
+    invalidateAllPosts: vi.fn(async () => {}),
+  },
+}));
+
+// Mock outbound webhooks
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhookEvent: vi.fn(async () => 0),
+  toPostEventData: vi.fn((post: { id: string }) => ({ id: post.id })),
+}));
+
+// Mock the full-text search index
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+import prisma from '@/lib/db/prisma';
+import { adminPostService } from './posts';
+import { translationService } from './translations';
+
+const locales = ['en', 'es', 'fr', 'th'];
+
+const slugArb = fc.stringMatching(/^[a-z0-9]{1,12}$/);
+
+function addPost(id: string, slug: string, locale: string, translationGroupId: string | null = null) {
+  postStore.set(id, { id, slug, locale, translationGroupId });
+}
+
+describe('Translation groups', () => {
+  beforeEach(() => {
+    postStore.clear();
+  });
+
+  it('linked versions share one group id regardless of slug', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.shuffledSubarray(locales, { minLength: 2 }),
+        fc.array(slugArb, { minLength: 4, maxLength: 4 }),
+        async (groupLocales, slugs) => {
+          postStore.clear();
+          groupLocales.forEach((locale, i) => addPost(`post-${i}`, `${slugs[i]}-${locale}`, locale));
+
+          for (let i = 1; i < groupLocales.length; i++) {
+            await adminPostService.linkTranslation(`post-${i}`, `post-${i - 1}`);
+          }
+
+          const groupIds = new Set(Array.from(postStore.values()).map((p) => p.translationGroupId));
+          expect(groupIds.size).toBe(1);
+          expect(groupIds.has(null)).toBe(false);
+
+          const translations = await adminPostService.getTranslations('post-0');
+          expect(translations.map((t) => t.id).sort()).toEqual(
+            groupLocales.slice(1).map((_, i) => `post-${i + 1}`).sort()
+          );
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('rejects a second version in the same locale', async () => {
+    addPost('en-1', 'hello', 'en');
+    addPost('th-1', 'sawasdee', 'th');
+    addPost('th-2', 'sawasdee-2', 'th');
+
+    await adminPostService.linkTranslation('th-1', 'en-1');
+
+    await expect(adminPostService.linkTranslation('th-2', 'en-1')).rejects.toThrow(
+      'Translation group already has a th version'
+    );
+    expect(postStore.get('th-2')!.translationGroupId).toBeNull();
+  });
+
+  it('an ungrouped source brings along versions that share its slug', async () => {
+    addPost('en-1', 'hello', 'en');
+    addPost('es-1', 'hello', 'es');
+    addPost('th-1', 'sawasdee', 'th');
+
+    await adminPostService.linkTranslation('th-1', 'en-1');
+
+    expect(postStore.get('en-1')!.translationGroupId).toBe('en-1');
+    expect(postStore.get('es-1')!.translationGroupId).toBe('en-1');
+    expect(postStore.get('th-1')!.translationGroupId).toBe('en-1');
+  });
+
+  it('unlinking removes only that version from the group', async () => {
+    addPost('en-1', 'hello', 'en');
+    addPost('th-1', 'sawasdee', 'th');
+    addPost('fr-1', 'bonjour', 'fr');
+    await adminPostService.linkTranslation('th-1', 'en-1');
+    await adminPostService.linkTranslation('fr-1', 'en-1');
+
+    await adminPostService.unlinkTranslation('th-1');
+
+    expect(postStore.get('th-1')!.translationGroupId).toBeNull();
+    const translations = await adminPostService.getTranslations('en-1');
+    expect(translations.map((t) => t.id)).toEqual(['fr-1']);
+  });
+});
+
+describe('translationService.createTranslation', () => {
+  beforeEach(() => {
+    postStore.clear();
+  });
+
+  it('picks a slug not yet used in the locale and copies media in the same transaction', async () => {
+    postStore.set('en-1', {
+      id: 'en-1',
+      slug: 'guide',
+      locale: 'en',
+      translationGroupId: null,
+      title: 'Guide',
+      content: '<p>Guide</p>',
+      excerpt: null,
+      categoryId: null,
+      featured: false,
+      readingTime: 1,
+      tags: [{ tagId: 'tag-1' }],
+      postMedia: [{ mediaId: 'media-1', isCover: true, order: 0 }],
+    } as StoredPost);
+    // Other posts in the target locale already use the slug and its first suffix
+    addPost('es-1', 'guide', 'es', 'other');
+    addPost('es-2', 'guide-2', 'es', 'other-2');
+
+    const translation = await translationService.createTranslation('en-1', 'es', 'author-1');
+
+    expect(translation.slug).toBe('guide-3');
+    expect(translation.translationGroupId).toBe('en-1');
+    expect(vi.mocked(prisma.post.create).mock.calls.at(-1)![0].data).toMatchObject({
+      status: 'DRAFT',
+      postMedia: { create: [{ mediaId: 'media-1', isCover: true, order: 0 }] },
+    });
+    expect(vi.mocked(prisma.$transaction)).toHaveBeenCalled();
+  });
+});
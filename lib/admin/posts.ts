@@ -1,5 +1,10 @@
 import prisma from '@/lib/db/prisma';
 import { postCache } from '@/lib/cache/posts';
+import { updateSearchVectors } from '@/lib/search';
+import { dispatchWebhookEvent, toPostEventData } from '@/lib/webhooks';
+import { redirectService, postPath } from '@/lib/redirects';
+import { canTransition, PostWorkflowError } from './workflow';
+import type { Role } from '@/lib/auth/roles';
 import type { PostStatus, Prisma } from '@/lib/generated/prisma';
 
 // Types for admin post operations
@@ -38,22 +43,50 @@ export interface CreatePostInput {
   tagIds?: string[];
   authorId: string;
   scheduledAt?: Date;
+  unpublishAt?: Date;
   featured?: boolean;
   readingTime?: number;
+  translationGroupId?: string;
+  media?: { mediaId: string; isCover: boolean; order: number }[];
 }
 
 export interface UpdatePostInput {
   title?: string;
   content?: string;
-  excerpt?: string;
+  excerpt?: string | null;
   slug?: string;
   locale?: string;
   status?: PostStatus;
   categoryId?: string | null;
   tagIds?: string[];
   scheduledAt?: Date | null;
+  unpublishAt?: Date | null;
   featured?: boolean;
   readingTime?: number;
+  reviewComment?: string | null;
+  reviewedAt?: Date | null;
+}
+
+// User performing a workflow action
+export interface WorkflowActor {
+  id: string;
+  role: Role | null;
+}
+
+// A change applied to many posts at once from the dashboard
+export type BulkPostAction =
+  | { type: 'publish' }
+  | { type: 'unpublish' }
+  | { type: 'schedule'; publishAt: Date }
+  | { type: 'delete' }
+  | { type: 'setCategory'; categoryId: string | null }
+  | { type: 'addTags'; tagIds: string[] }
+  | { type: 'removeTags'; tagIds: string[] }
+  | { type: 'setFeatured'; featured: boolean };
+
+export interface BulkPostResult {
+  /** Posts the action was applied to */
+  affected: { id: string; title: string; status: PostStatus }[];
 }
 
 // Include relations for full post data
@@ -77,6 +110,53 @@ const postInclude = {
 
 export type AdminPost = Prisma.PostGetPayload<{ include: typeof postInclude }>;
 
+/**
+ * Whether an update changes any field captured by post revisions
+ */
+function hasRevisionChanges(
+  current: { title: string; content: string; excerpt: string | null },
+  data: UpdatePostInput
+): boolean {
+  return (
+    (data.title !== undefined && data.title !== current.title) ||
+    (data.content !== undefined && data.content !== current.content) ||
+    (data.excerpt !== undefined && (data.excerpt || null) !== current.excerpt)
+  );
+}
+
+/**
+ * Notify webhooks about a post change, based on whether it was and is published.
+ * Changes to posts that were never public are not sent.
+ */
+async function dispatchPostEvent(
+  previousStatus: PostStatus | null,
+  post: Parameters<typeof toPostEventData>[0] & { status: PostStatus }
+): Promise<void> {
+  const data = toPostEventData(post);
+
+  if (post.status === 'PUBLISHED') {
+    await dispatchWebhookEvent(previousStatus === 'PUBLISHED' ? 'post.updated' : 'post.published', data);
+  } else if (previousStatus === 'PUBLISHED') {
+    await dispatchWebhookEvent('post.unpublished', data);
+  }
+}
+
+/**
+ * Status a bulk action moves posts to, if it changes status at all
+ */
+function bulkTargetStatus(action: BulkPostAction): PostStatus | null {
+  switch (action.type) {
+    case 'publish':
+      return 'PUBLISHED';
+    case 'unpublish':
+      return 'DRAFT';
+    case 'schedule':
+      return 'SCHEDULED';
+    default:
+      return null;
+  }
+}
+
 /**
  * Admin Post Service - CRUD operations for blog posts
  */
@@ -182,76 +262,159 @@ export const adminPostService = {
   },
 
   /**
-   * Create a new post
+   * Create a new post with its tags and media, and record its first revision
+   * in the same transaction
    */
   async createPost(data: CreatePostInput): Promise<AdminPost> {
-    const { tagIds, ...postData } = data;
-
-    const post = await prisma.post.create({
-      data: {
-        ...postData,
-        publishedAt: data.status === 'PUBLISHED' ? new Date() : null,
-        tags: tagIds?.length
-          ? {
-              create: tagIds.map((tagId) => ({ tagId })),
-            }
-          : undefined,
-      },
-      include: postInclude,
+    const { tagIds, media, ...postData } = data;
+
+    const post = await prisma.$transaction(async (tx) => {
+      const created = await tx.post.create({
+        data: {
+          ...postData,
+          publishedAt: data.status === 'PUBLISHED' ? new Date() : null,
+          tags: tagIds?.length
+            ? {
+                create: tagIds.map((tagId) => ({ tagId })),
+              }
+            : undefined,
+          postMedia: media?.length ? { create: media } : undefined,
+        },
+        include: postInclude,
+      });
+
+      await tx.postRevision.create({
+        data: {
+          postId: created.id,
+          title: created.title,
+          content: created.content,
+          excerpt: created.excerpt,
+          editorId: data.authorId,
+        },
+      });
+
+      return created;
     });
 
+    await updateSearchVectors([post.id]);
+
     // Invalidate cache
     await postCache.invalidateAllPosts();
 
+    // The new post takes over its path from any earlier redirect
+    await redirectService.clearRedirectsFrom([postPath(post.locale, post.slug)]);
+
+    await dispatchPostEvent(null, post);
+
     return post;
   },
 
   /**
    * Update an existing post
+   * Records a revision when the title, content or excerpt changes. A post
+   * without revisions (created before they were kept) first gets one of its
+   * current content, so the first edit can be undone.
    */
-  async updatePost(id: string, data: UpdatePostInput): Promise<AdminPost> {
+  async updatePost(id: string, data: UpdatePostInput, editorId?: string): Promise<AdminPost> {
     const { tagIds, ...updateData } = data;
 
-    // Get current post for cache invalidation
+    // Get current post for cache invalidation and revision comparison
     const currentPost = await prisma.post.findUnique({
       where: { id },
-      select: { slug: true, locale: true },
+      select: { slug: true, locale: true, title: true, content: true, excerpt: true, status: true },
     });
 
-    // Handle tag updates
-    if (tagIds !== undefined) {
-      // Delete existing tags and create new ones
-      await prisma.postTag.deleteMany({ where: { postId: id } });
-      if (tagIds.length > 0) {
-        await prisma.postTag.createMany({
-          data: tagIds.map((tagId) => ({ postId: id, tagId })),
-        });
-      }
-    }
-
-    // Handle status change to published
+    // Handle status change to published; unpublished workflow states clear it
     const publishedAt =
       data.status === 'PUBLISHED'
         ? new Date()
-        : data.status === 'DRAFT'
+        : data.status === 'DRAFT' || data.status === 'IN_REVIEW' || data.status === 'REJECTED'
           ? null
           : undefined;
 
-    const post = await prisma.post.update({
-      where: { id },
-      data: {
-        ...updateData,
-        ...(publishedAt !== undefined && { publishedAt }),
-      },
-      include: postInclude,
+    // Submitting for review starts a new round, clearing the previous decision
+    const reviewReset =
+      data.status === 'IN_REVIEW' && data.reviewComment === undefined
+        ? { reviewComment: null, reviewedAt: null }
+        : {};
+
+    const recordRevision = currentPost !== null && hasRevisionChanges(currentPost, data);
+
+    const post = await prisma.$transaction(async (tx) => {
+      if (currentPost && recordRevision && (await tx.postRevision.count({ where: { postId: id } })) === 0) {
+        await tx.postRevision.create({
+          data: {
+            postId: id,
+            title: currentPost.title,
+            content: currentPost.content,
+            excerpt: currentPost.excerpt,
+          },
+        });
+      }
+
+      // Handle tag updates
+      if (tagIds !== undefined) {
+        // Delete existing tags and create new ones
+        await tx.postTag.deleteMany({ where: { postId: id } });
+        if (tagIds.length > 0) {
+          await tx.postTag.createMany({
+            data: tagIds.map((tagId) => ({ postId: id, tagId })),
+          });
+        }
+      }
+
+      const updated = await tx.post.update({
+        where: { id },
+        data: {
+          ...updateData,
+          ...reviewReset,
+          ...(publishedAt !== undefined && { publishedAt }),
+        },
+        include: postInclude,
+      });
+
+      if (recordRevision) {
+        await tx.postRevision.create({
+          data: {
+            postId: id,
+            title: updated.title,
+            content: updated.content,
+            excerpt: updated.excerpt,
+            editorId,
+          },
+        });
+      }
+
+      return updated;
     });
 
+    // Reindex for full-text search when searchable fields change
+    if (
+      tagIds !== undefined ||
+      data.title !== undefined ||
+      data.content !== undefined ||
+      data.excerpt !== undefined
+    ) {
+      await updateSearchVectors([id]);
+    }
+
     // Invalidate cache
     if (currentPost) {
       await postCache.invalidatePost(currentPost.slug, currentPost.locale);
     }
     await postCache.invalidatePost(post.slug, post.locale);
 
+    // Keep old links to a public post working after a slug change
+    if (currentPost?.status === 'PUBLISHED' && (currentPost.slug !== post.slug || currentPost.locale !== post.locale)) {
+      await redirectService.recordPathChanges([
+        { from: postPath(currentPost.locale, currentPost.slug), to: postPath(post.locale, post.slug) },
+      ]);
+    } else if (post.status === 'PUBLISHED' && currentPost?.status !== 'PUBLISHED') {
+      await redirectService.clearRedirectsFrom([postPath(post.locale, post.slug)]);
+    }
+
+    await dispatchPostEvent(currentPost?.status ?? null, post);
+
     return post;
   },
 
@@ -262,7 +425,7 @@ export const adminPostService = {
     // Get post for cache invalidation
     const post = await prisma.post.findUnique({
       where: { id },
-      select: { slug: true, locale: true },
+      select: { slug: true, locale: true, title: true },
     });
 
     await prisma.post.delete({ where: { id } });
@@ -270,6 +433,7 @@ export const adminPostService = {
     // Invalidate cache
     if (post) {
       await postCache.invalidatePost(post.slug, post.locale);
+      await dispatchWebhookEvent('post.deleted', { id, ...post });
     }
   },
 
@@ -316,7 +480,7 @@ export const adminPostService = {
     });
 
     for (const post of scheduledPosts) {
-      await prisma.post.update({
+      const published = await prisma.post.update({
         where: { id: post.id },
         data: {
           status: 'PUBLISHED',
@@ -324,23 +488,360 @@ export const adminPostService = {
         },
       });
       await postCache.invalidatePost(post.slug, post.locale);
+      await dispatchWebhookEvent('post.published', toPostEventData(published));
     }
 
+    await redirectService.clearRedirectsFrom(scheduledPosts.map((post) => postPath(post.locale, post.slug)));
+
     return scheduledPosts.length;
   },
 
+  /**
+   * Process expired posts - archive published posts whose unpublishAt has passed
+   * This should be called by a cron job
+   */
+  async processExpiredPosts(): Promise<number> {
+    const now = new Date();
+
+    const expiredPosts = await prisma.post.findMany({
+      where: {
+        status: 'PUBLISHED',
+        unpublishAt: { lte: now },
+      },
+    });
+
+    for (const post of expiredPosts) {
+      const archived = await prisma.post.update({
+        where: { id: post.id },
+        data: { status: 'ARCHIVED' },
+      });
+      await postCache.invalidatePost(post.slug, post.locale);
+      await dispatchWebhookEvent('post.unpublished', toPostEventData(archived));
+    }
+
+    return expiredPosts.length;
+  },
+
+  /**
+   * Resolve the translation group a post in `locale` would join through `sourceId`.
+   * An ungrouped source starts a new group keyed by its own id, taking along
+   * versions that were linked only by sharing its slug.
+   */
+  async resolveTranslationGroup(sourceId: string, locale: string, excludeId?: string): Promise<string> {
+    const source = await prisma.post.findUnique({
+      where: { id: sourceId },
+      select: { id: true, slug: true, translationGroupId: true },
+    });
+
+    if (!source) {
+      throw new Error('Translation source not found');
+    }
+
+    const groupId = source.translationGroupId ?? source.id;
+
+    // Versions already in the group, or about to join it with the source
+    const members: Prisma.PostWhereInput[] = source.translationGroupId
+      ? [{ translationGroupId: groupId }]
+      : [{ id: source.id }, { slug: source.slug, translationGroupId: null }];
+
+    const conflict = await prisma.post.findFirst({
+      where: { OR: members, locale, ...(excludeId && { id: { not: excludeId } }) },
+      select: { id: true },
+    });
+    if (conflict) {
+      throw new Error(`Translation group already has a ${locale} version`);
+    }
+
+    if (!source.translationGroupId) {
+      await prisma.post.updateMany({
+        where: { OR: members, ...(excludeId && { id: { not: excludeId } }) },
+        data: { translationGroupId: groupId },
+      });
+      await postCache.invalidatePost(source.slug);
+    }
+
+    return groupId;
+  },
+
+  /**
+   * Link a post into another post's translation group
+   */
+  async linkTranslation(id: string, sourceId: string): Promise<void> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { slug: true, locale: true },
+    });
+
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    const translationGroupId = await this.resolveTranslationGroup(sourceId, post.locale, id);
+
+    await prisma.post.update({
+      where: { id },
+      data: { translationGroupId },
+    });
+
+    await postCache.invalidatePost(post.slug);
+  },
+
+  /**
+   * Remove a post from its translation group
+   */
+  async unlinkTranslation(id: string): Promise<void> {
+    const post = await prisma.post.update({
+      where: { id },
+      data: { translationGroupId: null },
+      select: { slug: true },
+    });
+
+    await postCache.invalidatePost(post.slug);
+  },
+
+  /**
+   * Get the other locale versions of a post
+   */
+  async getTranslations(id: string): Promise<AdminPost[]> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { translationGroupId: true },
+    });
+
+    if (!post?.translationGroupId) {
+      return [];
+    }
+
+    return prisma.post.findMany({
+      where: { translationGroupId: post.translationGroupId, id: { not: id } },
+      include: postInclude,
+      orderBy: { locale: 'asc' },
+    });
+  },
+
+  /**
+   * Ensure a role may move a post between statuses
+   */
+  assertStatusTransition(from: PostStatus, to: PostStatus, role: Role | null): void {
+    if (!canTransition(from, to, role)) {
+      throw new PostWorkflowError(`Cannot change status from ${from} to ${to}`, from, to);
+    }
+  },
+
+  /**
+   * Change a post's status after checking the workflow rules
+   */
+  async changeStatus(id: string, status: PostStatus, actor: WorkflowActor): Promise<AdminPost> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    this.assertStatusTransition(post.status, status, actor.role);
+
+    return this.updatePost(id, { status }, actor.id);
+  },
+
+  /**
+   * Submit a draft or rejected post for review
+   */
+  async submitForReview(id: string, actor: WorkflowActor): Promise<AdminPost> {
+    return this.changeStatus(id, 'IN_REVIEW', actor);
+  },
+
+  /**
+   * Approve a post in review - publishes it, or schedules it when
+   * scheduledAt is in the future
+   */
+  async approvePost(id: string, actor: WorkflowActor, comment?: string): Promise<AdminPost> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { status: true, scheduledAt: true },
+    });
+
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    if (post.status !== 'IN_REVIEW') {
+      throw new PostWorkflowError('Only posts in review can be approved', post.status, 'PUBLISHED');
+    }
+
+    const status: PostStatus =
+      post.scheduledAt && post.scheduledAt > new Date() ? 'SCHEDULED' : 'PUBLISHED';
+    this.assertStatusTransition(post.status, status, actor.role);
+
+    return this.updatePost(
+      id,
+      { status, reviewComment: comment || null, reviewedAt: new Date() },
+      actor.id
+    );
+  },
+
+  /**
+   * Reject a post in review with a comment for the author
+   */
+  async rejectPost(id: string, actor: WorkflowActor, comment: string): Promise<AdminPost> {
+    const post = await prisma.post.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    this.assertStatusTransition(post.status, 'REJECTED', actor.role);
+
+    return this.updatePost(
+      id,
+      { status: 'REJECTED', reviewComment: comment, reviewedAt: new Date() },
+      actor.id
+    );
+  },
+
+  /**
+   * Apply one action to many posts in a single transaction.
+   * Status changes follow the workflow rules; if any post may not make the
+   * transition, nothing is changed. Caches are invalidated once afterwards.
+   */
+  async bulkUpdate(ids: string[], action: BulkPostAction, actor: WorkflowActor): Promise<BulkPostResult> {
+    const uniqueIds = [...new Set(ids)];
+    const posts = await prisma.post.findMany({
+      where: { id: { in: uniqueIds } },
+      select: { id: true, slug: true, locale: true, title: true, status: true },
+    });
+
+    if (posts.length !== uniqueIds.length) {
+      throw new Error('Some posts were not found');
+    }
+
+    const targetStatus = bulkTargetStatus(action);
+    if (targetStatus) {
+      // Posts already in the target status are left as they are
+      for (const post of posts) {
+        if (post.status !== targetStatus) {
+          this.assertStatusTransition(post.status, targetStatus, actor.role);
+        }
+      }
+    }
+
+    const where = { id: { in: uniqueIds } };
+
+    await prisma.$transaction(async (tx) => {
+      switch (action.type) {
+        case 'publish':
+          // Already published posts keep their original publish date
+          await tx.post.updateMany({
+            where: { ...where, status: { not: 'PUBLISHED' } },
+            data: { status: 'PUBLISHED', publishedAt: new Date() },
+          });
+          break;
+        case 'unpublish':
+          await tx.post.updateMany({
+            where: { ...where, status: { not: 'DRAFT' } },
+            data: { status: 'DRAFT', publishedAt: null },
+          });
+          break;
+        case 'schedule':
+          await tx.post.updateMany({
+            where,
+            data: { status: 'SCHEDULED', scheduledAt: action.publishAt, publishedAt: null },
+          });
+          break;
+        case 'delete':
+          await tx.post.deleteMany({ where });
+          break;
+        case 'setCategory':
+          await tx.post.updateMany({ where, data: { categoryId: action.categoryId } });
+          break;
+        case 'addTags':
+          await tx.postTag.createMany({
+            data: uniqueIds.flatMap((postId) => action.tagIds.map((tagId) => ({ postId, tagId }))),
+            skipDuplicates: true,
+          });
+          await tx.post.updateMany({ where, data: { updatedAt: new Date() } });
+          break;
+        case 'removeTags':
+          await tx.postTag.deleteMany({ where: { postId: { in: uniqueIds }, tagId: { in: action.tagIds } } });
+          await tx.post.updateMany({ where, data: { updatedAt: new Date() } });
+          break;
+        case 'setFeatured':
+          await tx.post.updateMany({ where, data: { featured: action.featured } });
+          break;
+      }
+    });
+
+    if (action.type === 'addTags' || action.type === 'removeTags') {
+      await updateSearchVectors(uniqueIds);
+    }
+
+    await postCache.invalidatePosts(posts);
+
+    if (action.type === 'publish') {
+      await redirectService.clearRedirectsFrom(
+        posts.filter((post) => post.status !== 'PUBLISHED').map((post) => postPath(post.locale, post.slug))
+      );
+    }
+
+    if (action.type === 'delete') {
+      for (const post of posts) {
+        await dispatchWebhookEvent('post.deleted', { id: post.id, slug: post.slug, locale: post.locale, title: post.title });
+      }
+      return { affected: posts.map(({ id, title, status }) => ({ id, title, status })) };
+    }
+
+    const updated = await prisma.post.findMany({
+      where,
+      select: { id: true, slug: true, locale: true, title: true, status: true, publishedAt: true, updatedAt: true },
+    });
+    const previousStatus = new Map(posts.map((post) => [post.id, post.status]));
+
+    for (const post of updated) {
+      await dispatchPostEvent(previousStatus.get(post.id) ?? null, post);
+    }
+
+    return { affected: updated.map(({ id, title, status }) => ({ id, title, status })) };
+  },
+
+  /**
+   * Get posts waiting for review, oldest submission first
+   */
+  async getReviewQueue(): Promise<AdminPost[]> {
+    return prisma.post.findMany({
+      where: { status: 'IN_REVIEW' },
+      include: postInclude,
+      orderBy: { updatedAt: 'asc' },
+    });
+  },
+
   /**
    * Get post count by status
    */
   async getPostCounts(): Promise<Record<PostStatus | 'total', number>> {
-    const [total, draft, scheduled, published] = await Promise.all([
+    const [total, draft, inReview, rejected, scheduled, published, archived] = await Promise.all([
       prisma.post.count(),
       prisma.post.count({ where: { status: 'DRAFT' } }),
+      prisma.post.count({ where: { status: 'IN_REVIEW' } }),
+      prisma.post.count({ where: { status: 'REJECTED' } }),
       prisma.post.count({ where: { status: 'SCHEDULED' } }),
       prisma.post.count({ where: { status: 'PUBLISHED' } }),
+      prisma.post.count({ where: { status: 'ARCHIVED' } }),
     ]);
 
-    return { total, DRAFT: draft, SCHEDULED: scheduled, PUBLISHED: published };
+    return {
+      total,
+      DRAFT: draft,
+      IN_REVIEW: inReview,
+      REJECTED: rejected,
+      SCHEDULED: scheduled,
+      PUBLISHED: published,
+      ARCHIVED: archived,
+    };
   },
 };
 
@@ -0,0 +1,66 @@
+import prisma from '@/lib/db/prisma';
+import { adminPostService, type AdminPost } from './posts';
+import type { Prisma } from '@/lib/generated/prisma';
+
+// Include the editor so the history list can show who saved each revision
+const revisionInclude = {
+  editor: {
+    select: { id: true, firstName: true, lastName: true, email: true },
+  },
+} satisfies Prisma.PostRevisionInclude;
+
+export type PostRevisionWithEditor = Prisma.PostRevisionGetPayload<{
+  include: typeof revisionInclude;
+}>;
+
+/**
+ * Post Revision Service - snapshot history for post content
+ */
+export const postRevisionService = {
+  /**
+   * Get all revisions for a post, newest first
+   */
+  async getRevisions(postId: string): Promise<PostRevisionWithEditor[]> {
+    return prisma.postRevision.findMany({
+      where: { postId },
+      include: revisionInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Get a single revision by ID
+   */
+  async getRevisionById(id: string): Promise<PostRevisionWithEditor | null> {
+    return prisma.postRevision.findUnique({
+      where: { id },
+      include: revisionInclude,
+    });
+  },
+
+  /**
+   * Restore a revision through the normal update path so cache
+   * invalidation runs and a new revision is recorded
+   */
+  async restoreRevision(revisionId: string, editorId?: string): Promise<AdminPost> {
+    const revision = await prisma.postRevision.findUnique({
+      where: { id: revisionId },
+    });
+
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    return adminPostService.updatePost(
+      revision.postId,
+      {
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt,
+      },
+      editorId
+    );
+  },
+};
+
+export default postRevisionService;
@@ -1,5 +1,6 @@
 import prisma from '@/lib/db/prisma';
 import { postCache } from '@/lib/cache/posts';
+import { updateSearchVectors } from '@/lib/search';
 import type { Tag } from '@/lib/generated/prisma';
 
 export interface CreateTagInput {
@@ -114,6 +115,11 @@ export const tagService = {
       data,
     });
 
+    // Tag names are part of the search index of tagged posts
+    if (data.name) {
+      await updateSearchVectors(await this.getTaggedPostIds(id));
+    }
+
     // Invalidate cache
     await postCache.invalidateTags();
     await postCache.invalidateAllPosts();
@@ -126,14 +132,30 @@ export const tagService = {
    * Note: This will remove the tag from all posts but won't delete the posts
    */
   async deleteTag(id: string): Promise<void> {
+    // Collect tagged posts before the PostTag cascade removes the links
+    const postIds = await this.getTaggedPostIds(id);
+
     // PostTag entries will be cascade deleted due to schema definition
     await prisma.tag.delete({ where: { id } });
+    await updateSearchVectors(postIds);
 
     // Invalidate cache
     await postCache.invalidateTags();
     await postCache.invalidateAllPosts();
   },
 
+  /**
+   * Get the ids of all posts carrying a tag
+   */
+  async getTaggedPostIds(tagId: string): Promise<string[]> {
+    const links = await prisma.postTag.findMany({
+      where: { tagId },
+      select: { postId: true },
+    });
+
+    return links.map((link) => link.postId);
+  },
+
   /**
    * Check if a tag name is unique
    */
@@ -0,0 +1,120 @@
+/**
+ * Property-Based Tests for Translation Coverage
+ *
+ * Property: For any set of posts, every translation group with a published
+ * version SHALL produce one row whose cells, missing and outdated locales
+ * agree with the group's versions.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+
+vi.mock('@/lib/db/prisma', () => ({ default: {} }));
+vi.mock('@/lib/cache/posts', () => ({ postCache: {} }));
+
+import { buildCoverageMatrix, findSourcePost, type TranslationPostSummary } from './translations';
+import { locales } from '@/lib/i18n/config';
+import type { PostStatus } from '@/lib/generated/prisma';
+
+const statusArb = fc.constantFrom<PostStatus>('DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED');
+const dateArb = fc.integer({ min: 0, max: 1_000_000 }).map((n) => new Date(1_700_000_000_000 + n * 1000));
+
+// A group of posts sharing a translation group, at most one per locale
+const groupArb = (groupIndex: number) =>
+  fc
+    .shuffledSubarray([...locales], { minLength: 1 })
+    .chain((groupLocales) =>
+      fc.tuple(
+        fc.constant(groupLocales),
+        fc.array(fc.tuple(statusArb, dateArb, dateArb), {
+          minLength: groupLocales.length,
+          maxLength: groupLocales.length,
+        })
+      )
+    )
+    .map(([groupLocales, fields]) =>
+      groupLocales.map((locale, i): TranslationPostSummary => ({
+        id: `g${groupIndex}-${locale}`,
+        title: `Post ${groupIndex} (${locale})`,
+        slug: `post-${groupIndex}-${locale}`,
+        locale,
+        status: fields[i][0],
+        translationGroupId: `g${groupIndex}-${groupLocales[0]}`,
+        createdAt: fields[i][1],
+        updatedAt: fields[i][2],
+      }))
+    );
+
+const postsArb = fc
+  .integer({ min: 1, max: 6 })
+  .chain((n) => fc.tuple(...Array.from({ length: n }, (_, i) => groupArb(i))))
+  .map((groups) => groups.flat());
+
+describe('Translation coverage matrix', () => {
+  it('includes exactly the groups with a published version', () => {
+    fc.assert(
+      fc.property(postsArb, (posts) => {
+        const rows = buildCoverageMatrix(posts);
+        const publishedGroups = new Set(
+          posts.filter((p) => p.status === 'PUBLISHED').map((p) => p.translationGroupId)
+        );
+        expect(rows.length).toBe(publishedGroups.size);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('missing locales are exactly the empty cells', () => {
+    fc.assert(
+      fc.property(postsArb, (posts) => {
+        for (const row of buildCoverageMatrix(posts)) {
+          const versions = posts.filter((p) => p.translationGroupId === row.source.translationGroupId);
+          expect(row.missing.sort()).toEqual(
+            locales.filter((l) => !versions.some((p) => p.locale === l)).sort()
+          );
+          for (const version of versions) {
+            expect(row.cells[version.locale as (typeof locales)[number]]?.postId).toBe(version.id);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('a translation is outdated only when the source was updated after it', () => {
+    fc.assert(
+      fc.property(postsArb, (posts) => {
+        for (const row of buildCoverageMatrix(posts)) {
+          for (const locale of locales) {
+            const cell = row.cells[locale];
+            if (!cell) continue;
+            expect(cell.outdated).toBe(!cell.isSource && row.source.updatedAt > cell.updatedAt);
+          }
+          expect(row.outdated.every((l) => row.cells[l]?.outdated)).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('the source is the post whose id keys the group', () => {
+    fc.assert(
+      fc.property(groupArb(0), (versions) => {
+        expect(findSourcePost(versions).id).toBe(versions[0].translationGroupId);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('ungrouped posts sharing a slug form one row', () => {
+    const now = new Date();
+    const rows = buildCoverageMatrix([
+      { id: 'a', title: 'Hello', slug: 'hello', locale: 'es', status: 'PUBLISHED', translationGroupId: null, createdAt: now, updatedAt: now },
+      { id: 'b', title: 'Hello', slug: 'hello', locale: 'en', status: 'DRAFT', translationGroupId: null, createdAt: now, updatedAt: now },
+    ]);
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].source.id).toBe('b');
+    expect(rows[0].missing).toEqual(['fr', 'th']);
+  });
+});
@@ -0,0 +1,150 @@
+import prisma from '@/lib/db/prisma';
+import { adminPostService, type AdminPost } from './posts';
+import { uniqueSlug } from '@/lib/posts';
+import { defaultLocale, locales, type Locale } from '@/lib/i18n/config';
+import type { PostStatus } from '@/lib/generated/prisma';
+
+// Post fields needed to build the coverage matrix
+export interface TranslationPostSummary {
+  id: string;
+  title: string;
+  slug: string;
+  locale: string;
+  status: PostStatus;
+  translationGroupId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TranslationCell {
+  postId: string;
+  title: string;
+  status: PostStatus;
+  updatedAt: Date;
+  isSource: boolean;
+  // Source post changed after this translation was last updated
+  outdated: boolean;
+}
+
+export interface TranslationRow {
+  source: TranslationPostSummary;
+  cells: Record<Locale, TranslationCell | null>;
+  missing: Locale[];
+  outdated: Locale[];
+}
+
+/**
+ * Pick the source version of a translation group: the post whose id keys the
+ * group, else the default-locale version, else the oldest version
+ */
+export function findSourcePost<T extends TranslationPostSummary>(versions: T[]): T {
+  return (
+    versions.find((p) => p.translationGroupId === p.id) ??
+    versions.find((p) => p.locale === defaultLocale) ??
+    [...versions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0]
+  );
+}
+
+/**
+ * Build a posts × locales coverage matrix.
+ * Versions are grouped by translation group; ungrouped posts are linked by
+ * their shared slug. Only groups with a published version are included.
+ */
+export function buildCoverageMatrix(posts: TranslationPostSummary[]): TranslationRow[] {
+  const groups = new Map<string, TranslationPostSummary[]>();
+  for (const post of posts) {
+    const key = post.translationGroupId ?? `slug:${post.slug}`;
+    groups.set(key, [...(groups.get(key) ?? []), post]);
+  }
+
+  const rows: TranslationRow[] = [];
+  for (const versions of groups.values()) {
+    if (!versions.some((p) => p.status === 'PUBLISHED')) continue;
+
+    const source = findSourcePost(versions);
+    const cells = {} as Record<Locale, TranslationCell | null>;
+    for (const locale of locales) {
+      const version = versions.find((p) => p.locale === locale);
+      cells[locale] = version
+        ? {
+            postId: version.id,
+            title: version.title,
+            status: version.status,
+            updatedAt: version.updatedAt,
+            isSource: version.id === source.id,
+            outdated: version.id !== source.id && source.updatedAt > version.updatedAt,
+          }
+        : null;
+    }
+
+    rows.push({
+      source,
+      cells,
+      missing: locales.filter((locale) => !cells[locale]),
+      outdated: locales.filter((locale) => cells[locale]?.outdated),
+    });
+  }
+
+  return rows.sort((a, b) => b.source.updatedAt.getTime() - a.source.updatedAt.getTime());
+}
+
+/**
+ * Translation Service - coverage tracking and translation drafts
+ */
+export const translationService = {
+  /**
+   * Get the coverage matrix for all published posts
+   */
+  async getCoverageMatrix(): Promise<TranslationRow[]> {
+    const posts = await prisma.post.findMany({
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        locale: true,
+        status: true,
+        translationGroupId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return buildCoverageMatrix(posts);
+  },
+
+  /**
+   * Clone a post into another locale as a DRAFT translation.
+   * Copies content, category, tags and media in one transaction, and links
+   * the clone into the source's translation group.
+   */
+  async createTranslation(sourceId: string, locale: Locale, authorId: string): Promise<AdminPost> {
+    const source = await adminPostService.getPostById(sourceId);
+    if (!source) {
+      throw new Error('Translation source not found');
+    }
+
+    const translationGroupId = await adminPostService.resolveTranslationGroup(sourceId, locale);
+
+    // Keep the source slug unless the target locale already uses it
+    const localeSlugs = await prisma.post.findMany({ where: { locale }, select: { slug: true } });
+    const slug = uniqueSlug(source.slug, new Set(localeSlugs.map((p) => p.slug)));
+
+    return adminPostService.createPost({
+      title: source.title,
+      content: source.content,
+      excerpt: source.excerpt ?? undefined,
+      slug,
+      locale,
+      status: 'DRAFT',
+      categoryId: source.categoryId ?? undefined,
+      tagIds: source.tags.map((t) => t.tagId),
+      authorId,
+      featured: source.featured,
+      readingTime: source.readingTime,
+      translationGroupId,
+      media: source.postMedia.map((pm) => ({ mediaId: pm.mediaId, isCover: pm.isCover, order: pm.order })),
+    });
+  },
+};
+
+export default translationService;
@@ -0,0 +1,101 @@
+import prisma from '@/lib/db/prisma';
+import { generateWebhookSecret } from '@/lib/webhooks';
+import type { WebhookEventType } from '@/lib/webhooks';
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/generated/prisma';
+
+export interface CreateWebhookInput {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  createdById: string;
+}
+
+export interface UpdateWebhookInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface WebhookEndpointWithStats extends WebhookEndpoint {
+  _count: { deliveries: number };
+}
+
+export interface DeliveryLogEntry extends WebhookDelivery {
+  endpoint: { id: string; url: string };
+}
+
+/** Deliveries shown in the dashboard log */
+const DELIVERY_LOG_LIMIT = 100;
+
+/**
+ * Webhook Service - endpoint management and the delivery log
+ */
+export const webhookService = {
+  /**
+   * Get all endpoints, newest first
+   */
+  async getEndpoints(): Promise<WebhookEndpointWithStats[]> {
+    return prisma.webhookEndpoint.findMany({
+      include: { _count: { select: { deliveries: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * Create an endpoint with a new signing secret
+   */
+  async createEndpoint(data: CreateWebhookInput): Promise<WebhookEndpoint> {
+    return prisma.webhookEndpoint.create({
+      data: {
+        url: data.url,
+        description: data.description || null,
+        events: data.events,
+        secret: generateWebhookSecret(),
+        createdById: data.createdById,
+      },
+    });
+  },
+
+  /**
+   * Update an endpoint's URL, description, events or enabled flag
+   */
+  async updateEndpoint(id: string, data: UpdateWebhookInput): Promise<WebhookEndpoint> {
+    return prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.description !== undefined && { description: data.description || null }),
+      },
+    });
+  },
+
+  /**
+   * Replace an endpoint's signing secret; receivers must be updated with it
+   */
+  async rotateSecret(id: string): Promise<WebhookEndpoint> {
+    return prisma.webhookEndpoint.update({
+      where: { id },
+      data: { secret: generateWebhookSecret() },
+    });
+  },
+
+  /**
+   * Delete an endpoint along with its delivery log
+   */
+  async deleteEndpoint(id: string): Promise<WebhookEndpoint> {
+    return prisma.webhookEndpoint.delete({ where: { id } });
+  },
+
+  /**
+   * Get the most recent deliveries, optionally for a single endpoint
+   */
+  async getDeliveries(endpointId?: string): Promise<DeliveryLogEntry[]> {
+    return prisma.webhookDelivery.findMany({
+      where: endpointId ? { endpointId } : undefined,
+      include: { endpoint: { select: { id: true, url: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: DELIVERY_LOG_LIMIT,
+    });
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * Property-Based Tests for the Editorial Review Workflow
+ *
+ * Property: Editors SHALL NOT move a post into PUBLISHED, SCHEDULED or
+ * REJECTED; admins SHALL be able to perform every editor transition; every
+ * allowed transition SHALL be declared in POST_STATUS_TRANSITIONS.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  POST_STATUSES,
+  POST_STATUS_TRANSITIONS,
+  canTransition,
+  getAllowedStatuses,
+  getInitialStatuses,
+} from './workflow';
+import type { Role } from '@/lib/auth/roles';
+
+const statusArb = fc.constantFrom(...POST_STATUSES);
+const roleArb: fc.Arbitrary<Role> = fc.constantFrom('admin', 'editor');
+
+describe('Editorial workflow transitions', () => {
+  it('keeping the current status is always allowed', () => {
+    fc.assert(
+      fc.property(statusArb, fc.option(roleArb, { nil: null }), (status, role) => {
+        expect(canTransition(status, status, role)).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('editors cannot publish, schedule or reject posts', () => {
+    fc.assert(
+      fc.property(statusArb, fc.constantFrom('PUBLISHED', 'SCHEDULED', 'REJECTED' as const), (from, to) => {
+        if (from === to) return;
+        expect(canTransition(from, to, 'editor')).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('admins can perform every transition an editor can', () => {
+    fc.assert(
+      fc.property(statusArb, statusArb, (from, to) => {
+        if (canTransition(from, to, 'editor')) {
+          expect(canTransition(from, to, 'admin')).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('users without a role cannot change status', () => {
+    fc.assert(
+      fc.property(statusArb, statusArb, (from, to) => {
+        if (from === to) return;
+        expect(canTransition(from, to, null)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('only declared transitions are allowed', () => {
+    fc.assert(
+      fc.property(statusArb, statusArb, roleArb, (from, to, role) => {
+        if (from !== to && canTransition(from, to, role)) {
+          expect(POST_STATUS_TRANSITIONS[from][to]).toBeDefined();
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('REJECTED is only reachable from IN_REVIEW', () => {
+    for (const from of POST_STATUSES) {
+      if (from === 'REJECTED') continue;
+      expect(canTransition(from, 'REJECTED', 'admin')).toBe(from === 'IN_REVIEW');
+    }
+  });
+
+  it('editors can submit drafts and resubmit rejected posts', () => {
+    expect(getAllowedStatuses('DRAFT', 'editor')).toEqual(['DRAFT', 'IN_REVIEW']);
+    expect(getAllowedStatuses('REJECTED', 'editor')).toEqual(['DRAFT', 'IN_REVIEW', 'REJECTED']);
+    expect(getAllowedStatuses('PUBLISHED', 'editor')).toEqual(['PUBLISHED']);
+  });
+
+  it('new posts cannot start as REJECTED', () => {
+    expect(getInitialStatuses('editor')).toEqual(['DRAFT', 'IN_REVIEW']);
+    expect(getInitialStatuses('admin')).toEqual(['DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED']);
+  });
+});
@@ -0,0 +1,64 @@
+import { hasMinimumRole, type Role } from '@/lib/auth/roles';
+import type { PostStatus } from '@/lib/generated/prisma';
+
+/**
+ * Editorial workflow for post statuses
+ *
+ * Editors write drafts and submit them for review; admins approve
+ * (publish or schedule) or reject them with a comment. Published posts are
+ * archived when their unpublishAt passes. Each entry maps a target status to
+ * the minimum role allowed to move a post there.
+ */
+export const POST_STATUS_TRANSITIONS: Record<PostStatus, Partial<Record<PostStatus, Role>>> = {
+  DRAFT: { IN_REVIEW: 'editor', SCHEDULED: 'admin', PUBLISHED: 'admin' },
+  IN_REVIEW: { DRAFT: 'editor', REJECTED: 'admin', SCHEDULED: 'admin', PUBLISHED: 'admin' },
+  REJECTED: { DRAFT: 'editor', IN_REVIEW: 'editor' },
+  SCHEDULED: { DRAFT: 'admin', PUBLISHED: 'admin' },
+  PUBLISHED: { DRAFT: 'admin', ARCHIVED: 'admin' },
+  ARCHIVED: { DRAFT: 'admin', PUBLISHED: 'admin' },
+};
+
+export const POST_STATUSES: PostStatus[] = ['DRAFT', 'IN_REVIEW', 'REJECTED', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'];
+
+/**
+ * Error thrown when a status change is not allowed
+ */
+export class PostWorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly from: PostStatus,
+    public readonly to: PostStatus
+  ) {
+    super(message);
+    this.name = 'PostWorkflowError';
+  }
+}
+
+/**
+ * Check if a role may move a post from one status to another.
+ * Keeping the current status is always allowed.
+ */
+export function canTransition(
+  from: PostStatus,
+  to: PostStatus,
+  role: Role | null | undefined
+): boolean {
+  if (from === to) return true;
+  const requiredRole = POST_STATUS_TRANSITIONS[from][to];
+  return requiredRole !== undefined && hasMinimumRole(role, requiredRole);
+}
+
+/**
+ * Get the statuses a role may choose for a post, including its current status
+ */
+export function getAllowedStatuses(from: PostStatus, role: Role | null | undefined): PostStatus[] {
+  return POST_STATUSES.filter((to) => canTransition(from, to, role));
+}
+
+/**
+ * Get the statuses a role may assign when creating a post.
+ * New posts start from DRAFT; REJECTED is only reachable through review.
+ */
+export function getInitialStatuses(role: Role | null | undefined): PostStatus[] {
+  return getAllowedStatuses('DRAFT', role);
+}
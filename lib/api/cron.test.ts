@@ -0,0 +1,56 @@
+/**
+ * Property-Based Tests for cron step reporting
+ *
+ * Property: Every cron step SHALL run regardless of which earlier steps
+ * failed, and the report SHALL carry each step's result or error.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { NextRequest } from 'next/server';
+import { authorizeCron, runCronSteps } from './cron';
+
+describe('runCronSteps', () => {
+  it('runs every step and reports each outcome', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await fc.assert(
+      fc.asyncProperty(fc.array(fc.boolean(), { minLength: 1, maxLength: 8 }), async (outcomes) => {
+        const calls: number[] = [];
+        const steps = Object.fromEntries(
+          outcomes.map((ok, i) => [
+            `step${i}`,
+            async () => {
+              calls.push(i);
+              if (!ok) throw new Error(`step ${i} broke`);
+              return i;
+            },
+          ])
+        );
+
+        const report = await runCronSteps(steps);
+
+        expect(calls).toEqual(outcomes.map((_, i) => i));
+        outcomes.forEach((ok, i) => {
+          expect(report[`step${i}`]).toEqual(ok ? { ok: true, result: i } : { ok: false, error: `step ${i} broke` });
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('authorizeCron', () => {
+  it('requires the bearer secret when CRON_SECRET is set', () => {
+    vi.stubEnv('CRON_SECRET', 'shh');
+    const request = (authorization?: string) =>
+      new NextRequest('https://example.com/api/cron', { headers: authorization ? { authorization } : {} });
+
+    expect(authorizeCron(request())?.status).toBe(401);
+    expect(authorizeCron(request('Bearer nope'))?.status).toBe(401);
+    expect(authorizeCron(request('Bearer shh'))).toBeNull();
+    expect(authorizeCron(new NextRequest('https://example.com/api/cron', { method: 'POST' }))?.status).toBe(405);
+
+    vi.unstubAllEnvs();
+  });
+});
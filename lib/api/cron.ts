@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { sanitizeErrorMessage, validateMethod } from '@/lib/security/headers';
+
+/** Outcome of one cron step; a failed step does not stop the ones after it */
+export type CronStepStatus<T = unknown> = { ok: true; result: T } | { ok: false; error: string };
+
+export type CronSteps = Record<string, () => Promise<unknown>>;
+
+export type CronStepReport<S extends CronSteps> = {
+  [K in keyof S]: CronStepStatus<Awaited<ReturnType<S[K]>>>;
+};
+
+/**
+ * Rejects anything but a GET carrying the Vercel Cron secret (when
+ * CRON_SECRET is configured). Returns null if the request may run.
+ */
+export function authorizeCron(request: NextRequest): NextResponse | null {
+  const methodError = validateMethod(request, ['GET']);
+  if (methodError) return methodError;
+
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
+
+/**
+ * Runs the steps in order, each in its own try/catch, and reports how every
+ * step went
+ */
+export async function runCronSteps<S extends CronSteps>(steps: S): Promise<CronStepReport<S>> {
+  const report: Record<string, CronStepStatus> = {};
+
+  for (const [name, step] of Object.entries(steps)) {
+    try {
+      report[name] = { ok: true, result: await step() };
+    } catch (error) {
+      console.error(`Cron step ${name} failed:`, error);
+      report[name] = { ok: false, error: sanitizeErrorMessage(error) };
+    }
+  }
+
+  return report as CronStepReport<S>;
+}
+
+/**
+ * Cron response with every step's status; 500 if any step failed, so the
+ * failure shows in the Vercel Cron log
+ */
+export async function respondWithCronSteps(steps: CronSteps): Promise<NextResponse> {
+  const report = await runCronSteps(steps);
+  const success = Object.values(report).every((status) => status.ok);
+
+  return NextResponse.json(
+    { success, steps: report, timestamp: new Date().toISOString() },
+    { status: success ? 200 : 500 }
+  );
+}
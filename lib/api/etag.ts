@@ -0,0 +1,40 @@
+import { createHash } from "crypto";
+
+/** Strong ETag for a response body */
+export function createEtag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+/** Whether the request's If-None-Match header lists the given ETag (or `*`) */
+export function etagMatches(request: Request, etag: string): boolean {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (!ifNoneMatch) return false;
+
+  return ifNoneMatch.split(",").some((tag) => {
+    const value = tag.trim();
+    // Weak comparison, so W/-prefixed tags from proxies still match
+    return value === "*" || value.replace(/^W\//, "") === etag;
+  });
+}
+
+/**
+ * Serves a JSON body with an ETag, answering a matching If-None-Match
+ * with 304 Not Modified and no body.
+ */
+export function jsonWithEtag(
+  request: Request,
+  data: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  const body = JSON.stringify(data);
+  const etag = createEtag(body);
+  const responseHeaders = { ...headers, ETag: etag };
+
+  if (etagMatches(request, etag)) {
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+
+  return new Response(body, {
+    headers: { "Content-Type": "application/json; charset=utf-8", ...responseHeaders },
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Opaque pagination cursors.
+ * A cursor encodes the sort key of the last item on a page, so the next page
+ * stays stable when items are inserted before it (unlike offsets).
+ */
+
+/** Encodes sort key values as a URL-safe cursor */
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor into exactly `length` sort key values.
+ * Returns null for anything that was not produced by encodeCursor.
+ */
+export function decodeCursor(cursor: string, length: number): string[] | null {
+  try {
+    const values: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(values) &&
+      values.length === length &&
+      values.every((value) => typeof value === "string" && value.length > 0)
+    ) {
+      return values;
+    }
+  } catch {
+    // Malformed base64 or JSON
+  }
+  return null;
+}
+
+/** Post cursor: ordered by publishedAt, then id, both descending */
+export interface PostCursor {
+  publishedAt: Date;
+  id: string;
+}
+
+export function encodePostCursor(cursor: PostCursor): string {
+  return encodeCursor([cursor.publishedAt.toISOString(), cursor.id]);
+}
+
+export function decodePostCursor(cursor: string): PostCursor | null {
+  const values = decodeCursor(cursor, 2);
+  if (!values) return null;
+
+  const publishedAt = new Date(values[0]);
+  if (Number.isNaN(publishedAt.getTime())) return null;
+  return { publishedAt, id: values[1] };
+}
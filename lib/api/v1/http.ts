@@ -0,0 +1,9 @@
+import { jsonWithEtag } from "../etag";
+
+// Public content changes rarely; CDNs may serve it for 5 minutes and revalidate with the ETag
+export const V1_CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=600";
+
+/** Cacheable v1 JSON response; a matching If-None-Match gets 304 Not Modified */
+export function v1Json(request: Request, data: unknown): Response {
+  return jsonWithEtag(request, data, { "Cache-Control": V1_CACHE_CONTROL });
+}
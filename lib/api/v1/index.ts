@@ -0,0 +1,36 @@
+/**
+ * Public Content API v1 Barrel Export
+ */
+
+// Types
+export type {
+  AuthorDTO,
+  TermRefDTO,
+  ImageDTO,
+  PostSummaryDTO,
+  PostDTO,
+  CategoryDTO,
+  TagDTO,
+  PaginationDTO,
+  ListResponse,
+  ItemResponse,
+} from './types';
+
+// Cursors
+export { encodeCursor, decodeCursor, encodePostCursor, decodePostCursor } from './cursor';
+export type { PostCursor } from './cursor';
+
+// Service
+export {
+  InvalidCursorError,
+  listPosts,
+  getPost,
+  listCategories,
+  listTags,
+  toPostSummaryDTO,
+  toPostDTO,
+} from './service';
+export type { ListPostsOptions, ListTermsOptions, PostRecord } from './service';
+
+// HTTP
+export { v1Json, V1_CACHE_CONTROL } from './http';
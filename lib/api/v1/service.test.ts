@@ -0,0 +1,156 @@
+/**
+ * Property-Based Tests for the Public Content API v1
+ *
+ * Property: Cursors SHALL round-trip, pages SHALL never exceed the limit, and
+ * `nextCursor` SHALL point at the last item of the page exactly when more
+ * items follow.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+const findMany = vi.fn();
+
+vi.mock('@/lib/db/prisma', () => ({
+  default: { post: { findMany: (...args: unknown[]) => findMany(...args) } },
+}));
+
+import { decodeCursor, decodePostCursor, encodeCursor, encodePostCursor } from './cursor';
+import { InvalidCursorError, listPosts, toPostDTO, type PostRecord } from './service';
+import { jsonWithEtag } from '../etag';
+
+function postRecord(id: string, publishedAt: Date): PostRecord {
+  return {
+    id,
+    slug: `post-${id}`,
+    locale: 'en',
+    translationGroupId: null,
+    title: `Post ${id}`,
+    content: '<p>Hello</p><script>alert(1)</script>',
+    excerpt: null,
+    status: 'PUBLISHED',
+    publishedAt,
+    scheduledAt: null,
+    unpublishAt: null,
+    reviewComment: null,
+    reviewedAt: null,
+    createdAt: publishedAt,
+    updatedAt: publishedAt,
+    readingTime: 3,
+    featured: false,
+    authorId: 'user_1',
+    categoryId: null,
+    author: { firstName: 'Ada', lastName: null, imageUrl: null },
+    category: null,
+    tags: [],
+    postMedia: [],
+  } as PostRecord;
+}
+
+describe('cursors', () => {
+  it('round-trip any non-empty values', () => {
+    fc.assert(
+      fc.property(fc.array(fc.string({ minLength: 1 }), { minLength: 1, maxLength: 3 }), (values) => {
+        expect(decodeCursor(encodeCursor(values), values.length)).toEqual(values);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('round-trip post positions', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2000-01-01'), max: new Date('2100-01-01'), noInvalidDate: true }),
+        fc.string({ minLength: 1, maxLength: 30 }),
+        (publishedAt, id) => {
+          expect(decodePostCursor(encodePostCursor({ publishedAt, id }))).toEqual({ publishedAt, id });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects cursors it did not issue', () => {
+    expect(decodeCursor('not-a-cursor', 1)).toBeNull();
+    expect(decodeCursor(encodeCursor(['a', 'b']), 1)).toBeNull();
+    expect(decodePostCursor(encodeCursor(['yesterday', 'id']))).toBeNull();
+  });
+});
+
+describe('listPosts', () => {
+  beforeEach(() => findMany.mockReset());
+
+  it('returns at most `limit` posts and a cursor to the last one when more follow', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 12 }), fc.integer({ min: 1, max: 10 }), async (total, limit) => {
+        const rows = Array.from({ length: Math.min(total, limit + 1) }, (_, i) =>
+          postRecord(`p${i}`, new Date(Date.UTC(2025, 0, 31 - i)))
+        );
+        findMany.mockResolvedValueOnce(rows);
+
+        const result = await listPosts({ limit });
+
+        expect(findMany.mock.lastCall![0].take).toBe(limit + 1);
+        expect(result.data.length).toBe(Math.min(total, limit));
+        expect(result.pagination.hasMore).toBe(total > limit);
+        if (total > limit) {
+          const last = rows[limit - 1];
+          expect(decodePostCursor(result.pagination.nextCursor!)).toEqual({ publishedAt: last.publishedAt, id: last.id });
+        } else {
+          expect(result.pagination.nextCursor).toBeNull();
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('continues after the cursor position', async () => {
+    findMany.mockResolvedValueOnce([]);
+    const publishedAt = new Date('2025-03-01T00:00:00.000Z');
+
+    await listPosts({ limit: 5, cursor: encodePostCursor({ publishedAt, id: 'p7' }) });
+
+    expect(findMany.mock.lastCall![0].where.OR).toEqual([
+      { publishedAt: { lt: publishedAt } },
+      { publishedAt, id: { lt: 'p7' } },
+    ]);
+  });
+
+  it('rejects malformed cursors', async () => {
+    await expect(listPosts({ limit: 5, cursor: 'garbage' })).rejects.toBeInstanceOf(InvalidCursorError);
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('post DTOs', () => {
+  it('sanitize content and expose ISO dates', () => {
+    const dto = toPostDTO(postRecord('p1', new Date('2025-01-02T03:04:05.000Z')));
+
+    expect(dto.contentHtml).toContain('<p>Hello</p>');
+    expect(dto.contentHtml).not.toContain('<script');
+    expect(dto.publishedAt).toBe('2025-01-02T03:04:05.000Z');
+    expect(dto.author).toEqual({ name: 'Ada', avatarUrl: null });
+    expect(dto.url).toMatch(/\/en\/blog\/post-p1$/);
+  });
+});
+
+describe('jsonWithEtag', () => {
+  it('answers a matching If-None-Match with 304', async () => {
+    const data = { data: [1, 2, 3] };
+    const response = jsonWithEtag(new Request('http://localhost/api/v1/posts'), data);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(data);
+
+    const etag = response.headers.get('ETag')!;
+    for (const header of [etag, `W/${etag}`, `"other", ${etag}`]) {
+      const cached = jsonWithEtag(new Request('http://localhost/api/v1/posts', { headers: { 'If-None-Match': header } }), data);
+      expect(cached.status).toBe(304);
+    }
+
+    const changed = jsonWithEtag(
+      new Request('http://localhost/api/v1/posts', { headers: { 'If-None-Match': etag } }),
+      { data: [1, 2] }
+    );
+    expect(changed.status).toBe(200);
+  });
+});
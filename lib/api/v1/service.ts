@@ -0,0 +1,204 @@
+import prisma from "@/lib/db/prisma";
+import type { Prisma } from "@/lib/generated/prisma";
+import { sanitizeHtml } from "@/lib/sanitize";
+import { publicPostWhere } from "@/lib/posts";
+import { siteUrl } from "@/lib/seo";
+import type { Locale } from "@/lib/i18n/config";
+import { decodeCursor, decodePostCursor, encodeCursor, encodePostCursor } from "./cursor";
+import type {
+  CategoryDTO,
+  ListResponse,
+  PostDTO,
+  PostSummaryDTO,
+  TagDTO,
+} from "./types";
+
+/** Thrown when a client sends a cursor this API did not issue */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export interface ListPostsOptions {
+  locale?: Locale;
+  category?: string;
+  tag?: string;
+  featured?: boolean;
+  cursor?: string;
+  limit: number;
+}
+
+export interface ListTermsOptions {
+  locale?: Locale;
+  cursor?: string;
+  limit: number;
+}
+
+const postInclude = {
+  author: { select: { firstName: true, lastName: true, imageUrl: true } },
+  category: { select: { name: true, slug: true } },
+  tags: { include: { tag: { select: { name: true, slug: true } } }, orderBy: { tag: { name: "asc" as const } } },
+  postMedia: {
+    where: { isCover: true },
+    include: { media: { select: { url: true, thumbnailUrl: true, mimeType: true, size: true } } },
+    take: 1,
+  },
+} satisfies Prisma.PostInclude;
+
+export type PostRecord = Prisma.PostGetPayload<{ include: typeof postInclude }>;
+
+/** Maps a post to its v1 list representation */
+export function toPostSummaryDTO(post: PostRecord): PostSummaryDTO {
+  const cover = post.postMedia[0]?.media;
+  return {
+    id: post.id,
+    slug: post.slug,
+    locale: post.locale,
+    url: `${siteUrl}/${post.locale}/blog/${post.slug}`,
+    title: post.title,
+    excerpt: post.excerpt || post.content.replace(/<[^>]*>/g, "").slice(0, 160),
+    publishedAt: (post.publishedAt ?? post.createdAt).toISOString(),
+    updatedAt: post.updatedAt.toISOString(),
+    readingTime: post.readingTime,
+    featured: post.featured,
+    translationGroupId: post.translationGroupId,
+    author: {
+      name: [post.author.firstName, post.author.lastName].filter(Boolean).join(" ") || "Anonymous",
+      avatarUrl: post.author.imageUrl,
+    },
+    category: post.category ? { name: post.category.name, slug: post.category.slug } : null,
+    tags: post.tags.map((pt) => ({ name: pt.tag.name, slug: pt.tag.slug })),
+    image: cover
+      ? { url: cover.url, thumbnailUrl: cover.thumbnailUrl, mimeType: cover.mimeType, size: cover.size }
+      : null,
+  };
+}
+
+/** Maps a post to its v1 detail representation, with sanitized content */
+export function toPostDTO(post: PostRecord): PostDTO {
+  return { ...toPostSummaryDTO(post), contentHtml: sanitizeHtml(post.content) };
+}
+
+/**
+ * Published posts, newest first, one cursor page at a time.
+ * Fetches one extra row to know whether another page follows.
+ */
+export async function listPosts(options: ListPostsOptions): Promise<ListResponse<PostSummaryDTO>> {
+  const { locale, category, tag, featured, cursor, limit } = options;
+
+  const where: Prisma.PostWhereInput = {
+    ...publicPostWhere(),
+    ...(locale && { locale }),
+    ...(category && { category: { slug: category } }),
+    ...(tag && { tags: { some: { tag: { slug: tag } } } }),
+    ...(featured && { featured: true }),
+  };
+
+  if (cursor) {
+    const after = decodePostCursor(cursor);
+    if (!after) throw new InvalidCursorError();
+    where.OR = [
+      { publishedAt: { lt: after.publishedAt } },
+      { publishedAt: after.publishedAt, id: { lt: after.id } },
+    ];
+  }
+
+  const posts = await prisma.post.findMany({
+    where,
+    include: postInclude,
+    orderBy: [{ publishedAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+  });
+
+  const hasMore = posts.length > limit;
+  const page = posts.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    data: page.map(toPostSummaryDTO),
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore && last?.publishedAt ? encodePostCursor({ publishedAt: last.publishedAt, id: last.id }) : null,
+    },
+  };
+}
+
+/** A published post by slug and locale, or null */
+export async function getPost(slug: string, locale: Locale): Promise<PostDTO | null> {
+  const post = await prisma.post.findFirst({
+    where: { ...publicPostWhere(), slug, locale },
+    include: postInclude,
+  });
+  return post ? toPostDTO(post) : null;
+}
+
+/** Slug-ordered page of a term list, given rows fetched with `take: limit + 1` */
+function slugPage<T extends { slug: string }>(rows: T[], limit: number): ListResponse<T> {
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  return {
+    data,
+    pagination: {
+      limit,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor([data[data.length - 1].slug]) : null,
+    },
+  };
+}
+
+function slugAfter(cursor?: string): Prisma.StringFilter | undefined {
+  if (!cursor) return undefined;
+  const values = decodeCursor(cursor, 1);
+  if (!values) throw new InvalidCursorError();
+  return { gt: values[0] };
+}
+
+/** Categories ordered by slug, with published post counts */
+export async function listCategories(options: ListTermsOptions): Promise<ListResponse<CategoryDTO>> {
+  const { locale, cursor, limit } = options;
+
+  const categories = await prisma.category.findMany({
+    where: { slug: slugAfter(cursor) },
+    include: {
+      parent: { select: { slug: true } },
+      _count: { select: { posts: { where: { ...publicPostWhere(), ...(locale && { locale }) } } } },
+    },
+    orderBy: { slug: "asc" },
+    take: limit + 1,
+  });
+
+  return slugPage(
+    categories.map((category) => ({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      parentSlug: category.parent?.slug ?? null,
+      depth: category.depth,
+      postCount: category._count.posts,
+    })),
+    limit
+  );
+}
+
+/** Tags ordered by slug, with published post counts */
+export async function listTags(options: ListTermsOptions): Promise<ListResponse<TagDTO>> {
+  const { locale, cursor, limit } = options;
+
+  const tags = await prisma.tag.findMany({
+    where: { slug: slugAfter(cursor) },
+    include: {
+      _count: { select: { posts: { where: { post: { ...publicPostWhere(), ...(locale && { locale }) } } } } },
+    },
+    orderBy: { slug: "asc" },
+    take: limit + 1,
+  });
+
+  return slugPage(
+    tags.map((tag) => ({ id: tag.id, name: tag.name, slug: tag.slug, postCount: tag._count.posts })),
+    limit
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Public Content API v1 Types
+ *
+ * Response shapes of /api/v1. These are a public contract: fields may be
+ * added, but never renamed, removed or retyped within v1.
+ */
+
+/** Post author */
+export interface AuthorDTO {
+  name: string;
+  avatarUrl: string | null;
+}
+
+/** Category or tag a post belongs to */
+export interface TermRefDTO {
+  name: string;
+  slug: string;
+}
+
+/** Cover image of a post */
+export interface ImageDTO {
+  url: string;
+  thumbnailUrl: string | null;
+  mimeType: string;
+  size: number;
+}
+
+/** Post as returned by list endpoints */
+export interface PostSummaryDTO {
+  id: string;
+  slug: string;
+  locale: string;
+  /** Canonical URL of the post page */
+  url: string;
+  title: string;
+  excerpt: string;
+  /** ISO 8601 timestamps */
+  publishedAt: string;
+  updatedAt: string;
+  readingTime: number;
+  featured: boolean;
+  /** Shared by all translations of a post */
+  translationGroupId: string | null;
+  author: AuthorDTO;
+  category: TermRefDTO | null;
+  tags: TermRefDTO[];
+  image: ImageDTO | null;
+}
+
+/** Post with its full sanitized HTML content */
+export interface PostDTO extends PostSummaryDTO {
+  contentHtml: string;
+}
+
+export interface CategoryDTO {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  parentSlug: string | null;
+  depth: number;
+  /** Published posts, in the requested locale when one is given */
+  postCount: number;
+}
+
+export interface TagDTO {
+  id: string;
+  name: string;
+  slug: string;
+  /** Published posts, in the requested locale when one is given */
+  postCount: number;
+}
+
+/** Cursor pagination state; pass `nextCursor` as `cursor` to get the next page */
+export interface PaginationDTO {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface ListResponse<T> {
+  data: T[];
+  pagination: PaginationDTO;
+}
+
+export interface ItemResponse<T> {
+  data: T;
+}
@@ -0,0 +1,327 @@
+/**
+ * Tests for site archive export and restore
+ *
+ * Property: Restoring an export into an empty database SHALL reproduce the
+ * same content under new IDs, and restoring into a database that already
+ * has the content SHALL follow the conflict strategy without duplicating
+ * taxonomy or media. A restore that stops part-way SHALL still index what it
+ * wrote and report it with the error.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+type Row = Record<string, unknown> & { id: string };
+type Tables = Record<'user' | 'mediaFolder' | 'media' | 'category' | 'tag' | 'post' | 'postTag' | 'postMedia', Row[]>;
+
+const { db, nextId } = vi.hoisted(() => {
+  let counter = 0;
+  return {
+    db: {} as Tables,
+    nextId: () => `id-${++counter}`,
+  };
+});
+
+vi.mock('@/lib/db/prisma', () => {
+  const matches = (row: Row, where: Record<string, unknown> = {}) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  const table = (name: keyof Tables) => ({
+    count: vi.fn(async () => db[name].length),
+    findMany: vi.fn(
+      async ({
+        take,
+        cursor,
+        skip = 0,
+        include,
+      }: { take?: number; cursor?: { id: string }; skip?: number; include?: Record<string, unknown> } = {}) => {
+        let rows = [...db[name]].sort((a, b) => a.id.localeCompare(b.id, 'en', { numeric: true }));
+        if (cursor) rows = rows.slice(rows.findIndex((row) => row.id === cursor.id));
+        rows = rows.slice(skip, take === undefined ? undefined : skip + take);
+        return rows.map((row) => ({
+          ...row,
+          ...(include?.uploadedBy ? { uploadedBy: db.user.find((u) => u.id === row.uploadedById) } : {}),
+          ...(include?.author ? { author: db.user.find((u) => u.id === row.authorId) } : {}),
+          ...(include?.tags ? { tags: db.postTag.filter((pt) => pt.postId === row.id) } : {}),
+          ...(include?.postMedia
+            ? { postMedia: db.postMedia.filter((pm) => pm.postId === row.id).sort((a, b) => Number(a.order) - Number(b.order)) }
+            : {}),
+        }));
+      }
+    ),
+    findUnique: vi.fn(async ({ where }: { where: Record<string, unknown> }) => db[name].find((row) => matches(row, where)) ?? null),
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      const row = { id: nextId(), ...data };
+      db[name].push(row);
+      return row;
+    }),
+    createMany: vi.fn(async ({ data }: { data: Record<string, unknown>[] }) => {
+      for (const item of data) {
+        const duplicate = db[name].some((row) => row.postId === item.postId && (row.tagId ?? row.mediaId) === (item.tagId ?? item.mediaId));
+        if (!duplicate) db[name].push({ id: nextId(), ...item });
+      }
+      return { count: data.length };
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      const row = db[name].find((r) => r.id === where.id)!;
+      Object.assign(row, data);
+      return row;
+    }),
+    deleteMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) => {
+      const before = db[name].length;
+      db[name] = db[name].filter((row) => !matches(row, where));
+      return { count: before - db[name].length };
+    }),
+  });
+
+  return {
+    default: {
+      user: table('user'),
+      mediaFolder: table('mediaFolder'),
+      media: table('media'),
+      category: table('category'),
+      tag: table('tag'),
+      post: table('post'),
+      postTag: table('postTag'),
+      postMedia: table('postMedia'),
+      $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+  };
+});
+
+vi.mock('@/lib/cache/posts', () => ({
+  postCache: { invalidateAllPosts: vi.fn(async () => {}) },
+}));
+
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+// Import after mocking
+import prisma from '@/lib/db/prisma';
+import { postCache } from '@/lib/cache/posts';
+import { updateSearchVectors } from '@/lib/search';
+import { exportArchiveLines, EXPORT_BATCH_SIZE } from './export';
+import { restoreArchive, ArchiveError, RestoreInterruptedError } from './restore';
+import { ARCHIVE_VERSION } from './types';
+
+const date = new Date('2025-01-01T00:00:00Z');
+
+function emptyDatabase() {
+  Object.assign(db, {
+    user: [{ id: 'user_admin', email: 'admin@example.com' }],
+    mediaFolder: [],
+    media: [],
+    category: [],
+    tag: [],
+    post: [],
+    postTag: [],
+    postMedia: [],
+  });
+}
+
+function seedSite(postCount = 2) {
+  emptyDatabase();
+  db.user.push({ id: 'user_jane', email: 'jane@example.com' });
+  db.mediaFolder.push({ id: 'f1', name: 'Covers', createdAt: date });
+  db.media.push({
+    id: 'm1', fileId: 'ik_1', filename: 'cover.jpg', url: 'https://ik.example.com/cover.jpg', thumbnailUrl: null,
+    mimeType: 'image/jpeg', size: 100, width: 10, height: 10, uploadedAt: date, uploadedById: 'user_jane', folderId: 'f1',
+  });
+  db.category.push(
+    { id: 'c1', name: 'News', slug: 'news', description: null, parentId: null, depth: 0, createdAt: date },
+    { id: 'c2', name: 'World', slug: 'world', description: 'Abroad', parentId: 'c1', depth: 1, createdAt: date }
+  );
+  db.tag.push({ id: 't1', name: 'Asia', slug: 'asia', createdAt: date });
+
+  for (let i = 0; i < postCount; i++) {
+    const locale = i % 2 === 0 ? 'en' : 'th';
+    db.post.push({
+      id: `p${i}`, slug: `story-${Math.floor(i / 2)}`, locale, translationGroupId: `g${Math.floor(i / 2)}`,
+      title: `Story ${i}`, content: '<p>Body</p>', excerpt: null, status: i % 3 === 0 ? 'DRAFT' : 'PUBLISHED',
+      publishedAt: date, scheduledAt: null, unpublishAt: null, reviewComment: null, reviewedAt: null,
+      createdAt: date, readingTime: 1, featured: false, authorId: 'user_jane', categoryId: 'c2',
+    });
+    db.postTag.push({ id: `pt${i}`, postId: `p${i}`, tagId: 't1' });
+    db.postMedia.push({ id: `pm${i}`, postId: `p${i}`, mediaId: 'm1', isCover: true, order: 0 });
+  }
+}
+
+async function exportLines(): Promise<string[]> {
+  const lines: string[] = [];
+  for await (const line of exportArchiveLines(date)) lines.push(line.trimEnd());
+  return lines;
+}
+
+/**
+ * Site content keyed by natural keys instead of IDs
+ */
+function snapshot() {
+  const categorySlug = (id: unknown) => db.category.find((c) => c.id === id)?.slug ?? null;
+  return {
+    folders: db.mediaFolder.map((f) => f.name).sort(),
+    media: db.media.map((m) => `${m.fileId}:${db.mediaFolder.find((f) => f.id === m.folderId)?.name}`).sort(),
+    categories: db.category.map((c) => `${categorySlug(c.parentId)}/${c.slug}@${c.depth}`).sort(),
+    tags: db.tag.map((t) => t.slug).sort(),
+    posts: db.post
+      .map((p) => {
+        const tags = db.postTag.filter((pt) => pt.postId === p.id).map((pt) => db.tag.find((t) => t.id === pt.tagId)?.slug);
+        const media = db.postMedia.filter((pm) => pm.postId === p.id).map((pm) => db.media.find((m) => m.id === pm.mediaId)?.fileId);
+        const siblings = db.post.filter((q) => q.translationGroupId === p.translationGroupId).length;
+        return `${p.locale}/${p.slug}:${p.status}:${p.authorId}:${categorySlug(p.categoryId)}:${tags}:${media}:${siblings}`;
+      })
+      .sort(),
+  };
+}
+
+const options = { conflict: 'skip' as const, defaultAuthorId: 'user_admin' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('exportArchive', () => {
+  it('writes a versioned header and references that always point backwards', async () => {
+    seedSite(EXPORT_BATCH_SIZE + 5);
+    const lines = (await exportLines()).map((line) => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({ format: 'newsloop-archive', version: ARCHIVE_VERSION });
+    expect(lines[0].counts.post).toBe(EXPORT_BATCH_SIZE + 5);
+    expect(lines.filter((line) => line.type === 'post')).toHaveLength(EXPORT_BATCH_SIZE + 5);
+
+    const seen = new Set<string>();
+    for (const record of lines.slice(1)) {
+      for (const ref of [record.folderId, record.parentId, record.categoryId, record.postId, record.tagId, record.mediaId]) {
+        if (ref) expect(seen.has(ref)).toBe(true);
+      }
+      seen.add(record.id);
+    }
+  });
+});
+
+describe('restoreArchive', () => {
+  it('reproduces the site in an empty database under new IDs', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 12 }), async (postCount) => {
+        seedSite(postCount);
+        const before = snapshot();
+        const lines = await exportLines();
+
+        emptyDatabase();
+        db.user.push({ id: 'user_jane', email: 'jane@example.com' });
+        const report = await restoreArchive(lines, options);
+
+        expect(snapshot()).toEqual(before);
+        expect(db.post.every((post) => !/^p\d+$/.test(post.id))).toBe(true);
+        expect(report.counts.post.created).toBe(postCount);
+        expect(report.warnings).toEqual([]);
+      }),
+      { numRuns: 15 }
+    );
+  });
+
+  it('assigns content of unknown users to the default author', async () => {
+    seedSite(2);
+    const lines = await exportLines();
+    emptyDatabase();
+
+    const report = await restoreArchive(lines, options);
+
+    expect(db.post.every((post) => post.authorId === 'user_admin')).toBe(true);
+    expect(db.media[0].uploadedById).toBe('user_admin');
+    expect(report.warnings).toEqual(['User jane@example.com not found; content assigned to the default author']);
+  });
+
+  it('skips existing posts and reuses existing taxonomy and media', async () => {
+    seedSite(4);
+    const before = snapshot();
+
+    const report = await restoreArchive(await exportLines(), options);
+
+    expect(snapshot()).toEqual(before);
+    expect(report.counts.post).toEqual({ created: 0, updated: 0, skipped: 4 });
+    expect(report.counts.postTag.skipped).toBe(4);
+  });
+
+  it('overwrites existing posts and replaces their links', async () => {
+    seedSite(2);
+    const lines = await exportLines();
+    db.post[0].title = 'Edited';
+    db.postTag.push({ id: 'extra', postId: 'p0', tagId: 'other' });
+
+    const report = await restoreArchive(lines, { ...options, conflict: 'overwrite' });
+
+    expect(db.post[0].title).toBe('Story 0');
+    expect(db.postTag.filter((pt) => pt.postId === 'p0').map((pt) => pt.tagId)).toEqual(['t1']);
+    expect(report.counts.post.updated).toBe(2);
+    expect(db.post).toHaveLength(2);
+  });
+
+  it('restores renamed copies in a translation group of their own', async () => {
+    seedSite(2);
+
+    const report = await restoreArchive(await exportLines(), { ...options, conflict: 'rename' });
+
+    expect(db.post.map((p) => `${p.locale}/${p.slug}`).sort()).toEqual(['en/story-0', 'en/story-0-2', 'th/story-0', 'th/story-0-2']);
+    const copies = db.post.filter((p) => String(p.slug).endsWith('-2'));
+    expect(copies[0].translationGroupId).toBe(copies[1].translationGroupId);
+    expect(copies[0].translationGroupId).not.toBe('g0');
+    expect(db.category).toHaveLength(2);
+    expect(report.counts.post.created).toBe(2);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    seedSite(3);
+    const lines = await exportLines();
+    emptyDatabase();
+
+    const report = await restoreArchive(lines, { ...options, dryRun: true });
+
+    expect(report.counts.post.created).toBe(3);
+    expect(report.counts.category.created).toBe(2);
+    expect(db.post).toHaveLength(0);
+    expect(prisma.post.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects archives that are newer, missing a header or corrupt', async () => {
+    emptyDatabase();
+    const header = { format: 'newsloop-archive', version: ARCHIVE_VERSION, exportedAt: date, counts: {} };
+
+    await expect(restoreArchive([JSON.stringify({ ...header, version: ARCHIVE_VERSION + 1 })], options)).rejects.toThrow(
+      /newer than supported/
+    );
+    await expect(restoreArchive(['{"type":"tag"}'], options)).rejects.toBeInstanceOf(ArchiveError);
+    await expect(restoreArchive([JSON.stringify(header), 'not json'], options)).rejects.toThrow('Line 2: not valid JSON');
+    await expect(restoreArchive([], options)).rejects.toThrow('Archive is empty');
+  });
+
+  it('indexes and reports the posts restored before a bad line', async () => {
+    seedSite(3);
+    const lines = await exportLines();
+    emptyDatabase();
+
+    const error = await restoreArchive([...lines, 'not json'], options).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ArchiveError);
+    expect((error as ArchiveError).report?.counts.post.created).toBe(3);
+    expect(updateSearchVectors).toHaveBeenCalledWith(db.post.map((post) => post.id));
+    expect(postCache.invalidateAllPosts).toHaveBeenCalled();
+  });
+
+  it('indexes and reports the posts restored before a failed write', async () => {
+    seedSite(3);
+    const lines = await exportLines();
+    emptyDatabase();
+    const create = vi.mocked(prisma.post.create);
+    create.mockImplementationOnce(create.getMockImplementation()!).mockRejectedValueOnce(new Error('Connection lost'));
+
+    const error = await restoreArchive(lines, options).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RestoreInterruptedError);
+    expect((error as RestoreInterruptedError).cause).toEqual(new Error('Connection lost'));
+    expect((error as RestoreInterruptedError).report.counts.post.created).toBe(1);
+    expect(db.post).toHaveLength(1);
+    expect(updateSearchVectors).toHaveBeenCalledWith([db.post[0].id]);
+    expect(postCache.invalidateAllPosts).toHaveBeenCalled();
+  });
+});
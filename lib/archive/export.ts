@@ -0,0 +1,149 @@
+/**
+ * Site Archive Export
+ *
+ * Streams every post (all locales and statuses), category, tag, media item
+ * and media folder as NDJSON. Large tables are read in batches so exports
+ * of any size run in constant memory.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, type ArchiveHeader, type ArchiveRecord } from './types';
+
+/** Rows read per query for posts and media */
+export const EXPORT_BATCH_SIZE = 200;
+
+/**
+ * Reads a table in ID order, one batch at a time
+ */
+async function* batches<T extends { id: string }>(
+  read: (args: { take: number; skip: number; cursor?: { id: string }; orderBy: { id: 'asc' } }) => Promise<T[]>
+): AsyncGenerator<T> {
+  let cursor: string | undefined;
+  while (true) {
+    const rows = await read({
+      take: EXPORT_BATCH_SIZE,
+      skip: cursor ? 1 : 0,
+      cursor: cursor ? { id: cursor } : undefined,
+      orderBy: { id: 'asc' },
+    });
+    yield* rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Yields the archive header followed by every record, in restore order
+ */
+export async function* exportArchive(now: Date = new Date()): AsyncGenerator<ArchiveHeader | ArchiveRecord> {
+  const [folder, media, category, tag, post, postTag, postMedia] = await Promise.all([
+    prisma.mediaFolder.count(),
+    prisma.media.count(),
+    prisma.category.count(),
+    prisma.tag.count(),
+    prisma.post.count(),
+    prisma.postTag.count(),
+    prisma.postMedia.count(),
+  ]);
+
+  yield {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: now,
+    counts: { folder, media, category, tag, post, postTag, postMedia },
+  };
+
+  for (const row of await prisma.mediaFolder.findMany({ orderBy: { name: 'asc' } })) {
+    yield { type: 'folder', id: row.id, name: row.name, createdAt: row.createdAt };
+  }
+
+  const mediaRows = batches((args) =>
+    prisma.media.findMany({ ...args, include: { uploadedBy: { select: { email: true } } } })
+  );
+  for await (const row of mediaRows) {
+    yield {
+      type: 'media',
+      id: row.id,
+      fileId: row.fileId,
+      filename: row.filename,
+      url: row.url,
+      thumbnailUrl: row.thumbnailUrl,
+      mimeType: row.mimeType,
+      size: row.size,
+      width: row.width,
+      height: row.height,
+      uploadedAt: row.uploadedAt,
+      uploadedById: row.uploadedById,
+      uploadedByEmail: row.uploadedBy?.email ?? null,
+      folderId: row.folderId,
+    };
+  }
+
+  // Parents before children so restore can resolve parentId
+  const categories = await prisma.category.findMany({ orderBy: [{ depth: 'asc' }, { name: 'asc' }] });
+  for (const row of categories) {
+    yield {
+      type: 'category',
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      description: row.description,
+      parentId: row.parentId,
+      createdAt: row.createdAt,
+    };
+  }
+
+  for (const row of await prisma.tag.findMany({ orderBy: { name: 'asc' } })) {
+    yield { type: 'tag', id: row.id, name: row.name, slug: row.slug, createdAt: row.createdAt };
+  }
+
+  const postRows = batches((args) =>
+    prisma.post.findMany({
+      ...args,
+      include: {
+        author: { select: { email: true } },
+        tags: { select: { tagId: true } },
+        postMedia: { select: { mediaId: true, isCover: true, order: true }, orderBy: { order: 'asc' } },
+      },
+    })
+  );
+  for await (const row of postRows) {
+    yield {
+      type: 'post',
+      id: row.id,
+      slug: row.slug,
+      locale: row.locale,
+      translationGroupId: row.translationGroupId,
+      title: row.title,
+      content: row.content,
+      excerpt: row.excerpt,
+      status: row.status,
+      publishedAt: row.publishedAt,
+      scheduledAt: row.scheduledAt,
+      unpublishAt: row.unpublishAt,
+      reviewComment: row.reviewComment,
+      reviewedAt: row.reviewedAt,
+      createdAt: row.createdAt,
+      readingTime: row.readingTime,
+      featured: row.featured,
+      authorId: row.authorId,
+      authorEmail: row.author?.email ?? null,
+      categoryId: row.categoryId,
+    };
+    for (const { tagId } of row.tags) {
+      yield { type: 'postTag', postId: row.id, tagId };
+    }
+    for (const link of row.postMedia) {
+      yield { type: 'postMedia', postId: row.id, ...link };
+    }
+  }
+}
+
+/**
+ * Yields the archive as NDJSON lines, each ending in a newline
+ */
+export async function* exportArchiveLines(now: Date = new Date()): AsyncGenerator<string> {
+  for await (const entry of exportArchive(now)) {
+    yield `${JSON.stringify(entry)}\n`;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Site Archive Module Barrel Export
+ *
+ * Portable NDJSON export and restore of posts, taxonomy and media metadata.
+ */
+
+// Types
+export {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ARCHIVE_CONFLICT_STRATEGIES,
+  archiveHeaderSchema,
+  archiveRecordSchema,
+} from './types';
+export type {
+  ArchiveConflictStrategy,
+  ArchiveHeader,
+  ArchiveRecord,
+  ArchiveRecordType,
+  RestoreOptions,
+  RestoreCounts,
+  RestoreReport,
+} from './types';
+
+// Export
+export { exportArchive, exportArchiveLines, EXPORT_BATCH_SIZE } from './export';
+
+// Restore
+export { restoreArchive, ArchiveError, RestoreInterruptedError } from './restore';
+
+// NDJSON streaming
+export { splitLines, decodeStream, toReadableStream } from './ndjson';
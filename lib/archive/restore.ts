@@ -0,0 +1,386 @@
+/**
+ * Site Archive Restore
+ *
+ * Restores an NDJSON archive into an empty or existing database. Every
+ * record gets a new ID; references are rewritten through per-type ID maps.
+ * Folders, media, categories and tags that already exist (by name, file ID
+ * or slug) are reused. Posts that already exist (by slug and locale, or by
+ * translation group and locale) follow the chosen conflict strategy:
+ * - skip: keep the existing post and leave its tags and media alone
+ * - overwrite: replace the existing post's fields, tags and media
+ * - rename: restore a copy under a free slug in its own translation group
+ */
+
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/db/prisma';
+import { postCache } from '@/lib/cache/posts';
+import { uniqueSlug } from '@/lib/posts';
+import { updateSearchVectors } from '@/lib/search';
+import {
+  ARCHIVE_VERSION,
+  archiveHeaderSchema,
+  archiveRecordSchema,
+  type ArchiveRecordOf,
+  type ArchiveRecordType,
+  type RestoreOptions,
+  type RestoreReport,
+} from './types';
+
+/**
+ * Thrown when the archive cannot be read; nothing after the bad line is
+ * restored, and `report` says what was restored before it
+ */
+export class ArchiveError extends Error {
+  report?: RestoreReport;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * Thrown when a write fails part-way through a restore; records before it
+ * stay restored, as listed in `report`
+ */
+export class RestoreInterruptedError extends Error {
+  constructor(
+    public readonly report: RestoreReport,
+    cause: unknown
+  ) {
+    super('Restore stopped part-way', { cause });
+    this.name = 'RestoreInterruptedError';
+  }
+}
+
+const RECORD_TYPES: ArchiveRecordType[] = ['folder', 'media', 'category', 'tag', 'post', 'postTag', 'postMedia'];
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new ArchiveError(`Line ${lineNumber}: not valid JSON`);
+  }
+}
+
+/**
+ * Restores an archive from its NDJSON lines. Records are written as they are
+ * read, so if a line is bad or a write fails, the records before it stay
+ * restored: they still get search vectors and the post cache is cleared, and
+ * the thrown error carries the partial report.
+ */
+export async function restoreArchive(
+  lines: AsyncIterable<string> | Iterable<string>,
+  options: RestoreOptions
+): Promise<RestoreReport> {
+  const dryRun = options.dryRun ?? false;
+
+  const [users, folders, categories, tags, posts] = await Promise.all([
+    prisma.user.findMany({ select: { id: true, email: true } }),
+    prisma.mediaFolder.findMany({ select: { id: true, name: true } }),
+    prisma.category.findMany({ select: { id: true, name: true, slug: true, parentId: true, depth: true } }),
+    prisma.tag.findMany({ select: { id: true, name: true, slug: true } }),
+    prisma.post.findMany({ select: { id: true, slug: true, locale: true, translationGroupId: true } }),
+  ]);
+
+  if (!users.some((user) => user.id === options.defaultAuthorId)) {
+    throw new ArchiveError(`Default author not found: ${options.defaultAuthorId}`);
+  }
+
+  const report: RestoreReport = {
+    dryRun,
+    version: 0,
+    counts: Object.fromEntries(RECORD_TYPES.map((type) => [type, { created: 0, updated: 0, skipped: 0 }])) as RestoreReport['counts'],
+    warnings: [],
+  };
+
+  const ids = Object.fromEntries(RECORD_TYPES.map((type) => [type, new Map<string, string>()])) as Record<
+    ArchiveRecordType,
+    Map<string, string>
+  >;
+  const skippedPosts = new Set<string>();
+  const restoredPostIds: string[] = [];
+  const translationGroups = new Map<string, string>();
+  const missingUsers = new Set<string>();
+  const postSlugs = new Map<string, Set<string>>();
+  for (const post of posts) {
+    if (!postSlugs.has(post.locale)) postSlugs.set(post.locale, new Set());
+    postSlugs.get(post.locale)!.add(post.slug);
+  }
+
+  const placeholder = (type: ArchiveRecordType, id: string) => `dry-run-${type}-${id}`;
+
+  const resolveUser = (id: string, email: string | null): string => {
+    const user = users.find((u) => u.id === id) ?? (email ? users.find((u) => u.email === email) : undefined);
+    if (user) return user.id;
+    if (!missingUsers.has(id)) {
+      missingUsers.add(id);
+      report.warnings.push(`User ${email ?? id} not found; content assigned to the default author`);
+    }
+    return options.defaultAuthorId;
+  };
+
+  const resolveRef = (type: ArchiveRecordType, id: string | null, context: string): string | null => {
+    if (!id) return null;
+    const mapped = ids[type].get(id);
+    if (!mapped) {
+      report.warnings.push(`${context}: ${type} ${id} is not in the archive; reference dropped`);
+    }
+    return mapped ?? null;
+  };
+
+  const restoreFolder = async (record: ArchiveRecordOf<'folder'>) => {
+    const existing = folders.find((folder) => folder.name === record.name);
+    if (existing) {
+      ids.folder.set(record.id, existing.id);
+      report.counts.folder.skipped++;
+      return;
+    }
+    const id = dryRun
+      ? placeholder('folder', record.id)
+      : (await prisma.mediaFolder.create({ data: { name: record.name, createdAt: record.createdAt } })).id;
+    folders.push({ id, name: record.name });
+    ids.folder.set(record.id, id);
+    report.counts.folder.created++;
+  };
+
+  const restoreMedia = async (record: ArchiveRecordOf<'media'>) => {
+    const data = {
+      filename: record.filename,
+      url: record.url,
+      thumbnailUrl: record.thumbnailUrl,
+      mimeType: record.mimeType,
+      size: record.size,
+      width: record.width,
+      height: record.height,
+      folderId: resolveRef('folder', record.folderId, `Media ${record.fileId}`),
+    };
+    const existing = await prisma.media.findUnique({ where: { fileId: record.fileId }, select: { id: true } });
+    if (existing) {
+      ids.media.set(record.id, existing.id);
+      if (options.conflict === 'overwrite') {
+        if (!dryRun) await prisma.media.update({ where: { id: existing.id }, data });
+        report.counts.media.updated++;
+      } else {
+        report.counts.media.skipped++;
+      }
+      return;
+    }
+    const id = dryRun
+      ? placeholder('media', record.id)
+      : (
+          await prisma.media.create({
+            data: {
+              ...data,
+              fileId: record.fileId,
+              uploadedAt: record.uploadedAt,
+              uploadedById: resolveUser(record.uploadedById, record.uploadedByEmail),
+            },
+          })
+        ).id;
+    ids.media.set(record.id, id);
+    report.counts.media.created++;
+  };
+
+  const restoreCategory = async (record: ArchiveRecordOf<'category'>) => {
+    const parentId = resolveRef('category', record.parentId, `Category ${record.slug}`);
+    const existing = categories.find(
+      (category) => category.slug === record.slug || (category.parentId === parentId && category.name === record.name)
+    );
+    if (existing) {
+      ids.category.set(record.id, existing.id);
+      report.counts.category.skipped++;
+      return;
+    }
+    const depth = parentId ? (categories.find((category) => category.id === parentId)?.depth ?? 0) + 1 : 0;
+    const data = { name: record.name, slug: record.slug, description: record.description, parentId, depth };
+    const id = dryRun
+      ? placeholder('category', record.id)
+      : (await prisma.category.create({ data: { ...data, createdAt: record.createdAt } })).id;
+    categories.push({ id, ...data });
+    ids.category.set(record.id, id);
+    report.counts.category.created++;
+  };
+
+  const restoreTag = async (record: ArchiveRecordOf<'tag'>) => {
+    const existing = tags.find((tag) => tag.slug === record.slug || tag.name === record.name);
+    if (existing) {
+      ids.tag.set(record.id, existing.id);
+      report.counts.tag.skipped++;
+      return;
+    }
+    const id = dryRun
+      ? placeholder('tag', record.id)
+      : (await prisma.tag.create({ data: { name: record.name, slug: record.slug, createdAt: record.createdAt } })).id;
+    tags.push({ id, name: record.name, slug: record.slug });
+    ids.tag.set(record.id, id);
+    report.counts.tag.created++;
+  };
+
+  const restorePost = async (record: ArchiveRecordOf<'post'>) => {
+    const data = {
+      title: record.title,
+      content: record.content,
+      excerpt: record.excerpt,
+      status: record.status,
+      publishedAt: record.publishedAt,
+      scheduledAt: record.scheduledAt,
+      unpublishAt: record.unpublishAt,
+      reviewComment: record.reviewComment,
+      reviewedAt: record.reviewedAt,
+      readingTime: record.readingTime,
+      featured: record.featured,
+      authorId: resolveUser(record.authorId, record.authorEmail),
+      categoryId: resolveRef('category', record.categoryId, `Post ${record.locale}/${record.slug}`),
+    };
+    const group = record.translationGroupId ? translationGroups.get(record.translationGroupId) ?? record.translationGroupId : null;
+    const existing = posts.find(
+      (post) =>
+        post.locale === record.locale &&
+        (post.slug === record.slug || (group !== null && post.translationGroupId === group))
+    );
+
+    if (existing && options.conflict === 'skip') {
+      ids.post.set(record.id, existing.id);
+      skippedPosts.add(record.id);
+      report.counts.post.skipped++;
+      return;
+    }
+
+    if (existing && options.conflict === 'overwrite') {
+      if (!dryRun) {
+        await prisma.$transaction([
+          prisma.post.update({ where: { id: existing.id }, data }),
+          prisma.postTag.deleteMany({ where: { postId: existing.id } }),
+          prisma.postMedia.deleteMany({ where: { postId: existing.id } }),
+        ]);
+        restoredPostIds.push(existing.id);
+      }
+      ids.post.set(record.id, existing.id);
+      report.counts.post.updated++;
+      return;
+    }
+
+    if (!postSlugs.has(record.locale)) postSlugs.set(record.locale, new Set());
+    const slug = existing ? uniqueSlug(record.slug, postSlugs.get(record.locale)!) : record.slug;
+    postSlugs.get(record.locale)!.add(slug);
+
+    let translationGroupId = group;
+    if (existing && record.translationGroupId) {
+      // The copy starts its own translation group, shared with its renamed siblings
+      translationGroupId = translationGroups.get(record.translationGroupId) ?? randomUUID();
+      translationGroups.set(record.translationGroupId, translationGroupId);
+    }
+    if (existing) {
+      report.warnings.push(`Post ${record.locale}/${record.slug} exists; restored as ${record.locale}/${slug}`);
+    }
+
+    const id = dryRun
+      ? placeholder('post', record.id)
+      : (
+          await prisma.post.create({
+            data: { ...data, slug, locale: record.locale, translationGroupId, createdAt: record.createdAt },
+            select: { id: true },
+          })
+        ).id;
+    if (!dryRun) restoredPostIds.push(id);
+    posts.push({ id, slug, locale: record.locale, translationGroupId });
+    ids.post.set(record.id, id);
+    report.counts.post.created++;
+  };
+
+  const restoreLink = async (record: ArchiveRecordOf<'postTag'> | ArchiveRecordOf<'postMedia'>) => {
+    const counts = report.counts[record.type];
+    if (skippedPosts.has(record.postId)) {
+      counts.skipped++;
+      return;
+    }
+    const context = `Link of post ${record.postId}`;
+    const postId = resolveRef('post', record.postId, context);
+    const targetId =
+      record.type === 'postTag' ? resolveRef('tag', record.tagId, context) : resolveRef('media', record.mediaId, context);
+    if (!postId || !targetId) {
+      counts.skipped++;
+      return;
+    }
+
+    if (!dryRun) {
+      if (record.type === 'postTag') {
+        await prisma.postTag.createMany({ data: [{ postId, tagId: targetId }], skipDuplicates: true });
+      } else {
+        await prisma.postMedia.createMany({
+          data: [{ postId, mediaId: targetId, isCover: record.isCover, order: record.order }],
+          skipDuplicates: true,
+        });
+      }
+    }
+    counts.created++;
+  };
+
+  let lineNumber = 0;
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      if (report.version === 0) {
+        const header = archiveHeaderSchema.safeParse(parseLine(line, lineNumber));
+        if (!header.success) {
+          throw new ArchiveError('Not a site archive: missing header');
+        }
+        if (header.data.version > ARCHIVE_VERSION) {
+          throw new ArchiveError(
+            `Archive version ${header.data.version} is newer than supported version ${ARCHIVE_VERSION}`
+          );
+        }
+        report.version = header.data.version;
+        continue;
+      }
+
+      const parsed = archiveRecordSchema.safeParse(parseLine(line, lineNumber));
+      if (!parsed.success) {
+        throw new ArchiveError(`Line ${lineNumber}: invalid record (${parsed.error.issues[0]?.message})`);
+      }
+
+      const record = parsed.data;
+      switch (record.type) {
+        case 'folder':
+          await restoreFolder(record);
+          break;
+        case 'media':
+          await restoreMedia(record);
+          break;
+        case 'category':
+          await restoreCategory(record);
+          break;
+        case 'tag':
+          await restoreTag(record);
+          break;
+        case 'post':
+          await restorePost(record);
+          break;
+        case 'postTag':
+        case 'postMedia':
+          await restoreLink(record);
+          break;
+      }
+    }
+
+    if (report.version === 0) {
+      throw new ArchiveError('Archive is empty');
+    }
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      error.report = report;
+      throw error;
+    }
+    throw new RestoreInterruptedError(report, error);
+  } finally {
+    if (restoredPostIds.length > 0) {
+      await updateSearchVectors(restoredPostIds);
+      await postCache.invalidateAllPosts();
+    }
+  }
+
+  return report;
+}
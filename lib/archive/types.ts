@@ -0,0 +1,141 @@
+/**
+ * Site Archive Types Module
+ *
+ * Defines the NDJSON archive format: a header line followed by one record
+ * per line. Records are written so every reference points backwards —
+ * folders, media, categories (parents first) and tags come before the
+ * posts that use them, and each post is followed by its tag and media links.
+ */
+
+import { z } from 'zod';
+
+export const ARCHIVE_FORMAT = 'newsloop-archive';
+
+/** Bump when the record shapes change; restore refuses newer versions */
+export const ARCHIVE_VERSION = 1;
+
+/** What to do when an archived post already exists in the database */
+export const ARCHIVE_CONFLICT_STRATEGIES = ['skip', 'overwrite', 'rename'] as const;
+
+export type ArchiveConflictStrategy = (typeof ARCHIVE_CONFLICT_STRATEGIES)[number];
+
+const date = z.coerce.date();
+const nullableDate = z.coerce.date().nullable();
+
+export const archiveHeaderSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: date,
+  counts: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+export const archiveRecordSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('folder'),
+    id: z.string(),
+    name: z.string(),
+    createdAt: date,
+  }),
+  z.object({
+    type: z.literal('media'),
+    id: z.string(),
+    fileId: z.string(),
+    filename: z.string(),
+    url: z.string(),
+    thumbnailUrl: z.string().nullable(),
+    mimeType: z.string(),
+    size: z.number().int(),
+    width: z.number().int().nullable(),
+    height: z.number().int().nullable(),
+    uploadedAt: date,
+    uploadedById: z.string(),
+    uploadedByEmail: z.string().nullable(),
+    folderId: z.string().nullable(),
+  }),
+  z.object({
+    type: z.literal('category'),
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    description: z.string().nullable(),
+    parentId: z.string().nullable(),
+    createdAt: date,
+  }),
+  z.object({
+    type: z.literal('tag'),
+    id: z.string(),
+    name: z.string(),
+    slug: z.string(),
+    createdAt: date,
+  }),
+  z.object({
+    type: z.literal('post'),
+    id: z.string(),
+    slug: z.string(),
+    locale: z.string(),
+    translationGroupId: z.string().nullable(),
+    title: z.string(),
+    content: z.string(),
+    excerpt: z.string().nullable(),
+    status: z.enum(['DRAFT', 'IN_REVIEW', 'REJECTED', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']),
+    publishedAt: nullableDate,
+    scheduledAt: nullableDate,
+    unpublishAt: nullableDate,
+    reviewComment: z.string().nullable(),
+    reviewedAt: nullableDate,
+    createdAt: date,
+    readingTime: z.number().int(),
+    featured: z.boolean(),
+    authorId: z.string(),
+    authorEmail: z.string().nullable(),
+    categoryId: z.string().nullable(),
+  }),
+  z.object({
+    type: z.literal('postTag'),
+    postId: z.string(),
+    tagId: z.string(),
+  }),
+  z.object({
+    type: z.literal('postMedia'),
+    postId: z.string(),
+    mediaId: z.string(),
+    isCover: z.boolean(),
+    order: z.number().int(),
+  }),
+]);
+
+export type ArchiveHeader = z.infer<typeof archiveHeaderSchema>;
+export type ArchiveRecord = z.infer<typeof archiveRecordSchema>;
+export type ArchiveRecordType = ArchiveRecord['type'];
+export type ArchiveRecordOf<T extends ArchiveRecordType> = Extract<ArchiveRecord, { type: T }>;
+
+/**
+ * Restore options
+ */
+export interface RestoreOptions {
+  /** Applies to posts; folders, media, categories and tags are matched by name/slug and reused */
+  conflict: ArchiveConflictStrategy;
+  /** Owner for posts and media whose user does not exist here */
+  defaultAuthorId: string;
+  /** Report what would be restored without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Per-type outcome counts of a restore
+ */
+export interface RestoreCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+/**
+ * Summary of a restore run
+ */
+export interface RestoreReport {
+  dryRun: boolean;
+  version: number;
+  counts: Record<ArchiveRecordType, RestoreCounts>;
+  warnings: string[];
+}
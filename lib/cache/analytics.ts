@@ -149,6 +149,7 @@ export interface DashboardStats {
   publishedPosts: number;
   draftPosts: number;
   scheduledPosts: number;
+  inReviewPosts: number;
   totalViews: number;
   viewsThisWeek: number;
   viewsToday: number;
@@ -2,11 +2,12 @@ import cacheService, { CACHE_KEYS, CACHE_TTL } from './redis';
 import type { Post, PostStatus } from '@/lib/generated/prisma';
 
 // Type for cached post data
-type CachedPost = Omit<Post, 'createdAt' | 'updatedAt' | 'publishedAt' | 'scheduledAt'> & {
+type CachedPost = Omit<Post, 'createdAt' | 'updatedAt' | 'publishedAt' | 'scheduledAt' | 'unpublishAt'> & {
   createdAt: string;
   updatedAt: string;
   publishedAt: string | null;
   scheduledAt: string | null;
+  unpublishAt: string | null;
 };
 
 /**
@@ -47,6 +48,7 @@ export const postCache = {
       updatedAt: post.updatedAt.toISOString(),
       publishedAt: post.publishedAt?.toISOString() ?? null,
       scheduledAt: post.scheduledAt?.toISOString() ?? null,
+      unpublishAt: post.unpublishAt?.toISOString() ?? null,
     }));
     await cacheService.set(key, serializedPosts, CACHE_TTL.POSTS_LIST);
   },
@@ -70,6 +72,7 @@ export const postCache = {
       updatedAt: post.updatedAt.toISOString(),
       publishedAt: post.publishedAt?.toISOString() ?? null,
       scheduledAt: post.scheduledAt?.toISOString() ?? null,
+      unpublishAt: post.unpublishAt?.toISOString() ?? null,
     };
     await cacheService.set(key, serializedPost, CACHE_TTL.POST);
   },
@@ -90,6 +93,15 @@ export const postCache = {
     await cacheService.invalidatePattern(`${CACHE_KEYS.POSTS_LIST}:*`);
   },
 
+  /**
+   * Invalidate several posts at once, clearing the list caches a single time
+   */
+  async invalidatePosts(posts: { slug: string; locale: string }[]): Promise<void> {
+    if (posts.length === 0) return;
+    await cacheService.del(...posts.map((post) => `${CACHE_KEYS.POST}:${post.slug}:${post.locale}`));
+    await cacheService.invalidatePattern(`${CACHE_KEYS.POSTS_LIST}:*`);
+  },
+
   /**
    * Invalidate all post caches
    */
@@ -15,6 +15,8 @@ export const CACHE_KEYS = {
   PAGE_VIEWS: 'pageviews',
   ANALYTICS: 'analytics',
   NEWS: 'news',
+  SEARCH: 'search',
+  REDIRECTS: 'redirects',
 } as const;
 
 // Default TTL values (in seconds)
@@ -25,6 +27,7 @@ export const CACHE_TTL = {
   TAGS: 60 * 30, // 30 minutes
   ANALYTICS: 60 * 15, // 15 minutes
   NEWS: 60 * 5, // 5 minutes
+  SEARCH_VOCABULARY: 60 * 30, // 30 minutes
 } as const;
 
 /**
@@ -61,13 +64,14 @@ export const cacheService = {
 
 
   /**
-   * Delete a key from cache
+   * Delete one or more keys from cache
    */
-  async del(key: string): Promise<void> {
+  async del(...keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
     try {
-      await redis.del(key);
+      await redis.del(...keys);
     } catch (error) {
-      console.error(`Cache delete error for key ${key}:`, error);
+      console.error(`Cache delete error for key ${keys.join(', ')}:`, error);
     }
   },
 
@@ -85,6 +89,19 @@ export const cacheService = {
     }
   },
 
+  /**
+   * Set a value with a TTL only if the key does not exist yet
+   * Returns whether the value was set
+   */
+  async setIfAbsent<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    try {
+      return (await redis.set(key, value, { nx: true, ex: ttlSeconds })) !== null;
+    } catch (error) {
+      console.error(`Cache setIfAbsent error for key ${key}:`, error);
+      return false;
+    }
+  },
+
   /**
    * Increment a counter
    */
@@ -97,6 +114,29 @@ export const cacheService = {
     }
   },
 
+  /**
+   * Decrement a counter
+   */
+  async decr(key: string): Promise<number> {
+    try {
+      return await redis.decr(key);
+    } catch (error) {
+      console.error(`Cache decr error for key ${key}:`, error);
+      return 0;
+    }
+  },
+
+  /**
+   * Set the TTL of an existing key
+   */
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    try {
+      await redis.expire(key, ttlSeconds);
+    } catch (error) {
+      console.error(`Cache expire error for key ${key}:`, error);
+    }
+  },
+
   /**
    * Get multiple keys at once
    */
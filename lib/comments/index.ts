@@ -0,0 +1,26 @@
+/**
+ * Comments Module Barrel Export
+ *
+ * Reader comments with threaded replies, spam scoring and moderation.
+ */
+
+// Types
+export type { CommentNode, SubmitCommentInput, SubmitCommentResult, SpamAssessment } from './types';
+
+// Spam scoring
+export {
+  scoreComment,
+  countLinks,
+  isLikelySpam,
+  SPAM_THRESHOLD,
+  DANGEROUS_CONTENT_SCORE,
+  LINK_SCORE,
+  FREE_LINKS,
+} from './spam';
+
+// Threads
+export { buildCommentTree, countComments, MAX_COMMENT_DEPTH } from './threads';
+
+// Service
+export { submitComment, getApprovedComments, normalizeCommentEmail, CommentError } from './service';
+export type { CommentErrorCode } from './service';
@@ -0,0 +1,106 @@
+/**
+ * Tests for comment submission
+ *
+ * Property: Submitted comments SHALL be stored sanitized and PENDING with
+ * their spam score, replies SHALL only attach to approved comments within
+ * MAX_COMMENT_DEPTH, and banned authors SHALL be dropped silently.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Comment, CommentBan } from '@/lib/generated/prisma';
+
+const comments = new Map<string, Comment>();
+const bans: Partial<CommentBan>[] = [];
+
+vi.mock('@/lib/db/prisma', () => ({
+  default: {
+    post: {
+      findFirst: async ({ where }: { where: { id: string } }) => (where.id === 'post-1' ? { id: 'post-1' } : null),
+    },
+    commentBan: {
+      findFirst: async ({ where }: { where: { OR: Partial<CommentBan>[] } }) =>
+        bans.find((ban) =>
+          where.OR.some((clause) => Object.entries(clause).every(([key, value]) => ban[key as keyof CommentBan] === value))
+        ) ?? null,
+    },
+    comment: {
+      findFirst: async ({ where }: { where: Partial<Comment> }) =>
+        [...comments.values()].find((c) => c.id === where.id && c.postId === where.postId && c.status === where.status) ?? null,
+      create: async ({ data }: { data: Partial<Comment> }) => {
+        const comment = { id: `comment-${comments.size + 1}`, status: 'PENDING', createdAt: new Date(), ...data } as Comment;
+        comments.set(comment.id, comment);
+        return comment;
+      },
+    },
+  },
+}));
+
+import { submitComment, CommentError } from './service';
+import { MAX_COMMENT_DEPTH } from './threads';
+
+const input = {
+  postId: 'post-1',
+  authorName: ' Reader ',
+  authorEmail: 'Reader@Example.com',
+  body: 'Nice post!',
+  ipAddress: '203.0.113.7',
+};
+
+function approve(id: string, depth = 0) {
+  comments.set(id, { ...comments.get(id)!, status: 'APPROVED', depth });
+}
+
+describe('submitComment', () => {
+  beforeEach(() => {
+    comments.clear();
+    bans.length = 0;
+  });
+
+  it('stores a sanitized, scored comment as PENDING', async () => {
+    const result = await submitComment({
+      ...input,
+      body: 'Buy now <script>alert(1)</script><a href="https://a.example.com" onclick="x()">a</a> https://b.example.com',
+    });
+
+    expect(result).toBe('pending');
+    const [stored] = comments.values();
+    expect(stored.status).toBe('PENDING');
+    expect(stored.authorName).toBe('Reader');
+    expect(stored.authorEmail).toBe('reader@example.com');
+    expect(stored.body).not.toContain('<script');
+    expect(stored.body).not.toContain('onclick');
+    expect(stored.spamScore).toBeGreaterThan(0);
+  });
+
+  it('rejects unknown posts and bodies that sanitize to nothing', async () => {
+    await expect(submitComment({ ...input, postId: 'missing' })).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    await expect(submitComment({ ...input, body: '<script>alert(1)</script>' })).rejects.toBeInstanceOf(CommentError);
+    expect(comments.size).toBe(0);
+  });
+
+  it('only threads replies under approved comments within the depth limit', async () => {
+    await submitComment(input);
+    const [parent] = comments.keys();
+
+    await expect(submitComment({ ...input, parentId: parent })).rejects.toMatchObject({ code: 'PARENT_NOT_FOUND' });
+
+    approve(parent);
+    await submitComment({ ...input, parentId: parent });
+    expect(comments.get('comment-2')?.depth).toBe(1);
+
+    approve(parent, MAX_COMMENT_DEPTH);
+    await expect(submitComment({ ...input, parentId: parent })).rejects.toMatchObject({ code: 'MAX_DEPTH' });
+  });
+
+  it('drops comments from banned emails and IP addresses', async () => {
+    bans.push({ email: 'reader@example.com', ipAddress: null });
+    expect(await submitComment(input)).toBe('banned');
+
+    bans.length = 0;
+    bans.push({ email: 'other@example.com', ipAddress: '203.0.113.7' });
+    expect(await submitComment({ ...input, authorEmail: 'new@example.com' })).toBe('banned');
+    expect(comments.size).toBe(0);
+
+    expect(await submitComment({ ...input, ipAddress: undefined, authorEmail: 'new@example.com' })).toBe('pending');
+  });
+});
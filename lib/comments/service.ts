@@ -0,0 +1,114 @@
+/**
+ * Comment Service
+ *
+ * Accepts reader comments into the moderation queue and builds the
+ * threaded view of approved comments shown under a post.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { sanitizeHtml } from '@/lib/sanitize';
+import { scoreComment } from './spam';
+import { buildCommentTree, MAX_COMMENT_DEPTH } from './threads';
+import type { CommentNode, SubmitCommentInput, SubmitCommentResult } from './types';
+
+export type CommentErrorCode = 'POST_NOT_FOUND' | 'PARENT_NOT_FOUND' | 'MAX_DEPTH' | 'EMPTY_BODY';
+
+/**
+ * Error thrown when a submitted comment cannot be accepted
+ */
+export class CommentError extends Error {
+  constructor(message: string, public readonly code: CommentErrorCode) {
+    super(message);
+    this.name = 'CommentError';
+  }
+}
+
+/** Normalizes an email address for storage and ban lookups */
+export function normalizeCommentEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Stores a comment as PENDING with its spam score.
+ *
+ * Banned authors get the same answer as everyone else from the API, so the
+ * comment is silently dropped instead of revealing the ban.
+ */
+export async function submitComment(input: SubmitCommentInput): Promise<SubmitCommentResult> {
+  const authorEmail = normalizeCommentEmail(input.authorEmail);
+
+  const ban = await prisma.commentBan.findFirst({
+    where: {
+      OR: [{ email: authorEmail }, ...(input.ipAddress ? [{ ipAddress: input.ipAddress }] : [])],
+    },
+    select: { id: true },
+  });
+  if (ban) {
+    return 'banned';
+  }
+
+  const post = await prisma.post.findFirst({
+    where: { id: input.postId, status: 'PUBLISHED' },
+    select: { id: true },
+  });
+  if (!post) {
+    throw new CommentError('Post not found', 'POST_NOT_FOUND');
+  }
+
+  let depth = 0;
+  if (input.parentId) {
+    const parent = await prisma.comment.findFirst({
+      where: { id: input.parentId, postId: input.postId, status: 'APPROVED' },
+      select: { depth: true },
+    });
+    if (!parent) {
+      throw new CommentError('Parent comment not found', 'PARENT_NOT_FOUND');
+    }
+    if (parent.depth >= MAX_COMMENT_DEPTH) {
+      throw new CommentError('Replies are not allowed at this depth', 'MAX_DEPTH');
+    }
+    depth = parent.depth + 1;
+  }
+
+  // Score the raw body: sanitizing first would strip the signals we look for
+  const { score } = scoreComment(input.body);
+  const body = sanitizeHtml(input.body).trim();
+  if (!body) {
+    throw new CommentError('Comment is empty', 'EMPTY_BODY');
+  }
+
+  await prisma.comment.create({
+    data: {
+      postId: input.postId,
+      parentId: input.parentId ?? null,
+      depth,
+      authorName: input.authorName.trim(),
+      authorEmail,
+      body,
+      spamScore: score,
+      ipAddress: input.ipAddress ?? null,
+    },
+  });
+
+  return 'pending';
+}
+
+/**
+ * Gets the approved comments of a post as a thread
+ */
+export async function getApprovedComments(postId: string): Promise<CommentNode[]> {
+  const comments = await prisma.comment.findMany({
+    where: { postId, status: 'APPROVED' },
+    select: {
+      id: true,
+      parentId: true,
+      depth: true,
+      authorName: true,
+      body: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return buildCommentTree(comments);
+}
@@ -0,0 +1,112 @@
+/**
+ * Property-Based Tests for Comment Spam Scoring and Threads
+ *
+ * Property: Each link beyond FREE_LINKS SHALL raise the spam score, script
+ * injection SHALL always flag a comment, and a thread SHALL contain every
+ * comment whose ancestors are all present, oldest first at each level.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  countLinks,
+  scoreComment,
+  isLikelySpam,
+  FREE_LINKS,
+  LINK_SCORE,
+} from './spam';
+import { buildCommentTree, countComments } from './threads';
+import type { CommentNode } from './types';
+
+const wordArb = fc.stringMatching(/^[a-z]{1,10}$/);
+const urlArb = fc.stringMatching(/^[a-z]{1,10}$/).map((host) => `https://${host}.example.com/`);
+
+describe('scoreComment', () => {
+  it('counts distinct links and scores those beyond the free allowance', () => {
+    fc.assert(
+      fc.property(fc.array(wordArb, { maxLength: 20 }), fc.uniqueArray(urlArb, { maxLength: 8 }), (words, urls) => {
+        const body = [...words, ...urls, ...urls].join(' ');
+        const assessment = scoreComment(body);
+
+        expect(assessment.links).toBe(urls.length);
+        expect(assessment.dangerous).toBe(false);
+        expect(assessment.score).toBe(Math.max(0, urls.length - FREE_LINKS) * LINK_SCORE);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('counts an anchor and its visible URL once', () => {
+    expect(countLinks('<a href="https://spam.example.com/">https://spam.example.com/</a>')).toBe(1);
+  });
+
+  it('always flags script injection', () => {
+    fc.assert(
+      fc.property(
+        fc.array(wordArb, { maxLength: 20 }),
+        fc.constantFrom('<script>alert(1)</script>', '<img src=x onerror="alert(1)">', '<a href="javascript:alert(1)">x</a>'),
+        (words, payload) => {
+          const assessment = scoreComment(`${words.join(' ')} ${payload}`);
+          expect(assessment.dangerous).toBe(true);
+          expect(isLikelySpam(assessment.score)).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('does not flag a plain comment with a single link', () => {
+    expect(isLikelySpam(scoreComment('Great read, see also https://example.com/more').score)).toBe(false);
+  });
+});
+
+describe('buildCommentTree', () => {
+  type Flat = Omit<CommentNode, 'replies'>;
+
+  // Each comment replies to an earlier one (or none), like real threads
+  const flatCommentsArb = fc
+    .array(fc.tuple(fc.nat(), fc.boolean(), fc.date({ noInvalidDate: true })), { maxLength: 30 })
+    .map((entries) =>
+      entries.map(([parentPick, isRoot, createdAt], index): Flat => ({
+        id: `c${index}`,
+        parentId: isRoot || index === 0 ? null : `c${parentPick % index}`,
+        depth: 0,
+        authorName: 'Reader',
+        body: 'Hello',
+        createdAt,
+      }))
+    );
+
+  it('keeps every comment once, oldest first at each level', () => {
+    fc.assert(
+      fc.property(flatCommentsArb, (comments) => {
+        const tree = buildCommentTree(comments);
+        expect(countComments(tree)).toBe(comments.length);
+
+        const check = (thread: CommentNode[], parentId: string | null) => {
+          for (let i = 0; i < thread.length; i++) {
+            expect(thread[i].parentId).toBe(parentId);
+            if (i > 0) {
+              expect(thread[i].createdAt.getTime()).toBeGreaterThanOrEqual(thread[i - 1].createdAt.getTime());
+            }
+            check(thread[i].replies, thread[i].id);
+          }
+        };
+        check(tree, null);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('drops replies whose parent is missing', () => {
+    const createdAt = new Date('2025-01-01');
+    const tree = buildCommentTree([
+      { id: 'a', parentId: null, depth: 0, authorName: 'A', body: 'a', createdAt },
+      { id: 'b', parentId: 'hidden', depth: 1, authorName: 'B', body: 'b', createdAt },
+      { id: 'c', parentId: 'b', depth: 2, authorName: 'C', body: 'c', createdAt },
+    ]);
+
+    expect(tree.map((node) => node.id)).toEqual(['a']);
+    expect(countComments(tree)).toBe(1);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Comment Spam Scoring
+ *
+ * Scores raw comment bodies so moderators can spot likely spam in the
+ * queue. Every comment still waits for a moderator; the score only flags.
+ */
+
+import { containsDangerousContent } from '@/lib/sanitize';
+import type { SpamAssessment } from './types';
+
+/** Score added when the body tries to inject scripts or similar */
+export const DANGEROUS_CONTENT_SCORE = 10;
+
+/** Score added for every link beyond FREE_LINKS */
+export const LINK_SCORE = 2;
+
+/** Links a genuine comment may contain without raising the score */
+export const FREE_LINKS = 1;
+
+/** Comments scoring at least this much are flagged as likely spam */
+export const SPAM_THRESHOLD = 5;
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s"'<>]+/gi;
+
+/**
+ * Counts distinct URLs in a body, whether bare or inside an anchor
+ */
+export function countLinks(body: string): number {
+  const urls = body.match(URL_PATTERN) ?? [];
+  return new Set(urls.map((url) => url.toLowerCase())).size;
+}
+
+/**
+ * Scores a raw, unsanitized comment body
+ */
+export function scoreComment(body: string): SpamAssessment {
+  const links = countLinks(body);
+  const dangerous = containsDangerousContent(body);
+  const score =
+    (dangerous ? DANGEROUS_CONTENT_SCORE : 0) + Math.max(0, links - FREE_LINKS) * LINK_SCORE;
+
+  return { score, links, dangerous };
+}
+
+/**
+ * Whether a score is high enough to flag the comment as likely spam
+ */
+export function isLikelySpam(score: number): boolean {
+  return score >= SPAM_THRESHOLD;
+}
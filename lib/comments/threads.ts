@@ -0,0 +1,46 @@
+/**
+ * Comment Threads
+ *
+ * Pure helpers for nesting approved comments into reply threads.
+ */
+
+import type { CommentNode } from './types';
+
+/** Deepest reply level; comments at this depth cannot be replied to */
+export const MAX_COMMENT_DEPTH = 3;
+
+/**
+ * Nests comments under their parents, oldest first at every level.
+ * Replies whose parent is missing (e.g. rejected after they were approved)
+ * are dropped along with their own replies.
+ */
+export function buildCommentTree(comments: Omit<CommentNode, 'replies'>[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  for (const comment of comments) {
+    nodes.set(comment.id, { ...comment, replies: [] });
+  }
+
+  const roots: CommentNode[] = [];
+  for (const node of nodes.values()) {
+    if (node.parentId === null) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parentId)?.replies.push(node);
+    }
+  }
+
+  const sortThread = (thread: CommentNode[]) => {
+    thread.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    thread.forEach((node) => sortThread(node.replies));
+  };
+  sortThread(roots);
+
+  return roots;
+}
+
+/**
+ * Counts the comments in a thread, replies included
+ */
+export function countComments(thread: CommentNode[]): number {
+  return thread.reduce((total, node) => total + 1 + countComments(node.replies), 0);
+}
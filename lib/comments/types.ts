@@ -0,0 +1,52 @@
+/**
+ * Comments Types Module
+ *
+ * Defines reader comments as shown on post pages and the input accepted
+ * from the comment form.
+ */
+
+/**
+ * An approved comment with its approved replies, oldest first
+ */
+export interface CommentNode {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  authorName: string;
+  /** Sanitized HTML */
+  body: string;
+  createdAt: Date;
+  replies: CommentNode[];
+}
+
+/**
+ * A comment submitted from a post page
+ */
+export interface SubmitCommentInput {
+  postId: string;
+  /** Comment being replied to; omit for a top-level comment */
+  parentId?: string;
+  authorName: string;
+  authorEmail: string;
+  body: string;
+  /** Client IP, used for bans */
+  ipAddress?: string;
+}
+
+/**
+ * Outcome of a comment submission
+ * - pending: stored and waiting in the moderation queue
+ * - banned: the author is banned; nothing was stored
+ */
+export type SubmitCommentResult = 'pending' | 'banned';
+
+/**
+ * Spam signals for a comment body
+ */
+export interface SpamAssessment {
+  score: number;
+  /** Distinct URLs found in the body */
+  links: number;
+  /** Whether the raw body contained scripts, event handlers or similar */
+  dangerous: boolean;
+}
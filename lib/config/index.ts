@@ -72,9 +72,14 @@ export {
   type NewsConfig,
   type NewsCategoryId,
   type NewsLocale,
+  type NewsProviderId,
+  type NewsFeedConfig,
   NEWS_CATEGORIES,
   NEWS_SUPPORTED_LOCALES,
+  NEWS_PROVIDER_IDS,
   getNewsConfig,
+  parseNewsProviders,
+  parseNewsFeeds,
   getNewsApiKey,
   getNewsApiUrl,
   isNewsEnabled,
@@ -86,6 +91,15 @@ export {
   getNewsFallbackLocale,
 } from './news';
 
+// Mail configuration
+export {
+  type MailConfig,
+  type MailTransportKind,
+  MAIL_TRANSPORTS,
+  getMailConfig,
+  isValidSmtpUrl,
+} from './mail';
+
 /**
  * Combined environment configuration interface
  */
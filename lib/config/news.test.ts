@@ -0,0 +1,111 @@
+/**
+ * Tests for News Configuration
+ *
+ * Property: NEWS_PROVIDERS SHALL give every supported locale a provider
+ * list, with per-locale entries overriding the default, and invalid
+ * providers, locales or feed URLs SHALL be rejected.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getNewsConfig,
+  parseNewsFeeds,
+  parseNewsProviders,
+  parseNewsQuota,
+  NEWS_PROVIDER_IDS,
+  NEWS_SUPPORTED_LOCALES,
+} from './news';
+
+const originalEnv = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+const providerListArb = fc.uniqueArray(fc.constantFrom(...NEWS_PROVIDER_IDS), { minLength: 1 });
+
+describe('parseNewsProviders', () => {
+  it('defaults every locale to NewsAPI.org', () => {
+    const providers = parseNewsProviders(undefined);
+
+    for (const locale of NEWS_SUPPORTED_LOCALES) {
+      expect(providers[locale]).toEqual(['newsapi']);
+    }
+  });
+
+  it('applies the default list and per-locale overrides', () => {
+    fc.assert(
+      fc.property(
+        providerListArb,
+        fc.constantFrom(...NEWS_SUPPORTED_LOCALES),
+        providerListArb,
+        (defaults, locale, override) => {
+          const providers = parseNewsProviders(`${defaults.join('+')}, ${locale}:${override.join('+')}`);
+
+          for (const other of NEWS_SUPPORTED_LOCALES) {
+            expect(providers[other]).toEqual(other === locale ? override : defaults);
+          }
+        }
+      )
+    );
+  });
+
+  it('rejects unknown providers and locales', () => {
+    expect(() => parseNewsProviders('newsapi+bing')).toThrow('Invalid NEWS_PROVIDERS entry "newsapi+bing"');
+    expect(() => parseNewsProviders('xx:rss')).toThrow('Unsupported locale: xx');
+  });
+});
+
+describe('parseNewsFeeds', () => {
+  it('reads general and per-category feeds', () => {
+    expect(parseNewsFeeds(' https://a.example/rss , technology=https://b.example/tech.xml ,')).toEqual([
+      { url: 'https://a.example/rss' },
+      { url: 'https://b.example/tech.xml', category: 'technology' },
+    ]);
+  });
+
+  it('rejects invalid feed URLs', () => {
+    expect(() => parseNewsFeeds('sports=not a url')).toThrow('Invalid news feed URL: not a url');
+  });
+});
+
+describe('parseNewsQuota', () => {
+  it('reads non-negative integers, with 0 meaning unlimited', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 1_000_000 }), (quota) => {
+        expect(parseNewsQuota(` ${quota} `, 'GNEWS_DAILY_QUOTA')).toBe(quota);
+      })
+    );
+    expect(parseNewsQuota('0', 'GNEWS_DAILY_QUOTA')).toBeUndefined();
+    expect(parseNewsQuota(undefined, 'GNEWS_DAILY_QUOTA')).toBe(100);
+  });
+
+  it('rejects other values', () => {
+    for (const value of ['-1', '1.5', 'lots']) {
+      expect(() => parseNewsQuota(value, 'GNEWS_DAILY_QUOTA')).toThrow('Invalid GNEWS_DAILY_QUOTA');
+    }
+  });
+});
+
+describe('getNewsConfig', () => {
+  it('reads GNews settings and feeds per locale', () => {
+    process.env.GNEWS_API_KEY = ' gnews-key ';
+    process.env.NEWS_RSS_FEEDS_TH = 'https://th.example/rss';
+    process.env.NEWS_PROVIDERS = 'newsapi,th:rss+gnews';
+
+    const config = getNewsConfig();
+
+    expect(config.gnews).toEqual({ apiKey: 'gnews-key', apiBaseUrl: 'https://gnews.io/api/v4' });
+    expect(config.rssFeeds.th).toEqual([{ url: 'https://th.example/rss' }]);
+    expect(config.rssFeeds.en).toEqual([]);
+    expect(config.providers.th).toEqual(['rss', 'gnews']);
+    expect(config.providers.en).toEqual(['newsapi']);
+  });
+
+  it('rejects a non-HTTPS GNews URL', () => {
+    process.env.GNEWS_API_URL = 'http://gnews.example';
+
+    expect(() => getNewsConfig()).toThrow('Invalid GNews API URL format');
+  });
+});
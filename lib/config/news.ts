@@ -9,20 +9,48 @@
 
 import { getEnvVar, getEnvVarOrDefault } from './env';
 
+/**
+ * News provider adapters
+ */
+export const NEWS_PROVIDER_IDS = ['newsapi', 'gnews', 'rss'] as const;
+
+export type NewsProviderId = (typeof NEWS_PROVIDER_IDS)[number];
+
+/**
+ * An RSS or Atom feed; feeds with a category only serve that category
+ */
+export interface NewsFeedConfig {
+  url: string;
+  category?: string;
+}
+
 /**
  * News configuration interface
  */
 export interface NewsConfig {
-  /** News API key for authentication */
+  /** NewsAPI.org key for authentication */
   apiKey: string;
-  /** News API base URL */
+  /** NewsAPI.org base URL */
   apiBaseUrl: string;
-  /** Whether news feature is enabled */
+  /** Whether the NewsAPI.org provider is configured */
   enabled: boolean;
+  /** GNews API settings */
+  gnews: {
+    apiKey: string;
+    apiBaseUrl: string;
+  };
+  /** RSS/Atom feeds per locale */
+  rssFeeds: Record<NewsLocale, NewsFeedConfig[]>;
+  /** Providers queried for each locale, merged in this order */
+  providers: Record<NewsLocale, NewsProviderId[]>;
+  /** Daily request quota per provider; providers without one are unlimited */
+  dailyQuota: Partial<Record<NewsProviderId, number>>;
   /** Default page size for news listings */
   defaultPageSize: number;
   /** Cache TTL in seconds */
   cacheTTL: number;
+  /** Seconds an expired cache entry is kept to serve while it is refreshed */
+  staleTTL: number;
   /** Supported news categories */
   supportedCategories: string[];
   /** Supported locales for news API */
@@ -56,8 +84,12 @@ export type NewsLocale = (typeof NEWS_SUPPORTED_LOCALES)[number];
  * Default configuration values
  */
 const DEFAULT_API_BASE_URL = 'https://newsapi.org/v2';
+const DEFAULT_GNEWS_API_URL = 'https://gnews.io/api/v4';
+const DEFAULT_PROVIDERS: NewsProviderId[] = ['newsapi'];
 const DEFAULT_PAGE_SIZE = 10;
 const DEFAULT_CACHE_TTL = 300; // 5 minutes
+const DEFAULT_STALE_TTL = 60 * 60 * 24; // 1 day
+const DEFAULT_DAILY_QUOTA = 100; // NewsAPI.org and GNews free plans
 
 /**
  * Validate News API key format
@@ -89,9 +121,90 @@ export function isNewsEnabled(): boolean {
   return apiKey !== undefined && apiKey.trim() !== '';
 }
 
+function isNewsProviderId(value: string): value is NewsProviderId {
+  return NEWS_PROVIDER_IDS.includes(value as NewsProviderId);
+}
+
+/**
+ * Parse NEWS_PROVIDERS into providers per locale
+ *
+ * Comma-separated entries: a bare list sets the default for every locale,
+ * `locale:list` overrides one locale; lists join providers with `+`.
+ * e.g. `newsapi,th:rss+gnews`
+ */
+export function parseNewsProviders(value: string | undefined): Record<NewsLocale, NewsProviderId[]> {
+  const overrides: Partial<Record<NewsLocale, NewsProviderId[]>> = {};
+  let defaults = DEFAULT_PROVIDERS;
+
+  for (const entry of (value ?? '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [scope, list] = entry.includes(':') ? entry.split(':', 2) : [null, entry];
+    const providers = list.split('+').map((p) => p.trim().toLowerCase());
+    const unknown = providers.filter((p) => !isNewsProviderId(p));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Invalid NEWS_PROVIDERS entry "${entry}". ` +
+        `Expected providers from: ${NEWS_PROVIDER_IDS.join(', ')}`
+      );
+    }
+    if (scope === null) {
+      defaults = providers as NewsProviderId[];
+    } else if (isSupportedNewsLocale(scope.trim())) {
+      overrides[scope.trim() as NewsLocale] = providers as NewsProviderId[];
+    } else {
+      throw new Error(`Invalid NEWS_PROVIDERS entry "${entry}". Unsupported locale: ${scope}`);
+    }
+  }
+
+  return Object.fromEntries(
+    NEWS_SUPPORTED_LOCALES.map((locale) => [locale, overrides[locale] ?? defaults])
+  ) as Record<NewsLocale, NewsProviderId[]>;
+}
+
+/**
+ * Parse a NEWS_RSS_FEEDS_<LOCALE> value
+ *
+ * Comma-separated feed URLs; `category=url` limits a feed to one category.
+ * e.g. `https://example.com/rss,technology=https://example.com/tech.xml`
+ */
+export function parseNewsFeeds(value: string | undefined): NewsFeedConfig[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^([a-z]+)=(.+)$/);
+      const feed: NewsFeedConfig = match ? { url: match[2], category: match[1] } : { url: entry };
+      try {
+        new URL(feed.url);
+      } catch {
+        throw new Error(`Invalid news feed URL: ${feed.url}`);
+      }
+      return feed;
+    });
+}
+
+/**
+ * Parse a daily request quota; 0 means unlimited
+ */
+export function parseNewsQuota(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_DAILY_QUOTA;
+  }
+
+  const quota = Number(value.trim());
+  if (!Number.isInteger(quota) || quota < 0) {
+    throw new Error(
+      `Invalid ${name}. ` +
+      `Expected a non-negative integer. ` +
+      `Received: ${value}`
+    );
+  }
+  return quota === 0 ? undefined : quota;
+}
+
 /**
  * Get news configuration from environment variables
- * Returns config with enabled=false if API key is missing
+ * Returns config with enabled=false if the NewsAPI.org key is missing
  */
 export function getNewsConfig(): NewsConfig {
   const apiKey = process.env.NEWS_API_KEY?.trim() ?? '';
@@ -115,12 +228,37 @@ export function getNewsConfig(): NewsConfig {
     );
   }
   
+  const gnewsApiUrl = getEnvVarOrDefault('GNEWS_API_URL', DEFAULT_GNEWS_API_URL);
+  if (!isValidNewsApiUrl(gnewsApiUrl)) {
+    throw new Error(
+      `Invalid GNews API URL format. ` +
+      `Expected HTTPS URL. ` +
+      `Received: ${gnewsApiUrl}`
+    );
+  }
+
   return {
     apiKey,
     apiBaseUrl,
     enabled,
+    gnews: {
+      apiKey: process.env.GNEWS_API_KEY?.trim() ?? '',
+      apiBaseUrl: gnewsApiUrl,
+    },
+    rssFeeds: Object.fromEntries(
+      NEWS_SUPPORTED_LOCALES.map((locale) => [
+        locale,
+        parseNewsFeeds(process.env[`NEWS_RSS_FEEDS_${locale.toUpperCase()}`]),
+      ])
+    ) as Record<NewsLocale, NewsFeedConfig[]>,
+    providers: parseNewsProviders(process.env.NEWS_PROVIDERS),
+    dailyQuota: {
+      newsapi: parseNewsQuota(process.env.NEWS_API_DAILY_QUOTA, 'NEWS_API_DAILY_QUOTA'),
+      gnews: parseNewsQuota(process.env.GNEWS_DAILY_QUOTA, 'GNEWS_DAILY_QUOTA'),
+    },
     defaultPageSize: DEFAULT_PAGE_SIZE,
     cacheTTL: DEFAULT_CACHE_TTL,
+    staleTTL: DEFAULT_STALE_TTL,
     supportedCategories: [...NEWS_CATEGORIES],
     supportedLocales: [...NEWS_SUPPORTED_LOCALES],
   };
@@ -0,0 +1,108 @@
+/**
+ * Property-Based Tests for Revision Diffing
+ *
+ * Property: For any two line lists A and B, the diff of A against B SHALL
+ * reproduce A from its equal and removed lines, and B from its equal and
+ * added lines; the side-by-side view SHALL preserve the same lines per column.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { diffLines, toSideBySide, splitHtmlLines, htmlToTextLines, diffHtml } from './diff';
+
+// Small alphabet so generated lists share lines often
+const linesArb = fc.array(fc.constantFrom('alpha', 'beta', 'gamma', 'delta', 'epsilon'), {
+  maxLength: 20,
+});
+
+describe('diffLines', () => {
+  it('reconstructs both inputs from the diff', () => {
+    fc.assert(
+      fc.property(linesArb, linesArb, (oldLines, newLines) => {
+        const diff = diffLines(oldLines, newLines);
+
+        const left = diff.filter((d) => d.type !== 'added').map((d) => d.value);
+        const right = diff.filter((d) => d.type !== 'removed').map((d) => d.value);
+
+        expect(left).toEqual(oldLines);
+        expect(right).toEqual(newLines);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('reports only equal lines for identical inputs', () => {
+    fc.assert(
+      fc.property(linesArb, (lines) => {
+        const diff = diffLines(lines, lines);
+        expect(diff.every((d) => d.type === 'equal')).toBe(true);
+        expect(diff).toHaveLength(lines.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('marks changed lines as removed then added', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'removed', value: 'b' },
+      { type: 'added', value: 'x' },
+      { type: 'equal', value: 'c' },
+    ]);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('keeps each column in order with sequential line numbers', () => {
+    fc.assert(
+      fc.property(linesArb, linesArb, (oldLines, newLines) => {
+        const rows = toSideBySide(diffLines(oldLines, newLines));
+
+        const leftCells = rows.flatMap((r) => (r.left ? [r.left] : []));
+        const rightCells = rows.flatMap((r) => (r.right ? [r.right] : []));
+
+        expect(leftCells.map((c) => c.value)).toEqual(oldLines);
+        expect(rightCells.map((c) => c.value)).toEqual(newLines);
+        expect(leftCells.map((c) => c.lineNumber)).toEqual(oldLines.map((_, i) => i + 1));
+        expect(rightCells.map((c) => c.lineNumber)).toEqual(newLines.map((_, i) => i + 1));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('pairs a replaced line on the same row', () => {
+    const rows = toSideBySide(diffLines(['a', 'b'], ['a', 'c']));
+    expect(rows).toHaveLength(2);
+    expect(rows[1].left).toEqual({ lineNumber: 2, value: 'b', type: 'removed' });
+    expect(rows[1].right).toEqual({ lineNumber: 2, value: 'c', type: 'added' });
+  });
+});
+
+describe('HTML helpers', () => {
+  it('splits single-line HTML after block elements', () => {
+    expect(splitHtmlLines('<h2>Title</h2><p>One</p><p>Two<br>Three</p>')).toEqual([
+      '<h2>Title</h2>',
+      '<p>One</p>',
+      '<p>Two<br>',
+      'Three</p>',
+    ]);
+  });
+
+  it('extracts text lines and decodes common entities', () => {
+    expect(htmlToTextLines('<p>Fish &amp; <strong>chips</strong></p><p>&lt;tag&gt;</p>')).toEqual([
+      'Fish & chips',
+      '<tag>',
+    ]);
+  });
+
+  it('ignores markup-only changes in text mode but not in HTML mode', () => {
+    const before = '<p>Hello world</p>';
+    const after = '<p>Hello <em>world</em></p>';
+
+    const textRows = diffHtml(before, after, 'text');
+    expect(textRows.every((r) => r.left?.type === 'equal')).toBe(true);
+
+    const htmlRows = diffHtml(before, after, 'html');
+    expect(htmlRows.some((r) => r.left?.type === 'removed')).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Line-based diff utilities used to compare post revisions.
+ * Pure functions so they can run in client components.
+ */
+
+export type DiffChange = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffChange;
+  value: string;
+}
+
+export interface DiffCell {
+  lineNumber: number;
+  value: string;
+  type: DiffChange;
+}
+
+export interface SideBySideRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+export type DiffMode = "html" | "text";
+
+// Tags that end a visual line when rendering HTML as text
+const BLOCK_TAG_PATTERN = /<\/(p|div|h[1-6]|li|blockquote|pre|tr|table|ul|ol|figure)>|<br\s*\/?>/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+/**
+ * Splits HTML source into lines, breaking after block-level elements so
+ * single-line TinyMCE output still produces a readable diff.
+ */
+export function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(BLOCK_TAG_PATTERN, (match) => `${match}\n`)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Converts HTML to plain text lines, one per block-level element.
+ */
+export function htmlToTextLines(html: string): string[] {
+  return splitHtmlLines(html)
+    .map((line) =>
+      line
+        .replace(/<[^>]*>/g, "")
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Computes a line diff between two lists using the longest common subsequence.
+ * Removed lines are always emitted before added lines within a changed hunk.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] = length of LCS of oldLines[i..] and newLines[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "equal", value: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", value: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: "added", value: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) result.push({ type: "removed", value: oldLines[i++] });
+  while (j < m) result.push({ type: "added", value: newLines[j++] });
+
+  return result;
+}
+
+/**
+ * Pairs a unified diff into rows for a two-column view. Runs of removed lines
+ * are aligned with the added lines that follow them.
+ */
+export function toSideBySide(diff: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let index = 0;
+
+  while (index < diff.length) {
+    const line = diff[index];
+
+    if (line.type === "equal") {
+      rows.push({
+        left: { lineNumber: ++leftNumber, value: line.value, type: "equal" },
+        right: { lineNumber: ++rightNumber, value: line.value, type: "equal" },
+      });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < diff.length && diff[index].type === "removed") removed.push(diff[index++]);
+    while (index < diff.length && diff[index].type === "added") added.push(diff[index++]);
+
+    const hunkSize = Math.max(removed.length, added.length);
+    for (let k = 0; k < hunkSize; k++) {
+      rows.push({
+        left: removed[k] ? { lineNumber: ++leftNumber, value: removed[k].value, type: "removed" } : null,
+        right: added[k] ? { lineNumber: ++rightNumber, value: added[k].value, type: "added" } : null,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Diffs two HTML documents either as source or as extracted text.
+ */
+export function diffHtml(oldHtml: string, newHtml: string, mode: DiffMode = "text"): SideBySideRow[] {
+  const split = mode === "html" ? splitHtmlLines : htmlToTextLines;
+  return toSideBySide(diffLines(split(oldHtml), split(newHtml)));
+}
@@ -0,0 +1,176 @@
+/**
+ * Property-Based Tests for RSS and Atom Feeds
+ *
+ * Property: For any set of posts, the RSS 2.0 and Atom documents SHALL be
+ * well-formed XML containing one item per post, with sanitized content and
+ * the cover image as an enclosure. The JSON Feed SHALL carry the same items.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { buildAtomFeed, buildJsonFeed, buildRssFeed, escapeXml, handleFeedRequest, type FeedData } from "./feed";
+import { siteUrl } from "./seo";
+import type { Post } from "./types";
+
+const postArb: fc.Arbitrary<Post> = fc.record({
+  id: fc.uuid(),
+  slug: fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)*$/),
+  title: fc.string({ minLength: 1, maxLength: 60 }),
+  content: fc.oneof(
+    fc.string({ maxLength: 100 }).map((text) => `<p>${text}</p>`),
+    fc.constant('<p>Hi</p><script>alert("x")</script><p>]]></p>')
+  ),
+  excerpt: fc.string({ maxLength: 100 }),
+  author: fc.record({ name: fc.string({ minLength: 1, maxLength: 30 }) }),
+  publishedAt: fc.date({ min: new Date("2020-01-01"), max: new Date("2030-01-01"), noInvalidDate: true }),
+  category: fc.string({ minLength: 1, maxLength: 20 }),
+  tags: fc.array(fc.string({ minLength: 1, maxLength: 15 }), { maxLength: 3 }),
+  readingTime: fc.integer({ min: 1, max: 30 }),
+  image: fc.option(fc.constant("https://ik.imagekit.io/demo/cover.png?tr=w-800&q=80"), { nil: undefined }),
+  imageType: fc.constant("image/png"),
+  imageSize: fc.integer({ min: 1, max: 5_000_000 }),
+  locale: fc.constant("en"),
+  status: fc.constant("published" as const),
+});
+
+// XML 1.0 cannot carry most control characters, even escaped
+const xmlSafe = (post: Post) =>
+  ![post.title, post.content, post.excerpt, post.author.name, post.category, ...post.tags].some((s) =>
+    /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/.test(s)
+  );
+
+function feedOf(posts: Post[]): FeedData {
+  return { locale: "en", title: "Blog & <News>", description: "Latest posts", path: "/en", posts };
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+  return doc;
+}
+
+describe("RSS and Atom feeds", () => {
+  it("RSS is well-formed with one item and enclosure per post", () => {
+    fc.assert(
+      fc.property(fc.array(postArb.filter(xmlSafe), { maxLength: 5 }), (posts) => {
+        const doc = parseXml(buildRssFeed(feedOf(posts)));
+        const items = Array.from(doc.getElementsByTagName("item"));
+
+        expect(items).toHaveLength(posts.length);
+        items.forEach((item, i) => {
+          expect(item.getElementsByTagName("title")[0].textContent).toBe(posts[i].title);
+          expect(item.getElementsByTagName("link")[0].textContent).toBe(`${siteUrl}/en/blog/${posts[i].slug}`);
+
+          const enclosure = item.getElementsByTagName("enclosure")[0];
+          if (posts[i].image) {
+            expect(enclosure.getAttribute("url")).toBe(posts[i].image);
+            expect(enclosure.getAttribute("length")).toBe(String(posts[i].imageSize));
+            expect(enclosure.getAttribute("type")).toBe("image/png");
+          } else {
+            expect(enclosure).toBeUndefined();
+          }
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("Atom is well-formed with one entry per post", () => {
+    fc.assert(
+      fc.property(fc.array(postArb.filter(xmlSafe), { maxLength: 5 }), (posts) => {
+        const doc = parseXml(buildAtomFeed(feedOf(posts)));
+        const entries = Array.from(doc.getElementsByTagName("entry"));
+
+        expect(doc.documentElement.getAttribute("xml:lang")).toBe("en");
+        expect(entries).toHaveLength(posts.length);
+        entries.forEach((entry, i) => {
+          expect(entry.getElementsByTagName("title")[0].textContent).toBe(posts[i].title);
+          const enclosure = Array.from(entry.getElementsByTagName("link")).find(
+            (link) => link.getAttribute("rel") === "enclosure"
+          );
+          expect(enclosure?.getAttribute("href")).toBe(posts[i].image);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("JSON Feed 1.1 has one item and attachment per post", () => {
+    fc.assert(
+      fc.property(fc.array(postArb, { maxLength: 5 }), (posts) => {
+        const feed = JSON.parse(buildJsonFeed(feedOf(posts)));
+
+        expect(feed.version).toBe("https://jsonfeed.org/version/1.1");
+        expect(feed.feed_url).toBe(`${siteUrl}/en/feed.json`);
+        expect(feed.items).toHaveLength(posts.length);
+        feed.items.forEach((item: { id: string; title: string; content_html: string; attachments?: unknown[] }, i: number) => {
+          expect(item.id).toBe(`${siteUrl}/en/blog/${posts[i].slug}`);
+          expect(item.title).toBe(posts[i].title);
+          expect(item.content_html).not.toContain("<script");
+          expect(item.attachments).toEqual(
+            posts[i].image ? [{ url: posts[i].image, mime_type: "image/png", size_in_bytes: posts[i].imageSize }] : undefined
+          );
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("embeds sanitized content in both formats", () => {
+    const [post] = fc.sample(postArb, 1);
+    const feed = feedOf([{ ...post, content: '<p>Hi</p><script>alert("x")</script>' }]);
+
+    const rssContent = parseXml(buildRssFeed(feed)).getElementsByTagName("content:encoded")[0].textContent;
+    const atomContent = parseXml(buildAtomFeed(feed)).getElementsByTagName("content")[0].textContent;
+
+    for (const content of [rssContent, atomContent]) {
+      expect(content).toContain("<p>Hi</p>");
+      expect(content).not.toContain("<script");
+    }
+  });
+
+  it("escapes XML special characters", () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;"
+    );
+  });
+
+  it("drops characters that are invalid in XML", () => {
+    const [post] = fc.sample(postArb, 1);
+    const doc = parseXml(buildRssFeed(feedOf([{ ...post, title: "Breaking\u0007 news\u0000" }])));
+    expect(doc.getElementsByTagName("item")[0].getElementsByTagName("title")[0].textContent).toBe("Breaking news");
+  });
+});
+
+describe("Feed responses", () => {
+  const feed = feedOf(fc.sample(postArb, 3));
+
+  it("sends caching headers and answers conditional requests with 304", async () => {
+    const response = await handleFeedRequest(new Request("http://localhost/en/feed.xml"), "rss", async () => feed);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("application/rss+xml");
+    expect(response.headers.get("Cache-Control")).toContain("s-maxage");
+
+    const etag = response.headers.get("ETag")!;
+    const cached = await handleFeedRequest(
+      new Request("http://localhost/en/feed.xml", { headers: { "If-None-Match": etag } }),
+      "rss",
+      async () => feed
+    );
+    expect(cached.status).toBe(304);
+
+    const modified = await handleFeedRequest(
+      new Request("http://localhost/en/feed.xml", {
+        headers: { "If-Modified-Since": response.headers.get("Last-Modified")! },
+      }),
+      "rss",
+      async () => feed
+    );
+    expect(modified.status).toBe(304);
+  });
+
+  it("returns 404 for unknown feeds", async () => {
+    const response = await handleFeedRequest(new Request("http://localhost/en/tag/x/atom.xml"), "atom", async () => null);
+    expect(response.status).toBe(404);
+  });
+});
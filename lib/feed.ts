@@ -0,0 +1,309 @@
+import prisma from "@/lib/db/prisma";
+import { getAllPosts, getPostsByCategory, getPostsByTag } from "./posts";
+import { sanitizeHtml } from "./sanitize";
+import { createEtag, etagMatches } from "./api/etag";
+import { siteName, siteUrl } from "./seo";
+import { isValidLocale, type Locale } from "./i18n/config";
+import type { Post } from "./types";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export interface FeedData {
+  locale: Locale;
+  title: string;
+  description: string;
+  path: string;           // HTML page the feed mirrors, e.g. /en/tag/react
+  posts: Post[];
+}
+
+// Newest posts included in a feed
+export const FEED_ITEM_LIMIT = 50;
+
+// Feeds are cached by CDNs for 15 minutes and served stale for up to an hour
+const FEED_CACHE_CONTROL = "public, max-age=300, s-maxage=900, stale-while-revalidate=3600";
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: "feed.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+// Characters XML 1.0 cannot carry, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/** Escapes text for use in XML element content and attributes */
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Wraps markup in a CDATA section, splitting any `]]>` it contains */
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(INVALID_XML_CHARS, "").replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function postUrl(post: Post): string {
+  return `${siteUrl}/${post.locale}/blog/${post.slug}`;
+}
+
+function postUpdatedAt(post: Post): Date {
+  return post.updatedAt ?? post.publishedAt;
+}
+
+/** Most recent update across the feed's posts */
+export function getFeedUpdatedAt(feed: FeedData): Date {
+  return feed.posts.reduce(
+    (latest, post) => (postUpdatedAt(post) > latest ? postUpdatedAt(post) : latest),
+    new Date(0)
+  );
+}
+
+/** Builds an RSS 2.0 document with full sanitized content and cover enclosures */
+export function buildRssFeed(feed: FeedData): string {
+  const link = `${siteUrl}${feed.path}`;
+  const selfUrl = `${link}/${FEED_FILES.rss}`;
+
+  const items = feed.posts.map((post) => {
+    const url = postUrl(post);
+    const categories = [post.category, ...post.tags]
+      .map((name) => `      <category>${escapeXml(name)}</category>`)
+      .join("\n");
+    const enclosure = post.image
+      ? `\n      <enclosure url="${escapeXml(post.image)}" length="${post.imageSize ?? 0}" type="${escapeXml(post.imageType ?? "image/jpeg")}"/>`
+      : "";
+
+    return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${escapeXml(url)}</link>
+      <guid isPermaLink="true">${escapeXml(url)}</guid>
+      <pubDate>${post.publishedAt.toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(post.author.name)}</dc:creator>
+${categories}
+      <description>${escapeXml(post.excerpt)}</description>
+      <content:encoded>${cdata(sanitizeHtml(post.content))}</content:encoded>${enclosure}
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(link)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>${feed.locale}</language>
+    <lastBuildDate>${getFeedUpdatedAt(feed).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+/** Builds an Atom 1.0 document with full sanitized content and cover enclosures */
+export function buildAtomFeed(feed: FeedData): string {
+  const link = `${siteUrl}${feed.path}`;
+  const selfUrl = `${link}/${FEED_FILES.atom}`;
+
+  const entries = feed.posts.map((post) => {
+    const url = postUrl(post);
+    const categories = [post.category, ...post.tags]
+      .map((name) => `    <category term="${escapeXml(name)}"/>`)
+      .join("\n");
+    const enclosure = post.image
+      ? `\n    <link rel="enclosure" href="${escapeXml(post.image)}" type="${escapeXml(post.imageType ?? "image/jpeg")}"${post.imageSize ? ` length="${post.imageSize}"` : ""}/>`
+      : "";
+
+    return `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeXml(url)}"/>${enclosure}
+    <id>${escapeXml(url)}</id>
+    <published>${post.publishedAt.toISOString()}</published>
+    <updated>${postUpdatedAt(post).toISOString()}</updated>
+    <author><name>${escapeXml(post.author.name)}</name></author>
+${categories}
+    <summary>${escapeXml(post.excerpt)}</summary>
+    <content type="html">${escapeXml(sanitizeHtml(post.content))}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.locale}">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>
+  <id>${escapeXml(selfUrl)}</id>
+  <updated>${getFeedUpdatedAt(feed).toISOString()}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+/** JSON Feed 1.1 document, see https://jsonfeed.org/version/1.1 */
+export interface JsonFeed {
+  version: "https://jsonfeed.org/version/1.1";
+  title: string;
+  home_page_url: string;
+  feed_url: string;
+  description: string;
+  language: string;
+  items: JsonFeedItem[];
+}
+
+export interface JsonFeedItem {
+  id: string;
+  url: string;
+  title: string;
+  content_html: string;
+  summary: string;
+  image?: string;
+  date_published: string;
+  date_modified: string;
+  authors: { name: string; avatar?: string }[];
+  tags: string[];
+  language: string;
+  attachments?: { url: string; mime_type: string; size_in_bytes?: number }[];
+}
+
+/** Builds a JSON Feed 1.1 document with full sanitized content and cover attachments */
+export function buildJsonFeed(feed: FeedData): string {
+  const link = `${siteUrl}${feed.path}`;
+
+  const items = feed.posts.map((post): JsonFeedItem => {
+    const url = postUrl(post);
+    return {
+      id: url,
+      url,
+      title: post.title,
+      content_html: sanitizeHtml(post.content),
+      summary: post.excerpt,
+      image: post.image,
+      date_published: post.publishedAt.toISOString(),
+      date_modified: postUpdatedAt(post).toISOString(),
+      authors: [{ name: post.author.name, avatar: post.author.avatar }],
+      tags: [post.category, ...post.tags],
+      language: post.locale,
+      attachments: post.image
+        ? [{ url: post.image, mime_type: post.imageType ?? "image/jpeg", size_in_bytes: post.imageSize }]
+        : undefined,
+    };
+  });
+
+  const document: JsonFeed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: link,
+    feed_url: `${link}/${FEED_FILES.json}`,
+    description: feed.description,
+    language: feed.locale,
+    items,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+const FEED_BUILDERS: Record<FeedFormat, (feed: FeedData) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+/** Feed of the latest posts in a locale */
+export async function getLocaleFeed(locale: string): Promise<FeedData | null> {
+  if (!isValidLocale(locale)) return null;
+
+  const posts = await getAllPosts(locale);
+  return {
+    locale,
+    title: siteName,
+    description: `Latest posts from ${siteName}.`,
+    path: `/${locale}`,
+    posts: posts.slice(0, FEED_ITEM_LIMIT),
+  };
+}
+
+/** Feed of the latest posts in a category, or null if the category does not exist */
+export async function getCategoryFeed(locale: string, slug: string): Promise<FeedData | null> {
+  if (!isValidLocale(locale)) return null;
+
+  const category = await prisma.category.findUnique({ where: { slug }, select: { name: true } });
+  if (!category) return null;
+
+  const posts = await getPostsByCategory(slug, locale);
+  return {
+    locale,
+    title: `${category.name} - ${siteName}`,
+    description: `Latest posts in the ${category.name} category.`,
+    path: `/${locale}/category/${slug}`,
+    posts: posts.slice(0, FEED_ITEM_LIMIT),
+  };
+}
+
+/** Feed of the latest posts with a tag, or null if the tag does not exist */
+export async function getTagFeed(locale: string, slug: string): Promise<FeedData | null> {
+  if (!isValidLocale(locale)) return null;
+
+  const tag = await prisma.tag.findUnique({ where: { slug }, select: { name: true } });
+  if (!tag) return null;
+
+  const posts = await getPostsByTag(slug, locale);
+  return {
+    locale,
+    title: `${tag.name} - ${siteName}`,
+    description: `Latest posts tagged with ${tag.name}.`,
+    path: `/${locale}/tag/${slug}`,
+    posts: posts.slice(0, FEED_ITEM_LIMIT),
+  };
+}
+
+/**
+ * Serves a feed with caching headers. Answers conditional requests
+ * (If-None-Match / If-Modified-Since) with 304 Not Modified.
+ */
+export async function handleFeedRequest(
+  request: Request,
+  format: FeedFormat,
+  loadFeed: () => Promise<FeedData | null>
+): Promise<Response> {
+  try {
+    const feed = await loadFeed();
+    if (!feed) {
+      return new Response("Feed not found", { status: 404 });
+    }
+
+    const body = FEED_BUILDERS[format](feed);
+    const etag = createEtag(body);
+    const lastModified = getFeedUpdatedAt(feed);
+    const headers = {
+      "Content-Type": CONTENT_TYPES[format],
+      "Cache-Control": FEED_CACHE_CONTROL,
+      ETag: etag,
+      "Last-Modified": lastModified.toUTCString(),
+    };
+
+    const ifModifiedSince = request.headers.get("if-modified-since");
+    const notModified = request.headers.has("if-none-match")
+      ? etagMatches(request, etag)
+      : ifModifiedSince !== null &&
+        Math.floor(lastModified.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+
+    if (notModified) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, { headers });
+  } catch (error) {
+    console.error("Error generating feed:", error);
+    return new Response("Failed to generate feed", { status: 500 });
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Tests for the content importer
+ *
+ * Property: Imported posts SHALL get slugs unique within their locale, SHALL
+ * reuse existing categories and tags before creating new ones, SHALL respect
+ * the maximum category depth, and a dry run SHALL write nothing.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import type { ImportedPost } from './types';
+
+type Row = Record<string, unknown> & { id: string };
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    user: [] as Row[],
+    category: [] as Row[],
+    tag: [] as Row[],
+    post: [] as Row[],
+  },
+}));
+
+vi.mock('@/lib/db/prisma', () => {
+  const table = (name: keyof typeof db) => ({
+    findMany: vi.fn(async () => db[name].map((row) => ({ ...row }))),
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      const row = { id: `${name}-${db[name].length + 1}`, ...data };
+      db[name].push(row);
+      return row;
+    }),
+  });
+  return {
+    default: { user: table('user'), category: table('category'), tag: table('tag'), post: table('post') },
+  };
+});
+
+vi.mock('@/lib/admin/media', () => ({
+  mediaService: { uploadImage: vi.fn(async () => ({ id: 'media-1' })) },
+}));
+
+vi.mock('@/lib/cache/posts', () => ({
+  postCache: { invalidateAllPosts: vi.fn(async () => {}) },
+}));
+
+vi.mock('@/lib/search', () => ({
+  updateSearchVectors: vi.fn(async () => {}),
+}));
+
+// Import after mocking
+import prisma from '@/lib/db/prisma';
+import { mediaService } from '@/lib/admin/media';
+import { uniqueSlug } from '@/lib/posts';
+import { importPosts } from './importer';
+
+function post(overrides: Partial<ImportedPost> = {}): ImportedPost {
+  return {
+    sourceId: 'source',
+    title: 'Hello World',
+    content: '<p>Hello</p>',
+    status: 'PUBLISHED',
+    tags: [],
+    ...overrides,
+  };
+}
+
+const options = { defaultAuthorId: 'admin' };
+
+beforeEach(() => {
+  db.user = [
+    { id: 'admin', email: 'admin@example.com', firstName: 'Site', lastName: 'Admin' },
+    { id: 'jane', email: 'jane@example.com', firstName: 'Jane', lastName: 'Doe' },
+  ];
+  db.category = [{ id: 'cat-news', name: 'News', slug: 'news', parentId: null }];
+  db.tag = [{ id: 'tag-asia', name: 'Asia', slug: 'asia' }];
+  db.post = [{ id: 'existing', slug: 'hello-world', locale: 'en' }];
+  vi.clearAllMocks();
+});
+
+describe('uniqueSlug', () => {
+  it('never returns a slug that is already taken', () => {
+    fc.assert(
+      fc.property(fc.array(fc.constantFrom('a', 'b', 'a-2', ''), { maxLength: 20 }), (bases) => {
+        const taken = new Set<string>();
+        const slugs = bases.map((base) => uniqueSlug(base, taken));
+        expect(new Set(slugs).size).toBe(slugs.length);
+      })
+    );
+  });
+});
+
+describe('importPosts', () => {
+  it('suffixes slugs that collide with existing posts or earlier imports', async () => {
+    const report = await importPosts([post(), post(), post({ locale: 'fr' })], options);
+
+    expect(report.posts.map((p) => `${p.locale}/${p.slug}`)).toEqual([
+      'en/hello-world-2',
+      'en/hello-world-3',
+      'fr/hello-world',
+    ]);
+    expect(report.posts[0].warnings).toContain('Slug "hello-world" is taken; using "hello-world-2"');
+  });
+
+  it('reuses categories and tags by name and creates the missing ones', async () => {
+    const report = await importPosts(
+      [post({ category: ['news', 'World'], tags: ['asia', 'Elections', 'Elections'] })],
+      options
+    );
+
+    expect(report.createdCategories).toEqual(['news > World']);
+    expect(report.createdTags).toEqual(['Elections']);
+    expect(db.category.at(-1)).toMatchObject({ name: 'World', parentId: 'cat-news', depth: 1, slug: 'world' });
+    expect(db.post.at(-1)).toMatchObject({
+      categoryId: db.category.at(-1)!.id,
+      tags: { create: [{ tagId: 'tag-asia' }, { tagId: db.tag.at(-1)!.id }] },
+    });
+  });
+
+  it('truncates category paths deeper than the maximum depth', async () => {
+    const report = await importPosts([post({ category: ['News', 'World', 'Asia', 'Thailand'] })], options);
+
+    expect(report.posts[0].category).toEqual(['News', 'World', 'Asia']);
+    expect(report.posts[0].warnings[0]).toMatch(/truncated/);
+    expect(db.category.map((c) => c.depth ?? 0)).toEqual([0, 1, 2]);
+  });
+
+  it('matches authors by email or name and falls back to the default author', async () => {
+    const report = await importPosts(
+      [
+        post({ author: { email: 'JANE@example.com' } }),
+        post({ author: { name: 'jane doe' } }),
+        post({ author: { name: 'Nobody' } }),
+      ],
+      options
+    );
+
+    expect(report.posts.map((p) => p.authorId)).toEqual(['jane', 'jane', 'admin']);
+    expect(report.posts[2].warnings[0]).toMatch(/Nobody/);
+  });
+
+  it('sanitizes content before storing it', async () => {
+    await importPosts([post({ content: '<p onclick="x()">Hi</p><script>alert(1)</script>' })], options);
+
+    const stored = db.post.at(-1)!.content as string;
+    expect(stored).not.toMatch(/script|onclick/);
+    expect(stored).toContain('Hi');
+  });
+
+  it('uploads each featured image once and links it as the cover', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([1, 2, 3]), {
+      headers: { 'content-type': 'image/jpeg' },
+    })));
+    try {
+      const image = { url: 'https://legacy.example.com/cover.jpg' };
+      const report = await importPosts([post({ featuredImage: image }), post({ featuredImage: image })], options);
+
+      expect(report.uploadedImages).toBe(1);
+      expect(mediaService.uploadImage).toHaveBeenCalledWith(
+        expect.any(Buffer), 'cover.jpg', 'image/jpeg', 'admin', '/imports'
+      );
+      expect(db.post.at(-1)).toMatchObject({ postMedia: { create: { mediaId: 'media-1', isCover: true } } });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('writes nothing on a dry run but reports the same plan', async () => {
+    const input = [post({ category: ['Sports'], tags: ['Football'], featuredImage: { url: 'https://x/y.png' } })];
+
+    const dry = await importPosts(input, { ...options, dryRun: true });
+
+    expect(prisma.post.create).not.toHaveBeenCalled();
+    expect(prisma.category.create).not.toHaveBeenCalled();
+    expect(prisma.tag.create).not.toHaveBeenCalled();
+    expect(mediaService.uploadImage).not.toHaveBeenCalled();
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+    try {
+      const real = await importPosts(input, options);
+      // A dry run creates no posts and fetches no images, so it lacks their ids and image warnings
+      expect(dry.posts).toEqual(
+        real.posts.map((result, i) => ({ ...result, postId: undefined, warnings: dry.posts[i].warnings }))
+      );
+      expect(dry.createdCategories).toEqual(real.createdCategories);
+      expect(dry.createdTags).toEqual(real.createdTags);
+      expect(real.posts[0].postId).toEqual(expect.any(String));
+      expect(real.posts[0].warnings).toEqual([...dry.posts[0].warnings, expect.stringMatching(/HTTP 404/)]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('refuses to run without a valid default author', async () => {
+    await expect(importPosts([post()], { defaultAuthorId: 'missing' })).rejects.toThrow('Default author not found');
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Content Importer
+ *
+ * Maps posts read from an export onto our models: authors are matched to
+ * existing users, categories and tags are found or created, featured images
+ * are uploaded to the media library and HTML is sanitized. Slugs that are
+ * already taken get a numeric suffix. A dry run resolves everything the same
+ * way but writes nothing.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import prisma from '@/lib/db/prisma';
+import { mediaService } from '@/lib/admin/media';
+import { postCache } from '@/lib/cache/posts';
+import { MAX_CATEGORY_DEPTH } from '@/lib/categories/validation';
+import { defaultLocale, isValidLocale } from '@/lib/i18n/config';
+import { calculateReadingTime, createExcerpt, generateSlug, uniqueSlug } from '@/lib/posts';
+import { sanitizeHtml } from '@/lib/sanitize';
+import { updateSearchVectors } from '@/lib/search';
+import type { ImportedImage, ImportedPost, ImportedPostResult, ImportOptions, ImportReport } from './types';
+
+/** ImageKit folder for featured images brought in by an import */
+export const IMPORT_MEDIA_FOLDER = '/imports';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+};
+
+interface CategoryRecord {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+interface UserRecord {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+const sameName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'accent' }) === 0;
+
+async function loadImage(image: ImportedImage): Promise<{ file: Buffer; filename: string; mimeType: string }> {
+  const source = image.url ?? image.path!;
+  const filename = path.basename(new URL(source, 'file:///').pathname) || 'image';
+  const extensionType = MIME_TYPES[path.extname(filename).toLowerCase()];
+
+  if (image.path) {
+    return { file: await readFile(image.path), filename, mimeType: extensionType ?? 'application/octet-stream' };
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || extensionType || 'application/octet-stream';
+  return { file: Buffer.from(await response.arrayBuffer()), filename, mimeType };
+}
+
+/**
+ * Imports posts, or reports what an import would do when `dryRun` is set
+ */
+export async function importPosts(posts: ImportedPost[], options: ImportOptions): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+  const fallbackLocale = options.defaultLocale && isValidLocale(options.defaultLocale) ? options.defaultLocale : defaultLocale;
+
+  const [users, categories, tags, existingPosts] = await Promise.all([
+    prisma.user.findMany({ select: { id: true, email: true, firstName: true, lastName: true } }),
+    prisma.category.findMany({ select: { id: true, name: true, slug: true, parentId: true } }),
+    prisma.tag.findMany({ select: { id: true, name: true, slug: true } }),
+    prisma.post.findMany({ select: { slug: true, locale: true } }),
+  ]);
+
+  if (!users.some((user) => user.id === options.defaultAuthorId)) {
+    throw new Error(`Default author not found: ${options.defaultAuthorId}`);
+  }
+
+  const categoryList: CategoryRecord[] = [...categories];
+  const categorySlugs = new Set(categories.map((category) => category.slug));
+  const tagList = [...tags];
+  const tagSlugs = new Set(tags.map((tag) => tag.slug));
+  const postSlugs = new Map<string, Set<string>>();
+  for (const post of existingPosts) {
+    if (!postSlugs.has(post.locale)) postSlugs.set(post.locale, new Set());
+    postSlugs.get(post.locale)!.add(post.slug);
+  }
+
+  const report: ImportReport = { dryRun, posts: [], createdCategories: [], createdTags: [], uploadedImages: 0 };
+  const uploads = new Map<string, string>();
+  let placeholderId = 0;
+
+  const findAuthor = (author: ImportedPost['author']): UserRecord | undefined => {
+    if (!author) return undefined;
+    const email = author.email?.toLowerCase();
+    return (
+      (email ? users.find((user) => user.email.toLowerCase() === email) : undefined) ??
+      (author.name
+        ? users.find((user) => sameName([user.firstName, user.lastName].filter(Boolean).join(' '), author.name!))
+        : undefined)
+    );
+  };
+
+  const resolveCategory = async (names: string[]): Promise<CategoryRecord> => {
+    let parentId: string | null = null;
+    let category: CategoryRecord | undefined;
+    for (const [depth, name] of names.entries()) {
+      category = categoryList.find((c) => c.parentId === parentId && sameName(c.name, name));
+      if (!category) {
+        const slug = uniqueSlug(generateSlug(name), categorySlugs, 'category');
+        category = dryRun
+          ? { id: `dry-run-category-${++placeholderId}`, name, parentId }
+          : await prisma.category.create({
+              data: { name, slug, parentId, depth },
+              select: { id: true, name: true, parentId: true },
+            });
+        categoryList.push(category);
+        report.createdCategories.push(names.slice(0, depth + 1).join(' > '));
+      }
+      parentId = category.id;
+    }
+    return category!;
+  };
+
+  const resolveTag = async (name: string): Promise<string> => {
+    const existing = tagList.find((tag) => sameName(tag.name, name));
+    if (existing) return existing.id;
+
+    const slug = uniqueSlug(generateSlug(name), tagSlugs, 'tag');
+    const tag = dryRun
+      ? { id: `dry-run-tag-${++placeholderId}`, name, slug }
+      : await prisma.tag.create({ data: { name, slug }, select: { id: true, name: true, slug: true } });
+    tagList.push(tag);
+    report.createdTags.push(name);
+    return tag.id;
+  };
+
+  const createdIds: string[] = [];
+
+  for (const post of posts) {
+    const warnings = [...(post.warnings ?? [])];
+
+    const locale = post.locale && isValidLocale(post.locale) ? post.locale : fallbackLocale;
+    if (post.locale && !isValidLocale(post.locale)) {
+      warnings.push(`Unsupported locale "${post.locale}"; using ${locale}`);
+    }
+
+    const author = findAuthor(post.author);
+    if ((post.author?.email || post.author?.name) && !author) {
+      warnings.push(`Author "${post.author.email ?? post.author.name}" has no user; assigned to the default author`);
+    }
+    const authorId = author?.id ?? options.defaultAuthorId;
+
+    let categoryPath = post.category ?? null;
+    if (categoryPath && categoryPath.length > MAX_CATEGORY_DEPTH + 1) {
+      warnings.push(`Category "${categoryPath.join(' > ')}" is deeper than ${MAX_CATEGORY_DEPTH + 1} levels; truncated`);
+      categoryPath = categoryPath.slice(0, MAX_CATEGORY_DEPTH + 1);
+    }
+    const category = categoryPath ? await resolveCategory(categoryPath) : null;
+
+    const tagNames = [...new Set(post.tags.map((tag) => tag.trim()).filter(Boolean))];
+    const tagIds: string[] = [];
+    for (const name of tagNames) {
+      tagIds.push(await resolveTag(name));
+    }
+
+    if (!postSlugs.has(locale)) postSlugs.set(locale, new Set());
+    const requested = post.slug ? generateSlug(post.slug) : generateSlug(post.title);
+    const slug = uniqueSlug(requested, postSlugs.get(locale)!);
+    if (requested && slug !== requested) {
+      warnings.push(`Slug "${requested}" is taken; using "${slug}"`);
+    }
+
+    const content = sanitizeHtml(post.content);
+    if (!content.trim()) {
+      warnings.push('Content is empty after sanitizing');
+    }
+
+    let mediaId: string | undefined;
+    if (post.featuredImage && !dryRun) {
+      const source = post.featuredImage.url ?? post.featuredImage.path!;
+      try {
+        mediaId = uploads.get(source);
+        if (!mediaId) {
+          const { file, filename, mimeType } = await loadImage(post.featuredImage);
+          mediaId = (await mediaService.uploadImage(file, filename, mimeType, authorId, IMPORT_MEDIA_FOLDER)).id;
+          uploads.set(source, mediaId);
+          report.uploadedImages++;
+        }
+      } catch (error) {
+        warnings.push(`Featured image ${source} was not imported: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const result: ImportedPostResult = {
+      sourceId: post.sourceId,
+      title: post.title,
+      slug,
+      locale,
+      status: post.status,
+      authorId,
+      category: categoryPath,
+      tags: tagNames,
+      warnings,
+    };
+
+    if (!dryRun) {
+      const created = await prisma.post.create({
+        data: {
+          title: post.title,
+          slug,
+          locale,
+          content,
+          excerpt: createExcerpt(content, post.excerpt ? createExcerpt(post.excerpt) : undefined),
+          status: post.status,
+          publishedAt: post.publishedAt,
+          scheduledAt: post.scheduledAt,
+          readingTime: calculateReadingTime(content),
+          authorId,
+          categoryId: category?.id,
+          tags: { create: tagIds.map((tagId) => ({ tagId })) },
+          ...(mediaId && { postMedia: { create: { mediaId, isCover: true } } }),
+        },
+        select: { id: true },
+      });
+      result.postId = created.id;
+      createdIds.push(created.id);
+    }
+
+    report.posts.push(result);
+  }
+
+  if (createdIds.length > 0) {
+    await updateSearchVectors(createdIds);
+    await postCache.invalidateAllPosts();
+  }
+
+  return report;
+}
@@ -0,0 +1,23 @@
+/**
+ * Content Import Module Barrel Export
+ *
+ * Reads WordPress WXR exports and Markdown directories and imports them
+ * as posts.
+ */
+
+// Types
+export type {
+  ImportedAuthor,
+  ImportedImage,
+  ImportedPost,
+  ImportOptions,
+  ImportedPostResult,
+  ImportReport,
+} from './types';
+
+// Readers
+export { parseWxr, parseWxrDate, autop } from './wxr';
+export { parseMarkdownPost, listMarkdownFiles, readMarkdownDirectory } from './markdown';
+
+// Importer
+export { importPosts, IMPORT_MEDIA_FOLDER } from './importer';
@@ -0,0 +1,147 @@
+/**
+ * Markdown Reader
+ *
+ * Reads Markdown files with YAML front-matter (Jekyll, Hugo, Astro and
+ * similar static-site exports) into source-neutral posts.
+ *
+ * Recognised front-matter keys:
+ * - title, slug, date, draft, excerpt / description / summary
+ * - locale / lang
+ * - author: a name, an email, or { name, email }
+ * - category: a path, either "News/World" or [News, World];
+ *   categories: a list whose first entry is used
+ * - tags: a list or a comma-separated string
+ * - image / featured_image / cover: a URL or a path relative to the file
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import matter from 'gray-matter';
+import { marked } from 'marked';
+import type { ImportedAuthor, ImportedPost } from './types';
+
+const MARKDOWN_EXTENSIONS = new Set(['.md', '.markdown']);
+
+type FrontMatter = Record<string, unknown>;
+
+function firstString(data: FrontMatter, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).map((s) => s.trim()).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map((s) => s.trim()).filter(Boolean);
+  return [];
+}
+
+function toAuthor(value: unknown): ImportedAuthor | undefined {
+  if (typeof value === 'string' && value.trim()) {
+    return value.includes('@') ? { email: value.trim() } : { name: value.trim() };
+  }
+  if (value && typeof value === 'object') {
+    const { name, email } = value as { name?: unknown; email?: unknown };
+    return {
+      name: typeof name === 'string' ? name : undefined,
+      email: typeof email === 'string' ? email : undefined,
+    };
+  }
+  return undefined;
+}
+
+function toCategoryPath(data: FrontMatter): string[] | undefined {
+  const category = Array.isArray(data.category)
+    ? data.category.map(String)
+    : typeof data.category === 'string'
+      ? data.category.split('/')
+      : toStringList(data.categories)[0]?.split('/');
+  const segments = category?.map((s) => s.trim()).filter(Boolean);
+  return segments && segments.length > 0 ? segments : undefined;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Reads one Markdown file's contents into a post
+ * @param source - File contents
+ * @param filePath - Path of the file, used as the source ID and to resolve relative images
+ */
+export function parseMarkdownPost(source: string, filePath: string, now: Date = new Date()): ImportedPost {
+  const { data, content } = matter(source);
+  const warnings: string[] = [];
+
+  let title = firstString(data, ['title']);
+  let body = content;
+  if (!title) {
+    // Fall back to a leading "# Heading", then the file name
+    const heading = body.match(/^\s*#\s+(.+)\n/);
+    if (heading) {
+      title = heading[1].trim();
+      body = body.slice(heading[0].length);
+    } else {
+      title = path.basename(filePath, path.extname(filePath));
+      warnings.push('No title in front-matter; using the file name');
+    }
+  }
+
+  const date = toDate(data.date);
+  const draft = data.draft === true || data.published === false;
+  const status = draft ? 'DRAFT' : date && date > now ? 'SCHEDULED' : 'PUBLISHED';
+
+  const image = firstString(data, ['featured_image', 'image', 'cover']);
+  const featuredImage = image
+    ? /^https?:\/\//i.test(image)
+      ? { url: image }
+      : { path: path.resolve(path.dirname(filePath), image.replace(/^\//, '')) }
+    : undefined;
+
+  return {
+    sourceId: filePath,
+    title,
+    slug: firstString(data, ['slug']),
+    content: marked.parse(body, { async: false }),
+    excerpt: firstString(data, ['excerpt', 'description', 'summary']),
+    locale: firstString(data, ['locale', 'lang']),
+    status,
+    publishedAt: status === 'PUBLISHED' ? date ?? now : undefined,
+    scheduledAt: status === 'SCHEDULED' ? date : undefined,
+    author: toAuthor(data.author),
+    category: toCategoryPath(data),
+    tags: toStringList(data.tags),
+    featuredImage,
+    warnings,
+  };
+}
+
+/**
+ * Recursively lists the Markdown files under a directory, sorted by path
+ */
+export async function listMarkdownFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listMarkdownFiles(full);
+      return MARKDOWN_EXTENSIONS.has(path.extname(entry.name).toLowerCase()) ? [full] : [];
+    })
+  );
+  return files.flat().sort();
+}
+
+/**
+ * Reads every Markdown file under a directory into posts
+ */
+export async function readMarkdownDirectory(dir: string, now: Date = new Date()): Promise<ImportedPost[]> {
+  const files = await listMarkdownFiles(dir);
+  return Promise.all(files.map(async (file) => parseMarkdownPost(await readFile(file, 'utf8'), file, now)));
+}
@@ -0,0 +1,223 @@
+/**
+ * Tests for the WXR and Markdown readers
+ *
+ * Property: Readers SHALL turn each source post into one imported post with
+ * its category path, tags, author, status and featured image, and SHALL
+ * skip content that is not a post.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { autop, parseWxr, parseWxrDate } from './wxr';
+import { parseMarkdownPost, readMarkdownDirectory } from './markdown';
+
+const WXR = `<?xml version="1.0" encoding="UTF-8" ?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <title>Legacy Blog</title>
+  <language>th-TH</language>
+  <wp:author>
+    <wp:author_login><![CDATA[jane]]></wp:author_login>
+    <wp:author_email><![CDATA[jane@example.com]]></wp:author_email>
+    <wp:author_display_name><![CDATA[Jane Doe]]></wp:author_display_name>
+  </wp:author>
+  <wp:category>
+    <wp:category_nicename><![CDATA[news]]></wp:category_nicename>
+    <wp:category_parent><![CDATA[]]></wp:category_parent>
+    <wp:cat_name><![CDATA[News]]></wp:cat_name>
+  </wp:category>
+  <wp:category>
+    <wp:category_nicename><![CDATA[world]]></wp:category_nicename>
+    <wp:category_parent><![CDATA[news]]></wp:category_parent>
+    <wp:cat_name><![CDATA[World]]></wp:cat_name>
+  </wp:category>
+  <item>
+    <title>Hello &amp; welcome</title>
+    <dc:creator><![CDATA[jane]]></dc:creator>
+    <content:encoded><![CDATA[First paragraph
+with a break.
+
+Second paragraph.]]></content:encoded>
+    <excerpt:encoded><![CDATA[Short intro]]></excerpt:encoded>
+    <wp:post_id>10</wp:post_id>
+    <wp:post_date_gmt><![CDATA[2024-01-31 08:00:00]]></wp:post_date_gmt>
+    <wp:post_name><![CDATA[%e0%b8%82%e0%b9%88%e0%b8%b2%e0%b8%a7]]></wp:post_name>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+    <category domain="category" nicename="world"><![CDATA[World]]></category>
+    <category domain="category" nicename="uncategorized"><![CDATA[Uncategorized]]></category>
+    <category domain="post_tag" nicename="elections"><![CDATA[Elections]]></category>
+    <category domain="post_tag" nicename="asia"><![CDATA[Asia]]></category>
+    <wp:postmeta>
+      <wp:meta_key><![CDATA[_thumbnail_id]]></wp:meta_key>
+      <wp:meta_value><![CDATA[11]]></wp:meta_value>
+    </wp:postmeta>
+  </item>
+  <item>
+    <title>cover.jpg</title>
+    <wp:post_id>11</wp:post_id>
+    <wp:post_type><![CDATA[attachment]]></wp:post_type>
+    <wp:status><![CDATA[inherit]]></wp:status>
+    <wp:attachment_url><![CDATA[https://legacy.example.com/uploads/cover.jpg]]></wp:attachment_url>
+  </item>
+  <item>
+    <title>Coming soon</title>
+    <dc:creator><![CDATA[ghost]]></dc:creator>
+    <content:encoded><![CDATA[<!-- wp:paragraph --><p>Block content</p><!-- /wp:paragraph -->]]></content:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date_gmt><![CDATA[2030-05-01 09:30:00]]></wp:post_date_gmt>
+    <wp:post_name><![CDATA[coming-soon]]></wp:post_name>
+    <wp:status><![CDATA[future]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+  <item>
+    <title>About</title>
+    <wp:post_id>13</wp:post_id>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[page]]></wp:post_type>
+  </item>
+  <item>
+    <title>Deleted</title>
+    <wp:post_id>14</wp:post_id>
+    <wp:status><![CDATA[trash]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+  </item>
+</channel>
+</rss>`;
+
+describe('parseWxr', () => {
+  it('reads posts with their author, category path, tags and featured image', () => {
+    const posts = parseWxr(WXR);
+
+    expect(posts.map((p) => p.sourceId)).toEqual(['wxr:10', 'wxr:12']);
+
+    const [hello, scheduled] = posts;
+    expect(hello).toMatchObject({
+      title: 'Hello & welcome',
+      slug: 'ข่าว',
+      locale: 'th',
+      status: 'PUBLISHED',
+      publishedAt: new Date('2024-01-31T08:00:00Z'),
+      excerpt: 'Short intro',
+      author: { email: 'jane@example.com', name: 'Jane Doe' },
+      category: ['News', 'World'],
+      tags: ['Elections', 'Asia'],
+      featuredImage: { url: 'https://legacy.example.com/uploads/cover.jpg' },
+    });
+    expect(hello.content).toBe('<p>First paragraph<br />\nwith a break.</p>\n<p>Second paragraph.</p>');
+
+    expect(scheduled).toMatchObject({
+      status: 'SCHEDULED',
+      scheduledAt: new Date('2030-05-01T09:30:00Z'),
+      author: { name: 'ghost' },
+      content: '<p>Block content</p>',
+      tags: [],
+    });
+    expect(scheduled.category).toBeUndefined();
+  });
+
+  it('rejects files that are not WXR exports', () => {
+    expect(() => parseWxr('<html><body/></html>')).toThrow('Not a WordPress export');
+  });
+
+  it('treats zero dates as missing', () => {
+    expect(parseWxrDate('0000-00-00 00:00:00')).toBeUndefined();
+    expect(parseWxrDate('')).toBeUndefined();
+  });
+
+  it('wraps every non-empty paragraph of classic content exactly once', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.stringMatching(/^[a-z][a-z ]{0,20}$/), { minLength: 1, maxLength: 6 }),
+        (paragraphs) => {
+          const html = autop(paragraphs.join('\n\n'));
+          const expected = paragraphs.map((p) => p.trim()).filter(Boolean);
+          expect(html.match(/<p>/g)?.length ?? 0).toBe(expected.length);
+        }
+      )
+    );
+  });
+});
+
+describe('parseMarkdownPost', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+
+  it('maps front-matter onto the post and renders Markdown to HTML', () => {
+    const post = parseMarkdownPost(
+      [
+        '---',
+        'title: Release notes',
+        'slug: release-notes',
+        'date: 2025-05-01',
+        'lang: fr',
+        'author: { name: Jane Doe, email: jane@example.com }',
+        'category: Tech/Web',
+        'tags: [releases, web]',
+        'image: ../images/cover.png',
+        'description: What changed',
+        '---',
+        '',
+        'Some **bold** text.',
+      ].join('\n'),
+      '/site/posts/release.md',
+      now
+    );
+
+    expect(post).toMatchObject({
+      sourceId: '/site/posts/release.md',
+      title: 'Release notes',
+      slug: 'release-notes',
+      locale: 'fr',
+      status: 'PUBLISHED',
+      publishedAt: new Date('2025-05-01T00:00:00Z'),
+      author: { name: 'Jane Doe', email: 'jane@example.com' },
+      category: ['Tech', 'Web'],
+      tags: ['releases', 'web'],
+      featuredImage: { path: path.resolve('/site/images/cover.png') },
+      excerpt: 'What changed',
+    });
+    expect(post.content).toContain('<strong>bold</strong>');
+  });
+
+  it('derives status from draft and future dates', () => {
+    const draft = parseMarkdownPost('---\ntitle: A\ndraft: true\n---\nx', 'a.md', now);
+    const future = parseMarkdownPost('---\ntitle: B\ndate: 2030-01-01\n---\nx', 'b.md', now);
+
+    expect(draft.status).toBe('DRAFT');
+    expect(future).toMatchObject({ status: 'SCHEDULED', scheduledAt: new Date('2030-01-01T00:00:00Z') });
+  });
+
+  it('falls back to the first heading, then the file name, for the title', () => {
+    const heading = parseMarkdownPost('# From heading\n\nBody', 'x.md', now);
+    const filename = parseMarkdownPost('Body only', '/posts/my-post.md', now);
+
+    expect(heading.title).toBe('From heading');
+    expect(heading.content).not.toContain('From heading');
+    expect(filename.title).toBe('my-post');
+    expect(filename.warnings).toHaveLength(1);
+  });
+});
+
+describe('readMarkdownDirectory', () => {
+  it('reads Markdown files recursively and ignores other files', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'import-'));
+    try {
+      await mkdir(path.join(dir, '2024'));
+      await writeFile(path.join(dir, 'a.md'), '---\ntitle: A\n---\nA');
+      await writeFile(path.join(dir, '2024', 'b.markdown'), '---\ntitle: B\n---\nB');
+      await writeFile(path.join(dir, 'notes.txt'), 'ignored');
+
+      const posts = await readMarkdownDirectory(dir);
+      expect(posts.map((p) => p.title)).toEqual(['B', 'A']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
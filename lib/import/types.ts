@@ -0,0 +1,90 @@
+/**
+ * Content Import Types Module
+ *
+ * Defines the source-neutral post shape the WXR and Markdown readers produce
+ * and the report the importer returns.
+ */
+
+import type { PostStatus } from '@/lib/generated/prisma';
+
+/**
+ * Author as named by the source
+ */
+export interface ImportedAuthor {
+  email?: string;
+  name?: string;
+}
+
+/**
+ * Featured image as referenced by the source.
+ * Exactly one of `url` (remote file) or `path` (local file) is set.
+ */
+export interface ImportedImage {
+  url?: string;
+  path?: string;
+}
+
+/**
+ * A post read from an export, before it is mapped onto our models
+ */
+export interface ImportedPost {
+  /** Where the post came from, e.g. the WXR post ID or Markdown file path */
+  sourceId: string;
+  title: string;
+  /** Slug requested by the source; generated from the title when missing */
+  slug?: string;
+  /** HTML body, sanitized by the importer */
+  content: string;
+  excerpt?: string;
+  locale?: string;
+  status: PostStatus;
+  publishedAt?: Date;
+  scheduledAt?: Date;
+  author?: ImportedAuthor;
+  /** Category as a path of names from the root, e.g. ['News', 'World'] */
+  category?: string[];
+  tags: string[];
+  featuredImage?: ImportedImage;
+  /** Problems the reader noticed, carried into the report */
+  warnings?: string[];
+}
+
+/**
+ * Importer options
+ */
+export interface ImportOptions {
+  /** Report what would be imported without writing anything */
+  dryRun?: boolean;
+  /** User ID for posts whose author does not match an existing user */
+  defaultAuthorId: string;
+  /** Locale for posts that do not name a supported one */
+  defaultLocale?: string;
+}
+
+/**
+ * What happened (or would happen) to one post
+ */
+export interface ImportedPostResult {
+  sourceId: string;
+  title: string;
+  slug: string;
+  locale: string;
+  status: PostStatus;
+  authorId: string;
+  category: string[] | null;
+  tags: string[];
+  /** ID of the created post; absent on dry runs */
+  postId?: string;
+  warnings: string[];
+}
+
+/**
+ * Summary of an import run
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  posts: ImportedPostResult[];
+  createdCategories: string[];
+  createdTags: string[];
+  uploadedImages: number;
+}
@@ -0,0 +1,188 @@
+/**
+ * WordPress WXR Reader
+ *
+ * Reads a WordPress eXtended RSS export into source-neutral posts. Only
+ * items of type `post` are imported; attachments are used to resolve
+ * featured images and everything else (pages, menus, revisions) is skipped.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { PostStatus } from '@/lib/generated/prisma';
+import type { ImportedAuthor, ImportedPost } from './types';
+
+type XmlNode = Record<string, unknown>;
+
+/** Elements that may repeat and must always parse as arrays */
+const REPEATED_ELEMENTS = new Set(['item', 'category', 'wp:category', 'wp:tag', 'wp:author', 'wp:postmeta']);
+
+/** WordPress's default category, which means "no category" */
+const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * WordPress post statuses and what they become here.
+ * Missing statuses (trash, auto-draft, inherit) are skipped.
+ */
+const STATUS_MAP: Record<string, PostStatus> = {
+  publish: 'PUBLISHED',
+  future: 'SCHEDULED',
+  draft: 'DRAFT',
+  pending: 'DRAFT',
+  private: 'DRAFT',
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: (name) => REPEATED_ELEMENTS.has(name),
+});
+
+/**
+ * Text content of an element that may carry attributes
+ */
+function text(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return text((value as XmlNode)['#text']);
+  return String(value).trim();
+}
+
+function list(value: unknown): XmlNode[] {
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+/**
+ * Parses a WXR GMT timestamp ("2024-01-31 08:00:00"); WordPress writes
+ * zeros for posts that were never published
+ */
+export function parseWxrDate(value: string): Date | undefined {
+  if (!value || value.startsWith('0000')) return undefined;
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * WordPress stores non-ASCII slugs percent-encoded
+ */
+function decodeSlug(slug: string): string | undefined {
+  if (!slug) return undefined;
+  try {
+    return decodeURIComponent(slug);
+  } catch {
+    return slug;
+  }
+}
+
+/**
+ * Converts classic-editor content to HTML paragraphs the way WordPress's
+ * wpautop does on render. Block-editor content already has its markup and
+ * only loses the block delimiter comments.
+ */
+export function autop(content: string): string {
+  const html = content.replace(/<!--\s*\/?wp:[\s\S]*?-->/g, '').trim();
+  if (/<(p|div|h[1-6]|ul|ol|table|blockquote|pre|figure)[\s>]/i.test(html)) {
+    return html;
+  }
+  return html
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => `<p>${block.replace(/\n/g, '<br />\n')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Reads the posts from a WXR export
+ */
+export function parseWxr(xml: string): ImportedPost[] {
+  const doc = parser.parse(xml) as XmlNode;
+  const channel = (doc.rss as XmlNode | undefined)?.channel as XmlNode | undefined;
+  if (!channel) {
+    throw new Error('Not a WordPress export: missing rss/channel');
+  }
+
+  const authors = new Map<string, ImportedAuthor>();
+  for (const author of list(channel['wp:author'])) {
+    authors.set(text(author['wp:author_login']), {
+      email: text(author['wp:author_email']) || undefined,
+      name: text(author['wp:author_display_name']) || undefined,
+    });
+  }
+
+  const categories = new Map<string, { name: string; parent: string }>();
+  for (const category of list(channel['wp:category'])) {
+    categories.set(text(category['wp:category_nicename']), {
+      name: text(category['wp:cat_name']),
+      parent: text(category['wp:category_parent']),
+    });
+  }
+
+  const categoryPath = (nicename: string, name: string): string[] => {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current: string | undefined = nicename;
+    while (current && categories.has(current) && !seen.has(current)) {
+      seen.add(current);
+      const { name: segment, parent }: { name: string; parent: string } = categories.get(current)!;
+      path.unshift(segment);
+      current = parent;
+    }
+    return path.length > 0 ? path : [name];
+  };
+
+  // The site language, e.g. "en-US"
+  const locale = text(channel.language).split('-')[0].toLowerCase() || undefined;
+
+  const items = list(channel.item);
+  const attachments = new Map<string, string>();
+  for (const item of items) {
+    if (text(item['wp:post_type']) === 'attachment') {
+      attachments.set(text(item['wp:post_id']), text(item['wp:attachment_url']));
+    }
+  }
+
+  const posts: ImportedPost[] = [];
+  for (const item of items) {
+    const status = STATUS_MAP[text(item['wp:status'])];
+    if (text(item['wp:post_type']) !== 'post' || !status) continue;
+
+    const postId = text(item['wp:post_id']);
+    const creator = text(item['dc:creator']);
+    const warnings: string[] = [];
+    const date = parseWxrDate(text(item['wp:post_date_gmt'])) ?? (text(item.pubDate) ? new Date(text(item.pubDate)) : undefined);
+
+    const terms = list(item.category);
+    const categoryPaths = terms
+      .filter((term) => term['@_domain'] === 'category' && term['@_nicename'] !== UNCATEGORIZED)
+      .map((term) => categoryPath(String(term['@_nicename'] ?? ''), text(term)));
+    // Posts here have one category; keep the most specific
+    const category = categoryPaths.sort((a, b) => b.length - a.length)[0];
+    if (categoryPaths.length > 1) {
+      warnings.push(`Kept category "${category.join(' > ')}" of ${categoryPaths.length}`);
+    }
+
+    const thumbnailId = list(item['wp:postmeta']).find((meta) => text(meta['wp:meta_key']) === '_thumbnail_id');
+    const imageUrl = thumbnailId ? attachments.get(text(thumbnailId['wp:meta_value'])) : undefined;
+    if (thumbnailId && !imageUrl) {
+      warnings.push('Featured image attachment is not in the export');
+    }
+
+    posts.push({
+      sourceId: `wxr:${postId}`,
+      title: text(item.title) || `Untitled ${postId}`,
+      slug: decodeSlug(text(item['wp:post_name'])),
+      content: autop(text(item['content:encoded'])),
+      excerpt: text(item['excerpt:encoded']) || undefined,
+      locale,
+      status,
+      publishedAt: status === 'PUBLISHED' ? date : undefined,
+      scheduledAt: status === 'SCHEDULED' ? date : undefined,
+      author: authors.get(creator) ?? (creator ? { name: creator } : undefined),
+      category,
+      tags: terms.filter((term) => term['@_domain'] === 'post_tag').map((term) => text(term)),
+      featuredImage: imageUrl ? { url: imageUrl } : undefined,
+      warnings,
+    });
+  }
+
+  return posts;
+}
@@ -0,0 +1,148 @@
+/**
+ * Tests for news aggregation
+ *
+ * Property: Copies of one story SHALL fold into a single article that keeps
+ * the earliest timestamp, the best image and every other source once, while
+ * different stories SHALL stay separate.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  aggregateArticles,
+  canonicalizeArticleUrl,
+  normalizeTitle,
+  titleSimilarity,
+  TITLE_SIMILARITY_THRESHOLD,
+} from './aggregate';
+import type { NewsArticle } from './types';
+
+let counter = 0;
+
+const article = (overrides: Partial<NewsArticle> & { source?: NewsArticle['source'] }): NewsArticle => ({
+  id: `a${++counter}`,
+  title: 'Central bank raises interest rates to curb inflation',
+  description: null,
+  content: null,
+  url: `https://site${counter}.example/story`,
+  imageUrl: null,
+  source: { id: null, name: `Source ${counter}` },
+  publishedAt: new Date('2026-10-06T08:00:00Z'),
+  ...overrides,
+});
+
+describe('canonicalizeArticleUrl', () => {
+  const pathArb = fc.array(fc.stringMatching(/^[a-z0-9-]{1,10}$/), { minLength: 1, maxLength: 4 }).map((s) => s.join('/'));
+
+  it('ignores scheme, www, AMP variants, tracking parameters and fragments', () => {
+    fc.assert(
+      fc.property(pathArb, fc.stringMatching(/^[a-z0-9]{1,8}$/), (path, campaign) => {
+        const canonical = canonicalizeArticleUrl(`https://news.example/${path}`);
+
+        expect(canonicalizeArticleUrl(`http://www.news.example/${path}/`)).toBe(canonical);
+        expect(canonicalizeArticleUrl(`https://news.example/${path}/amp?utm_source=${campaign}#top`)).toBe(canonical);
+        expect(canonicalizeArticleUrl(`https://m.news.example/${path}?fbclid=${campaign}`)).toBe(canonical);
+      })
+    );
+  });
+
+  it('keeps parameters that identify the article, in any order', () => {
+    expect(canonicalizeArticleUrl('https://news.example/view?b=2&id=7')).toBe(canonicalizeArticleUrl('https://news.example/view?id=7&b=2'));
+    expect(canonicalizeArticleUrl('https://news.example/view?id=7')).not.toBe(canonicalizeArticleUrl('https://news.example/view?id=8'));
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('is symmetric, between 0 and 1, and 1 for equal titles', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 40 }), fc.string({ maxLength: 40 }), (a, b) => {
+        const similarity = titleSimilarity(a, b);
+        expect(similarity).toBeGreaterThanOrEqual(0);
+        expect(similarity).toBeLessThanOrEqual(1);
+        expect(titleSimilarity(b, a)).toBeCloseTo(similarity);
+        if (a.length >= 2) expect(titleSimilarity(a, a)).toBe(1);
+      })
+    );
+  });
+
+  it('matches reworded copies of a headline, including Thai', () => {
+    const pairs = [
+      ['Central bank raises interest rates to curb inflation - Reuters', 'Central Bank raises interest rates to curb inflation', 'Reuters'],
+      ['ธนาคารกลางขึ้นอัตราดอกเบี้ยเพื่อสกัดเงินเฟ้อ', 'ธนาคารกลางขึ้นอัตราดอกเบี้ย เพื่อสกัดเงินเฟ้อ!', undefined],
+    ] as const;
+
+    for (const [a, b, source] of pairs) {
+      expect(titleSimilarity(normalizeTitle(a, source), normalizeTitle(b))).toBeGreaterThanOrEqual(TITLE_SIMILARITY_THRESHOLD);
+    }
+    expect(
+      titleSimilarity(normalizeTitle('Central bank raises interest rates'), normalizeTitle('Local team wins championship final'))
+    ).toBeLessThan(TITLE_SIMILARITY_THRESHOLD);
+  });
+});
+
+describe('aggregateArticles', () => {
+  it('folds syndicated copies into the earliest one', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: 0, max: 10_000 }), { minLength: 2, maxLength: 6 }),
+        (minutes) => {
+          const copies = minutes.map((minute, i) =>
+            article({
+              source: { id: null, name: `Outlet ${i}` },
+              url: `https://outlet${i}.example/story`,
+              publishedAt: new Date(Date.UTC(2026, 9, 6) + minute * 60_000),
+            })
+          );
+          const earliest = copies.reduce((a, b) => (a.publishedAt <= b.publishedAt ? a : b));
+
+          const [story, ...rest] = aggregateArticles(copies);
+
+          expect(rest).toEqual([]);
+          expect(story.id).toBe(earliest.id);
+          expect(story.publishedAt).toEqual(earliest.publishedAt);
+          expect(story.alsoCoveredBy?.map((c) => c.url).sort()).toEqual(
+            copies.filter((c) => c !== earliest).map((c) => c.url).sort()
+          );
+        }
+      )
+    );
+  });
+
+  it('keeps the best image and the first description', () => {
+    const [story] = aggregateArticles([
+      article({ imageUrl: 'http://first.example/a.jpg', publishedAt: new Date('2026-10-06T08:00:00Z') }),
+      article({ imageUrl: 'https://second.example/a.jpg', description: 'Rates rise' }),
+      article({ imageUrl: null, description: 'Other summary' }),
+    ]);
+
+    expect(story.imageUrl).toBe('https://second.example/a.jpg');
+    expect(story.description).toBe('Rates rise');
+  });
+
+  it('merges the same URL regardless of title and lists each source once', () => {
+    const wire = { id: null, name: 'Wire' };
+    const stories = aggregateArticles([
+      article({ url: 'https://wire.example/story', source: wire }),
+      article({ url: 'https://www.wire.example/story/?utm_medium=rss', title: 'Rates up', source: wire }),
+      article({ url: 'https://paper.example/rates', source: { id: null, name: 'Paper' } }),
+    ]);
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].alsoCoveredBy).toEqual([{ source: { id: null, name: 'Paper' }, url: 'https://paper.example/rates' }]);
+  });
+
+  it('keeps different stories apart, in their original order', () => {
+    const stories = aggregateArticles([
+      article({ title: 'Central bank raises interest rates' }),
+      article({ title: 'Local team wins championship final' }),
+      article({ title: 'New vaccine approved for children' }),
+    ]);
+
+    expect(stories.map((s) => s.title)).toEqual([
+      'Central bank raises interest rates',
+      'Local team wins championship final',
+      'New vaccine approved for children',
+    ]);
+    expect(stories.every((s) => s.alsoCoveredBy === undefined)).toBe(true);
+  });
+});
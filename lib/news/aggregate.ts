@@ -0,0 +1,153 @@
+/**
+ * News Aggregation Module
+ *
+ * Merges articles from several providers and feeds into one list, folding
+ * copies of the same story into a single article. Syndicated copies live
+ * on other domains under their own URLs, so besides the canonical URL,
+ * stories are matched by near-identical titles.
+ */
+
+import type { NewsArticle, NewsCoverage } from './types';
+
+/**
+ * Similarity of normalized titles (Dice coefficient over character
+ * bigrams) from which two articles count as the same story
+ */
+export const TITLE_SIMILARITY_THRESHOLD = 0.8;
+
+/** Query parameters that only track the visit */
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ocid|cmpid|ref|amp)$/i;
+
+/**
+ * Canonical form of an article URL for comparison: no scheme, `www.`/`m.`/
+ * `amp.` host prefix, AMP path suffix, tracking parameters, fragment or
+ * trailing slash
+ */
+export function canonicalizeArticleUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|amp)\./, '');
+  const path = parsed.pathname.replace(/\/amp\/?$/, '').replace(/\/+$/, '');
+  const params = [...parsed.searchParams]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return `${host}${path}${params.length > 0 ? `?${new URLSearchParams(params)}` : ''}`;
+}
+
+/**
+ * Lowercased title without punctuation or the " - Source" suffix that
+ * aggregators append
+ */
+export function normalizeTitle(title: string, sourceName?: string): string {
+  let normalized = title.normalize('NFKC').toLowerCase().trim();
+  const suffix = sourceName?.toLowerCase().trim();
+  if (suffix) {
+    for (const separator of [' - ', ' – ', ' — ', ' | ']) {
+      if (normalized.endsWith(`${separator}${suffix}`)) {
+        normalized = normalized.slice(0, -(separator.length + suffix.length));
+        break;
+      }
+    }
+  }
+  return normalized.replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient of two normalized titles' character bigrams, from 0 to 1.
+ * Works for languages written without spaces, such as Thai.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return 0;
+  if (a === b) return 1;
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  let shared = 0;
+  for (const [bigram, count] of first) {
+    shared += Math.min(count, second.get(bigram) ?? 0);
+  }
+  return (2 * shared) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * Best image of a story: the earliest copy's, preferring HTTPS images
+ */
+function pickImage(copies: NewsArticle[]): string | null {
+  const images = copies.map((copy) => copy.imageUrl).filter((url): url is string => Boolean(url));
+  return images.find((url) => url.startsWith('https://')) ?? images[0] ?? null;
+}
+
+/**
+ * Fold copies of one story into the earliest copy, listing the other
+ * sources once each
+ */
+function mergeCopies(copies: NewsArticle[]): NewsArticle {
+  const [primary, ...others] = [...copies].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  if (others.length === 0) return primary;
+
+  const sources = new Set([primary.source.name.toLowerCase()]);
+  const alsoCoveredBy: NewsCoverage[] = [];
+  const coverage = [
+    ...(primary.alsoCoveredBy ?? []),
+    ...others.flatMap((other) => [{ source: other.source, url: other.url }, ...(other.alsoCoveredBy ?? [])]),
+  ];
+  for (const entry of coverage) {
+    const key = entry.source.name.toLowerCase();
+    if (!sources.has(key)) {
+      sources.add(key);
+      alsoCoveredBy.push(entry);
+    }
+  }
+
+  return {
+    ...primary,
+    description: primary.description ?? others.find((other) => other.description)?.description ?? null,
+    imageUrl: pickImage([primary, ...others]),
+    category: primary.category ?? others.find((other) => other.category)?.category,
+    ...(alsoCoveredBy.length > 0 ? { alsoCoveredBy } : {}),
+  };
+}
+
+/**
+ * Cluster copies of the same story, by canonical URL or title similarity,
+ * and merge each cluster into one article. Clusters keep the order in
+ * which their first copy appears.
+ */
+export function aggregateArticles(articles: NewsArticle[]): NewsArticle[] {
+  const clusters: Array<{ copies: NewsArticle[]; titles: string[] }> = [];
+  const byUrl = new Map<string, (typeof clusters)[number]>();
+
+  for (const article of articles) {
+    const url = canonicalizeArticleUrl(article.url);
+    const title = normalizeTitle(article.title, article.source.name);
+
+    let cluster =
+      byUrl.get(url) ??
+      clusters.find((c) => c.titles.some((t) => titleSimilarity(t, title) >= TITLE_SIMILARITY_THRESHOLD));
+    if (!cluster) {
+      cluster = { copies: [], titles: [] };
+      clusters.push(cluster);
+    }
+
+    cluster.copies.push(article);
+    cluster.titles.push(title);
+    byUrl.set(url, cluster);
+  }
+
+  return clusters.map((cluster) => mergeCopies(cluster.copies));
+}
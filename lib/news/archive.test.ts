@@ -0,0 +1,229 @@
+/**
+ * Tests for the news archive
+ *
+ * Property: Ingesting the same story again SHALL update the one stored
+ * article for its locale rather than add another, keeping its first
+ * publication date, and stored articles SHALL read back as the articles
+ * that were ingested.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+type Row = Record<string, unknown> & { id: string; articleId: string; locale: string; publishedAt: Date };
+
+const { store } = vi.hoisted(() => ({
+  store: { rows: [] as Row[], counter: 0, indexed: [] as unknown[] },
+}));
+
+vi.mock('@/lib/db/prisma', () => {
+  const defined = (data: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+  const externalArticle = {
+    upsert: vi.fn(
+      async ({
+        where,
+        create,
+        update,
+      }: {
+        where: { articleId_locale: { articleId: string; locale: string } };
+        create: Row;
+        update: Record<string, unknown>;
+      }) => {
+        const { articleId, locale } = where.articleId_locale;
+        const existing = store.rows.find((row) => row.articleId === articleId && row.locale === locale);
+        if (existing) return { id: Object.assign(existing, defined(update)).id };
+        const row = { ...defined(create), id: `x${++store.counter}` } as Row;
+        store.rows.push(row);
+        return { id: row.id };
+      }
+    ),
+    findMany: vi.fn(
+      async ({ where, skip, take }: { where: { locale: string; publishedAt: { gte: Date; lt: Date } }; skip: number; take: number }) =>
+        store.rows
+          .filter((row) => row.locale === where.locale && row.publishedAt >= where.publishedAt.gte && row.publishedAt < where.publishedAt.lt)
+          .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+          .slice(skip, skip + take)
+    ),
+    count: vi.fn(
+      async ({ where }: { where: { locale: string; publishedAt: { gte: Date; lt: Date } } }) =>
+        store.rows.filter((row) => row.locale === where.locale && row.publishedAt >= where.publishedAt.gte && row.publishedAt < where.publishedAt.lt).length
+    ),
+  };
+
+  return {
+    default: {
+      externalArticle,
+      $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+      $executeRaw: vi.fn(async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+        store.indexed.push(values);
+        return 0;
+      }),
+    },
+  };
+});
+
+vi.mock('./cache', () => ({
+  generateCacheKey: vi.fn(() => 'news:test'),
+  newsCache: {
+    get: vi.fn(async () => null),
+    set: vi.fn(),
+    getByKey: vi.fn(async () => null),
+    getEntry: vi.fn(async () => null),
+  },
+}));
+
+// Import after mocking
+import prisma from '@/lib/db/prisma';
+import { newsCache } from './cache';
+import {
+  getArchivedNews,
+  ingestExternalArticles,
+  parseArchiveDate,
+  storeExternalArticles,
+  toNewsArticle,
+} from './archive';
+import type { NewsService } from './service';
+import type { NewsArticle, NewsQueryOptions } from './types';
+
+const articleArb: fc.Arbitrary<NewsArticle> = fc.record({
+  id: fc.stringMatching(/^[a-z0-9]{4,8}$/),
+  title: fc.string({ minLength: 1, maxLength: 80 }),
+  description: fc.option(fc.string({ maxLength: 120 }), { nil: null }),
+  content: fc.option(fc.string({ maxLength: 200 }), { nil: null }),
+  url: fc.webUrl(),
+  imageUrl: fc.option(fc.webUrl(), { nil: null }),
+  source: fc.record({
+    id: fc.option(fc.string({ minLength: 1, maxLength: 20 }), { nil: null }),
+    name: fc.string({ minLength: 1, maxLength: 40 }),
+  }),
+  publishedAt: fc.date({ min: new Date('2024-01-01'), max: new Date('2027-01-01'), noInvalidDate: true }),
+  category: fc.option(fc.constantFrom('general', 'business', 'sports'), { nil: undefined }),
+  alsoCoveredBy: fc.option(
+    fc.array(fc.record({ source: fc.record({ id: fc.constant(null), name: fc.string({ minLength: 1 }) }), url: fc.webUrl() }), {
+      minLength: 1,
+      maxLength: 3,
+    }),
+    { nil: undefined }
+  ),
+});
+
+const article = (id: string, publishedAt: string, overrides: Partial<NewsArticle> = {}): NewsArticle => ({
+  id,
+  title: `Story ${id}`,
+  description: null,
+  content: null,
+  url: `https://news.example/${id}`,
+  imageUrl: null,
+  source: { id: null, name: 'Wire' },
+  publishedAt: new Date(publishedAt),
+  ...overrides,
+});
+
+beforeEach(() => {
+  store.rows = [];
+  store.counter = 0;
+  store.indexed = [];
+  vi.clearAllMocks();
+});
+
+describe('storeExternalArticles', () => {
+  it('reads stored articles back unchanged', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uniqueArray(articleArb, { selector: (a) => a.id, maxLength: 10 }), async (articles) => {
+        store.rows = [];
+
+        await expect(storeExternalArticles('en', articles)).resolves.toBe(articles.length);
+
+        expect(store.rows.map((row) => toNewsArticle(row as never))).toEqual(articles);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('updates a story already stored for the locale and keeps its first date', async () => {
+    await storeExternalArticles('en', [article('a', '2026-10-05T08:00:00Z', { category: 'business' })]);
+    await storeExternalArticles('en', [article('a', '2026-10-06T08:00:00Z', { title: 'Updated' })]);
+    await storeExternalArticles('th', [article('a', '2026-10-06T08:00:00Z')]);
+
+    expect(store.rows).toHaveLength(2);
+    expect(store.rows[0]).toMatchObject({
+      title: 'Updated',
+      category: 'business',
+      publishedAt: new Date('2026-10-05T08:00:00Z'),
+    });
+  });
+
+  it('indexes stored articles for search', async () => {
+    await storeExternalArticles('en', [article('a', '2026-10-05T08:00:00Z'), article('b', '2026-10-05T09:00:00Z')]);
+
+    expect(prisma.$executeRaw).toHaveBeenCalledOnce();
+    expect(JSON.stringify(store.indexed)).toContain('"x1","x2"');
+  });
+
+  it('does nothing without articles', async () => {
+    await expect(storeExternalArticles('en', [])).resolves.toBe(0);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('ingestExternalArticles', () => {
+  it('stores cached headlines of available locales, keeping the category a story was first found under', async () => {
+    const stories = ['business', 'sports'];
+    vi.mocked(newsCache.getEntry).mockImplementation(async ({ locale, category }: NewsQueryOptions) =>
+      category && stories.includes(category)
+        ? {
+            response: { articles: [article(`${locale}-1`, '2026-10-06T08:00:00Z')], totalResults: 1, page: 1, pageSize: 12, totalPages: 1 },
+            // Expired copies are archived too
+            expiresAt: new Date(0),
+          }
+        : null
+    );
+    const getNews = vi.fn();
+    const service = { isAvailable: (locale: string) => locale === 'en', getNews } as unknown as NewsService;
+
+    await expect(ingestExternalArticles(service)).resolves.toBe(1);
+
+    expect(vi.mocked(newsCache.getEntry).mock.calls.every(([options]) => options.locale === 'en')).toBe(true);
+    expect(getNews).not.toHaveBeenCalled();
+    expect(store.rows).toEqual([expect.objectContaining({ articleId: 'en-1', locale: 'en', category: 'business' })]);
+  });
+
+  it('stores nothing when no page is cached', async () => {
+    vi.mocked(newsCache.getEntry).mockResolvedValue(null);
+    const service = { isAvailable: () => true } as unknown as NewsService;
+
+    await expect(ingestExternalArticles(service)).resolves.toBe(0);
+    expect(store.rows).toEqual([]);
+  });
+});
+
+describe('news archive days', () => {
+  it('accepts only real YYYY-MM-DD dates', () => {
+    fc.assert(
+      fc.property(fc.date({ min: new Date('2000-01-01'), max: new Date('2099-12-31'), noInvalidDate: true }), (date) => {
+        const day = date.toISOString().slice(0, 10);
+        expect(parseArchiveDate(day)?.toISOString()).toBe(`${day}T00:00:00.000Z`);
+      })
+    );
+    for (const value of ['2026-02-30', '2026-13-01', '2026-1-05', '20261005', '../2026-10-05']) {
+      expect(parseArchiveDate(value)).toBeNull();
+    }
+  });
+
+  it('lists a UTC day of one locale, newest first', async () => {
+    await storeExternalArticles('en', [
+      article('late', '2026-10-05T23:59:59Z'),
+      article('early', '2026-10-05T00:00:00Z'),
+      article('next', '2026-10-06T00:00:00Z'),
+      article('before', '2026-10-04T23:59:59Z'),
+    ]);
+    await storeExternalArticles('th', [article('thai', '2026-10-05T12:00:00Z')]);
+
+    const response = await getArchivedNews('en', parseArchiveDate('2026-10-05')!, 1, 1);
+
+    expect(response).toMatchObject({ totalResults: 2, totalPages: 2, page: 1, pageSize: 1 });
+    expect(response.articles.map((a) => a.id)).toEqual(['late']);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * News Archive Module
+ *
+ * Keeps external news in the ExternalArticle table so it outlives the news
+ * cache. An hourly cron job stores the headlines cache warming keeps in the
+ * news cache; stored articles can then be browsed by day and found by site
+ * search. Archive days are UTC days.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { Prisma, type ExternalArticle } from '@/lib/generated/prisma';
+import {
+  SEARCH_CONFIGS,
+  TITLE_HEADLINE_OPTIONS,
+  EXCERPT_HEADLINE_OPTIONS,
+  headlineToHtml,
+  localeConfigSql,
+} from '@/lib/search';
+import type { Locale } from '@/lib/i18n/config';
+import { newsCache } from './cache';
+import { getNewsService, type NewsService } from './service';
+import { getNewsWarmTargets } from './warm';
+import type {
+  ExternalSearchResult,
+  NewsArchiveDay,
+  NewsArticle,
+  NewsCoverage,
+  NewsResponse,
+} from './types';
+
+/** Articles per page when browsing an archive day */
+export const NEWS_ARCHIVE_PAGE_SIZE = 24;
+
+/** External articles shown alongside post results in site search */
+export const EXTERNAL_SEARCH_LIMIT = 5;
+
+const ARCHIVE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type ArchivedArticle = Omit<ExternalArticle, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Convert a stored row back to a NewsArticle
+ */
+export function toNewsArticle(row: ArchivedArticle): NewsArticle {
+  return {
+    id: row.articleId,
+    title: row.title,
+    description: row.description,
+    content: row.content,
+    url: row.url,
+    imageUrl: row.imageUrl,
+    source: { id: row.sourceId, name: row.sourceName },
+    publishedAt: row.publishedAt,
+    category: row.category ?? undefined,
+    alsoCoveredBy: (row.alsoCoveredBy as NewsCoverage[] | null) ?? undefined,
+  };
+}
+
+/**
+ * Start of a YYYY-MM-DD archive day, or null if the value is not a real date
+ */
+export function parseArchiveDate(value: string): Date | null {
+  if (!ARCHIVE_DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null;
+}
+
+/**
+ * Recomputes the full-text search vectors of external articles.
+ * Weights: title (A), description (B), content (C).
+ */
+async function updateExternalSearchVectors(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const config = localeConfigSql(Prisma.sql`a.locale`);
+  await prisma.$executeRaw`
+    UPDATE "ExternalArticle" AS a SET "searchVector" =
+      setweight(to_tsvector(${config}, a.title), 'A') ||
+      setweight(to_tsvector(${config}, coalesce(a.description, '')), 'B') ||
+      setweight(to_tsvector(${config}, coalesce(a.content, '')), 'C')
+    WHERE a.id IN (${Prisma.join(ids)})
+  `;
+}
+
+/**
+ * Upsert articles for a locale by their generated ID. A stored article keeps
+ * its first publication date and its category when a later copy has none.
+ * Returns the number of articles stored.
+ */
+export async function storeExternalArticles(locale: string, articles: NewsArticle[]): Promise<number> {
+  if (articles.length === 0) return 0;
+
+  const rows = await prisma.$transaction(
+    articles.map((article) => {
+      const fields = {
+        title: article.title,
+        description: article.description,
+        content: article.content,
+        url: article.url,
+        imageUrl: article.imageUrl,
+        sourceId: article.source.id,
+        sourceName: article.source.name,
+        category: article.category,
+        alsoCoveredBy: article.alsoCoveredBy
+          ? (article.alsoCoveredBy as unknown as Prisma.InputJsonValue)
+          : undefined,
+      };
+      return prisma.externalArticle.upsert({
+        where: { articleId_locale: { articleId: article.id, locale } },
+        create: { articleId: article.id, locale, publishedAt: article.publishedAt, ...fields },
+        update: fields,
+        select: { id: true },
+      });
+    })
+  );
+
+  await updateExternalSearchVectors(rows.map((row) => row.id));
+  return rows.length;
+}
+
+/**
+ * Store the cached headlines of every category page kept warm, expired
+ * copies included. Only the news cache is read, so ingestion spends none of
+ * the providers' daily quota and can run more often than warming refreshes.
+ * Returns the number of articles stored.
+ */
+export async function ingestExternalArticles(service: NewsService = getNewsService()): Promise<number> {
+  const byLocale = new Map<string, Map<string, NewsArticle>>();
+
+  for (const options of getNewsWarmTargets(service)) {
+    const entry = await newsCache.getEntry(options);
+    if (!entry) continue;
+
+    // A story keeps the first category it was found under
+    const articles = byLocale.get(options.locale) ?? new Map<string, NewsArticle>();
+    for (const article of entry.response.articles) {
+      if (!articles.has(article.id)) articles.set(article.id, { ...article, category: article.category ?? options.category });
+    }
+    byLocale.set(options.locale, articles);
+  }
+
+  let stored = 0;
+  for (const [locale, articles] of byLocale) {
+    stored += await storeExternalArticles(locale, [...articles.values()]);
+  }
+
+  return stored;
+}
+
+/**
+ * Days with archived articles in a locale, newest first
+ */
+export async function getNewsArchiveDays(locale: string): Promise<NewsArchiveDay[]> {
+  const rows = await prisma.$queryRaw<{ date: string; count: number }[]>`
+    SELECT to_char("publishedAt"::date, 'YYYY-MM-DD') AS date, COUNT(*)::int AS count
+    FROM "ExternalArticle"
+    WHERE locale = ${locale}
+    GROUP BY date
+    ORDER BY date DESC
+  `;
+  return rows;
+}
+
+/**
+ * Archived articles of one day, newest first
+ */
+export async function getArchivedNews(
+  locale: string,
+  day: Date,
+  page: number = 1,
+  pageSize: number = NEWS_ARCHIVE_PAGE_SIZE
+): Promise<NewsResponse> {
+  const where = {
+    locale,
+    publishedAt: { gte: day, lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) },
+  };
+
+  const [rows, totalResults] = await Promise.all([
+    prisma.externalArticle.findMany({
+      where,
+      orderBy: { publishedAt: 'desc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.externalArticle.count({ where }),
+  ]);
+
+  return {
+    articles: rows.map(toNewsArticle),
+    totalResults,
+    page,
+    pageSize,
+    totalPages: Math.ceil(totalResults / pageSize),
+  };
+}
+
+/**
+ * Full-text search over archived articles in a locale, best matches first.
+ * `from` and `to` are YYYY-MM-DD days, as in site search filters.
+ */
+export async function searchExternalArticles(
+  query: string,
+  options: { locale: Locale; from?: string; to?: string; limit?: number }
+): Promise<ExternalSearchResult[]> {
+  if (!query.trim()) return [];
+
+  const { locale, from, to, limit = EXTERNAL_SEARCH_LIMIT } = options;
+  const config = SEARCH_CONFIGS[locale] ?? 'simple';
+  const conditions: Prisma.Sql[] = [Prisma.sql`a.locale = ${locale}`, Prisma.sql`a."searchVector" @@ q`];
+  if (from) conditions.push(Prisma.sql`a."publishedAt" >= ${from}::date`);
+  if (to) conditions.push(Prisma.sql`a."publishedAt" < ${to}::date + 1`);
+
+  const rows = await prisma.$queryRaw<(ArchivedArticle & { highlightedTitle: string; highlightedExcerpt: string; rank: number })[]>`
+    SELECT a.id, a."articleId", a.locale, a.title, a.description, a.content, a.url, a."imageUrl",
+      a."sourceId", a."sourceName", a.category, a."alsoCoveredBy", a."publishedAt",
+      ts_headline(${config}::regconfig, a.title, q, ${TITLE_HEADLINE_OPTIONS}) AS "highlightedTitle",
+      ts_headline(${config}::regconfig, coalesce(a.description, ''), q, ${EXCERPT_HEADLINE_OPTIONS}) AS "highlightedExcerpt",
+      ts_rank_cd(a."searchVector", q)::float8 AS rank
+    FROM "ExternalArticle" a CROSS JOIN websearch_to_tsquery(${config}::regconfig, ${query.trim()}) q
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY rank DESC, a."publishedAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(({ highlightedTitle, highlightedExcerpt, rank, ...row }) => ({
+    article: toNewsArticle(row),
+    highlightedTitle: headlineToHtml(highlightedTitle),
+    highlightedExcerpt: headlineToHtml(highlightedExcerpt),
+    rank,
+  }));
+}
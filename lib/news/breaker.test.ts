@@ -0,0 +1,246 @@
+/**
+ * Tests for the news provider circuit breaker
+ *
+ * Property: A provider SHALL get no more requests per UTC day than its
+ * quota; its breaker SHALL open on a rate limit or after repeated failures,
+ * refuse requests while open, and let a single trial request decide when the
+ * open period ends, while the news service serves stale cache meanwhile. The
+ * quota and the single trial SHALL hold for concurrent requests too.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+
+const { redisStore } = vi.hoisted(() => ({
+  redisStore: new Map<string, unknown>(),
+}));
+
+vi.mock('@/lib/cache/redis', () => {
+  const cacheService = {
+    get: vi.fn(async (key: string) => redisStore.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      redisStore.set(key, JSON.parse(JSON.stringify(value)));
+    }),
+    setIfAbsent: vi.fn(async (key: string, value: unknown) => {
+      if (redisStore.has(key)) return false;
+      redisStore.set(key, value);
+      return true;
+    }),
+    incr: vi.fn(async (key: string) => {
+      const count = Number(redisStore.get(key) ?? 0) + 1;
+      redisStore.set(key, count);
+      return count;
+    }),
+    decr: vi.fn(async (key: string) => {
+      const count = Number(redisStore.get(key) ?? 0) - 1;
+      redisStore.set(key, count);
+      return count;
+    }),
+    del: vi.fn(async (...keys: string[]) => {
+      keys.forEach((key) => redisStore.delete(key));
+    }),
+    expire: vi.fn(async () => undefined),
+  };
+  return { default: cacheService, cacheService };
+});
+
+// Run after() tasks at once, as if the response had just been sent
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn((task: () => Promise<unknown>) => {
+    void task();
+  }),
+}));
+
+// Import after mocking
+import { getNewsConfig } from '@/lib/config/news';
+import { newsCache } from './cache';
+import { NewsService } from './service';
+import { NewsProviderError, NEWS_PROVIDER_ERROR_CODES, NEWS_PROVIDER_TIMEOUT_MS } from './providers';
+import {
+  newsBreaker,
+  getNewsProviderUsage,
+  NEWS_BREAKER_COOLDOWN_SECONDS,
+  NEWS_BREAKER_FAILURE_THRESHOLD,
+  NEWS_TRIAL_PREFIX,
+} from './breaker';
+import type { NewsProvider, NewsResponse } from './types';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+const NEXT_DAY = new Date('2026-10-20T00:00:00Z');
+
+const advance = (seconds: number) => vi.setSystemTime(Date.now() + seconds * 1000);
+
+/** Acquire, returning the refusal instead of throwing it */
+async function tryAcquire(quota?: number): Promise<NewsProviderError | null> {
+  try {
+    await newsBreaker.acquire('gnews', quota);
+    return null;
+  } catch (error) {
+    return error as NewsProviderError;
+  }
+}
+
+beforeEach(() => {
+  redisStore.clear();
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('daily quota', () => {
+  it('admits at most the quota of requests per UTC day', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 20 }), fc.integer({ min: 0, max: 30 }), async (quota, attempts) => {
+        redisStore.clear();
+        vi.setSystemTime(NOW);
+
+        const refusals = [];
+        for (let i = 0; i < attempts; i++) {
+          const refusal = await tryAcquire(quota);
+          if (refusal) refusals.push(refusal);
+          else await newsBreaker.recordSuccess('gnews');
+        }
+
+        expect(await newsBreaker.getRequestsToday('gnews')).toBe(Math.min(attempts, quota));
+        expect(refusals).toHaveLength(Math.max(0, attempts - quota));
+        for (const refusal of refusals) {
+          expect(refusal.isRateLimited()).toBe(true);
+          expect(refusal.retryAfter).toBe((NEXT_DAY.getTime() - NOW.getTime()) / 1000);
+        }
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('admits at most the quota of concurrent requests', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 20 }), fc.integer({ min: 0, max: 30 }), async (quota, attempts) => {
+        redisStore.clear();
+
+        const outcomes = await Promise.all(Array.from({ length: attempts }, () => tryAcquire(quota)));
+
+        expect(outcomes.filter((refusal) => refusal === null)).toHaveLength(Math.min(attempts, quota));
+        expect(await newsBreaker.getRequestsToday('gnews')).toBe(Math.min(attempts, quota));
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('starts counting again the next day', async () => {
+    await newsBreaker.acquire('gnews', 1);
+    await newsBreaker.recordSuccess('gnews');
+    expect(await tryAcquire(1)).not.toBeNull();
+
+    vi.setSystemTime(NEXT_DAY);
+
+    expect(await tryAcquire(1)).toBeNull();
+    expect(await newsBreaker.getRequestsToday('gnews')).toBe(1);
+  });
+});
+
+describe('newsBreaker', () => {
+  it('opens after consecutive failures and closes after a successful trial', async () => {
+    for (let i = 0; i < NEWS_BREAKER_FAILURE_THRESHOLD; i++) {
+      expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'closed', failures: i });
+      await newsBreaker.acquire('gnews');
+      await newsBreaker.recordFailure('gnews', new Error('Internal error'));
+    }
+
+    expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'open', reason: 'Internal error' });
+    expect(await tryAcquire()).toMatchObject({ retryAfter: NEWS_BREAKER_COOLDOWN_SECONDS });
+
+    advance(NEWS_BREAKER_COOLDOWN_SECONDS);
+    expect(await tryAcquire()).toBeNull();
+    expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'half-open' });
+    expect(await tryAcquire()).not.toBeNull();
+
+    await newsBreaker.recordSuccess('gnews');
+    expect(await newsBreaker.getRecord('gnews')).toEqual({ state: 'closed', failures: 0, retryAt: null, reason: null });
+  });
+
+  it('lets a single one of concurrent requests make the half-open trial', async () => {
+    await newsBreaker.recordFailure('gnews', new NewsProviderError('Slow down', NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED, 429));
+    advance(NEWS_BREAKER_COOLDOWN_SECONDS);
+
+    const outcomes = await Promise.all(Array.from({ length: 5 }, () => tryAcquire()));
+
+    expect(outcomes.filter((refusal) => refusal === null)).toHaveLength(1);
+    expect(await newsBreaker.getRequestsToday('gnews')).toBe(1);
+
+    // A trial that times out without settling makes way for another
+    advance(NEWS_PROVIDER_TIMEOUT_MS / 1000);
+    redisStore.delete(`${NEWS_TRIAL_PREFIX}:gnews`);
+    expect(await tryAcquire()).toBeNull();
+  });
+
+  it('resets the failure count on success', async () => {
+    await newsBreaker.recordFailure('gnews', new Error('Internal error'));
+    await newsBreaker.recordSuccess('gnews');
+    await newsBreaker.recordFailure('gnews', new Error('Internal error'));
+
+    expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  it('reopens when the trial fails', async () => {
+    await newsBreaker.recordFailure('gnews', new NewsProviderError('Slow down', NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED, 429));
+    advance(NEWS_BREAKER_COOLDOWN_SECONDS);
+    await newsBreaker.acquire('gnews');
+
+    await newsBreaker.recordFailure('gnews', new Error('Internal error'));
+
+    expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'open', failures: 2 });
+  });
+
+  it('opens for the Retry-After of a rate limit and until tomorrow when the key is exhausted', async () => {
+    await newsBreaker.recordFailure('gnews', new NewsProviderError('Slow down', NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED, 429, 600));
+    expect(await tryAcquire()).toMatchObject({ retryAfter: 600 });
+
+    await newsBreaker.recordFailure(
+      'gnews',
+      new NewsProviderError('Out of requests', NEWS_PROVIDER_ERROR_CODES.API_KEY_EXHAUSTED, 429)
+    );
+    expect(await newsBreaker.getRecord('gnews')).toMatchObject({ state: 'open', retryAt: NEXT_DAY.toISOString() });
+  });
+});
+
+describe('NewsService with an open breaker', () => {
+  it('serves stale cache without calling the provider', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fetchHeadlines = vi.fn();
+    const provider: NewsProvider = { id: 'gnews', isEnabled: () => true, fetchHeadlines, search: vi.fn() };
+    const service = new NewsService({ en: [provider] });
+    const options = { locale: 'en', category: 'science', page: 1, pageSize: 12 };
+    const stale: NewsResponse = { articles: [], totalResults: 0, page: 1, pageSize: 12, totalPages: 0 };
+
+    await newsCache.set(options, stale);
+    advance(getNewsConfig().cacheTTL);
+    await newsBreaker.recordFailure('gnews', new NewsProviderError('Slow down', NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED, 429, 600));
+
+    await expect(service.getNews(options)).resolves.toEqual(stale);
+    await expect(service.refresh(options)).rejects.toMatchObject({ code: NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED });
+    expect(fetchHeadlines).not.toHaveBeenCalled();
+  });
+});
+
+describe('getNewsProviderUsage', () => {
+  it("reports today's requests, quota and breaker state of configured providers", async () => {
+    vi.stubEnv('NEWS_PROVIDERS', 'newsapi,th:rss+gnews');
+    vi.stubEnv('GNEWS_DAILY_QUOTA', '250');
+    await newsBreaker.acquire('gnews', 250);
+    await newsBreaker.recordFailure('gnews', new Error('Internal error'));
+
+    const usage = await getNewsProviderUsage();
+
+    expect(usage).toEqual([
+      { provider: 'newsapi', requests: 0, quota: 100, breaker: expect.objectContaining({ state: 'closed' }) },
+      { provider: 'rss', requests: 0, quota: null, breaker: expect.objectContaining({ state: 'closed' }) },
+      { provider: 'gnews', requests: 1, quota: 250, breaker: expect.objectContaining({ state: 'closed', failures: 1 }) },
+    ]);
+  });
+});
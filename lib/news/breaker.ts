@@ -0,0 +1,231 @@
+/**
+ * News Provider Circuit Breaker Module
+ *
+ * Stops the news service from calling a provider that is failing, rate
+ * limited or out of quota. Each provider has a breaker persisted in Redis:
+ * - closed: requests pass, and consecutive failures are counted
+ * - open: requests are refused until `retryAt`, so pages fall back to stale cache
+ * - half-open: once `retryAt` passes, one trial request closes or reopens it
+ *
+ * Requests are counted per provider and UTC day against the configured daily
+ * quota; reaching the quota opens the breaker until the next day.
+ *
+ * Concurrent callers are decided by atomic Redis operations: the half-open
+ * trial is a key set with NX, and the quota check uses the count INCR
+ * returns.
+ */
+
+import cacheService from '@/lib/cache/redis';
+import { getNewsConfig, type NewsProviderId } from '@/lib/config/news';
+import { NewsProviderError, NEWS_PROVIDER_ERROR_CODES, NEWS_PROVIDER_TIMEOUT_MS } from './providers/base';
+
+/** Redis key prefix for breaker records */
+export const NEWS_BREAKER_PREFIX = 'news-breaker';
+
+/** Redis key prefix for daily request counters */
+export const NEWS_USAGE_PREFIX = 'news-usage';
+
+/** Redis key prefix for the lock held by a half-open trial request */
+export const NEWS_TRIAL_PREFIX = 'news-breaker-trial';
+
+/** Consecutive failures that open a closed breaker */
+export const NEWS_BREAKER_FAILURE_THRESHOLD = 3;
+
+/** Seconds a breaker stays open when the provider gives no Retry-After */
+export const NEWS_BREAKER_COOLDOWN_SECONDS = 60;
+
+/** Daily counters are kept a little longer than their day */
+const USAGE_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+export type NewsBreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Breaker state of a provider, as stored in Redis
+ */
+export interface NewsBreakerRecord {
+  state: NewsBreakerState;
+  /** Consecutive failed requests */
+  failures: number;
+  /** ISO time an open breaker allows a trial request, or a half-open trial times out */
+  retryAt: string | null;
+  /** Why the breaker last opened */
+  reason: string | null;
+}
+
+/**
+ * Today's requests and breaker state of a provider
+ */
+export interface NewsProviderUsage {
+  provider: NewsProviderId;
+  /** Requests sent today (UTC) */
+  requests: number;
+  /** Daily quota; null if unlimited */
+  quota: number | null;
+  breaker: NewsBreakerRecord;
+}
+
+const CLOSED: NewsBreakerRecord = { state: 'closed', failures: 0, retryAt: null, reason: null };
+
+function breakerKey(provider: NewsProviderId): string {
+  return `${NEWS_BREAKER_PREFIX}:${provider}`;
+}
+
+function trialKey(provider: NewsProviderId): string {
+  return `${NEWS_TRIAL_PREFIX}:${provider}`;
+}
+
+function usageKey(provider: NewsProviderId, now: Date): string {
+  return `${NEWS_USAGE_PREFIX}:${provider}:${now.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Start of the next UTC day, when daily quotas reset
+ */
+function nextUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function openRecord(reason: string, retryAt: Date, failures: number): NewsBreakerRecord {
+  return { state: 'open', failures, retryAt: retryAt.toISOString(), reason };
+}
+
+/**
+ * Rate limit error for a refused request, so callers fall back to stale cache
+ */
+function refusal(provider: NewsProviderId, record: NewsBreakerRecord, now: Date): NewsProviderError {
+  const retryAfter = Math.max(1, Math.ceil((new Date(record.retryAt ?? now).getTime() - now.getTime()) / 1000));
+  return new NewsProviderError(
+    `News provider ${provider} is paused until ${record.retryAt}: ${record.reason}`,
+    NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED,
+    undefined,
+    retryAfter,
+    provider
+  );
+}
+
+/**
+ * News Provider Circuit Breaker
+ */
+export const newsBreaker = {
+  /**
+   * Get a provider's breaker record; closed if none is stored
+   */
+  async getRecord(provider: NewsProviderId): Promise<NewsBreakerRecord> {
+    return (await cacheService.get<NewsBreakerRecord>(breakerKey(provider))) ?? CLOSED;
+  },
+
+  /**
+   * Store a provider's breaker record
+   */
+  async setRecord(provider: NewsProviderId, record: NewsBreakerRecord): Promise<void> {
+    await cacheService.set(breakerKey(provider), record);
+  },
+
+  /**
+   * Requests sent to a provider today (UTC)
+   */
+  async getRequestsToday(provider: NewsProviderId): Promise<number> {
+    return (await cacheService.get<number>(usageKey(provider, new Date()))) ?? 0;
+  },
+
+  /**
+   * Admit a request to a provider and count it against today's quota
+   *
+   * @throws NewsProviderError (rate limited) if the breaker is open, a
+   *   half-open trial is in flight, or the daily quota is used up
+   */
+  async acquire(provider: NewsProviderId, quota?: number): Promise<void> {
+    const now = new Date();
+    const record = await this.getRecord(provider);
+
+    if (record.state !== 'closed') {
+      if (record.retryAt && new Date(record.retryAt) > now) {
+        throw refusal(provider, record, now);
+      }
+
+      // Let one trial request through; others are refused until it settles
+      const trialEnds = new Date(now.getTime() + NEWS_PROVIDER_TIMEOUT_MS);
+      const trial: NewsBreakerRecord = { ...record, state: 'half-open', retryAt: trialEnds.toISOString() };
+      const isTrial = await cacheService.setIfAbsent(trialKey(provider), trial.retryAt, NEWS_PROVIDER_TIMEOUT_MS / 1000);
+      if (!isTrial) {
+        throw refusal(provider, trial, now);
+      }
+      await this.setRecord(provider, trial);
+    }
+
+    const key = usageKey(provider, now);
+    const requests = await cacheService.incr(key);
+    if (requests === 1) {
+      await cacheService.expire(key, USAGE_TTL_SECONDS);
+    }
+
+    if (quota !== undefined && requests > quota) {
+      // Give back the request that was refused, so the count stays at the quota
+      await cacheService.decr(key);
+      const opened = openRecord(`Daily quota of ${quota} requests reached`, nextUtcDay(now), record.failures);
+      await this.setRecord(provider, opened);
+      throw refusal(provider, opened, now);
+    }
+  },
+
+  /**
+   * Close the breaker after a successful request
+   */
+  async recordSuccess(provider: NewsProviderId): Promise<void> {
+    const record = await this.getRecord(provider);
+    if (record.state !== 'closed' || record.failures > 0) {
+      await this.setRecord(provider, CLOSED);
+    }
+    if (record.state === 'half-open') {
+      await cacheService.del(trialKey(provider));
+    }
+  },
+
+  /**
+   * Count a failed request, opening the breaker on a rate limit, after a
+   * failed trial, or after too many consecutive failures
+   */
+  async recordFailure(provider: NewsProviderId, error: unknown): Promise<void> {
+    const now = new Date();
+    const record = await this.getRecord(provider);
+    const failures = record.failures + 1;
+    const reason = error instanceof Error ? error.message : String(error);
+    const cooldownEnds = new Date(now.getTime() + NEWS_BREAKER_COOLDOWN_SECONDS * 1000);
+
+    let next: NewsBreakerRecord;
+    if (error instanceof NewsProviderError && error.code === NEWS_PROVIDER_ERROR_CODES.API_KEY_EXHAUSTED) {
+      next = openRecord(reason, nextUtcDay(now), failures);
+    } else if (error instanceof NewsProviderError && error.isRateLimited()) {
+      const retryAt = error.retryAfter ? new Date(now.getTime() + error.retryAfter * 1000) : cooldownEnds;
+      next = openRecord(reason, retryAt, failures);
+    } else if (record.state === 'half-open' || failures >= NEWS_BREAKER_FAILURE_THRESHOLD) {
+      next = openRecord(reason, cooldownEnds, failures);
+    } else {
+      next = { ...record, failures };
+    }
+
+    await this.setRecord(provider, next);
+    if (record.state === 'half-open') {
+      await cacheService.del(trialKey(provider));
+    }
+  },
+};
+
+/**
+ * Today's usage and breaker state of every provider configured for a locale
+ */
+export async function getNewsProviderUsage(): Promise<NewsProviderUsage[]> {
+  const config = getNewsConfig();
+  const providers = [...new Set(Object.values(config.providers).flat())];
+
+  return Promise.all(
+    providers.map(async (provider) => ({
+      provider,
+      requests: await newsBreaker.getRequestsToday(provider),
+      quota: config.dailyQuota[provider] ?? null,
+      breaker: await newsBreaker.getRecord(provider),
+    }))
+  );
+}
+
+export default newsBreaker;
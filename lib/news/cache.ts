@@ -3,6 +3,8 @@
  *
  * Provides caching layer for external news API responses using Upstash Redis.
  * Implements cache key generation, TTL management, and cache invalidation.
+ * Entries stay in Redis for the stale TTL after they expire, so an expired
+ * copy can be served while it is refreshed or when providers are rate limited.
  *
  * @requirements 5.1, 5.2, 5.3
  */
@@ -85,24 +87,36 @@ interface CachedNewsResponse {
     source: { id: string | null; name: string };
     publishedAt: string; // ISO string
     category?: string;
+    alsoCoveredBy?: Array<{ source: { id: string | null; name: string }; url: string }>;
   }>;
   totalResults: number;
   page: number;
   pageSize: number;
   totalPages: number;
+  expiresAt?: string; // ISO string; absent on entries written before stale caching
+}
+
+/**
+ * A cached response and when it expires
+ */
+export interface NewsCacheEntry {
+  response: NewsResponse;
+  /** When the entry goes stale; null if unknown */
+  expiresAt: Date | null;
 }
 
 /**
  * Serialize NewsResponse for cache storage
  * Converts Date objects to ISO strings
  */
-function serializeNewsResponse(response: NewsResponse): CachedNewsResponse {
+function serializeNewsResponse(response: NewsResponse, expiresAt: Date): CachedNewsResponse {
   return {
     ...response,
     articles: response.articles.map((article) => ({
       ...article,
       publishedAt: article.publishedAt.toISOString(),
     })),
+    expiresAt: expiresAt.toISOString(),
   };
 }
 
@@ -112,14 +126,35 @@ function serializeNewsResponse(response: NewsResponse): CachedNewsResponse {
  */
 function deserializeNewsResponse(cached: CachedNewsResponse): NewsResponse {
   return {
-    ...cached,
     articles: cached.articles.map((article) => ({
       ...article,
       publishedAt: new Date(article.publishedAt),
     })),
+    totalResults: cached.totalResults,
+    page: cached.page,
+    pageSize: cached.pageSize,
+    totalPages: cached.totalPages,
   };
 }
 
+/**
+ * Check if a cached response is past its TTL
+ */
+function isExpired(cached: CachedNewsResponse): boolean {
+  return cached.expiresAt !== undefined && new Date(cached.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Write a response under a key, keeping it for the stale TTL after it expires
+ */
+async function writeEntry(key: string, response: NewsResponse, ttlSeconds?: number): Promise<void> {
+  const config = getNewsConfig();
+  const ttl = ttlSeconds ?? config.cacheTTL;
+  const serialized = serializeNewsResponse(response, new Date(Date.now() + ttl * 1000));
+
+  await cacheService.set(key, serialized, ttl + config.staleTTL);
+}
+
 /**
  * News Cache Service
  *
@@ -137,7 +172,7 @@ export const newsCache = {
       const key = generateCacheKey(options);
       const cached = await cacheService.get<CachedNewsResponse>(key);
 
-      if (!cached) {
+      if (!cached || isExpired(cached)) {
         return null;
       }
 
@@ -149,10 +184,10 @@ export const newsCache = {
   },
 
   /**
-   * Get cached news response by key
+   * Get cached news response by key, even if it has expired
    *
    * @param key - Cache key
-   * @returns Cached response or null if not found/expired
+   * @returns Cached response or null if not found
    */
   async getByKey(key: string): Promise<NewsResponse | null> {
     try {
@@ -169,6 +204,30 @@ export const newsCache = {
     }
   },
 
+  /**
+   * Get a cached response with its expiry, even if it has expired
+   *
+   * @param options - Query options to look up
+   * @returns Cache entry or null if not found
+   */
+  async getEntry(options: NewsQueryOptions): Promise<NewsCacheEntry | null> {
+    try {
+      const cached = await cacheService.get<CachedNewsResponse>(generateCacheKey(options));
+
+      if (!cached) {
+        return null;
+      }
+
+      return {
+        response: deserializeNewsResponse(cached),
+        expiresAt: cached.expiresAt ? new Date(cached.expiresAt) : null,
+      };
+    } catch (error) {
+      console.error('News cache getEntry error:', error);
+      return null;
+    }
+  },
+
   /**
    * Store news response in cache
    *
@@ -182,11 +241,7 @@ export const newsCache = {
     ttlSeconds?: number
   ): Promise<void> {
     try {
-      const key = generateCacheKey(options);
-      const ttl = ttlSeconds ?? getNewsConfig().cacheTTL;
-      const serialized = serializeNewsResponse(response);
-
-      await cacheService.set(key, serialized, ttl);
+      await writeEntry(generateCacheKey(options), response, ttlSeconds);
     } catch (error) {
       console.error('News cache set error:', error);
     }
@@ -205,10 +260,7 @@ export const newsCache = {
     ttlSeconds?: number
   ): Promise<void> {
     try {
-      const ttl = ttlSeconds ?? getNewsConfig().cacheTTL;
-      const serialized = serializeNewsResponse(response);
-
-      await cacheService.set(key, serialized, ttl);
+      await writeEntry(key, response, ttlSeconds);
     } catch (error) {
       console.error('News cache setByKey error:', error);
     }
@@ -13,25 +13,89 @@ export type {
   NewsCategory,
   NewsQueryOptions,
   NewsResponse,
-  RawNewsArticle,
-  RawNewsAPIResponse,
-  HeadlinesParams,
-  EverythingParams,
-  NewsAPIError,
+  NewsCoverage,
+  NewsArchiveDay,
+  ExternalSearchResult,
+  NewsProvider,
+  NewsProviderQuery,
+  NewsProviderSearch,
+  NewsProviderResult,
 } from './types';
 
-export { NEWS_CATEGORY_LIST, isNewsAPIError } from './types';
+export { NEWS_CATEGORY_LIST } from './types';
 
-// Client
+// Providers
 export {
+  NewsProviderError,
+  NEWS_PROVIDER_ERROR_CODES,
+  generateArticleId,
+  createNewsProvider,
+  createNewsProviders,
   NewsAPIClient,
-  NewsAPIClientError,
-  NEWS_API_ERROR_CODES,
   createNewsAPIClient,
-  generateArticleId,
+  isNewsAPIError,
   transformRawArticle,
   transformRawArticles,
-} from './client';
+  GNewsProvider,
+  transformGNewsArticle,
+  RssFeedProvider,
+  parseFeed,
+} from './providers';
+
+export type {
+  RawNewsArticle,
+  RawNewsAPIResponse,
+  HeadlinesParams,
+  EverythingParams,
+  NewsAPIError,
+} from './providers';
+
+// Aggregation
+export {
+  aggregateArticles,
+  canonicalizeArticleUrl,
+  normalizeTitle,
+  titleSimilarity,
+  TITLE_SIMILARITY_THRESHOLD,
+} from './aggregate';
+
+// Archive
+export {
+  ingestExternalArticles,
+  storeExternalArticles,
+  getNewsArchiveDays,
+  getArchivedNews,
+  searchExternalArticles,
+  parseArchiveDate,
+  toNewsArticle,
+  NEWS_ARCHIVE_PAGE_SIZE,
+  EXTERNAL_SEARCH_LIMIT,
+} from './archive';
+
+// Cache warming
+export {
+  warmNewsCache,
+  getNewsWarmTargets,
+  getNewsWarmTTL,
+  NEWS_WARM_AHEAD_SECONDS,
+  NEWS_WARM_QUOTA_SHARE,
+  NEWS_WARM_PAUSE_KEY,
+} from './warm';
+
+export type { NewsWarmReport } from './warm';
+
+// Circuit breaker
+export {
+  newsBreaker,
+  getNewsProviderUsage,
+  NEWS_BREAKER_PREFIX,
+  NEWS_USAGE_PREFIX,
+  NEWS_TRIAL_PREFIX,
+  NEWS_BREAKER_FAILURE_THRESHOLD,
+  NEWS_BREAKER_COOLDOWN_SECONDS,
+} from './breaker';
+
+export type { NewsBreakerState, NewsBreakerRecord, NewsProviderUsage } from './breaker';
 
 // Cache
 export {
@@ -42,6 +106,8 @@ export {
   DEFAULT_NEWS_CACHE_TTL,
 } from './cache';
 
+export type { NewsCacheEntry } from './cache';
+
 // Service
 export {
   NewsService,
@@ -50,4 +116,9 @@ export {
   sortArticlesByDate,
   resolveLocale,
   isEmptyQuery,
+  NEWS_PAGE_SIZE,
+  NEWS_REVALIDATE_PREFIX,
+  NEWS_REVALIDATE_LOCK_SECONDS,
 } from './service';
+
+export type { NewsProviderMap } from './service';
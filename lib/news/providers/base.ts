@@ -0,0 +1,133 @@
+/**
+ * News Provider Base Module
+ *
+ * Error type, article ID generation and HTTP handling shared by all news
+ * provider adapters.
+ *
+ * @requirements 4.2, 8.1
+ */
+
+import type { NewsProviderId } from '@/lib/config/news';
+
+/**
+ * Provider-neutral error codes (NewsAPI.org's codes, which the other
+ * adapters map onto)
+ */
+export const NEWS_PROVIDER_ERROR_CODES = {
+  API_KEY_INVALID: 'apiKeyInvalid',
+  API_KEY_EXHAUSTED: 'apiKeyExhausted',
+  API_KEY_MISSING: 'apiKeyMissing',
+  API_KEY_DISABLED: 'apiKeyDisabled',
+  PARAMETERS_MISSING: 'parametersMissing',
+  PARAMETERS_INCOMPATIBLE: 'parametersIncompatible',
+  RATE_LIMITED: 'rateLimited',
+  SOURCES_TOO_MANY: 'sourcesTooMany',
+  SOURCE_DOES_NOT_EXIST: 'sourceDoesNotExist',
+  INVALID_RESPONSE: 'invalidResponse',
+  UNEXPECTED_ERROR: 'unexpectedError',
+} as const;
+
+/** Requests to a provider are aborted after this long */
+export const NEWS_PROVIDER_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Custom error class for news provider errors
+ */
+export class NewsProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly statusCode?: number,
+    public readonly retryAfter?: number,
+    public readonly provider?: NewsProviderId
+  ) {
+    super(message);
+    this.name = 'NewsProviderError';
+  }
+
+  /**
+   * Check if this is a rate limit error
+   */
+  isRateLimited(): boolean {
+    return (
+      this.code === NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED ||
+      this.code === NEWS_PROVIDER_ERROR_CODES.API_KEY_EXHAUSTED ||
+      this.statusCode === 429
+    );
+  }
+
+  /**
+   * Check if this is an authentication error
+   */
+  isAuthError(): boolean {
+    return (
+      this.code === NEWS_PROVIDER_ERROR_CODES.API_KEY_INVALID ||
+      this.code === NEWS_PROVIDER_ERROR_CODES.API_KEY_MISSING ||
+      this.code === NEWS_PROVIDER_ERROR_CODES.API_KEY_DISABLED ||
+      this.statusCode === 401
+    );
+  }
+}
+
+/**
+ * Generate a unique ID from article URL
+ * Uses a simple hash function for consistent ID generation
+ */
+export function generateArticleId(url: string): string {
+  let hash = 0;
+  for (let i = 0; i < url.length; i++) {
+    const char = url.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * Hostname of a URL, used as the source ID by adapters whose sources have none
+ */
+export function hostnameOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Seconds from a Retry-After header, if present
+ */
+export function getRetryAfter(response: Response): number | undefined {
+  const retryAfter = response.headers.get('Retry-After');
+  const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  return isNaN(seconds) ? undefined : seconds;
+}
+
+/**
+ * GET a provider URL, turning network failures and timeouts into
+ * NewsProviderError. HTTP error statuses are left to the adapter, since
+ * each provider reports them differently.
+ */
+export async function fetchFromProvider(
+  provider: NewsProviderId,
+  url: string,
+  accept: string
+): Promise<Response> {
+  try {
+    return await fetch(url, {
+      method: 'GET',
+      headers: { Accept: accept },
+      signal: AbortSignal.timeout(NEWS_PROVIDER_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    throw new NewsProviderError(
+      timedOut ? `Request to ${provider} timed out` : `Network error: Unable to reach ${provider}`,
+      NEWS_PROVIDER_ERROR_CODES.UNEXPECTED_ERROR,
+      undefined,
+      undefined,
+      provider
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * GNews Provider
+ *
+ * Fetches top headlines and searches articles from a GNews-style v4 API
+ * (`/top-headlines` and `/search`, `apikey`, `lang`, `max` and `page`
+ * parameters, `{ totalArticles, articles }` responses).
+ */
+
+import { getNewsConfig, getNewsFallbackLocale } from '@/lib/config/news';
+import type {
+  NewsArticle,
+  NewsProvider,
+  NewsProviderQuery,
+  NewsProviderResult,
+  NewsProviderSearch,
+} from '../types';
+import {
+  NewsProviderError,
+  NEWS_PROVIDER_ERROR_CODES,
+  fetchFromProvider,
+  generateArticleId,
+  getRetryAfter,
+  hostnameOf,
+} from './base';
+
+/**
+ * Raw article from a GNews response
+ */
+export interface RawGNewsArticle {
+  title: string;
+  description: string | null;
+  content: string | null;
+  url: string;
+  image: string | null;
+  publishedAt: string;
+  source: {
+    name: string;
+    url?: string;
+  };
+}
+
+/**
+ * Raw response from GNews
+ */
+export interface RawGNewsResponse {
+  totalArticles: number;
+  articles: RawGNewsArticle[];
+}
+
+/** Languages GNews accepts for `lang`; others fall back to English */
+const GNEWS_LANGUAGES = new Set([
+  'ar', 'de', 'el', 'en', 'es', 'fr', 'he', 'hi', 'it', 'ja', 'ml', 'mr',
+  'nl', 'no', 'pt', 'ro', 'ru', 'sv', 'ta', 'te', 'uk', 'zh',
+]);
+
+/**
+ * HTTP statuses GNews uses for errors, mapped to provider error codes.
+ * GNews answers 403 once the daily request quota is used up.
+ */
+const GNEWS_STATUS_CODES: Record<number, string> = {
+  400: NEWS_PROVIDER_ERROR_CODES.PARAMETERS_INCOMPATIBLE,
+  401: NEWS_PROVIDER_ERROR_CODES.API_KEY_INVALID,
+  403: NEWS_PROVIDER_ERROR_CODES.API_KEY_EXHAUSTED,
+  429: NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED,
+};
+
+/**
+ * Transform a raw GNews article to our NewsArticle format
+ */
+export function transformGNewsArticle(raw: RawGNewsArticle, category?: string): NewsArticle {
+  return {
+    id: generateArticleId(raw.url),
+    title: raw.title,
+    description: raw.description || null,
+    content: raw.content || null,
+    url: raw.url,
+    imageUrl: raw.image || null,
+    source: {
+      id: hostnameOf(raw.source.url),
+      name: raw.source.name,
+    },
+    publishedAt: new Date(raw.publishedAt),
+    category,
+  };
+}
+
+/**
+ * GNews client options; read from getNewsConfig() when omitted
+ */
+export interface GNewsProviderOptions {
+  apiKey: string;
+  baseUrl: string;
+}
+
+/**
+ * GNews Provider
+ */
+export class GNewsProvider implements NewsProvider {
+  readonly id = 'gnews' as const;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(options?: GNewsProviderOptions) {
+    const { apiKey, apiBaseUrl } = options
+      ? { apiKey: options.apiKey, apiBaseUrl: options.baseUrl }
+      : getNewsConfig().gnews;
+    this.apiKey = apiKey;
+    this.baseUrl = apiBaseUrl;
+  }
+
+  /**
+   * Check if the provider is configured; GNews serves every locale
+   */
+  isEnabled(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  /**
+   * Make a request to the GNews API
+   */
+  private async request(
+    endpoint: string,
+    params: Record<string, string | number | undefined>
+  ): Promise<RawGNewsResponse> {
+    if (!this.isEnabled()) {
+      throw new NewsProviderError(
+        'GNews is not configured. Set GNEWS_API_KEY environment variable.',
+        NEWS_PROVIDER_ERROR_CODES.API_KEY_MISSING,
+        undefined,
+        undefined,
+        this.id
+      );
+    }
+
+    const url = new URL(`${this.baseUrl}${endpoint}`);
+    url.searchParams.set('apikey', this.apiKey);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const response = await fetchFromProvider(this.id, url.toString(), 'application/json');
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      // Errors come as { errors: string[] } or { errors: { field: message } }
+      const errors = data?.errors ? Object.values(data.errors as Record<string, string>) : [];
+      throw new NewsProviderError(
+        errors[0] || `HTTP ${response.status}`,
+        GNEWS_STATUS_CODES[response.status] ?? NEWS_PROVIDER_ERROR_CODES.UNEXPECTED_ERROR,
+        response.status,
+        getRetryAfter(response),
+        this.id
+      );
+    }
+
+    if (!data || !Array.isArray(data.articles)) {
+      throw new NewsProviderError(
+        'Invalid response from GNews',
+        NEWS_PROVIDER_ERROR_CODES.INVALID_RESPONSE,
+        response.status,
+        undefined,
+        this.id
+      );
+    }
+
+    return data as RawGNewsResponse;
+  }
+
+  private toResult(response: RawGNewsResponse, category?: string): NewsProviderResult {
+    return {
+      articles: response.articles
+        .filter((article) => article.title && article.url)
+        .map((article) => transformGNewsArticle(article, category)),
+      totalResults: response.totalArticles,
+    };
+  }
+
+  /**
+   * Top headlines in the locale's language
+   */
+  async fetchHeadlines({ locale, category, page, pageSize }: NewsProviderQuery): Promise<NewsProviderResult> {
+    const response = await this.request('/top-headlines', {
+      category: category ?? 'general',
+      lang: GNEWS_LANGUAGES.has(locale) ? locale : getNewsFallbackLocale(),
+      max: pageSize,
+      page,
+    });
+    return this.toResult(response, category);
+  }
+
+  /**
+   * Search in the locale's language, newest first
+   */
+  async search({ locale, query, page, pageSize }: NewsProviderSearch): Promise<NewsProviderResult> {
+    const response = await this.request('/search', {
+      q: query,
+      lang: GNEWS_LANGUAGES.has(locale) ? locale : getNewsFallbackLocale(),
+      max: pageSize,
+      page,
+      sortby: 'publishedAt',
+    });
+    return this.toResult(response);
+  }
+}
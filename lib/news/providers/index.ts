@@ -0,0 +1,68 @@
+/**
+ * News Providers
+ *
+ * Adapters for the external news sources, and the factory that builds the
+ * providers each locale is configured to use.
+ */
+
+import { getNewsConfig, type NewsConfig, type NewsLocale, type NewsProviderId } from '@/lib/config/news';
+import type { NewsProvider } from '../types';
+import { NewsAPIClient } from './newsapi';
+import { GNewsProvider } from './gnews';
+import { RssFeedProvider } from './rss';
+
+export {
+  NewsProviderError,
+  NEWS_PROVIDER_ERROR_CODES,
+  NEWS_PROVIDER_TIMEOUT_MS,
+  generateArticleId,
+} from './base';
+export {
+  NewsAPIClient,
+  createNewsAPIClient,
+  isNewsAPIError,
+  transformRawArticle,
+  transformRawArticles,
+} from './newsapi';
+export type {
+  NewsAPIClientOptions,
+  RawNewsArticle,
+  RawNewsAPIResponse,
+  HeadlinesParams,
+  EverythingParams,
+  NewsAPIError,
+} from './newsapi';
+export { GNewsProvider, transformGNewsArticle } from './gnews';
+export type { GNewsProviderOptions, RawGNewsArticle, RawGNewsResponse } from './gnews';
+export { RssFeedProvider, parseFeed } from './rss';
+export type { RssFeedProviderOptions, FeedArticle } from './rss';
+
+/**
+ * Create the adapter for a provider from news configuration
+ */
+export function createNewsProvider(id: NewsProviderId, config: NewsConfig = getNewsConfig()): NewsProvider {
+  switch (id) {
+    case 'newsapi':
+      return new NewsAPIClient({ apiKey: config.apiKey, baseUrl: config.apiBaseUrl });
+    case 'gnews':
+      return new GNewsProvider({ apiKey: config.gnews.apiKey, baseUrl: config.gnews.apiBaseUrl });
+    case 'rss':
+      return new RssFeedProvider({ feeds: config.rssFeeds });
+  }
+}
+
+/**
+ * Create the providers configured for each locale. A provider used by
+ * several locales is shared between them.
+ */
+export function createNewsProviders(config: NewsConfig = getNewsConfig()): Record<NewsLocale, NewsProvider[]> {
+  const instances = new Map<NewsProviderId, NewsProvider>();
+  const providerFor = (id: NewsProviderId) => {
+    if (!instances.has(id)) instances.set(id, createNewsProvider(id, config));
+    return instances.get(id)!;
+  };
+
+  return Object.fromEntries(
+    Object.entries(config.providers).map(([locale, ids]) => [locale, ids.map(providerFor)])
+  ) as Record<NewsLocale, NewsProvider[]>;
+}
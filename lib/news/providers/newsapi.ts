@@ -1,8 +1,8 @@
 /**
- * NewsAPI Client Module
+ * NewsAPI.org Provider
  *
- * Handles communication with the external NewsAPI.org service.
- * Implements fetching headlines and search, error handling, and rate limit management.
+ * Fetches top headlines by country and category, and searches all articles
+ * by language, from the NewsAPI.org v2 API.
  *
  * @requirements 4.1, 4.2, 4.3, 8.1
  */
@@ -10,80 +10,94 @@
 import { getNewsConfig, isSupportedNewsLocale, getNewsFallbackLocale } from '@/lib/config/news';
 import type {
   NewsArticle,
-  RawNewsAPIResponse,
-  RawNewsArticle,
-  HeadlinesParams,
-  EverythingParams,
-} from './types';
-import { isNewsAPIError } from './types';
+  NewsProvider,
+  NewsProviderQuery,
+  NewsProviderResult,
+  NewsProviderSearch,
+} from '../types';
+import {
+  NewsProviderError,
+  NEWS_PROVIDER_ERROR_CODES,
+  fetchFromProvider,
+  generateArticleId,
+  getRetryAfter,
+} from './base';
 
 /**
- * Error codes from NewsAPI
+ * Raw article from NewsAPI response
  */
-export const NEWS_API_ERROR_CODES = {
-  API_KEY_INVALID: 'apiKeyInvalid',
-  API_KEY_EXHAUSTED: 'apiKeyExhausted',
-  API_KEY_MISSING: 'apiKeyMissing',
-  API_KEY_DISABLED: 'apiKeyDisabled',
-  PARAMETERS_MISSING: 'parametersMissing',
-  PARAMETERS_INCOMPATIBLE: 'parametersIncompatible',
-  RATE_LIMITED: 'rateLimited',
-  SOURCES_TOO_MANY: 'sourcesTooMany',
-  SOURCE_DOES_NOT_EXIST: 'sourceDoesNotExist',
-  UNEXPECTED_ERROR: 'unexpectedError',
-} as const;
+export interface RawNewsArticle {
+  source: {
+    id: string | null;
+    name: string;
+  };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string;
+  content: string | null;
+}
 
 /**
- * Custom error class for NewsAPI errors
+ * Raw response from NewsAPI
  */
-export class NewsAPIClientError extends Error {
-  constructor(
-    message: string,
-    public readonly code: string,
-    public readonly statusCode?: number,
-    public readonly retryAfter?: number
-  ) {
-    super(message);
-    this.name = 'NewsAPIClientError';
-  }
+export interface RawNewsAPIResponse {
+  status: string;
+  totalResults: number;
+  articles: RawNewsArticle[];
+  code?: string;
+  message?: string;
+}
 
-  /**
-   * Check if this is a rate limit error
-   */
-  isRateLimited(): boolean {
-    return (
-      this.code === NEWS_API_ERROR_CODES.RATE_LIMITED ||
-      this.code === NEWS_API_ERROR_CODES.API_KEY_EXHAUSTED ||
-      this.statusCode === 429
-    );
-  }
+/**
+ * Parameters for top headlines endpoint
+ */
+export interface HeadlinesParams {
+  /** Country code (e.g., 'us', 'gb') */
+  country?: string;
+  /** News category */
+  category?: string;
+  /** Number of results per page */
+  pageSize?: number;
+  /** Page number */
+  page?: number;
+}
 
-  /**
-   * Check if this is an authentication error
-   */
-  isAuthError(): boolean {
-    return (
-      this.code === NEWS_API_ERROR_CODES.API_KEY_INVALID ||
-      this.code === NEWS_API_ERROR_CODES.API_KEY_MISSING ||
-      this.code === NEWS_API_ERROR_CODES.API_KEY_DISABLED ||
-      this.statusCode === 401
-    );
-  }
+/**
+ * Parameters for everything endpoint
+ */
+export interface EverythingParams {
+  /** Search query (required) */
+  q: string;
+  /** Language code (e.g., 'en', 'es') */
+  language?: string;
+  /** Number of results per page */
+  pageSize?: number;
+  /** Page number */
+  page?: number;
 }
 
+/**
+ * News API error response
+ */
+export interface NewsAPIError {
+  status: 'error';
+  code: string;
+  message: string;
+}
 
 /**
- * Generate a unique ID from article URL
- * Uses a simple hash function for consistent ID generation
+ * Check if response is an error
  */
-export function generateArticleId(url: string): string {
-  let hash = 0;
-  for (let i = 0; i < url.length; i++) {
-    const char = url.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString(36);
+export function isNewsAPIError(response: unknown): response is NewsAPIError {
+  return (
+    typeof response === 'object' &&
+    response !== null &&
+    'status' in response &&
+    (response as NewsAPIError).status === 'error'
+  );
 }
 
 /**
@@ -148,6 +162,13 @@ function localeToLanguage(locale: string): string {
   return getNewsFallbackLocale();
 }
 
+/**
+ * NewsAPI.org client options; read from getNewsConfig() when omitted
+ */
+export interface NewsAPIClientOptions {
+  apiKey: string;
+  baseUrl: string;
+}
 
 /**
  * NewsAPI Client
@@ -155,23 +176,27 @@ function localeToLanguage(locale: string): string {
  * Handles all communication with the NewsAPI.org service.
  * Supports fetching top headlines by category and searching all articles.
  */
-export class NewsAPIClient {
+export class NewsAPIClient implements NewsProvider {
+  readonly id = 'newsapi' as const;
   private readonly apiKey: string;
   private readonly baseUrl: string;
-  private readonly enabled: boolean;
 
-  constructor() {
-    const config = getNewsConfig();
-    this.apiKey = config.apiKey;
-    this.baseUrl = config.apiBaseUrl;
-    this.enabled = config.enabled;
+  constructor(options?: NewsAPIClientOptions) {
+    if (options) {
+      this.apiKey = options.apiKey;
+      this.baseUrl = options.baseUrl;
+    } else {
+      const config = getNewsConfig();
+      this.apiKey = config.apiKey;
+      this.baseUrl = config.apiBaseUrl;
+    }
   }
 
   /**
-   * Check if the client is enabled and configured
+   * Check if the client is configured; NewsAPI serves every locale
    */
   isEnabled(): boolean {
-    return this.enabled && this.apiKey.length > 0;
+    return this.apiKey.length > 0;
   }
 
   /**
@@ -182,9 +207,12 @@ export class NewsAPIClient {
     params: Record<string, string | number | undefined>
   ): Promise<T> {
     if (!this.isEnabled()) {
-      throw new NewsAPIClientError(
+      throw new NewsProviderError(
         'News API is not configured. Set NEWS_API_KEY environment variable.',
-        NEWS_API_ERROR_CODES.API_KEY_MISSING
+        NEWS_PROVIDER_ERROR_CODES.API_KEY_MISSING,
+        undefined,
+        undefined,
+        this.id
       );
     }
 
@@ -198,56 +226,34 @@ export class NewsAPIClient {
       }
     }
 
-    try {
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
-
-      // Extract retry-after header for rate limiting
-      const retryAfter = response.headers.get('Retry-After');
-      const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
-
-      const data = await response.json();
-
-      // Handle error responses
-      if (!response.ok || isNewsAPIError(data)) {
-        const errorCode = data.code || NEWS_API_ERROR_CODES.UNEXPECTED_ERROR;
-        const errorMessage = data.message || `HTTP ${response.status}`;
-
-        throw new NewsAPIClientError(
-          errorMessage,
-          errorCode,
-          response.status,
-          retryAfterSeconds
-        );
-      }
-
-      return data as T;
-    } catch (error) {
-      // Re-throw NewsAPIClientError
-      if (error instanceof NewsAPIClientError) {
-        throw error;
-      }
+    const response = await fetchFromProvider(this.id, url.toString(), 'application/json');
 
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NewsAPIClientError(
-          'Network error: Unable to reach News API',
-          NEWS_API_ERROR_CODES.UNEXPECTED_ERROR
-        );
-      }
+    let data: RawNewsAPIResponse;
+    try {
+      data = await response.json();
+    } catch {
+      throw new NewsProviderError(
+        `Invalid response from News API (HTTP ${response.status})`,
+        NEWS_PROVIDER_ERROR_CODES.INVALID_RESPONSE,
+        response.status,
+        getRetryAfter(response),
+        this.id
+      );
+    }
 
-      // Handle other errors
-      throw new NewsAPIClientError(
-        error instanceof Error ? error.message : 'Unknown error',
-        NEWS_API_ERROR_CODES.UNEXPECTED_ERROR
+    // Handle error responses
+    if (!response.ok || isNewsAPIError(data)) {
+      throw new NewsProviderError(
+        data.message || `HTTP ${response.status}`,
+        data.code || NEWS_PROVIDER_ERROR_CODES.UNEXPECTED_ERROR,
+        response.status,
+        getRetryAfter(response),
+        this.id
       );
     }
-  }
 
+    return data as T;
+  }
 
   /**
    * Fetch top headlines by category
@@ -262,7 +268,7 @@ export class NewsAPIClient {
   async fetchTopHeadlines(
     params: HeadlinesParams,
     locale: string = 'en'
-  ): Promise<{ articles: NewsArticle[]; totalResults: number }> {
+  ): Promise<NewsProviderResult> {
     // Determine country from locale
     const country = params.country || localeToCountry(
       isSupportedNewsLocale(locale) ? locale : getNewsFallbackLocale()
@@ -294,7 +300,7 @@ export class NewsAPIClient {
   async fetchEverything(
     params: EverythingParams,
     locale: string = 'en'
-  ): Promise<{ articles: NewsArticle[]; totalResults: number }> {
+  ): Promise<NewsProviderResult> {
     // Determine language from locale
     const language = params.language || localeToLanguage(
       isSupportedNewsLocale(locale) ? locale : getNewsFallbackLocale()
@@ -313,11 +319,25 @@ export class NewsAPIClient {
       totalResults: response.totalResults,
     };
   }
+
+  /**
+   * NewsProvider: top headlines for the locale's country
+   */
+  async fetchHeadlines({ locale, category, page, pageSize }: NewsProviderQuery): Promise<NewsProviderResult> {
+    return this.fetchTopHeadlines({ category, page, pageSize }, locale);
+  }
+
+  /**
+   * NewsProvider: search in the locale's language
+   */
+  async search({ locale, query, page, pageSize }: NewsProviderSearch): Promise<NewsProviderResult> {
+    return this.fetchEverything({ q: query, page, pageSize }, locale);
+  }
 }
 
 /**
  * Create a new NewsAPI client instance
  */
-export function createNewsAPIClient(): NewsAPIClient {
-  return new NewsAPIClient();
+export function createNewsAPIClient(options?: NewsAPIClientOptions): NewsAPIClient {
+  return new NewsAPIClient(options);
 }
@@ -0,0 +1,387 @@
+// @vitest-environment node
+/**
+ * Tests for news provider adapters
+ *
+ * Every adapter is exercised against a local HTTP server serving fixture
+ * responses, so request building, parsing and error mapping are tested
+ * end to end without reaching the real services.
+ *
+ * Property: Each provider SHALL return well-formed articles newest first,
+ * and the news service SHALL merge providers so that one failing source
+ * does not take down the page.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+vi.mock('../cache', () => ({
+  generateCacheKey: vi.fn(() => 'news:test'),
+  newsCache: {
+    get: vi.fn(async () => null),
+    set: vi.fn(async () => undefined),
+    getByKey: vi.fn(async () => null),
+    getEntry: vi.fn(async () => null),
+  },
+}));
+
+vi.mock('../breaker', () => ({
+  newsBreaker: {
+    acquire: vi.fn(async () => undefined),
+    recordSuccess: vi.fn(async () => undefined),
+    recordFailure: vi.fn(async () => undefined),
+  },
+}));
+
+// Import after mocking
+import { newsCache } from '../cache';
+import { NewsService } from '../service';
+import { NewsAPIClient } from './newsapi';
+import { GNewsProvider } from './gnews';
+import { RssFeedProvider } from './rss';
+import { NewsProviderError, NEWS_PROVIDER_ERROR_CODES } from './base';
+import type { NewsResponse } from '../types';
+
+type Fixture = { status?: number; type?: string; headers?: Record<string, string>; body: string };
+
+const routes = new Map<string, Fixture>();
+const requests: URL[] = [];
+let server: Server;
+let origin: string;
+
+const json = (body: unknown, status = 200, headers?: Record<string, string>): Fixture => ({
+  status,
+  headers,
+  type: 'application/json',
+  body: JSON.stringify(body),
+});
+const xml = (body: string): Fixture => ({ type: 'application/rss+xml', body });
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    requests.push(url);
+    const fixture = routes.get(url.pathname);
+    if (!fixture) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(fixture.status ?? 200, { 'Content-Type': fixture.type ?? 'text/plain', ...fixture.headers });
+    res.end(fixture.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes.clear();
+  requests.length = 0;
+  vi.clearAllMocks();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>ข่าวไทย &amp; World</title>
+    <link>https://thai.example</link>
+    <item>
+      <title>Older story</title>
+      <link>https://thai.example/older</link>
+      <description><![CDATA[<p>Rice <b>prices</b> rise&nbsp;again</p><img src="https://thai.example/inline.jpg">]]></description>
+      <pubDate>Mon, 05 Oct 2026 08:00:00 GMT</pubDate>
+      <category>Business</category>
+    </item>
+    <item>
+      <title>Newer story</title>
+      <link>https://thai.example/newer</link>
+      <description>Election results &#8212; live</description>
+      <pubDate>Tue, 06 Oct 2026 08:00:00 GMT</pubDate>
+      <media:content url="https://thai.example/newer.jpg" medium="image" />
+      <category>Politics</category>
+    </item>
+    <item>
+      <title>Undated story</title>
+      <link>https://thai.example/undated</link>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text">Tech Wire</title>
+  <entry>
+    <title>Chip launch</title>
+    <link rel="self" href="https://tech.example/api/1" />
+    <link rel="alternate" href="https://tech.example/chip" />
+    <summary type="html">&lt;p&gt;A new chip&lt;/p&gt;</summary>
+    <updated>2026-10-07T10:00:00Z</updated>
+    <category term="Technology" />
+  </entry>
+  <entry>
+    <title>Older story</title>
+    <link href="https://thai.example/older" />
+    <published>2026-10-05T08:00:00Z</published>
+  </entry>
+</feed>`;
+
+const HEADLINES = [
+  'Markets rally after surprise rate cut',
+  'Storm closes schools across the north',
+  'City council approves new tram line',
+  'Researchers map ancient river delta',
+];
+
+const newsApiArticle = (n: number, publishedAt: string) => ({
+  source: { id: null, name: 'Wire' },
+  author: null,
+  title: HEADLINES[n - 1],
+  description: null,
+  url: `https://wire.example/${n}`,
+  urlToImage: null,
+  publishedAt,
+  content: null,
+});
+
+const gnewsArticle = (n: number, publishedAt: string) => ({
+  title: HEADLINES[n + 1],
+  description: 'Summary',
+  content: null,
+  url: `https://gnews.example/${n}`,
+  image: 'https://gnews.example/image.jpg',
+  publishedAt,
+  source: { name: 'G Source', url: 'https://www.gsource.example' },
+});
+
+describe('NewsAPIClient', () => {
+  it('requests headlines for the locale country and transforms articles', async () => {
+    routes.set('/newsapi/top-headlines', json({
+      status: 'ok',
+      totalResults: 1,
+      articles: [newsApiArticle(1, '2026-10-06T08:00:00Z'), { ...newsApiArticle(2, '2026-10-06T08:00:00Z'), title: '' }],
+    }));
+    const client = new NewsAPIClient({ apiKey: 'key', baseUrl: `${origin}/newsapi` });
+
+    const result = await client.fetchHeadlines({ locale: 'th', category: 'business', page: 2, pageSize: 5 });
+
+    expect(requests[0].searchParams.get('country')).toBe('th');
+    expect(requests[0].searchParams.get('category')).toBe('business');
+    expect(requests[0].searchParams.get('page')).toBe('2');
+    expect(result.totalResults).toBe(1);
+    expect(result.articles).toHaveLength(1);
+    expect(result.articles[0]).toMatchObject({ title: HEADLINES[0], category: 'business' });
+  });
+
+  it('maps NewsAPI error bodies to provider errors', async () => {
+    routes.set('/newsapi/everything', json(
+      { status: 'error', code: 'rateLimited', message: 'Too many requests' },
+      429,
+      { 'Retry-After': '60' }
+    ));
+    const client = new NewsAPIClient({ apiKey: 'key', baseUrl: `${origin}/newsapi` });
+
+    const error = await client.search({ locale: 'en', query: 'x', page: 1, pageSize: 5 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NewsProviderError);
+    expect(error).toMatchObject({ code: 'rateLimited', statusCode: 429, retryAfter: 60, provider: 'newsapi' });
+    expect(error.isRateLimited()).toBe(true);
+  });
+
+  it('is disabled without an API key', () => {
+    expect(new NewsAPIClient({ apiKey: '', baseUrl: origin }).isEnabled()).toBe(false);
+  });
+});
+
+describe('GNewsProvider', () => {
+  it('searches in a supported language and falls back to English otherwise', async () => {
+    routes.set('/gnews/search', json({ totalArticles: 40, articles: [gnewsArticle(1, '2026-10-06T08:00:00Z')] }));
+    const provider = new GNewsProvider({ apiKey: 'key', baseUrl: `${origin}/gnews` });
+
+    const result = await provider.search({ locale: 'fr', query: 'climat', page: 1, pageSize: 10 });
+    await provider.search({ locale: 'th', query: 'climat', page: 1, pageSize: 10 });
+
+    expect(requests[0].searchParams.get('lang')).toBe('fr');
+    expect(requests[0].searchParams.get('q')).toBe('climat');
+    expect(requests[0].searchParams.get('apikey')).toBe('key');
+    expect(requests[1].searchParams.get('lang')).toBe('en');
+    expect(result.totalResults).toBe(40);
+    expect(result.articles[0]).toMatchObject({
+      title: HEADLINES[2],
+      imageUrl: 'https://gnews.example/image.jpg',
+      source: { id: 'www.gsource.example', name: 'G Source' },
+    });
+  });
+
+  it('treats an exhausted daily quota as rate limiting', async () => {
+    routes.set('/gnews/top-headlines', json({ errors: ['You have reached your request limit for today'] }, 403));
+    const provider = new GNewsProvider({ apiKey: 'key', baseUrl: `${origin}/gnews` });
+
+    const error = await provider.fetchHeadlines({ locale: 'en', page: 1, pageSize: 10 }).catch((e) => e);
+
+    expect(error).toMatchObject({
+      message: 'You have reached your request limit for today',
+      code: NEWS_PROVIDER_ERROR_CODES.API_KEY_EXHAUSTED,
+      provider: 'gnews',
+    });
+    expect(error.isRateLimited()).toBe(true);
+    expect(requests[0].searchParams.get('category')).toBe('general');
+  });
+});
+
+describe('RssFeedProvider', () => {
+  const feeds = () => ({
+    th: [{ url: `${origin}/feeds/thai.xml` }, { url: `${origin}/feeds/atom.xml` }],
+    en: [{ url: `${origin}/feeds/atom.xml`, category: 'technology' }],
+  });
+
+  beforeEach(() => {
+    routes.set('/feeds/thai.xml', xml(RSS_FEED));
+    routes.set('/feeds/atom.xml', { type: 'application/atom+xml', body: ATOM_FEED });
+  });
+
+  it('merges RSS and Atom feeds newest first without repeated links', async () => {
+    const provider = new RssFeedProvider({ feeds: feeds() });
+
+    const result = await provider.fetchHeadlines({ locale: 'th', page: 1, pageSize: 10 });
+
+    expect(result.totalResults).toBe(3);
+    expect(result.articles.map((a) => a.url)).toEqual([
+      'https://tech.example/chip',
+      'https://thai.example/newer',
+      'https://thai.example/older',
+    ]);
+    expect(result.articles[0]).toMatchObject({ description: 'A new chip', source: { name: 'Tech Wire', id: '127.0.0.1' } });
+    expect(result.articles[1]).toMatchObject({
+      description: 'Election results — live',
+      imageUrl: 'https://thai.example/newer.jpg',
+      source: { name: 'ข่าวไทย & World' },
+    });
+    expect(result.articles[2]).toMatchObject({ description: 'Rice prices rise again', imageUrl: 'https://thai.example/inline.jpg' });
+    expect(result.articles[2]).not.toHaveProperty('tags');
+  });
+
+  it('filters general feeds by item category and uses category feeds as a whole', async () => {
+    const provider = new RssFeedProvider({ feeds: feeds() });
+
+    const thai = await provider.fetchHeadlines({ locale: 'th', category: 'business', page: 1, pageSize: 10 });
+    const english = await provider.fetchHeadlines({ locale: 'en', category: 'technology', page: 1, pageSize: 10 });
+
+    expect(thai.articles.map((a) => [a.url, a.category])).toEqual([['https://thai.example/older', 'business']]);
+    expect(english.articles.map((a) => a.category)).toEqual(['technology', 'technology']);
+  });
+
+  it('searches titles and descriptions and pages locally', async () => {
+    const provider = new RssFeedProvider({ feeds: feeds() });
+
+    const result = await provider.search({ locale: 'th', query: 'STORY', page: 2, pageSize: 1 });
+
+    expect(result.totalResults).toBe(2);
+    expect(result.articles.map((a) => a.title)).toEqual(['Older story']);
+  });
+
+  it('skips failing feeds and fails only when all do', async () => {
+    routes.set('/feeds/atom.xml', { status: 503, body: 'down' });
+    const provider = new RssFeedProvider({ feeds: feeds() });
+
+    await expect(provider.fetchHeadlines({ locale: 'th', page: 1, pageSize: 10 })).resolves.toMatchObject({ totalResults: 2 });
+    await expect(provider.fetchHeadlines({ locale: 'en', page: 1, pageSize: 10 })).rejects.toMatchObject({
+      statusCode: 503,
+      provider: 'rss',
+    });
+  });
+
+  it('rejects documents that are not feeds', async () => {
+    routes.set('/feeds/thai.xml', xml('<html><body>Not a feed</body></html>'));
+    const provider = new RssFeedProvider({ feeds: { th: [{ url: `${origin}/feeds/thai.xml` }] } });
+
+    await expect(provider.fetchHeadlines({ locale: 'th', page: 1, pageSize: 10 })).rejects.toMatchObject({
+      code: NEWS_PROVIDER_ERROR_CODES.INVALID_RESPONSE,
+    });
+  });
+
+  it('is enabled only for locales with feeds', () => {
+    const provider = new RssFeedProvider({ feeds: feeds() });
+
+    expect(provider.isEnabled('th')).toBe(true);
+    expect(provider.isEnabled('fr')).toBe(false);
+  });
+});
+
+describe('NewsService with several providers', () => {
+  const createService = () => {
+    const newsapi = new NewsAPIClient({ apiKey: 'key', baseUrl: `${origin}/newsapi` });
+    const gnews = new GNewsProvider({ apiKey: 'key', baseUrl: `${origin}/gnews` });
+    const rss = new RssFeedProvider({ feeds: { th: [{ url: `${origin}/feeds/thai.xml` }] } });
+    return new NewsService({ en: [newsapi, gnews], th: [rss, gnews] });
+  };
+
+  it('gives each provider a share of the page and merges by date', async () => {
+    routes.set('/newsapi/top-headlines', json({
+      status: 'ok',
+      totalResults: 50,
+      articles: [newsApiArticle(1, '2026-10-06T08:00:00Z'), newsApiArticle(2, '2026-10-04T08:00:00Z')],
+    }));
+    routes.set('/gnews/top-headlines', json({
+      totalArticles: 10,
+      articles: [gnewsArticle(1, '2026-10-05T08:00:00Z'), gnewsArticle(2, '2026-10-03T08:00:00Z')],
+    }));
+
+    const response = await createService().getNews({ locale: 'en', page: 1, pageSize: 4 });
+
+    expect(requests.map((r) => r.searchParams.get('pageSize') ?? r.searchParams.get('max'))).toEqual(['2', '2']);
+    expect(response.articles.map((a) => a.title)).toEqual([HEADLINES[0], HEADLINES[2], HEADLINES[1], HEADLINES[3]]);
+    expect(response).toMatchObject({ totalResults: 60, totalPages: 25, page: 1, pageSize: 4 });
+    expect(newsCache.set).toHaveBeenCalledOnce();
+  });
+
+  it('shows a story carried by several providers once', async () => {
+    routes.set('/newsapi/top-headlines', json({
+      status: 'ok',
+      totalResults: 1,
+      articles: [{ ...newsApiArticle(1, '2026-10-06T09:00:00Z'), title: `${HEADLINES[0]} - Wire` }],
+    }));
+    routes.set('/gnews/top-headlines', json({
+      totalArticles: 1,
+      articles: [{ ...gnewsArticle(1, '2026-10-06T08:00:00Z'), title: HEADLINES[0] }],
+    }));
+
+    const response = await createService().getNews({ locale: 'en', page: 1, pageSize: 4 });
+
+    expect(response.articles).toHaveLength(1);
+    expect(response.articles[0]).toMatchObject({
+      source: { name: 'G Source' },
+      publishedAt: new Date('2026-10-06T08:00:00Z'),
+      alsoCoveredBy: [{ source: { id: null, name: 'Wire' }, url: 'https://wire.example/1' }],
+    });
+  });
+
+  it('serves the remaining providers when one fails', async () => {
+    routes.set('/feeds/thai.xml', xml(RSS_FEED));
+    routes.set('/gnews/top-headlines', json({ errors: ['Internal error'] }, 500));
+
+    const response = await createService().getNews({ locale: 'th', page: 1, pageSize: 10 });
+
+    expect(response.articles.map((a) => a.title)).toEqual(['Newer story', 'Older story']);
+  });
+
+  it('falls back to stale cache when every provider is rate limited', async () => {
+    const stale: NewsResponse = { articles: [], totalResults: 0, page: 1, pageSize: 10, totalPages: 0 };
+    vi.mocked(newsCache.getByKey).mockResolvedValueOnce(stale);
+    routes.set('/newsapi/top-headlines', json({ status: 'error', code: 'unexpectedError', message: 'Boom' }, 500));
+    routes.set('/gnews/top-headlines', json({ errors: ['Too many requests'] }, 429));
+
+    await expect(createService().getNews({ locale: 'en', page: 1, pageSize: 10 })).resolves.toBe(stale);
+  });
+
+  it('is available only for locales with an enabled provider', () => {
+    const service = new NewsService({ th: [new RssFeedProvider({ feeds: { th: [] } })] });
+
+    expect(createService().isAvailable('th')).toBe(true);
+    expect(service.isAvailable('th')).toBe(false);
+    expect(service.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * RSS/Atom Feed Provider
+ *
+ * Reads RSS 2.0, RSS 1.0 (RDF) and Atom feeds configured per locale, for
+ * sources without an API such as Thai news sites. Feeds have no server-side
+ * search or paging, so both are done over the items of all feeds.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { getNewsConfig, type NewsFeedConfig } from '@/lib/config/news';
+import type {
+  NewsArticle,
+  NewsProvider,
+  NewsProviderQuery,
+  NewsProviderResult,
+  NewsProviderSearch,
+} from '../types';
+import {
+  NewsProviderError,
+  NEWS_PROVIDER_ERROR_CODES,
+  fetchFromProvider,
+  generateArticleId,
+  getRetryAfter,
+  hostnameOf,
+} from './base';
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Feed item: its article and the categories it is tagged with
+ */
+export interface FeedArticle {
+  article: NewsArticle;
+  tags: string[];
+}
+
+/** Elements that may repeat and must always parse as arrays */
+const REPEATED_ELEMENTS = new Set(['item', 'entry', 'category', 'link', 'enclosure', 'media:content', 'media:thumbnail']);
+
+const FEED_ACCEPT = 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: (name) => REPEATED_ELEMENTS.has(name),
+});
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Text content of an element that may carry attributes
+ */
+function text(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return text(value[0]);
+  if (typeof value === 'object') return text((value as XmlNode)['#text']);
+  return String(value).trim();
+}
+
+function list(value: unknown): XmlNode[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]) as XmlNode[];
+}
+
+/**
+ * Feed descriptions are usually HTML; articles carry plain text
+ */
+function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Item URL: RSS `<link>url</link>` or Atom `<link rel="alternate" href>`
+ */
+function itemLink(item: XmlNode): string {
+  for (const link of list(item.link)) {
+    if (typeof link !== 'object') return text(link);
+    const rel = link['@_rel'];
+    if (link['@_href'] && (!rel || rel === 'alternate')) return String(link['@_href']);
+  }
+  return text(item.guid).startsWith('http') ? text(item.guid) : '';
+}
+
+/**
+ * Image from an enclosure, Media RSS, or the first <img> in the HTML
+ */
+function itemImage(item: XmlNode, html: string): string | null {
+  const enclosure = list(item.enclosure).find((e) => String(e['@_type'] ?? '').startsWith('image/'));
+  if (enclosure?.['@_url']) return String(enclosure['@_url']);
+
+  const media = [...list(item['media:content']), ...list(item['media:thumbnail'])].find(
+    (m) => m['@_url'] && (!m['@_medium'] || m['@_medium'] === 'image')
+  );
+  if (media) return String(media['@_url']);
+
+  return html.match(/<img[^>]+src=["']([^"']+)["']/i)?.[1] ?? null;
+}
+
+/**
+ * Parses an RSS or Atom document into articles and their tags, skipping
+ * items without a title, link or valid date
+ */
+export function parseFeed(xml: string, feed: NewsFeedConfig): FeedArticle[] {
+  let document: XmlNode;
+  try {
+    document = parser.parse(xml) as XmlNode;
+  } catch {
+    throw new NewsProviderError(`Invalid feed XML: ${feed.url}`, NEWS_PROVIDER_ERROR_CODES.INVALID_RESPONSE, undefined, undefined, 'rss');
+  }
+
+  const rss = (document.rss as XmlNode | undefined)?.channel as XmlNode | undefined;
+  const rdf = document['rdf:RDF'] as XmlNode | undefined;
+  const atom = document.feed as XmlNode | undefined;
+  const channel = rss ?? (rdf?.channel as XmlNode | undefined) ?? atom;
+  if (!channel) {
+    throw new NewsProviderError(`Not an RSS or Atom feed: ${feed.url}`, NEWS_PROVIDER_ERROR_CODES.INVALID_RESPONSE, undefined, undefined, 'rss');
+  }
+
+  const items = list(rss?.item ?? rdf?.item ?? atom?.entry);
+  const sourceId = hostnameOf(feed.url);
+  const sourceName = toPlainText(text(channel.title)) || sourceId || feed.url;
+  const articles: FeedArticle[] = [];
+
+  for (const item of items) {
+    const title = toPlainText(text(item.title));
+    const url = itemLink(item);
+    const publishedAt = new Date(text(item.pubDate ?? item.published ?? item.updated ?? item['dc:date']));
+    if (!title || !url || isNaN(publishedAt.getTime())) continue;
+
+    const summaryHtml = text(item.description ?? item.summary);
+    const contentHtml = text(item['content:encoded'] ?? item.content);
+
+    articles.push({
+      article: {
+        id: generateArticleId(url),
+        title,
+        description: toPlainText(summaryHtml) || null,
+        content: toPlainText(contentHtml) || null,
+        url,
+        imageUrl: itemImage(item, contentHtml || summaryHtml),
+        source: { id: sourceId, name: sourceName },
+        publishedAt,
+        category: feed.category,
+      },
+      tags: list(item.category)
+        .map((c) => (typeof c === 'object' ? String(c['@_term'] ?? text(c)) : String(c)).trim().toLowerCase())
+        .filter(Boolean),
+    });
+  }
+
+  return articles;
+}
+
+/**
+ * Sorts newest first, drops repeated URLs and returns one page
+ */
+function toPage(articles: NewsArticle[], page: number, pageSize: number): NewsProviderResult {
+  const seen = new Set<string>();
+  const unique = articles
+    .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
+    .filter((article) => !seen.has(article.url) && seen.add(article.url));
+
+  return {
+    articles: unique.slice((page - 1) * pageSize, page * pageSize),
+    totalResults: unique.length,
+  };
+}
+
+/**
+ * RSS/Atom provider options; read from getNewsConfig() when omitted
+ */
+export interface RssFeedProviderOptions {
+  /** Feeds per locale */
+  feeds: Partial<Record<string, NewsFeedConfig[]>>;
+}
+
+/**
+ * RSS/Atom Feed Provider
+ */
+export class RssFeedProvider implements NewsProvider {
+  readonly id = 'rss' as const;
+  private readonly feeds: Partial<Record<string, NewsFeedConfig[]>>;
+
+  constructor(options?: RssFeedProviderOptions) {
+    this.feeds = options?.feeds ?? getNewsConfig().rssFeeds;
+  }
+
+  /**
+   * Check if any feeds are configured for the locale
+   */
+  isEnabled(locale: string): boolean {
+    return (this.feeds[locale]?.length ?? 0) > 0;
+  }
+
+  /**
+   * Fetch and parse one feed
+   */
+  private async readFeed(feed: NewsFeedConfig): Promise<FeedArticle[]> {
+    const response = await fetchFromProvider(this.id, feed.url, FEED_ACCEPT);
+    if (!response.ok) {
+      throw new NewsProviderError(
+        `Feed ${feed.url} returned HTTP ${response.status}`,
+        response.status === 429 ? NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED : NEWS_PROVIDER_ERROR_CODES.UNEXPECTED_ERROR,
+        response.status,
+        getRetryAfter(response),
+        this.id
+      );
+    }
+    return parseFeed(await response.text(), feed);
+  }
+
+  /**
+   * Read feeds in parallel; fails only if every feed fails
+   */
+  private async readFeeds(feeds: NewsFeedConfig[]): Promise<FeedArticle[]> {
+    const results = await Promise.allSettled(feeds.map((feed) => this.readFeed(feed)));
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failures.length > 0 && failures.length === results.length) {
+      throw failures[0].reason;
+    }
+    for (const failure of failures) {
+      console.warn('Skipping news feed:', failure.reason instanceof Error ? failure.reason.message : failure.reason);
+    }
+
+    return results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+  }
+
+  /**
+   * Latest items. A category uses that category's feeds, or else the
+   * general feeds' items tagged with it.
+   */
+  async fetchHeadlines({ locale, category, page, pageSize }: NewsProviderQuery): Promise<NewsProviderResult> {
+    const feeds = this.feeds[locale] ?? [];
+    const categoryFeeds = category ? feeds.filter((feed) => feed.category === category) : [];
+    const generalFeeds = feeds.filter((feed) => !feed.category);
+
+    if (categoryFeeds.length > 0) {
+      return toPage((await this.readFeeds(categoryFeeds)).map((item) => item.article), page, pageSize);
+    }
+
+    const items = await this.readFeeds(generalFeeds.length > 0 ? generalFeeds : feeds);
+    const matching = category
+      ? items.filter((item) => item.tags.includes(category)).map((item) => ({ ...item.article, category }))
+      : items.map((item) => item.article);
+    return toPage(matching, page, pageSize);
+  }
+
+  /**
+   * Items of all the locale's feeds containing every word of the query
+   */
+  async search({ locale, query, page, pageSize }: NewsProviderSearch): Promise<NewsProviderResult> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const articles = (await this.readFeeds(this.feeds[locale] ?? [])).map((item) => item.article);
+
+    const matching = articles.filter((article) => {
+      const haystack = `${article.title} ${article.description ?? ''}`.toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    });
+    return toPage(matching, page, pageSize);
+  }
+}
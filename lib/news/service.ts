@@ -2,22 +2,48 @@
  * News Service Module
  *
  * Provides high-level news operations with caching support.
- * Orchestrates between the API client and cache layer.
+ * Orchestrates between the news providers and cache layer, merging the
+ * results of every provider configured for a locale.
  *
  * @requirements 1.1, 2.1, 3.1, 7.1, 7.3
  */
 
-import { NewsAPIClient, NewsAPIClientError, createNewsAPIClient } from './client';
+import { after } from 'next/server';
+import cacheService from '@/lib/cache/redis';
+import { createNewsProviders, NewsProviderError, NEWS_PROVIDER_ERROR_CODES } from './providers';
 import { newsCache, generateCacheKey } from './cache';
-import { getNewsConfig, isSupportedNewsLocale, getNewsFallbackLocale } from '@/lib/config/news';
+import { aggregateArticles } from './aggregate';
+import { newsBreaker } from './breaker';
+import {
+  getNewsConfig,
+  isSupportedNewsLocale,
+  getNewsFallbackLocale,
+  NEWS_SUPPORTED_LOCALES,
+  type NewsProviderId,
+} from '@/lib/config/news';
 import type {
   NewsArticle,
   NewsCategory,
+  NewsProvider,
+  NewsProviderQuery,
+  NewsProviderResult,
   NewsQueryOptions,
   NewsResponse,
 } from './types';
 import { NEWS_CATEGORY_LIST } from './types';
 
+/** Articles per page on the public news pages */
+export const NEWS_PAGE_SIZE = 12;
+
+/** Redis key prefix for locks held while an expired page is refreshed */
+export const NEWS_REVALIDATE_PREFIX = 'news-revalidate';
+
+/**
+ * Seconds a reader holds the refresh lock of an expired page; other readers
+ * get the expired copy without refreshing it meanwhile
+ */
+export const NEWS_REVALIDATE_LOCK_SECONDS = 30;
+
 /**
  * Sort articles by publication date (newest first)
  * @requirements 1.1
@@ -28,19 +54,6 @@ export function sortArticlesByDate(articles: NewsArticle[]): NewsArticle[] {
   );
 }
 
-/**
- * Calculate pagination metadata
- */
-function calculatePagination(
-  totalResults: number,
-  page: number,
-  pageSize: number
-): { totalPages: number; currentPage: number } {
-  const totalPages = Math.ceil(totalResults / pageSize);
-  const currentPage = Math.min(page, totalPages || 1);
-  return { totalPages, currentPage };
-}
-
 /**
  * Resolve locale for API requests
  * Falls back to English for unsupported locales
@@ -61,6 +74,11 @@ export function isEmptyQuery(query: string | undefined): boolean {
   return !query || query.trim().length === 0;
 }
 
+/**
+ * Providers to query for each locale
+ */
+export type NewsProviderMap = Partial<Record<string, NewsProvider[]>>;
+
 /**
  * News Service
  *
@@ -68,72 +86,129 @@ export function isEmptyQuery(query: string | undefined): boolean {
  * Handles locale resolution, caching, and error recovery.
  */
 export class NewsService {
-  private readonly client: NewsAPIClient;
+  private readonly providers: NewsProviderMap;
   private readonly config: ReturnType<typeof getNewsConfig>;
 
-  constructor(client?: NewsAPIClient) {
-    this.client = client ?? createNewsAPIClient();
+  constructor(providers?: NewsProviderMap) {
     this.config = getNewsConfig();
+    this.providers = providers ?? createNewsProviders(this.config);
+  }
+
+  /**
+   * Check if the news service is available, for a locale or for any
+   */
+  isAvailable(locale?: string): boolean {
+    const locales: readonly string[] = locale ? [resolveLocale(locale)] : NEWS_SUPPORTED_LOCALES;
+    return locales.some((l) => this.getProviders(l).length > 0);
+  }
+
+  /**
+   * IDs of the providers queried for a locale; each live fetch calls every one
+   */
+  getProviderIds(locale: string): NewsProviderId[] {
+    return this.getProviders(resolveLocale(locale)).map((provider) => provider.id);
+  }
+
+  /**
+   * Configured providers for a locale
+   */
+  private getProviders(locale: string): NewsProvider[] {
+    return (this.providers[locale] ?? []).filter((provider) => provider.isEnabled(locale));
   }
 
   /**
-   * Check if the news service is available
+   * Resolve locale with fallback and fill in pagination defaults
    */
-  isAvailable(): boolean {
-    return this.client.isEnabled();
+  private resolveOptions(options: NewsQueryOptions): NewsQueryOptions {
+    const { page = 1, pageSize = this.config.defaultPageSize, locale } = options;
+    return {
+      ...options,
+      locale: resolveLocale(locale),
+      page,
+      pageSize,
+    };
   }
 
   /**
    * Get news articles with caching
    *
+   * An expired cache entry is returned as is and refreshed once the
+   * response has been sent (stale-while-revalidate); only a missing entry
+   * waits on the providers.
+   *
    * @param options - Query options including locale, pagination
    * @returns Paginated news response
    * @requirements 1.1, 7.1, 7.3
    */
   async getNews(options: NewsQueryOptions): Promise<NewsResponse> {
-    const {
-      page = 1,
-      pageSize = this.config.defaultPageSize,
-      locale,
-      category,
-      query,
-    } = options;
-
-    // Resolve locale with fallback
-    const resolvedLocale = resolveLocale(locale);
-    const resolvedOptions: NewsQueryOptions = {
-      ...options,
-      locale: resolvedLocale,
-      page,
-      pageSize,
-    };
+    const resolvedOptions = this.resolveOptions(options);
 
     // Check cache first
-    const cached = await newsCache.get(resolvedOptions);
+    const cached = await newsCache.getEntry(resolvedOptions);
     if (cached) {
-      return cached;
+      if (cached.expiresAt && cached.expiresAt.getTime() <= Date.now()) {
+        // after() keeps the serverless function alive until the refresh is done
+        after(() => this.revalidate(resolvedOptions));
+      }
+      return cached.response;
     }
 
-    // Determine which API method to use
-    let response: NewsResponse;
-
-    if (!isEmptyQuery(query)) {
-      // Use search endpoint for queries
-      response = await this.fetchSearchResults(resolvedOptions);
-    } else if (category) {
-      // Use headlines endpoint with category
-      response = await this.fetchHeadlines(resolvedOptions);
-    } else {
-      // Use headlines endpoint without category
-      response = await this.fetchHeadlines(resolvedOptions);
+    try {
+      return await this.refresh(resolvedOptions);
+    } catch (error) {
+      // Handle rate limiting - try to serve stale cache
+      if (error instanceof NewsProviderError && error.isRateLimited()) {
+        const staleCache = await this.getStaleCache(resolvedOptions);
+        if (staleCache) {
+          console.warn('Serving stale cache due to rate limiting');
+          return staleCache;
+        }
+      }
+
+      // Re-throw other errors
+      throw error;
     }
+  }
+
+  /**
+   * Fetch news from the providers and cache it, skipping the cache lookup
+   *
+   * Unlike getNews, provider errors are never answered from stale cache,
+   * so callers refreshing the cache can see rate limits.
+   *
+   * @param options - Query options including locale, pagination
+   * @param ttlSeconds - Optional cache TTL override (defaults to config value)
+   * @returns Paginated news response
+   */
+  async refresh(options: NewsQueryOptions, ttlSeconds?: number): Promise<NewsResponse> {
+    const resolvedOptions = this.resolveOptions(options);
+
+    const response = isEmptyQuery(resolvedOptions.query)
+      ? await this.fetchHeadlines(resolvedOptions)
+      : await this.fetchSearchResults(resolvedOptions);
 
     // Cache the response
-    await newsCache.set(resolvedOptions, response);
+    await newsCache.set(resolvedOptions, response, ttlSeconds);
 
     return response;
   }
 
+  /**
+   * Refresh an expired entry unless another reader already is; failures
+   * are logged and the expired copy stays in place
+   */
+  private async revalidate(options: NewsQueryOptions): Promise<void> {
+    try {
+      const lockKey = `${NEWS_REVALIDATE_PREFIX}:${generateCacheKey(options)}`;
+      if (!(await cacheService.setIfAbsent(lockKey, Date.now(), NEWS_REVALIDATE_LOCK_SECONDS))) {
+        return;
+      }
+      await this.refresh(options);
+    } catch (error) {
+      console.warn('Background news refresh failed:', error);
+    }
+  }
+
   /**
    * Get news by category
    *
@@ -192,53 +267,18 @@ export class NewsService {
   }
 
   /**
-   * Fetch headlines from API
+   * Fetch headlines from the locale's providers
    */
   private async fetchHeadlines(options: NewsQueryOptions): Promise<NewsResponse> {
     const { page = 1, pageSize = this.config.defaultPageSize, locale, category } = options;
 
-    try {
-      const result = await this.client.fetchTopHeadlines(
-        {
-          category,
-          page,
-          pageSize,
-        },
-        locale
-      );
-
-      // Sort articles by date (newest first)
-      const sortedArticles = sortArticlesByDate(result.articles);
-      const { totalPages, currentPage } = calculatePagination(
-        result.totalResults,
-        page,
-        pageSize
-      );
-
-      return {
-        articles: sortedArticles,
-        totalResults: result.totalResults,
-        page: currentPage,
-        pageSize,
-        totalPages,
-      };
-    } catch (error) {
-      // Handle rate limiting - try to serve stale cache
-      if (error instanceof NewsAPIClientError && error.isRateLimited()) {
-        const staleCache = await this.getStaleCache(options);
-        if (staleCache) {
-          console.warn('Serving stale cache due to rate limiting');
-          return staleCache;
-        }
-      }
-
-      // Re-throw other errors
-      throw error;
-    }
+    return this.fetchMerged({ locale, category, page, pageSize }, (provider, query) =>
+      provider.fetchHeadlines(query)
+    );
   }
 
   /**
-   * Fetch search results from API
+   * Fetch search results from the locale's providers
    */
   private async fetchSearchResults(options: NewsQueryOptions): Promise<NewsResponse> {
     const {
@@ -259,51 +299,85 @@ export class NewsService {
       };
     }
 
-    try {
-      const result = await this.client.fetchEverything(
-        {
-          q: query.trim(),
-          page,
-          pageSize,
-        },
-        locale
-      );
+    return this.fetchMerged({ locale, page, pageSize }, (provider, providerQuery) =>
+      provider.search({ ...providerQuery, query: query.trim() })
+    );
+  }
 
-      // Sort articles by date (newest first)
-      const sortedArticles = sortArticlesByDate(result.articles);
-      const { totalPages, currentPage } = calculatePagination(
-        result.totalResults,
-        page,
-        pageSize
+  /**
+   * Query every provider for the locale and merge their pages
+   *
+   * Each provider fills an equal share of the page, and stories several
+   * sources carry are shown once. Providers whose circuit breaker refuses
+   * the request are left out. The merged result fails only when every
+   * provider fails, preferring a rate limit error so the caller can fall
+   * back to stale cache.
+   */
+  private async fetchMerged(
+    query: NewsProviderQuery,
+    fetchPage: (provider: NewsProvider, query: NewsProviderQuery) => Promise<NewsProviderResult>
+  ): Promise<NewsResponse> {
+    const providers = this.getProviders(query.locale);
+    if (providers.length === 0) {
+      throw new NewsProviderError(
+        `No news provider is configured for locale "${query.locale}"`,
+        NEWS_PROVIDER_ERROR_CODES.API_KEY_MISSING
       );
+    }
 
-      return {
-        articles: sortedArticles,
-        totalResults: result.totalResults,
-        page: currentPage,
-        pageSize,
-        totalPages,
-      };
-    } catch (error) {
-      // Handle rate limiting - try to serve stale cache
-      if (error instanceof NewsAPIClientError && error.isRateLimited()) {
-        const staleCache = await this.getStaleCache(options);
-        if (staleCache) {
-          console.warn('Serving stale cache due to rate limiting');
-          return staleCache;
+    const admitted = await Promise.allSettled(
+      providers.map((provider) => newsBreaker.acquire(provider.id, this.config.dailyQuota[provider.id]))
+    );
+    const errors: unknown[] = admitted.flatMap((outcome) => (outcome.status === 'rejected' ? [outcome.reason] : []));
+    const available = providers.filter((_, i) => admitted[i].status === 'fulfilled');
+
+    const share = Math.ceil(query.pageSize / Math.max(available.length, 1));
+    const settled = await Promise.allSettled(
+      available.map(async (provider) => {
+        try {
+          const result = await fetchPage(provider, { ...query, pageSize: share });
+          await newsBreaker.recordSuccess(provider.id);
+          return result;
+        } catch (error) {
+          await newsBreaker.recordFailure(provider.id, error);
+          throw error;
         }
+      })
+    );
+
+    const results: NewsProviderResult[] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else {
+        errors.push(outcome.reason);
+        console.warn(`News provider ${available[i].id} failed:`, outcome.reason);
       }
+    });
 
-      // Re-throw other errors
-      throw error;
+    if (results.length === 0) {
+      throw errors.find((e) => e instanceof NewsProviderError && e.isRateLimited()) ?? errors[0];
     }
+
+    // Fold copies of the same story, then sort by date (newest first)
+    const articles = sortArticlesByDate(aggregateArticles(results.flatMap((r) => r.articles))).slice(0, query.pageSize);
+    const totalResults = results.reduce((sum, r) => sum + r.totalResults, 0);
+    const totalPages = Math.max(...results.map((r) => Math.ceil(r.totalResults / share)));
+
+    return {
+      articles,
+      totalResults,
+      page: Math.min(query.page, totalPages || 1),
+      pageSize: query.pageSize,
+      totalPages,
+    };
   }
 
   /**
    * Attempt to get stale cache data for fallback
    */
   private async getStaleCache(options: NewsQueryOptions): Promise<NewsResponse | null> {
-    // Try to get any cached data (even if expired, Redis might still have it)
+    // Expired entries are kept for the stale TTL
     const key = generateCacheKey(options);
     return newsCache.getByKey(key);
   }
@@ -312,8 +386,8 @@ export class NewsService {
 /**
  * Create a new NewsService instance
  */
-export function createNewsService(client?: NewsAPIClient): NewsService {
-  return new NewsService(client);
+export function createNewsService(providers?: NewsProviderMap): NewsService {
+  return new NewsService(providers);
 }
 
 /**
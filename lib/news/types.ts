@@ -6,6 +6,8 @@
  * @requirements 1.2
  */
 
+import type { NewsProviderId } from '@/lib/config/news';
+
 /**
  * News source information
  */
@@ -38,6 +40,16 @@ export interface NewsArticle {
   publishedAt: Date;
   /** Category if available */
   category?: string;
+  /** Other sources carrying the same story, when results were aggregated */
+  alsoCoveredBy?: NewsCoverage[];
+}
+
+/**
+ * Another source's copy of an aggregated story
+ */
+export interface NewsCoverage {
+  source: NewsSource;
+  url: string;
 }
 
 /**
@@ -98,78 +110,69 @@ export interface NewsResponse {
 }
 
 /**
- * Raw article from NewsAPI response
+ * A day in the news archive and how many articles it holds
  */
-export interface RawNewsArticle {
-  source: {
-    id: string | null;
-    name: string;
-  };
-  author: string | null;
-  title: string;
-  description: string | null;
-  url: string;
-  urlToImage: string | null;
-  publishedAt: string;
-  content: string | null;
+export interface NewsArchiveDay {
+  /** UTC day as YYYY-MM-DD */
+  date: string;
+  count: number;
 }
 
 /**
- * Raw response from NewsAPI
+ * Archived external article matching a site search
  */
-export interface RawNewsAPIResponse {
-  status: string;
-  totalResults: number;
-  articles: RawNewsArticle[];
-  code?: string;
-  message?: string;
+export interface ExternalSearchResult {
+  article: NewsArticle;
+  /** Title with <mark> around matched terms */
+  highlightedTitle: string;
+  /** Description with <mark> around matched terms */
+  highlightedExcerpt: string;
+  /** Full-text relevance score */
+  rank: number;
 }
 
 /**
- * Parameters for top headlines endpoint
+ * Headlines request passed to a provider
  */
-export interface HeadlinesParams {
-  /** Country code (e.g., 'us', 'gb') */
-  country?: string;
-  /** News category */
+export interface NewsProviderQuery {
+  /** Resolved news locale */
+  locale: string;
+  /** Page number (1-indexed) */
+  page: number;
+  /** Number of articles per page */
+  pageSize: number;
+  /** Filter by category */
   category?: string;
-  /** Number of results per page */
-  pageSize?: number;
-  /** Page number */
-  page?: number;
 }
 
 /**
- * Parameters for everything endpoint
+ * Search request passed to a provider
  */
-export interface EverythingParams {
-  /** Search query (required) */
-  q: string;
-  /** Language code (e.g., 'en', 'es') */
-  language?: string;
-  /** Number of results per page */
-  pageSize?: number;
-  /** Page number */
-  page?: number;
+export interface NewsProviderSearch extends NewsProviderQuery {
+  /** Search query (non-empty) */
+  query: string;
 }
 
 /**
- * News API error response
+ * One page of normalized articles from a provider
  */
-export interface NewsAPIError {
-  status: 'error';
-  code: string;
-  message: string;
+export interface NewsProviderResult {
+  articles: NewsArticle[];
+  /** Total number of results the provider has for the request */
+  totalResults: number;
 }
 
 /**
- * Check if response is an error
+ * A source of external news (NewsAPI.org, GNews, RSS/Atom feeds, ...)
+ * Adapters normalize their responses into NewsArticles and throw
+ * NewsProviderError on failure.
  */
-export function isNewsAPIError(response: unknown): response is NewsAPIError {
-  return (
-    typeof response === 'object' &&
-    response !== null &&
-    'status' in response &&
-    (response as NewsAPIError).status === 'error'
-  );
+export interface NewsProvider {
+  readonly id: NewsProviderId;
+  /** Whether the provider is configured to serve the locale */
+  isEnabled(locale: string): boolean;
+  /** Latest articles, optionally in one category */
+  fetchHeadlines(query: NewsProviderQuery): Promise<NewsProviderResult>;
+  /** Articles matching a search query, newest first */
+  search(query: NewsProviderSearch): Promise<NewsProviderResult>;
 }
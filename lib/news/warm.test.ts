@@ -0,0 +1,272 @@
+/**
+ * Tests for news cache warming
+ *
+ * Property: A cached news page SHALL be served as fresh until its TTL and
+ * kept as a stale copy for the stale TTL after, which readers get while one
+ * of them refreshes it in the background; warming SHALL refresh only
+ * pages that are missing or about to expire, cache them long enough to stay
+ * within its share of the daily quota, and a rate limit SHALL stop warming
+ * until its Retry-After has passed.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+
+const { redisStore } = vi.hoisted(() => ({
+  redisStore: new Map<string, { value: unknown; expiresAt: number }>(),
+}));
+
+vi.mock('@/lib/cache/redis', () => {
+  const cacheService = {
+    get: vi.fn(async (key: string) => {
+      const entry = redisStore.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : null;
+    }),
+    set: vi.fn(async (key: string, value: unknown, ttlSeconds?: number) => {
+      redisStore.set(key, { value: JSON.parse(JSON.stringify(value)), expiresAt: Date.now() + (ttlSeconds ?? 1e9) * 1000 });
+    }),
+    setIfAbsent: vi.fn(async (key: string, value: unknown, ttlSeconds: number) => {
+      const entry = redisStore.get(key);
+      if (entry && entry.expiresAt > Date.now()) return false;
+      redisStore.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return true;
+    }),
+    incr: vi.fn(async (key: string) => {
+      const count = Number((await cacheService.get(key)) ?? 0) + 1;
+      await cacheService.set(key, count);
+      return count;
+    }),
+    decr: vi.fn(async (key: string) => {
+      const count = Number((await cacheService.get(key)) ?? 0) - 1;
+      await cacheService.set(key, count);
+      return count;
+    }),
+    del: vi.fn(async (...keys: string[]) => {
+      keys.forEach((key) => redisStore.delete(key));
+    }),
+    expire: vi.fn(async () => undefined),
+  };
+  return { default: cacheService, cacheService };
+});
+
+// Run after() tasks at once, as if the response had just been sent
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn((task: () => Promise<unknown>) => {
+    void task();
+  }),
+}));
+
+// Import after mocking
+import cacheService from '@/lib/cache/redis';
+import { getNewsConfig } from '@/lib/config/news';
+import { newsCache } from './cache';
+import { NewsService } from './service';
+import { NewsProviderError, NEWS_PROVIDER_ERROR_CODES } from './providers';
+import {
+  warmNewsCache,
+  getNewsWarmTargets,
+  getNewsWarmTTL,
+  NEWS_WARM_AHEAD_SECONDS,
+  NEWS_WARM_PAUSE_KEY,
+  NEWS_WARM_QUOTA_SHARE,
+} from './warm';
+import type { NewsProvider, NewsProviderQuery, NewsProviderResult, NewsQueryOptions } from './types';
+
+const { cacheTTL, staleTTL } = getNewsConfig();
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+function headlines(query: NewsProviderQuery): NewsProviderResult {
+  return {
+    articles: [
+      {
+        id: `${query.locale}-${query.category}`,
+        title: `Top ${query.category} story`,
+        description: null,
+        content: null,
+        url: `https://wire.example/${query.locale}/${query.category}`,
+        imageUrl: null,
+        source: { id: null, name: 'Wire' },
+        publishedAt: new Date('2026-10-19T07:00:00Z'),
+        category: query.category,
+      },
+    ],
+    totalResults: 1,
+  };
+}
+
+function createService(fetchHeadlines = vi.fn(async (query: NewsProviderQuery) => headlines(query))) {
+  const provider: NewsProvider = { id: 'gnews', isEnabled: () => true, fetchHeadlines, search: vi.fn() };
+  return { service: new NewsService({ en: [provider] }), fetchHeadlines };
+}
+
+const advance = (seconds: number) => vi.setSystemTime(Date.now() + seconds * 1000);
+
+beforeEach(() => {
+  redisStore.clear();
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('news cache', () => {
+  it('serves an entry as fresh until its TTL and as stale until the stale TTL', async () => {
+    const options: NewsQueryOptions = { locale: 'en', category: 'health', page: 1, pageSize: 12 };
+    const { articles } = headlines({ locale: 'en', category: 'health', page: 1, pageSize: 12 });
+
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: cacheTTL + staleTTL + 60 }), async (elapsed) => {
+        redisStore.clear();
+        vi.setSystemTime(NOW);
+        await newsCache.set(options, { articles, totalResults: 1, page: 1, pageSize: 12, totalPages: 1 });
+
+        advance(elapsed);
+        const fresh = await newsCache.get(options);
+        const entry = await newsCache.getEntry(options);
+
+        expect(fresh !== null).toBe(elapsed < cacheTTL);
+        expect(entry !== null).toBe(elapsed < cacheTTL + staleTTL);
+        if (entry) {
+          expect(entry.response.articles).toEqual(articles);
+          expect(entry.expiresAt).toEqual(new Date(NOW.getTime() + cacheTTL * 1000));
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('NewsService.getNews', () => {
+  it('serves an expired page at once and lets one reader refresh it in the background', async () => {
+    const { service, fetchHeadlines } = createService();
+    const options: NewsQueryOptions = { locale: 'en', category: 'health', page: 1, pageSize: 12 };
+    const first = await service.getNews(options);
+
+    advance(cacheTTL);
+    fetchHeadlines.mockImplementation(async (query: NewsProviderQuery) => {
+      const result = headlines(query);
+      return { ...result, articles: result.articles.map((article) => ({ ...article, title: 'Update' })) };
+    });
+    const responses = await Promise.all(Array.from({ length: 5 }, () => service.getNews(options)));
+
+    expect(responses).toEqual(Array(5).fill(first));
+    await vi.waitFor(async () => {
+      expect((await newsCache.get(options))?.articles[0].title).toBe('Update');
+    });
+    expect(fetchHeadlines).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('warmNewsCache', () => {
+  it('targets the first page of every category in locales with a provider', () => {
+    const { service } = createService();
+
+    const targets = getNewsWarmTargets(service);
+
+    expect(targets).toHaveLength(7);
+    expect(targets.every((t) => t.locale === 'en' && t.page === 1 && t.pageSize === 12)).toBe(true);
+  });
+
+  it('caches warmed pages long enough to stay within the quota share', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 5000 }), async (quota) => {
+        vi.stubEnv('GNEWS_DAILY_QUOTA', String(quota));
+        const { service } = createService();
+
+        const ttl = getNewsWarmTTL(service);
+        const targetSecondsPerDay = getNewsWarmTargets(service).length * 24 * 60 * 60;
+
+        expect(ttl).toBeGreaterThanOrEqual(cacheTTL + NEWS_WARM_AHEAD_SECONDS);
+        // Each target is refreshed at most once per (ttl - NEWS_WARM_AHEAD_SECONDS) seconds
+        expect(targetSecondsPerDay).toBeLessThanOrEqual(quota * NEWS_WARM_QUOTA_SHARE * (ttl - NEWS_WARM_AHEAD_SECONDS));
+      }),
+      { numRuns: 200 }
+    );
+
+    vi.stubEnv('GNEWS_DAILY_QUOTA', '0');
+    expect(getNewsWarmTTL(createService().service)).toBe(cacheTTL + NEWS_WARM_AHEAD_SECONDS);
+  });
+
+  it('refreshes missing entries, then only those about to expire', async () => {
+    const { service, fetchHeadlines } = createService();
+    const ttl = getNewsWarmTTL(service);
+
+    await expect(warmNewsCache(service)).resolves.toEqual({
+      refreshed: 7,
+      fresh: 0,
+      failed: 0,
+      skipped: 0,
+      requests: { gnews: 7 },
+      pausedUntil: null,
+    });
+    await expect(warmNewsCache(service)).resolves.toMatchObject({ refreshed: 0, fresh: 7, requests: { gnews: 0 } });
+
+    advance(ttl - NEWS_WARM_AHEAD_SECONDS - 1);
+    await expect(warmNewsCache(service)).resolves.toMatchObject({ refreshed: 0, fresh: 7 });
+    advance(1);
+    await expect(warmNewsCache(service)).resolves.toMatchObject({ refreshed: 7, fresh: 0 });
+    expect(fetchHeadlines).toHaveBeenCalledTimes(14);
+  });
+
+  it('leaves stale copies in place when refreshes fail', async () => {
+    const fetchHeadlines = vi.fn(async (query: NewsProviderQuery) => headlines(query));
+    const { service } = createService(fetchHeadlines);
+    await warmNewsCache(service);
+
+    advance(getNewsWarmTTL(service) + 60);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fetchHeadlines.mockRejectedValue(new Error('Provider down'));
+
+    // The third failure opens the provider's circuit breaker, which pauses warming
+    await expect(warmNewsCache(service)).resolves.toMatchObject({
+      refreshed: 0,
+      failed: 4,
+      skipped: 3,
+      requests: { gnews: 3 },
+      pausedUntil: expect.any(String),
+    });
+    expect(fetchHeadlines).toHaveBeenCalledTimes(7 + 3);
+
+    const options = { locale: 'en', category: 'sports', page: 1, pageSize: 12 };
+    await expect(newsCache.get(options)).resolves.toBeNull();
+    await expect(newsCache.getEntry(options)).resolves.toMatchObject({
+      response: { articles: [expect.objectContaining({ id: 'en-sports' })] },
+    });
+  });
+
+  it('stops on a rate limit and pauses until its Retry-After has passed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fetchHeadlines = vi.fn(async (query: NewsProviderQuery) => {
+      if (fetchHeadlines.mock.calls.length === 3) {
+        throw new NewsProviderError('Too many requests', NEWS_PROVIDER_ERROR_CODES.RATE_LIMITED, 429, 120, 'gnews');
+      }
+      return headlines(query);
+    });
+    const { service } = createService(fetchHeadlines);
+    const pausedUntil = new Date(NOW.getTime() + 120 * 1000).toISOString();
+
+    await expect(warmNewsCache(service)).resolves.toEqual({
+      refreshed: 2,
+      fresh: 0,
+      failed: 1,
+      skipped: 4,
+      requests: { gnews: 3 },
+      pausedUntil,
+    });
+    expect(cacheService.set).toHaveBeenCalledWith(NEWS_WARM_PAUSE_KEY, pausedUntil, 120);
+
+    advance(60);
+    await expect(warmNewsCache(service)).resolves.toMatchObject({ refreshed: 0, skipped: 7, pausedUntil });
+    expect(fetchHeadlines).toHaveBeenCalledTimes(3);
+
+    advance(61);
+    await expect(warmNewsCache(service)).resolves.toMatchObject({ refreshed: 5, fresh: 2, pausedUntil: null });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * News Cache Warming Module
+ *
+ * Refreshes the cached first page of every news category in every locale
+ * before it expires, so category pages are served from cache instead of
+ * waiting on a provider call. Warmed pages are cached long enough that
+ * refreshing all of them spends at most NEWS_WARM_QUOTA_SHARE of each
+ * provider's daily quota. Until a refresh succeeds, readers keep getting
+ * the expired copy (stale-while-revalidate). A rate limit stops the run, and
+ * its Retry-After pauses warming until it has passed.
+ */
+
+import cacheService from '@/lib/cache/redis';
+import { getNewsConfig, NEWS_SUPPORTED_LOCALES, type NewsProviderId } from '@/lib/config/news';
+import { newsCache } from './cache';
+import { newsBreaker } from './breaker';
+import { NewsProviderError } from './providers';
+import { getNewsService, NEWS_PAGE_SIZE, type NewsService } from './service';
+import { NEWS_CATEGORY_LIST } from './types';
+import type { NewsQueryOptions } from './types';
+
+/** Entries expiring within this many seconds are refreshed (one cron interval) */
+export const NEWS_WARM_AHEAD_SECONDS = 15 * 60;
+
+/** Share of each provider's daily quota warming may spend; the rest is left for readers */
+export const NEWS_WARM_QUOTA_SHARE = 0.5;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Redis key holding when warming may resume after a rate limit */
+export const NEWS_WARM_PAUSE_KEY = 'news-warm:paused-until';
+
+/**
+ * Outcome of a warming run
+ */
+export interface NewsWarmReport {
+  /** Entries fetched from the providers and cached */
+  refreshed: number;
+  /** Entries not yet due for a refresh */
+  fresh: number;
+  /** Entries whose refresh failed; any stale copy is still served */
+  failed: number;
+  /** Entries not attempted because of a rate limit */
+  skipped: number;
+  /** Provider requests counted against today's quota during this run */
+  requests: Partial<Record<NewsProviderId, number>>;
+  /** When warming resumes, if a rate limit paused it */
+  pausedUntil: string | null;
+}
+
+/**
+ * Query options of the cached pages to keep warm: the first page of each
+ * category, in each locale with a news provider
+ */
+export function getNewsWarmTargets(service: NewsService): NewsQueryOptions[] {
+  return NEWS_SUPPORTED_LOCALES.filter((locale) => service.isAvailable(locale)).flatMap((locale) =>
+    NEWS_CATEGORY_LIST.map((category) => ({
+      locale,
+      category: category.slug,
+      page: 1,
+      pageSize: NEWS_PAGE_SIZE,
+    }))
+  );
+}
+
+/**
+ * Seconds a warmed page stays fresh. Each refresh of a target calls every
+ * provider of its locale, so a provider with a daily quota gets
+ * `targets * 86400 / (ttl - NEWS_WARM_AHEAD_SECONDS)` requests a day at
+ * most; the TTL keeps that within NEWS_WARM_QUOTA_SHARE of the quota.
+ */
+export function getNewsWarmTTL(service: NewsService): number {
+  const { cacheTTL, dailyQuota } = getNewsConfig();
+  const targets = getNewsWarmTargets(service);
+  const targetsPerProvider = new Map<NewsProviderId, number>();
+  for (const options of targets) {
+    for (const provider of service.getProviderIds(options.locale)) {
+      targetsPerProvider.set(provider, (targetsPerProvider.get(provider) ?? 0) + 1);
+    }
+  }
+
+  let interval = cacheTTL;
+  for (const [provider, count] of targetsPerProvider) {
+    const quota = dailyQuota[provider];
+    if (quota) {
+      interval = Math.max(interval, Math.ceil((SECONDS_PER_DAY * count) / (quota * NEWS_WARM_QUOTA_SHARE)));
+    }
+  }
+
+  return interval + NEWS_WARM_AHEAD_SECONDS;
+}
+
+/**
+ * Refresh every warm target that is missing, expired or about to expire
+ */
+export async function warmNewsCache(service: NewsService = getNewsService()): Promise<NewsWarmReport> {
+  const targets = getNewsWarmTargets(service);
+  const ttl = getNewsWarmTTL(service);
+  const report: NewsWarmReport = { refreshed: 0, fresh: 0, failed: 0, skipped: 0, requests: {}, pausedUntil: null };
+
+  const pausedUntil = await cacheService.get<string>(NEWS_WARM_PAUSE_KEY);
+  if (pausedUntil && new Date(pausedUntil).getTime() > Date.now()) {
+    return { ...report, skipped: targets.length, pausedUntil };
+  }
+
+  const providers = [...new Set(targets.flatMap((options) => service.getProviderIds(options.locale)))];
+  const requestsBefore = await Promise.all(providers.map((provider) => newsBreaker.getRequestsToday(provider)));
+
+  for (const [i, options] of targets.entries()) {
+    const entry = await newsCache.getEntry(options);
+    if (entry?.expiresAt && entry.expiresAt.getTime() - Date.now() > NEWS_WARM_AHEAD_SECONDS * 1000) {
+      report.fresh++;
+      continue;
+    }
+
+    try {
+      await service.refresh(options, ttl);
+      report.refreshed++;
+    } catch (error) {
+      report.failed++;
+      console.error(`News cache warming failed for ${options.locale}/${options.category}:`, error);
+
+      if (error instanceof NewsProviderError && error.isRateLimited()) {
+        // Leave the remaining entries to their stale copies
+        report.skipped = targets.length - i - 1;
+        if (error.retryAfter) {
+          report.pausedUntil = new Date(Date.now() + error.retryAfter * 1000).toISOString();
+          await cacheService.set(NEWS_WARM_PAUSE_KEY, report.pausedUntil, error.retryAfter);
+        }
+        break;
+      }
+    }
+  }
+
+  const requestsAfter = await Promise.all(providers.map((provider) => newsBreaker.getRequestsToday(provider)));
+  providers.forEach((provider, i) => {
+    // Counters restart at midnight UTC, so a run spanning it counts from zero
+    const spent = requestsAfter[i] - requestsBefore[i];
+    report.requests[provider] = spent >= 0 ? spent : requestsAfter[i];
+  });
+
+  return report;
+}
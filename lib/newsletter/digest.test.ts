@@ -0,0 +1,81 @@
+/**
+ * Property-Based Tests for the Newsletter Digest
+ *
+ * Property: A digest SHALL only contain posts published after the
+ * subscriber's last digest that match their categories, newest first and
+ * capped at DIGEST_MAX_POSTS, and its HTML SHALL escape post content.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { selectDigestPosts, DIGEST_MAX_POSTS } from './digest';
+import { renderConfirmationEmail, renderDigestEmail } from './templates';
+import { locales } from '@/lib/i18n/config';
+import type { PostPreview } from '@/lib/types';
+
+const categories = ['Tech', 'World', 'Sport'];
+
+const previewArb: fc.Arbitrary<PostPreview> = fc.record({
+  slug: fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)*$/),
+  title: fc.string({ minLength: 1, maxLength: 80 }),
+  excerpt: fc.string({ maxLength: 160 }),
+  author: fc.record({ name: fc.string({ minLength: 1, maxLength: 40 }) }),
+  publishedAt: fc.date({ min: new Date('2025-01-01'), max: new Date('2025-02-01'), noInvalidDate: true }),
+  category: fc.constantFrom(...categories),
+  readingTime: fc.integer({ min: 1, max: 30 }),
+});
+
+describe('selectDigestPosts', () => {
+  it('keeps only newer posts in the chosen categories, newest first', () => {
+    fc.assert(
+      fc.property(
+        fc.array(previewArb, { maxLength: 30 }),
+        fc.date({ min: new Date('2025-01-01'), max: new Date('2025-02-01'), noInvalidDate: true }),
+        fc.subarray(categories),
+        (posts, since, chosen) => {
+          const digest = selectDigestPosts(posts, since, chosen);
+          const eligible = posts.filter(
+            (post) => post.publishedAt > since && (chosen.length === 0 || chosen.includes(post.category))
+          );
+
+          expect(digest).toHaveLength(Math.min(eligible.length, DIGEST_MAX_POSTS));
+          for (const post of digest) {
+            expect(eligible).toContain(post);
+          }
+          for (let i = 1; i < digest.length; i++) {
+            expect(digest[i - 1].publishedAt.getTime()).toBeGreaterThanOrEqual(digest[i].publishedAt.getTime());
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('email templates', () => {
+  it('escapes post content and links every post and the unsubscribe page', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...locales), fc.array(previewArb, { minLength: 1, maxLength: 5 }), (locale, posts) => {
+        const hostile = posts.map((post) => ({ ...post, title: `${post.title}<script>x</script>` }));
+        const email = renderDigestEmail(locale, hostile, 'https://example.com/api/newsletter/unsubscribe?token=abc');
+
+        expect(email.html).not.toContain('<script>');
+        expect(email.html).toContain('unsubscribe?token=abc');
+        expect(email.text).toContain('unsubscribe?token=abc');
+        for (const post of posts) {
+          expect(email.html).toContain(`/${locale}/blog/${post.slug}`);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('puts the confirmation link in both bodies', () => {
+    const url = 'https://example.com/api/newsletter/confirm?token=a&b';
+    const email = renderConfirmationEmail('th', url);
+
+    expect(email.html).toContain('confirm?token=a&amp;b');
+    expect(email.text).toContain(url);
+    expect(email.subject.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Digest Builder
+ *
+ * Collects the posts published since a subscriber's last digest, filtered by
+ * their category preferences, and delivers them as one email.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { getAllPostPreviews, sortPostsByDateDescending } from '@/lib/posts';
+import { locales } from '@/lib/i18n/config';
+import type { PostPreview } from '@/lib/types';
+import { getUnsubscribeUrl, renderDigestEmail } from './templates';
+import type { MailTransport } from './types';
+
+/** Most posts included in one digest */
+export const DIGEST_MAX_POSTS = 10;
+
+/** Look-back window for subscribers who have never received a digest */
+export const DIGEST_DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Least time between two digests to the same subscriber. An hour short of a
+ * day, so a daily cron that fires a little early still sends.
+ */
+export const DIGEST_MIN_INTERVAL_MS = 23 * 60 * 60 * 1000;
+
+export interface DigestRunResult {
+  sent: number;
+  /** Subscribers with nothing new to read */
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Picks the newest posts published after `since`. An empty category list
+ * means the subscriber wants every category.
+ */
+export function selectDigestPosts(
+  posts: PostPreview[],
+  since: Date,
+  categoryNames: string[] = [],
+  limit: number = DIGEST_MAX_POSTS
+): PostPreview[] {
+  const matching = posts.filter(
+    (post) => post.publishedAt > since && (categoryNames.length === 0 || categoryNames.includes(post.category))
+  );
+  return sortPostsByDateDescending(matching).slice(0, limit);
+}
+
+/**
+ * Sends a digest to every confirmed subscriber with unread posts and records
+ * when they last received one. Subscribers who got a digest less than
+ * DIGEST_MIN_INTERVAL_MS ago are left out, so running it more often than
+ * daily sends no extra mail. Failures are logged and do not stop the run.
+ */
+export async function sendDigests(transport: MailTransport, now: Date = new Date()): Promise<DigestRunResult> {
+  const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const locale of locales) {
+    const subscribers = await prisma.subscriber.findMany({
+      where: {
+        status: 'CONFIRMED',
+        locale,
+        OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: new Date(now.getTime() - DIGEST_MIN_INTERVAL_MS) } }],
+      },
+      include: { categories: { select: { name: true } } },
+    });
+    if (subscribers.length === 0) continue;
+
+    const posts = await getAllPostPreviews(locale);
+
+    for (const subscriber of subscribers) {
+      const since =
+        subscriber.lastDigestAt ?? subscriber.confirmedAt ?? new Date(now.getTime() - DIGEST_DEFAULT_WINDOW_MS);
+      const digestPosts = selectDigestPosts(
+        posts,
+        since,
+        subscriber.categories.map((category) => category.name)
+      );
+
+      if (digestPosts.length === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const unsubscribeUrl = getUnsubscribeUrl(subscriber.unsubscribeToken);
+        await transport.send({
+          to: subscriber.email,
+          ...renderDigestEmail(locale, digestPosts, unsubscribeUrl),
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        });
+        await prisma.subscriber.update({ where: { id: subscriber.id }, data: { lastDigestAt: now } });
+        result.sent++;
+      } catch (error) {
+        console.error(`Failed to send digest to subscriber ${subscriber.id}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
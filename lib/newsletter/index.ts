@@ -0,0 +1,29 @@
+/**
+ * Newsletter Module Barrel Export
+ *
+ * Subscriptions with double opt-in, digest delivery and mail transports.
+ */
+
+// Types
+export type { MailMessage, MailTransport, RenderedEmail, SubscribeInput, SubscribeResult } from './types';
+
+// Transports
+export { SmtpTransport, FileTransport, createMailTransport } from './transports';
+
+// Templates
+export { getConfirmUrl, getUnsubscribeUrl, renderConfirmationEmail, renderDigestEmail } from './templates';
+
+// Subscribers
+export {
+  subscribe,
+  confirmSubscription,
+  unsubscribe,
+  findByUnsubscribeToken,
+  generateToken,
+  normalizeEmail,
+  CONFIRM_TOKEN_TTL_MS,
+} from './subscribers';
+
+// Digest
+export { sendDigests, selectDigestPosts, DIGEST_MAX_POSTS, DIGEST_DEFAULT_WINDOW_MS, DIGEST_MIN_INTERVAL_MS } from './digest';
+export type { DigestRunResult } from './digest';
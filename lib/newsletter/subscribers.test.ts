@@ -0,0 +1,148 @@
+/**
+ * Tests for the double opt-in subscription flow
+ *
+ * Property: Only the confirmation link emailed to an address SHALL confirm
+ * it, links SHALL expire, and a confirmed subscriber SHALL NOT be reset by
+ * someone subscribing the same address again.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Subscriber } from '@/lib/generated/prisma';
+import type { MailMessage, MailTransport } from './types';
+
+const subscribers = new Map<string, Subscriber>();
+
+function findBy(where: Partial<Subscriber>): Subscriber | null {
+  const [key, value] = Object.entries(where)[0];
+  return [...subscribers.values()].find((s) => s[key as keyof Subscriber] === value) ?? null;
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  default: {
+    category: { findMany: async () => [] },
+    subscriber: {
+      findUnique: async ({ where }: { where: Partial<Subscriber> }) => findBy(where),
+      upsert: async ({ where, create, update }: { where: { email: string }; create: Partial<Subscriber>; update: Partial<Subscriber> }) => {
+        const existing = findBy(where);
+        const data = { ...(existing ? update : create) } as Partial<Subscriber> & { categories?: unknown };
+        delete data.categories;
+        const next = { ...(existing ?? { id: `sub-${subscribers.size + 1}`, confirmedAt: null, lastDigestAt: null }), ...data } as Subscriber;
+        subscribers.set(next.id, next);
+        return next;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Subscriber> }) => {
+        const next = { ...subscribers.get(where.id)!, ...data };
+        subscribers.set(where.id, next);
+        return next;
+      },
+    },
+  },
+}));
+
+import { confirmSubscription, findByUnsubscribeToken, subscribe, unsubscribe, CONFIRM_TOKEN_TTL_MS } from './subscribers';
+import { FileTransport } from './transports';
+
+class MemoryTransport implements MailTransport {
+  sent: MailMessage[] = [];
+  async send(message: MailMessage) {
+    this.sent.push(message);
+  }
+}
+
+function tokenFrom(message: MailMessage): string {
+  return new URL(message.text.match(/https?:\/\/\S+/)![0]).searchParams.get('token')!;
+}
+
+describe('subscription flow', () => {
+  let transport: MemoryTransport;
+
+  beforeEach(() => {
+    subscribers.clear();
+    transport = new MemoryTransport();
+  });
+
+  it('emails a confirmation link that confirms the address once', async () => {
+    const result = await subscribe({ email: ' Reader@Example.com ', locale: 'th', categories: [] }, transport);
+
+    expect(result).toBe('pending');
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('reader@example.com');
+
+    const token = tokenFrom(transport.sent[0]);
+    const confirmed = await confirmSubscription(token);
+    expect(confirmed?.status).toBe('CONFIRMED');
+    expect(confirmed?.locale).toBe('th');
+
+    expect(await confirmSubscription(token)).toBeNull();
+  });
+
+  it('rejects expired and unknown confirmation links', async () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    await subscribe({ email: 'late@example.com', locale: 'en', categories: [] }, transport, now);
+    const token = tokenFrom(transport.sent[0]);
+
+    expect(await confirmSubscription('not-a-token', now)).toBeNull();
+    expect(await confirmSubscription(token, new Date(now.getTime() + CONFIRM_TOKEN_TTL_MS + 1))).toBeNull();
+  });
+
+  it('leaves confirmed subscribers untouched when subscribed again', async () => {
+    await subscribe({ email: 'fan@example.com', locale: 'en', categories: [] }, transport);
+    await confirmSubscription(tokenFrom(transport.sent[0]));
+
+    const result = await subscribe({ email: 'fan@example.com', locale: 'fr', categories: [] }, transport);
+
+    expect(result).toBe('confirmed');
+    expect(transport.sent).toHaveLength(1);
+    expect(findBy({ email: 'fan@example.com' })?.locale).toBe('en');
+  });
+
+  it('unsubscribes with the permanent token and can subscribe again', async () => {
+    await subscribe({ email: 'bye@example.com', locale: 'en', categories: [] }, transport);
+    const subscriber = findBy({ email: 'bye@example.com' })!;
+
+    // Looking the token up, as the unsubscribe link does, changes nothing
+    expect((await findByUnsubscribeToken(subscriber.unsubscribeToken))?.id).toBe(subscriber.id);
+    expect(findBy({ email: 'bye@example.com' })?.status).toBe('PENDING');
+    expect(await findByUnsubscribeToken('unknown')).toBeNull();
+
+    expect((await unsubscribe(subscriber.unsubscribeToken))?.status).toBe('UNSUBSCRIBED');
+    expect(await unsubscribe('unknown')).toBeNull();
+
+    expect(await subscribe({ email: 'bye@example.com', locale: 'en', categories: [] }, transport)).toBe('pending');
+    expect(findBy({ email: 'bye@example.com' })?.status).toBe('PENDING');
+  });
+});
+
+describe('FileTransport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'newsletter-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes each message as an .eml file', async () => {
+    await new FileTransport(dir, 'Blog <news@example.com>').send({
+      to: 'reader@example.com',
+      subject: 'Hello',
+      html: '<p>Hi</p>',
+      text: 'Hi',
+      headers: { 'List-Unsubscribe': '<https://example.com/u>' },
+    });
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/-reader@example\.com\.eml$/);
+
+    const eml = await readFile(path.join(dir, files[0]), 'utf8');
+    expect(eml).toContain('To: reader@example.com');
+    expect(eml).toContain('Subject: Hello');
+    expect(eml).toContain('List-Unsubscribe: <https://example.com/u>');
+  });
+});
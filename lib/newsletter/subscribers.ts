@@ -0,0 +1,123 @@
+/**
+ * Subscriber Service
+ *
+ * Double opt-in subscription flow: subscribing stores a PENDING subscriber
+ * and emails a confirmation link; only confirmed subscribers receive digests.
+ * Every subscriber has a permanent unsubscribe token for one-click opt-out.
+ */
+
+import { randomBytes } from 'crypto';
+import prisma from '@/lib/db/prisma';
+import type { Subscriber } from '@/lib/generated/prisma';
+import { getConfirmUrl, renderConfirmationEmail } from './templates';
+import type { MailTransport, SubscribeInput, SubscribeResult } from './types';
+
+/** How long a confirmation link stays valid */
+export const CONFIRM_TOKEN_TTL_MS = 48 * 60 * 60 * 1000;
+
+/** Creates an unguessable URL-safe token */
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/** Normalizes an email address for storage and lookup */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Starts a subscription and sends the confirmation email.
+ *
+ * Confirmed subscribers are left untouched so a third party cannot change
+ * someone else's preferences; pending or unsubscribed addresses get fresh
+ * preferences and a new confirmation link.
+ */
+export async function subscribe(
+  input: SubscribeInput,
+  transport: MailTransport,
+  now: Date = new Date()
+): Promise<SubscribeResult> {
+  const email = normalizeEmail(input.email);
+
+  const existing = await prisma.subscriber.findUnique({ where: { email }, select: { status: true } });
+  if (existing?.status === 'CONFIRMED') {
+    return 'confirmed';
+  }
+
+  const categories = input.categories.length
+    ? await prisma.category.findMany({ where: { slug: { in: input.categories } }, select: { id: true } })
+    : [];
+
+  const pending = {
+    locale: input.locale,
+    status: 'PENDING' as const,
+    confirmToken: generateToken(),
+    confirmExpiresAt: new Date(now.getTime() + CONFIRM_TOKEN_TTL_MS),
+    unsubscribedAt: null,
+  };
+
+  const subscriber = await prisma.subscriber.upsert({
+    where: { email },
+    create: { ...pending, email, unsubscribeToken: generateToken(), categories: { connect: categories } },
+    update: { ...pending, categories: { set: categories } },
+  });
+
+  const rendered = renderConfirmationEmail(subscriber.locale, getConfirmUrl(subscriber.confirmToken!));
+  await transport.send({ to: email, ...rendered });
+
+  return 'pending';
+}
+
+/**
+ * Confirms the subscription owning a confirmation token.
+ * Returns null when the token is unknown or has expired.
+ */
+export async function confirmSubscription(token: string, now: Date = new Date()): Promise<Subscriber | null> {
+  const subscriber = await prisma.subscriber.findUnique({ where: { confirmToken: token } });
+  if (!subscriber || !subscriber.confirmExpiresAt || subscriber.confirmExpiresAt < now) {
+    return null;
+  }
+
+  return prisma.subscriber.update({
+    where: { id: subscriber.id },
+    data: {
+      status: 'CONFIRMED',
+      confirmedAt: now,
+      confirmToken: null,
+      confirmExpiresAt: null,
+    },
+  });
+}
+
+/**
+ * Finds the owner of an unsubscribe token without changing anything, so
+ * the unsubscribe link can ask for confirmation first.
+ * Returns null when the token is unknown.
+ */
+export async function findByUnsubscribeToken(token: string): Promise<Subscriber | null> {
+  return prisma.subscriber.findUnique({ where: { unsubscribeToken: token } });
+}
+
+/**
+ * Unsubscribes the owner of an unsubscribe token.
+ * Returns null when the token is unknown.
+ */
+export async function unsubscribe(token: string, now: Date = new Date()): Promise<Subscriber | null> {
+  const subscriber = await prisma.subscriber.findUnique({ where: { unsubscribeToken: token } });
+  if (!subscriber) {
+    return null;
+  }
+  if (subscriber.status === 'UNSUBSCRIBED') {
+    return subscriber;
+  }
+
+  return prisma.subscriber.update({
+    where: { id: subscriber.id },
+    data: {
+      status: 'UNSUBSCRIBED',
+      unsubscribedAt: now,
+      confirmToken: null,
+      confirmExpiresAt: null,
+    },
+  });
+}
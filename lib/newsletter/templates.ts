@@ -0,0 +1,102 @@
+/**
+ * Newsletter Email Templates
+ *
+ * Renders the double opt-in confirmation and the digest as HTML with a
+ * plain-text alternative. Layout uses inline styles and tables so it survives
+ * email clients.
+ */
+
+import { escapeXml } from '@/lib/feed';
+import { t } from '@/lib/i18n/translations';
+import { siteName, siteUrl } from '@/lib/seo';
+import type { PostPreview } from '@/lib/types';
+import type { RenderedEmail } from './types';
+
+/** Link that confirms a pending subscription */
+export function getConfirmUrl(token: string): string {
+  return `${siteUrl}/api/newsletter/confirm?token=${encodeURIComponent(token)}`;
+}
+
+/** One-click unsubscribe link included in every email */
+export function getUnsubscribeUrl(token: string): string {
+  return `${siteUrl}/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+function layout(locale: string, body: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(locale)}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;">
+    <tr><td align="center" style="padding:24px 12px;">
+      <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background:#ffffff;border-radius:8px;">
+        <tr><td style="padding:24px 32px;border-bottom:1px solid #e5e7eb;">
+          <a href="${escapeXml(`${siteUrl}/${locale}`)}" style="font-size:20px;font-weight:bold;color:#dc2626;text-decoration:none;">${escapeXml(siteName)}</a>
+        </td></tr>
+${body}
+        <tr><td style="padding:24px 32px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280;">${footer}</td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders the email asking a new subscriber to confirm their address.
+ */
+export function renderConfirmationEmail(locale: string, confirmUrl: string): RenderedEmail {
+  const intro = t('newsletter.confirmIntro', locale, { site: siteName });
+  const button = t('newsletter.confirmButton', locale);
+  const ignore = t('newsletter.confirmIgnore', locale);
+
+  const body = `        <tr><td style="padding:32px;">
+          <p style="margin:0 0 24px;font-size:16px;line-height:1.5;">${escapeXml(intro)}</p>
+          <a href="${escapeXml(confirmUrl)}" style="display:inline-block;padding:12px 24px;background:#dc2626;color:#ffffff;border-radius:6px;font-weight:bold;text-decoration:none;">${escapeXml(button)}</a>
+        </td></tr>`;
+
+  return {
+    subject: t('newsletter.confirmSubject', locale, { site: siteName }),
+    html: layout(locale, body, escapeXml(ignore)),
+    text: `${intro}\n\n${button}: ${confirmUrl}\n\n${ignore}\n`,
+  };
+}
+
+/**
+ * Renders a digest of posts with an unsubscribe link.
+ */
+export function renderDigestEmail(locale: string, posts: PostPreview[], unsubscribeUrl: string): RenderedEmail {
+  const intro = t('newsletter.digestIntro', locale);
+  const footer = t('newsletter.digestFooter', locale, { site: siteName });
+  const unsubscribe = t('newsletter.unsubscribeLink', locale);
+  const formatDate = (date: Date) => new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(date);
+
+  const items = posts.map((post) => {
+    const url = `${siteUrl}/${locale}/blog/${post.slug}`;
+    return `        <tr><td style="padding:16px 32px;border-bottom:1px solid #f3f4f6;">
+          <p style="margin:0 0 4px;font-size:12px;text-transform:uppercase;color:#dc2626;">${escapeXml(post.category)} · ${escapeXml(formatDate(post.publishedAt))}</p>
+          <a href="${escapeXml(url)}" style="font-size:18px;font-weight:bold;color:#111827;text-decoration:none;">${escapeXml(post.title)}</a>
+          <p style="margin:8px 0 0;font-size:14px;line-height:1.5;color:#4b5563;">${escapeXml(post.excerpt)}</p>
+        </td></tr>`;
+  });
+
+  const body = `        <tr><td style="padding:24px 32px 8px;font-size:16px;">${escapeXml(intro)}</td></tr>
+${items.join('\n')}`;
+
+  const text = [
+    intro,
+    ...posts.map((post) => `${post.title}\n${post.excerpt}\n${siteUrl}/${locale}/blog/${post.slug}`),
+    `${footer}\n${unsubscribe}: ${unsubscribeUrl}`,
+  ].join('\n\n');
+
+  return {
+    subject: t('newsletter.digestSubject', locale, { site: siteName, count: posts.length }),
+    html: layout(
+      locale,
+      body,
+      `${escapeXml(footer)} <a href="${escapeXml(unsubscribeUrl)}" style="color:#6b7280;">${escapeXml(unsubscribe)}</a>`
+    ),
+    text: `${text}\n`,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Newsletter Types Module
+ *
+ * Defines the mail transport contract and the rendered emails it delivers.
+ */
+
+/**
+ * A fully rendered email ready for delivery
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative for clients that do not render HTML */
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivers mail. Implementations decide where it goes (SMTP, disk, ...).
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Subject and bodies of an email before it is addressed
+ */
+export type RenderedEmail = Pick<MailMessage, 'subject' | 'html' | 'text'>;
+
+/**
+ * Outcome of a subscribe request
+ * - pending: a confirmation email was sent
+ * - confirmed: the address was already subscribed, nothing was sent
+ */
+export type SubscribeResult = 'pending' | 'confirmed';
+
+/**
+ * Subscriber preferences accepted by the subscribe flow
+ */
+export interface SubscribeInput {
+  email: string;
+  locale: string;
+  /** Category slugs; empty means every category */
+  categories: string[];
+}
@@ -0,0 +1,98 @@
+/**
+ * Tests for generated Open Graph cards
+ *
+ * Property: Cards SHALL load a Thai-capable font whenever Thai text is
+ * rendered, and post metadata SHALL only point at the generated card when the
+ * post has no cover image.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { getOgFontFamilies, parseFontUrl, truncateTitle } from "./og";
+import { generatePostMetadata, OG_IMAGE_SIZE, siteUrl } from "./seo";
+import { locales, type Locale } from "./i18n/config";
+import type { Post } from "./types";
+
+const localeArb = fc.constantFrom(...locales) as fc.Arbitrary<Locale>;
+
+describe("getOgFontFamilies", () => {
+  it("adds Noto Sans Thai for Thai cards and Thai text only", () => {
+    fc.assert(
+      fc.property(localeArb, fc.string({ maxLength: 40 }), (locale, text) => {
+        const families = getOgFontFamilies(locale, text);
+        const hasThai = locale === "th" || /[\u0E00-\u0E7F]/.test(text);
+
+        expect(families[0]).toBe("Noto Sans");
+        expect(families.includes("Noto Sans Thai")).toBe(hasThai);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("loads the Thai font for a Thai title on an English card", () => {
+    expect(getOgFontFamilies("en", "ข่าวล่าสุด")).toEqual(["Noto Sans", "Noto Sans Thai"]);
+  });
+});
+
+describe("parseFontUrl", () => {
+  it("extracts the TrueType source from a Google Fonts stylesheet", () => {
+    const css = `@font-face {
+  font-family: 'Noto Sans Thai';
+  font-style: normal;
+  font-weight: 700;
+  src: url(https://fonts.gstatic.com/l/font?kit=abc&skey=def&v=v25) format('truetype');
+}`;
+    expect(parseFontUrl(css)).toBe("https://fonts.gstatic.com/l/font?kit=abc&skey=def&v=v25");
+  });
+
+  it("returns null when there is no usable source", () => {
+    expect(parseFontUrl("src: url(https://fonts.gstatic.com/x.woff2) format('woff2');")).toBeNull();
+    expect(parseFontUrl("")).toBeNull();
+  });
+});
+
+describe("truncateTitle", () => {
+  it("never exceeds the limit and keeps short titles intact", () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 300 }), fc.integer({ min: 10, max: 150 }), (title, max) => {
+        const result = truncateTitle(title, max);
+        expect(result.length).toBeLessThanOrEqual(max);
+        if (title.length <= max) expect(result).toBe(title);
+        else expect(result.endsWith("…")).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe("generatePostMetadata images", () => {
+  const post: Post = {
+    id: "p1",
+    slug: "hello-world",
+    title: "Hello World",
+    content: "",
+    excerpt: "Hi",
+    author: { name: "Ada" },
+    publishedAt: new Date("2025-01-01"),
+    category: "Tech",
+    tags: [],
+    readingTime: 1,
+    locale: "en",
+    status: "published",
+  };
+
+  it("uses the cover image when the post has one", () => {
+    const metadata = generatePostMetadata({ ...post, image: "https://ik.imagekit.io/demo/cover.jpg" }, "en");
+    expect(metadata.openGraph?.images).toEqual([{ url: "https://ik.imagekit.io/demo/cover.jpg", alt: post.title }]);
+    expect(metadata.twitter?.images).toEqual(metadata.openGraph?.images);
+  });
+
+  it("falls back to the generated card without a cover", () => {
+    for (const locale of locales) {
+      const metadata = generatePostMetadata(post, locale);
+      expect(metadata.openGraph?.images).toEqual([
+        { url: `${siteUrl}/${locale}/blog/${post.slug}/opengraph-image`, ...OG_IMAGE_SIZE, alt: post.title },
+      ]);
+    }
+  });
+});
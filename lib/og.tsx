@@ -0,0 +1,142 @@
+import { ImageResponse } from "next/og";
+import { OG_IMAGE_SIZE, siteName, siteUrl } from "./seo";
+import type { Locale } from "./i18n/config";
+
+export interface OgCard {
+  title: string;
+  eyebrow?: string;       // Small label above the title, e.g. the category
+  byline?: string;        // Line under the title, e.g. the author
+  locale: Locale;
+}
+
+export interface OgFont {
+  name: string;
+  data: ArrayBuffer;
+  weight: 400 | 700;
+  style: "normal";
+}
+
+const THAI_SCRIPT = /[\u0E00-\u0E7F]/;
+const FONT_WEIGHTS = [400, 700] as const;
+const TITLE_MAX_LENGTH = 120;
+
+/**
+ * Font families needed to render a card. The bundled next/og font only
+ * covers Latin, so Thai text (or any Thai locale card) also loads Noto Sans Thai.
+ */
+export function getOgFontFamilies(locale: Locale, text: string): string[] {
+  return locale === "th" || THAI_SCRIPT.test(text) ? ["Noto Sans", "Noto Sans Thai"] : ["Noto Sans"];
+}
+
+/** Extracts the TrueType/OpenType file URL from a Google Fonts stylesheet */
+export function parseFontUrl(css: string): string | null {
+  const match = css.match(/src: url\((.+?)\) format\('(opentype|truetype)'\)/);
+  return match ? match[1] : null;
+}
+
+/** Shortens a title to fit the card, breaking on a word when possible */
+export function truncateTitle(title: string, maxLength = TITLE_MAX_LENGTH): string {
+  if (title.length <= maxLength) return title;
+  const cut = title.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/** Downloads one font weight from Google Fonts, subset to the given text */
+async function loadGoogleFont(family: string, weight: number, text: string): Promise<ArrayBuffer> {
+  const cssUrl = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:wght@${weight}&text=${encodeURIComponent(text)}`;
+  const css = await (await fetch(cssUrl)).text();
+  const fontUrl = parseFontUrl(css);
+  if (!fontUrl) {
+    throw new Error(`No TrueType source for ${family} ${weight}`);
+  }
+
+  const response = await fetch(fontUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${family} ${weight}: ${response.status}`);
+  }
+  return response.arrayBuffer();
+}
+
+/**
+ * Loads the fonts for a card. Fonts that fail to download are skipped so the
+ * card still renders with the bundled font.
+ */
+export async function loadOgFonts(locale: Locale, text: string): Promise<OgFont[]> {
+  const requests = getOgFontFamilies(locale, text).flatMap((name) =>
+    FONT_WEIGHTS.map(async (weight): Promise<OgFont> => ({
+      name,
+      data: await loadGoogleFont(name, weight, text),
+      weight,
+      style: "normal",
+    }))
+  );
+
+  const results = await Promise.allSettled(requests);
+  return results.flatMap((result) => {
+    if (result.status === "fulfilled") return [result.value];
+    console.error("Error loading Open Graph font:", result.reason);
+    return [];
+  });
+}
+
+/**
+ * Renders a 1200×630 Open Graph card with the site branding.
+ */
+export async function renderOgImage(card: OgCard): Promise<ImageResponse> {
+  const title = truncateTitle(card.title);
+  const host = new URL(siteUrl).host;
+  const text = [siteName, host, title, card.eyebrow, card.byline].filter(Boolean).join(" ");
+  const fonts = await loadOgFonts(card.locale, text);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: "linear-gradient(135deg, #0f172a 0%, #1e3a8a 100%)",
+          color: "#ffffff",
+          fontFamily: fonts.map((font) => font.name).join(", ") || undefined,
+        }}
+      >
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          {card.eyebrow && (
+            <div
+              style={{
+                display: "flex",
+                alignSelf: "flex-start",
+                padding: "8px 20px",
+                marginBottom: 32,
+                borderRadius: 9999,
+                background: "#2563eb",
+                fontSize: 28,
+                fontWeight: 700,
+              }}
+            >
+              {card.eyebrow}
+            </div>
+          )}
+          <div style={{ display: "flex", fontSize: title.length > 60 ? 56 : 68, fontWeight: 700, lineHeight: 1.25 }}>
+            {title}
+          </div>
+          {card.byline && (
+            <div style={{ display: "flex", marginTop: 28, fontSize: 30, color: "#cbd5e1" }}>{card.byline}</div>
+          )}
+        </div>
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", fontSize: 28 }}>
+          <div style={{ display: "flex", alignItems: "center", fontWeight: 700 }}>
+            <div style={{ width: 40, height: 40, marginRight: 16, borderRadius: 8, background: "#2563eb" }} />
+            {siteName}
+          </div>
+          <div style={{ display: "flex", color: "#94a3b8" }}>{host}</div>
+        </div>
+      </div>
+    ),
+    { ...OG_IMAGE_SIZE, fonts }
+  );
+}
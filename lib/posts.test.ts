@@ -1634,6 +1634,38 @@ describe("Property 9: Search highlighting", () => {
 });
 
 
+/**
+ * Full-text search headlines
+ * ts_headline output SHALL render only its <mark> tags as markup; any other
+ * markup in the source text is escaped.
+ */
+import { headlineToHtml } from "./search";
+
+describe("Property 9: Full-text search headline sanitization", () => {
+  it("keeps <mark> tags and escapes everything else", () => {
+    expect(headlineToHtml('<mark>Next</mark> <script>alert("x")</script> app')).toBe(
+      '<mark>Next</mark> &lt;script&gt;alert("x")&lt;/script&gt; app'
+    );
+  });
+
+  it("only <mark> tags survive for any headline", () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.oneof(fc.string({ maxLength: 10 }), fc.constantFrom("<mark>", "</mark>", "<b>", "<img src=x>")),
+          { maxLength: 10 }
+        ),
+        (parts) => {
+          const html = headlineToHtml(parts.join(""));
+          return html.replace(/<\/?mark>/g, "").match(/[<>]/) === null;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+
 /**
  * Property-Based Tests
  * **Feature: advanced-web-blog, Property 2: Post preview contains required fields**
@@ -10,7 +10,7 @@ const postInclude = {
   category: { select: { name: true, slug: true } },
   tags: { include: { tag: { select: { name: true, slug: true } } } },
   postMedia: {
-    include: { media: { select: { url: true, thumbnailUrl: true } } },
+    include: { media: { select: { url: true, thumbnailUrl: true, mimeType: true, size: true } } },
     orderBy: { order: "asc" as const },
   },
   _count: { select: { pageViews: true } },
@@ -20,6 +20,7 @@ type PostWithRelations = Prisma.PostGetPayload<{ include: typeof postInclude }>;
 
 /** Transform Prisma post to app Post type */
 function transformPost(post: PostWithRelations): Post {
+  const cover = post.postMedia.find((pm) => pm.isCover)?.media ?? post.postMedia[0]?.media;
   return {
     id: post.id,
     slug: post.slug,
@@ -36,17 +37,42 @@ function transformPost(post: PostWithRelations): Post {
     tags: post.tags.map((pt) => pt.tag.name),
     readingTime: post.readingTime,
     featured: post.featured,
-    image: post.postMedia.find((pm) => pm.isCover)?.media?.url || post.postMedia[0]?.media?.url,
+    image: cover?.url,
+    imageType: cover?.mimeType,
+    imageSize: cover?.size,
+    images: [...post.postMedia]
+      .sort((a, b) => Number(b.isCover) - Number(a.isCover))
+      .filter((pm) => pm.media.mimeType.startsWith("image/"))
+      .map((pm) => pm.media.url),
     locale: post.locale,
+    translationGroupId: post.translationGroupId ?? undefined,
     status: post.status.toLowerCase() as Post["status"],
   };
 }
 
+/**
+ * Where clause for posts readers may see: published, past their publish date
+ * and not yet past their unpublish time. The cron archives expired posts only
+ * once a day, so the expiry is checked here as well.
+ */
+export function publicPostWhere(now: Date = new Date()): Prisma.PostWhereInput {
+  return {
+    status: "PUBLISHED",
+    publishedAt: { lte: now },
+    AND: [{ OR: [{ unpublishAt: null }, { unpublishAt: { gt: now } }] }],
+  };
+}
+
+/** Where clause matching every locale version of a post; ungrouped posts are linked by slug */
+function translationsWhere(post: { slug: string; translationGroupId: string | null }): Prisma.PostWhereInput {
+  return post.translationGroupId ? { translationGroupId: post.translationGroupId } : { slug: post.slug };
+}
+
 /** Transform to LocalizedPost with alternate locales */
 async function transformToLocalizedPost(post: PostWithRelations): Promise<LocalizedPost> {
   const basePost = transformPost(post);
   const alternates = await prisma.post.findMany({
-    where: { slug: post.slug, locale: { not: post.locale }, status: "PUBLISHED" },
+    where: { ...translationsWhere(post), locale: { not: post.locale }, ...publicPostWhere() },
     select: { locale: true, slug: true },
   });
   return {
@@ -70,6 +96,20 @@ export function generateSlug(title: string): string {
     .trim().replace(/\s+/g, "-").replace(/-+/g, "-").replace(/^-|-$/g, "");
 }
 
+/**
+ * Returns `base`, or `base-2`, `base-3`, ... for the first one not in `taken`,
+ * and marks it as taken
+ */
+export function uniqueSlug(base: string, taken: Set<string>, fallback = "post"): string {
+  const root = base || fallback;
+  let slug = root;
+  for (let n = 2; taken.has(slug); n++) {
+    slug = `${root}-${n}`;
+  }
+  taken.add(slug);
+  return slug;
+}
+
 /** Creates an excerpt from HTML content */
 export function createExcerpt(content: string, customExcerpt?: string): string {
   if (customExcerpt) return customExcerpt.slice(0, 160);
@@ -80,7 +120,7 @@ export function createExcerpt(content: string, customExcerpt?: string): string {
 /** Gets all published posts */
 export async function getAllPosts(locale?: Locale): Promise<Post[]> {
   const posts = await prisma.post.findMany({
-    where: { status: "PUBLISHED", publishedAt: { lte: new Date() }, ...(locale && { locale }) },
+    where: { ...publicPostWhere(), ...(locale && { locale }) },
     include: postInclude,
     orderBy: { publishedAt: "desc" },
   });
@@ -90,28 +130,68 @@ export async function getAllPosts(locale?: Locale): Promise<Post[]> {
 /** Gets a single post by slug */
 export async function getPostBySlug(slug: string, locale?: Locale): Promise<Post | null> {
   const post = await prisma.post.findFirst({
-    where: { slug, status: "PUBLISHED", publishedAt: { lte: new Date() }, ...(locale && { locale }) },
+    where: { slug, ...publicPostWhere(), ...(locale && { locale }) },
     include: postInclude,
   });
   return post ? transformPost(post) : null;
 }
 
-/** Gets a post by slug and locale */
+/** Gets published posts by id, in the order the ids are given */
+export async function getPostsByIds(ids: string[]): Promise<Post[]> {
+  if (ids.length === 0) return [];
+  const posts = await prisma.post.findMany({
+    where: { id: { in: ids }, ...publicPostWhere() },
+    include: postInclude,
+  });
+  const byId = new Map(posts.map((p) => [p.id, transformPost(p)]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Gets a post by slug and locale.
+ * When the slug belongs to another locale version, resolves the translation
+ * in the requested locale through its translation group; the returned post
+ * then carries its own slug.
+ */
 export async function getPostBySlugAndLocale(slug: string, locale: Locale): Promise<LocalizedPost | null> {
   const post = await prisma.post.findFirst({
-    where: { slug, locale, status: "PUBLISHED", publishedAt: { lte: new Date() } },
+    where: { slug, locale, ...publicPostWhere() },
     include: postInclude,
   });
-  return post ? transformToLocalizedPost(post) : null;
+  if (post) return transformToLocalizedPost(post);
+
+  const sibling = await prisma.post.findFirst({
+    where: { slug, translationGroupId: { not: null }, ...publicPostWhere() },
+    select: { translationGroupId: true },
+  });
+  if (!sibling?.translationGroupId) return null;
+
+  const translation = await prisma.post.findFirst({
+    where: { translationGroupId: sibling.translationGroupId, locale, ...publicPostWhere() },
+    include: postInclude,
+  });
+  return translation ? transformToLocalizedPost(translation) : null;
 }
 
-/** Gets all available locales for a given post slug */
-export async function getAvailableLocales(slug: string): Promise<Locale[]> {
+/** Gets all locale versions of a post, resolved through its translation group */
+export async function getPostTranslations(slug: string): Promise<{ locale: Locale; slug: string }[]> {
+  const post = await prisma.post.findFirst({
+    where: { slug, ...publicPostWhere() },
+    select: { slug: true, translationGroupId: true },
+  });
+  if (!post) return [];
+
   const posts = await prisma.post.findMany({
-    where: { slug, status: "PUBLISHED" },
-    select: { locale: true },
+    where: { ...translationsWhere(post), ...publicPostWhere() },
+    select: { locale: true, slug: true },
   });
-  return posts.map((p) => p.locale as Locale);
+  return posts.map((p) => ({ locale: p.locale as Locale, slug: p.slug }));
+}
+
+/** Gets all available locales for a given post slug */
+export async function getAvailableLocales(slug: string): Promise<Locale[]> {
+  const translations = await getPostTranslations(slug);
+  return translations.map((t) => t.locale);
 }
 
 /** Gets a post with fallback to default locale */
@@ -131,7 +211,7 @@ export async function getFallbackPost(
 
   // Try any locale
   const anyPost = await prisma.post.findFirst({
-    where: { slug, status: "PUBLISHED", publishedAt: { lte: new Date() } },
+    where: { slug, ...publicPostWhere() },
     include: postInclude,
   });
   if (anyPost) {
@@ -144,7 +224,7 @@ export async function getFallbackPost(
 /** Gets all posts in a specific category */
 export async function getPostsByCategory(categorySlug: string, locale?: Locale): Promise<Post[]> {
   const posts = await prisma.post.findMany({
-    where: { status: "PUBLISHED", publishedAt: { lte: new Date() }, category: { slug: categorySlug }, ...(locale && { locale }) },
+    where: { ...publicPostWhere(), category: { slug: categorySlug }, ...(locale && { locale }) },
     include: postInclude,
     orderBy: { publishedAt: "desc" },
   });
@@ -154,7 +234,7 @@ export async function getPostsByCategory(categorySlug: string, locale?: Locale):
 /** Gets all posts containing a specific tag */
 export async function getPostsByTag(tagSlug: string, locale?: Locale): Promise<Post[]> {
   const posts = await prisma.post.findMany({
-    where: { status: "PUBLISHED", publishedAt: { lte: new Date() }, tags: { some: { tag: { slug: tagSlug } } }, ...(locale && { locale }) },
+    where: { ...publicPostWhere(), tags: { some: { tag: { slug: tagSlug } } }, ...(locale && { locale }) },
     include: postInclude,
     orderBy: { publishedAt: "desc" },
   });
@@ -165,7 +245,7 @@ export async function getPostsByTag(tagSlug: string, locale?: Locale): Promise<P
 /** Gets all unique categories with post counts */
 export async function getAllCategories(): Promise<Category[]> {
   const categories = await prisma.category.findMany({
-    include: { _count: { select: { posts: { where: { status: "PUBLISHED", publishedAt: { lte: new Date() } } } } } },
+    include: { _count: { select: { posts: { where: publicPostWhere() } } } },
     orderBy: { name: "asc" },
   });
   return categories.map((cat) => ({ name: cat.name, slug: cat.slug, postCount: cat._count.posts }));
@@ -174,7 +254,7 @@ export async function getAllCategories(): Promise<Category[]> {
 /** Gets all unique tags with post counts */
 export async function getAllTags(): Promise<Tag[]> {
   const tags = await prisma.tag.findMany({
-    include: { _count: { select: { posts: { where: { post: { status: "PUBLISHED", publishedAt: { lte: new Date() } } } } } } },
+    include: { _count: { select: { posts: { where: { post: publicPostWhere() } } } } },
     orderBy: { name: "asc" },
   });
   return tags.map((tag) => ({ name: tag.name, slug: tag.slug, postCount: tag._count.posts }));
@@ -185,8 +265,7 @@ export async function getRelatedPosts(post: Post, limit: number = 3): Promise<Po
   const posts = await prisma.post.findMany({
     where: {
       id: { not: post.id },
-      status: "PUBLISHED",
-      publishedAt: { lte: new Date() },
+      ...publicPostWhere(),
       OR: [{ category: { name: post.category } }, { tags: { some: { tag: { name: { in: post.tags } } } } }],
     },
     include: postInclude,
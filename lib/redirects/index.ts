@@ -0,0 +1,31 @@
+/**
+ * Redirects Module Barrel Export
+ *
+ * Manual and automatic redirects resolved by the middleware from a Redis
+ * lookup table. The middleware imports './table' directly, since this barrel
+ * also pulls in Prisma.
+ */
+
+// Types
+export { REDIRECT_STATUS_CODES } from './types';
+export type { RedirectStatusCode, RedirectRule, RedirectTable } from './types';
+
+// Paths
+export { normalizeRedirectPath, isExternalTarget, postPath, categoryPaths } from './paths';
+
+// Lookup table
+export {
+  buildRedirectTable,
+  loadRedirectTable,
+  saveRedirectTable,
+  resolveRedirect,
+  recordRedirectHit,
+  REDIRECT_TABLE_KEY,
+  REDIRECT_HITS_PREFIX,
+  REDIRECT_TABLE_MEMO_MS,
+  MAX_REDIRECT_HOPS,
+} from './table';
+
+// Service
+export { redirectService } from './service';
+export type { RedirectInput, PathChange } from './service';
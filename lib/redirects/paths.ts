@@ -0,0 +1,43 @@
+/**
+ * Path helpers shared by the redirect table and automatic redirects
+ */
+
+import { locales } from '@/lib/i18n/config';
+
+/**
+ * Normalizes a path for lookup: leading slash, no query, hash or trailing
+ * slash, and percent-encoding decoded so Thai slugs match either form
+ */
+export function normalizeRedirectPath(path: string): string {
+  let normalized = path.trim().split(/[?#]/)[0];
+  try {
+    normalized = decodeURI(normalized);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  if (!normalized.startsWith('/')) normalized = `/${normalized}`;
+  normalized = normalized.replace(/\/{2,}/g, '/');
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+}
+
+/**
+ * Whether a redirect target is an absolute http(s) URL rather than a site path
+ */
+export function isExternalTarget(target: string): boolean {
+  return /^https?:\/\//i.test(target);
+}
+
+/**
+ * Public path of a post
+ */
+export function postPath(locale: string, slug: string): string {
+  return `/${locale}/blog/${slug}`;
+}
+
+/**
+ * Public paths of a category, one per locale. Only the slug is in the URL,
+ * so moving a category to another parent keeps its links.
+ */
+export function categoryPaths(slug: string): string[] {
+  return locales.map((locale) => `/${locale}/category/${slug}`);
+}
@@ -0,0 +1,288 @@
+/**
+ * Tests for redirects
+ *
+ * Property: The lookup table SHALL send every source to its final
+ * destination in one hop, SHALL leave out loops, and automatic redirects
+ * SHALL never redirect away from a path that serves content again.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+type RedirectRow = {
+  id: string;
+  source: string;
+  target: string | null;
+  statusCode: number;
+  hits: number;
+  automatic: boolean;
+  lastHitAt: Date | null;
+};
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    redirects: [] as RedirectRow[],
+    cache: new Map<string, unknown>(),
+    counter: 0,
+  },
+}));
+
+vi.mock('@/lib/db/prisma', () => {
+  const redirect = {
+    findMany: vi.fn(async () => store.redirects.map((row) => ({ ...row }))),
+    findUnique: vi.fn(async ({ where }: { where: { source: string } }) =>
+      store.redirects.find((row) => row.source === where.source) ?? null
+    ),
+    create: vi.fn(async ({ data }: { data: Omit<RedirectRow, 'id' | 'hits' | 'automatic' | 'lastHitAt'> }) => {
+      const row = { id: `r${++store.counter}`, hits: 0, automatic: false, lastHitAt: null, ...data };
+      store.redirects.push(row);
+      return row;
+    }),
+    deleteMany: vi.fn(async ({ where }: { where: { source: { in: string[] } } }) => {
+      const before = store.redirects.length;
+      store.redirects = store.redirects.filter((row) => !where.source.in.includes(row.source));
+      return { count: before - store.redirects.length };
+    }),
+    upsert: vi.fn(
+      async ({ where, create, update }: { where: { source: string }; create: Partial<RedirectRow>; update: Partial<RedirectRow> }) => {
+        const existing = store.redirects.find((row) => row.source === where.source);
+        if (existing) return Object.assign(existing, update);
+        const row = { id: `r${++store.counter}`, hits: 0, lastHitAt: null, ...create } as RedirectRow;
+        store.redirects.push(row);
+        return row;
+      }
+    ),
+    updateMany: vi.fn(
+      async ({ where, data }: { where: { id: string }; data: { hits: { increment: number }; lastHitAt: Date } }) => {
+        const row = store.redirects.find((r) => r.id === where.id);
+        if (row) {
+          row.hits += data.hits.increment;
+          row.lastHitAt = data.lastHitAt;
+        }
+        return { count: row ? 1 : 0 };
+      }
+    ),
+  };
+  return {
+    default: {
+      redirect,
+      $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+    },
+  };
+});
+
+vi.mock('@/lib/cache/redis', () => ({
+  CACHE_KEYS: { REDIRECTS: 'redirects' },
+  default: {
+    get: vi.fn(async (key: string) => store.cache.get(key) ?? null),
+    set: vi.fn(async (key: string, value: unknown) => {
+      store.cache.set(key, value);
+    }),
+    incr: vi.fn(async (key: string) => {
+      const value = Number(store.cache.get(key) ?? 0) + 1;
+      store.cache.set(key, value);
+      return value;
+    }),
+  },
+  redis: {
+    keys: vi.fn(async (pattern: string) => [...store.cache.keys()].filter((key) => key.startsWith(pattern.slice(0, -1)))),
+    mget: vi.fn(async (...keys: string[]) => keys.map((key) => store.cache.get(key) ?? null)),
+    decrby: vi.fn(async (key: string, by: number) => {
+      store.cache.set(key, Number(store.cache.get(key)) - by);
+    }),
+  },
+}));
+
+// Import after mocking
+import cacheService from '@/lib/cache/redis';
+import { normalizeRedirectPath, postPath } from './paths';
+import {
+  buildRedirectTable,
+  loadRedirectTable,
+  recordRedirectHit,
+  REDIRECT_TABLE_KEY,
+  REDIRECT_TABLE_MEMO_MS,
+} from './table';
+import { redirectService } from './service';
+import type { RedirectTable } from './types';
+
+const savedTable = () => store.cache.get(REDIRECT_TABLE_KEY) as RedirectTable;
+
+const row = (id: string, source: string, target: string | null, statusCode = 301) => ({ id, source, target, statusCode });
+
+beforeEach(() => {
+  store.redirects = [];
+  store.cache = new Map();
+  store.counter = 0;
+  vi.clearAllMocks();
+});
+
+describe('normalizeRedirectPath', () => {
+  const segment = fc.stringMatching(/^[a-z0-9ก-๙-]{1,12}$/);
+
+  it('is idempotent and ignores trailing slashes, queries and encoding', () => {
+    fc.assert(
+      fc.property(fc.array(segment, { minLength: 1, maxLength: 4 }), (segments) => {
+        const path = `/${segments.join('/')}`;
+        expect(normalizeRedirectPath(path)).toBe(path);
+        expect(normalizeRedirectPath(`${path}/`)).toBe(path);
+        expect(normalizeRedirectPath(`${path}?utm=1#top`)).toBe(path);
+        expect(normalizeRedirectPath(encodeURI(path))).toBe(path);
+        expect(normalizeRedirectPath(normalizeRedirectPath(path))).toBe(path);
+      })
+    );
+  });
+
+  it('keeps the root path and adds a missing leading slash', () => {
+    expect(normalizeRedirectPath('/')).toBe('/');
+    expect(normalizeRedirectPath('en/blog//x/')).toBe('/en/blog/x');
+  });
+});
+
+describe('buildRedirectTable', () => {
+  it('flattens chains of any length to the final destination', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 8 }), (length) => {
+        const paths = Array.from({ length: length + 1 }, (_, i) => `/p${i}`);
+        const rows = paths.slice(0, -1).map((path, i) => row(`r${i}`, path, paths[i + 1]));
+
+        const table = buildRedirectTable(rows);
+
+        for (const [i, path] of paths.slice(0, -1).entries()) {
+          expect(table[path]).toEqual({ id: `r${i}`, target: paths[length], statusCode: 301 });
+        }
+      })
+    );
+  });
+
+  it('leaves out redirects that loop', () => {
+    const table = buildRedirectTable([
+      row('a', '/a', '/b'),
+      row('b', '/b', '/c'),
+      row('c', '/c', '/a'),
+      row('d', '/d', '/a'),
+      row('e', '/e', '/e/'),
+    ]);
+
+    expect(table).toEqual({});
+  });
+
+  it('uses 302 when any hop is temporary and 410 when the chain ends gone', () => {
+    const table = buildRedirectTable([
+      row('a', '/a', '/b'),
+      row('b', '/b', '/c', 302),
+      row('x', '/x', '/gone'),
+      row('g', '/gone', null, 410),
+    ]);
+
+    expect(table['/a']).toEqual({ id: 'a', target: '/c', statusCode: 302 });
+    expect(table['/x']).toEqual({ id: 'x', target: null, statusCode: 410 });
+    expect(table['/gone']).toEqual({ id: 'g', target: null, statusCode: 410 });
+  });
+
+  it('does not follow external targets', () => {
+    const table = buildRedirectTable([row('a', '/a', 'https://example.com/a'), row('b', '/b', '/a')]);
+
+    expect(table['/b'].target).toBe('https://example.com/a');
+  });
+});
+
+describe('redirectService.recordPathChanges', () => {
+  it('redirects every earlier slug of a post to the current one', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uniqueArray(fc.stringMatching(/^[a-z]{1,6}$/), { minLength: 2, maxLength: 6 }), async (slugs) => {
+        store.redirects = [];
+        for (let i = 1; i < slugs.length; i++) {
+          await redirectService.recordPathChanges([{ from: postPath('en', slugs[i - 1]), to: postPath('en', slugs[i]) }]);
+        }
+
+        const current = postPath('en', slugs[slugs.length - 1]);
+        const table = savedTable();
+        expect(table[current]).toBeUndefined();
+        for (const slug of slugs.slice(0, -1)) {
+          expect(table[postPath('en', slug)].target).toBe(current);
+        }
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('stops redirecting a path once content moves back to it', async () => {
+    await redirectService.recordPathChanges([{ from: '/en/blog/a', to: '/en/blog/b' }]);
+    await redirectService.recordPathChanges([{ from: '/en/blog/b', to: '/en/blog/a' }]);
+
+    expect(store.redirects.map((r) => r.source)).toEqual(['/en/blog/b']);
+    expect(savedTable()).toEqual({ '/en/blog/b': { id: 'r2', target: '/en/blog/a', statusCode: 301 } });
+  });
+
+  it('ignores unchanged paths', async () => {
+    await expect(redirectService.recordPathChanges([{ from: '/en/blog/a/', to: '/en/blog/a' }])).resolves.toBe(0);
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+});
+
+describe('redirectService.clearRedirectsFrom', () => {
+  it('stops redirecting paths that new content takes over', async () => {
+    await redirectService.recordPathChanges([
+      { from: '/en/blog/a', to: '/en/blog/b' },
+      { from: '/en/category/news', to: '/en/category/updates' },
+    ]);
+
+    await expect(redirectService.clearRedirectsFrom(['/en/blog/a/', '/en/blog/c'])).resolves.toBe(1);
+
+    expect(store.redirects.map((r) => r.source)).toEqual(['/en/category/news']);
+    expect(Object.keys(savedTable())).toEqual(['/en/category/news']);
+  });
+
+  it('leaves the table alone when no redirect matches', async () => {
+    await expect(redirectService.clearRedirectsFrom(['/en/blog/new'])).resolves.toBe(0);
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+});
+
+describe('redirectService.createRedirect', () => {
+  it('rejects duplicates and redirects to the same path', async () => {
+    await redirectService.createRedirect({ source: '/old', target: '/new', statusCode: 301 });
+
+    await expect(redirectService.createRedirect({ source: '/old/', target: '/x', statusCode: 302 })).rejects.toThrow(
+      'A redirect for this path already exists'
+    );
+    await expect(redirectService.createRedirect({ source: '/a', target: '/a/', statusCode: 301 })).rejects.toThrow(
+      'A redirect cannot point to itself'
+    );
+  });
+
+  it('stores 410 redirects without a target', async () => {
+    const redirect = await redirectService.createRedirect({ source: '/removed', target: '/ignored', statusCode: 410 });
+
+    expect(redirect.target).toBeNull();
+    expect(savedTable()['/removed'].statusCode).toBe(410);
+  });
+});
+
+describe('redirect hits', () => {
+  it('buffers hits in Redis and flushes them to the database', async () => {
+    const redirect = await redirectService.createRedirect({ source: '/old', target: '/new', statusCode: 301 });
+    await recordRedirectHit(redirect.id);
+    await recordRedirectHit(redirect.id);
+    await recordRedirectHit('deleted-redirect');
+
+    await expect(redirectService.flushHits()).resolves.toBe(3);
+    expect(store.redirects[0].hits).toBe(2);
+    await expect(redirectService.flushHits()).resolves.toBe(0);
+  });
+});
+
+describe('loadRedirectTable', () => {
+  it('reads Redis at most once per memo window', async () => {
+    await redirectService.rebuildTable();
+    vi.mocked(cacheService.get).mockClear();
+
+    await loadRedirectTable(1_000_000);
+    await loadRedirectTable(1_000_000 + REDIRECT_TABLE_MEMO_MS - 1);
+    expect(cacheService.get).toHaveBeenCalledTimes(1);
+
+    await loadRedirectTable(1_000_000 + REDIRECT_TABLE_MEMO_MS);
+    expect(cacheService.get).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Redirect Service
+ *
+ * Manual redirect management, automatic redirects when public paths change,
+ * and keeping the Redis lookup table and hit counters in sync.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { redis } from '@/lib/cache/redis';
+import { isExternalTarget, normalizeRedirectPath } from './paths';
+import { buildRedirectTable, REDIRECT_HITS_PREFIX, saveRedirectTable } from './table';
+import type { RedirectStatusCode } from './types';
+import type { Redirect } from '@/lib/generated/prisma';
+
+export interface RedirectInput {
+  source: string;
+  target?: string | null;
+  statusCode: RedirectStatusCode;
+}
+
+/**
+ * A public path that moved, e.g. after a slug change
+ */
+export interface PathChange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Normalizes source and target; 410 redirects have no target
+ */
+function toRedirectData(input: RedirectInput) {
+  const source = normalizeRedirectPath(input.source);
+  const target =
+    input.statusCode === 410 || !input.target
+      ? null
+      : isExternalTarget(input.target)
+        ? input.target
+        : normalizeRedirectPath(input.target);
+
+  if (input.statusCode !== 410 && !target) {
+    throw new Error('A target is required for 301 and 302 redirects');
+  }
+  if (target === source) {
+    throw new Error('A redirect cannot point to itself');
+  }
+
+  return { source, target, statusCode: input.statusCode };
+}
+
+export const redirectService = {
+  /**
+   * Get all redirects, newest first
+   */
+  async getRedirects(): Promise<Redirect[]> {
+    return prisma.redirect.findMany({ orderBy: { createdAt: 'desc' } });
+  },
+
+  /**
+   * Create a manual redirect
+   */
+  async createRedirect(input: RedirectInput): Promise<Redirect> {
+    const data = toRedirectData(input);
+
+    const existing = await prisma.redirect.findUnique({ where: { source: data.source } });
+    if (existing) {
+      throw new Error('A redirect for this path already exists');
+    }
+
+    const redirect = await prisma.redirect.create({ data });
+    await this.rebuildTable();
+    return redirect;
+  },
+
+  /**
+   * Update a redirect; edited redirects count as manual from then on
+   */
+  async updateRedirect(id: string, input: RedirectInput): Promise<Redirect> {
+    const data = toRedirectData(input);
+
+    const existing = await prisma.redirect.findFirst({ where: { source: data.source, id: { not: id } } });
+    if (existing) {
+      throw new Error('A redirect for this path already exists');
+    }
+
+    const redirect = await prisma.redirect.update({
+      where: { id },
+      data: { ...data, automatic: false },
+    });
+    await this.rebuildTable();
+    return redirect;
+  },
+
+  /**
+   * Delete a redirect
+   */
+  async deleteRedirect(id: string): Promise<Redirect> {
+    const redirect = await prisma.redirect.delete({ where: { id } });
+    await this.rebuildTable();
+    return redirect;
+  },
+
+  /**
+   * Records permanent redirects for paths that moved. Any redirect away from
+   * a new path is removed, since that path now serves content again.
+   * Chains are flattened when the table is built.
+   */
+  async recordPathChanges(changes: PathChange[]): Promise<number> {
+    const moves = changes
+      .map(({ from, to }) => ({ from: normalizeRedirectPath(from), to: normalizeRedirectPath(to) }))
+      .filter(({ from, to }) => from !== to);
+    if (moves.length === 0) return 0;
+
+    await prisma.$transaction([
+      prisma.redirect.deleteMany({ where: { source: { in: moves.map(({ to }) => to) } } }),
+      ...moves.map(({ from, to }) =>
+        prisma.redirect.upsert({
+          where: { source: from },
+          create: { source: from, target: to, statusCode: 301, automatic: true },
+          update: { target: to, statusCode: 301, automatic: true },
+        })
+      ),
+    ]);
+
+    await this.rebuildTable();
+    return moves.length;
+  },
+
+  /**
+   * Removes redirects away from paths that now serve content, e.g. a new
+   * post or category taking over a path left by an earlier slug
+   * Returns the number of redirects removed
+   */
+  async clearRedirectsFrom(paths: string[]): Promise<number> {
+    if (paths.length === 0) return 0;
+
+    const { count } = await prisma.redirect.deleteMany({
+      where: { source: { in: paths.map(normalizeRedirectPath) } },
+    });
+    if (count > 0) {
+      await this.rebuildTable();
+    }
+    return count;
+  },
+
+  /**
+   * Rebuilds the Redis lookup table from the database
+   * Returns the number of resolvable redirects
+   */
+  async rebuildTable(): Promise<number> {
+    const rows = await prisma.redirect.findMany({
+      select: { id: true, source: true, target: true, statusCode: true },
+    });
+    const table = buildRedirectTable(rows);
+    await saveRedirectTable(table);
+    return Object.keys(table).length;
+  },
+
+  /**
+   * Moves hit counts buffered by the middleware into the database
+   * Returns the number of hits flushed
+   */
+  async flushHits(now: Date = new Date()): Promise<number> {
+    const keys = await redis.keys(`${REDIRECT_HITS_PREFIX}:*`);
+    if (keys.length === 0) return 0;
+
+    const values = await redis.mget<(number | null)[]>(...keys);
+    let flushed = 0;
+
+    for (const [index, key] of keys.entries()) {
+      const count = Number(values[index] ?? 0);
+      if (count > 0) {
+        // updateMany: the redirect may have been deleted since the hit
+        await prisma.redirect.updateMany({
+          where: { id: key.slice(REDIRECT_HITS_PREFIX.length + 1) },
+          data: { hits: { increment: count }, lastHitAt: now },
+        });
+        // Subtract rather than delete so hits recorded meanwhile are kept
+        await redis.decrby(key, count);
+        flushed += count;
+      }
+    }
+
+    return flushed;
+  },
+};
+
+export default redirectService;
@@ -0,0 +1,104 @@
+/**
+ * Redirect Lookup Table
+ *
+ * Built from the database whenever redirects change and stored in Redis, so
+ * the middleware resolves redirects without touching the database. Only
+ * imports the Redis client, which keeps it usable from the middleware.
+ */
+
+import cacheService, { CACHE_KEYS } from '@/lib/cache/redis';
+import { isExternalTarget, normalizeRedirectPath } from './paths';
+import type { RedirectRule, RedirectStatusCode, RedirectTable } from './types';
+
+/** Redis key holding the whole lookup table */
+export const REDIRECT_TABLE_KEY = `${CACHE_KEYS.REDIRECTS}:table`;
+
+/** Redis key prefix for buffered hit counters, flushed to the database by cron */
+export const REDIRECT_HITS_PREFIX = `${CACHE_KEYS.REDIRECTS}:hits`;
+
+/** How long a middleware instance reuses the table before re-reading Redis */
+export const REDIRECT_TABLE_MEMO_MS = 30 * 1000;
+
+/** Longest chain followed when flattening redirects */
+export const MAX_REDIRECT_HOPS = 10;
+
+interface RedirectRow {
+  id: string;
+  source: string;
+  target: string | null;
+  statusCode: number;
+}
+
+/**
+ * Builds the lookup table, flattening chains (A → B → C becomes A → C) so
+ * visitors get a single hop. Redirects that loop are left out.
+ */
+export function buildRedirectTable(rows: RedirectRow[]): RedirectTable {
+  const bySource = new Map(rows.map((row) => [normalizeRedirectPath(row.source), row]));
+  const table: RedirectTable = {};
+
+  for (const [source, row] of bySource) {
+    const visited = new Set([source]);
+    let current = row;
+    let permanent = row.statusCode === 301;
+    let loops = false;
+
+    while (current.statusCode !== 410 && current.target && !isExternalTarget(current.target)) {
+      const nextSource = normalizeRedirectPath(current.target);
+      const next = bySource.get(nextSource);
+      if (!next) break;
+      if (visited.has(nextSource) || visited.size > MAX_REDIRECT_HOPS) {
+        loops = true;
+        break;
+      }
+      visited.add(nextSource);
+      permanent &&= next.statusCode !== 302;
+      current = next;
+    }
+
+    if (loops) continue;
+    if (current.statusCode !== 410 && (!current.target || normalizeRedirectPath(current.target) === source)) continue;
+
+    const statusCode: RedirectStatusCode = current.statusCode === 410 ? 410 : permanent ? 301 : 302;
+    table[source] = { id: row.id, target: statusCode === 410 ? null : current.target, statusCode };
+  }
+
+  return table;
+}
+
+let memo: { table: RedirectTable; loadedAt: number } | null = null;
+
+/**
+ * Reads the lookup table from Redis, reusing it for REDIRECT_TABLE_MEMO_MS
+ */
+export async function loadRedirectTable(now: number = Date.now()): Promise<RedirectTable> {
+  if (memo && now - memo.loadedAt < REDIRECT_TABLE_MEMO_MS) {
+    return memo.table;
+  }
+  const table = (await cacheService.get<RedirectTable>(REDIRECT_TABLE_KEY)) ?? {};
+  memo = { table, loadedAt: now };
+  return table;
+}
+
+/**
+ * Stores a freshly built table in Redis (no TTL) and drops this instance's copy
+ */
+export async function saveRedirectTable(table: RedirectTable): Promise<void> {
+  await cacheService.set(REDIRECT_TABLE_KEY, table);
+  memo = null;
+}
+
+/**
+ * Finds the redirect for a request path, if any
+ */
+export async function resolveRedirect(pathname: string): Promise<RedirectRule | null> {
+  const table = await loadRedirectTable();
+  return table[normalizeRedirectPath(pathname)] ?? null;
+}
+
+/**
+ * Buffers a hit in Redis
+ */
+export async function recordRedirectHit(id: string): Promise<void> {
+  await cacheService.incr(`${REDIRECT_HITS_PREFIX}:${id}`);
+}
@@ -0,0 +1,27 @@
+/**
+ * Redirect Types Module
+ *
+ * A redirect maps an old site path to a new path or URL (301/302), or marks
+ * it as permanently gone (410). The middleware resolves them from a lookup
+ * table cached in Redis.
+ */
+
+/** 301 Moved Permanently, 302 Found, 410 Gone */
+export const REDIRECT_STATUS_CODES = [301, 302, 410] as const;
+
+export type RedirectStatusCode = (typeof REDIRECT_STATUS_CODES)[number];
+
+/**
+ * A resolved entry of the lookup table
+ */
+export interface RedirectRule {
+  id: string;
+  /** Final destination after following chains; null for 410 */
+  target: string | null;
+  statusCode: RedirectStatusCode;
+}
+
+/**
+ * Lookup table keyed by normalized source path
+ */
+export type RedirectTable = Record<string, RedirectRule>;
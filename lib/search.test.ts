@@ -0,0 +1,111 @@
+/**
+ * Property-Based Tests for Search Filters
+ *
+ * Property: Search filters SHALL round-trip through the search page URL, and
+ * a category facet SHALL count the posts of all of its subcategories.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { buildSearchUrl, parseSearchFilters, rollUpCategoryCounts, SEARCH_SORTS } from "./search";
+import type { CategoryNode } from "./categories/tree";
+import type { SearchFilters } from "./types";
+
+const slugArb = fc.stringMatching(/^[a-z0-9-]{1,16}$/);
+const dateArb = fc
+  .date({ min: new Date("2000-01-01T00:00:00Z"), max: new Date("2099-12-31T00:00:00Z"), noInvalidDate: true })
+  .map((d) => d.toISOString().slice(0, 10));
+
+const filtersArb: fc.Arbitrary<SearchFilters> = fc.record(
+  {
+    category: slugArb,
+    tag: slugArb,
+    author: fc.stringMatching(/^user_[A-Za-z0-9]{1,12}$/),
+    from: dateArb,
+    to: dateArb,
+    sort: fc.constantFrom(...SEARCH_SORTS),
+  },
+  { requiredKeys: [] }
+);
+
+function paramsOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url, "http://localhost").searchParams);
+}
+
+describe("Search filter URLs", () => {
+  it("filters survive a round trip through the URL", () => {
+    fc.assert(
+      fc.property(filtersArb, fc.string({ maxLength: 20 }), (filters, query) => {
+        const params = paramsOf(buildSearchUrl("en", query, filters));
+
+        expect(parseSearchFilters(params)).toEqual({
+          category: filters.category,
+          tag: filters.tag,
+          author: filters.author,
+          from: filters.from,
+          to: filters.to,
+          sort: filters.sort,
+        });
+        expect(params.q).toBe(query.trim() || undefined);
+        expect(params.page).toBeUndefined();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("drops invalid sort and date values", () => {
+    expect(
+      parseSearchFilters({ sort: "random", from: "yesterday", to: "2024-13-45", tag: "  " })
+    ).toEqual({
+      category: undefined,
+      tag: undefined,
+      author: undefined,
+      from: undefined,
+      to: undefined,
+      sort: undefined,
+    });
+  });
+
+  it("omits the query string when there is nothing to filter", () => {
+    expect(buildSearchUrl("th", "  ", {})).toBe("/th/search");
+  });
+});
+
+describe("Category facet counts", () => {
+  const categories: CategoryNode[] = [
+    { id: "tech", name: "Tech", slug: "tech", parentId: null, depth: 0 },
+    { id: "web", name: "Web", slug: "web", parentId: "tech", depth: 1 },
+    { id: "react", name: "React", slug: "react", parentId: "web", depth: 2 },
+    { id: "life", name: "Life", slug: "life", parentId: null, depth: 0 },
+  ];
+
+  it("a parent counts its own posts plus those of every descendant", () => {
+    fc.assert(
+      fc.property(fc.array(fc.nat({ max: 20 }), { minLength: 4, maxLength: 4 }), (counts) => {
+        const direct = new Map(categories.map((c, i) => [c.id, counts[i]]));
+        const facets = new Map(rollUpCategoryCounts(direct, categories).map((f) => [f.value, f.count]));
+
+        const expected = {
+          tech: counts[0] + counts[1] + counts[2],
+          web: counts[1] + counts[2],
+          react: counts[2],
+          life: counts[3],
+        };
+        for (const [slug, count] of Object.entries(expected)) {
+          expect(facets.get(slug)).toBe(count > 0 ? count : undefined);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("lists categories in tree order with their depth", () => {
+    const facets = rollUpCategoryCounts(new Map([["react", 1], ["life", 2]]), categories);
+    expect(facets.map((f) => [f.value, f.depth])).toEqual([
+      ["tech", 0],
+      ["web", 1],
+      ["react", 2],
+      ["life", 0],
+    ]);
+  });
+});
@@ -1,5 +1,61 @@
-import type { Post, SearchResult } from "./types";
-import { toPostPreview } from "./posts";
+import prisma from "@/lib/db/prisma";
+import { Prisma } from "@/lib/generated/prisma";
+import type { Post, SearchResult, SearchFilters, SearchSort, SearchFacets, FacetCount } from "./types";
+import type { Locale } from "./i18n/config";
+import { getPostsByIds, toPostPreview } from "./posts";
+import { buildCategoryTree, flattenTree, getDescendants, type CategoryNode } from "./categories/tree";
+
+/**
+ * Postgres text search configuration per locale.
+ * Postgres ships no Thai dictionary, so Thai uses the language-neutral `simple` config.
+ */
+export const SEARCH_CONFIGS: Record<Locale, string> = {
+  en: "english",
+  es: "spanish",
+  fr: "french",
+  th: "simple",
+};
+
+export const SEARCH_PAGE_SIZE = 10;
+
+export const SEARCH_SORTS: SearchSort[] = ["relevance", "newest", "views"];
+
+// Maximum number of tag and author facet values shown
+const FACET_LIMIT = 20;
+
+// ts_headline options; <mark> is the only markup kept in highlighted output
+export const TITLE_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, HighlightAll=true";
+export const EXCERPT_HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+export interface SearchOptions {
+  locale: Locale;
+  page?: number;
+  pageSize?: number;
+  filters?: SearchFilters;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: SearchFacets;
+}
+
+interface SearchRow {
+  id: string;
+  highlightedTitle: string;
+  highlightedExcerpt: string;
+  rank: number;
+  viewCount: bigint;
+  total: bigint;
+}
+
+type FacetRow = { value: string; label: string | null; count: number };
+
+type FacetKey = "category" | "tag" | "author";
 
 /**
  * Escapes special regex characters in a string.
@@ -84,3 +140,330 @@ export function search(query: string, posts: Post[]): SearchResult[] {
 
   return results;
 }
+
+/**
+ * Converts ts_headline output to safe HTML: escapes markup, keeping only <mark> tags.
+ */
+export function headlineToHtml(headline: string): string {
+  return headline
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/&lt;(\/?)mark&gt;/g, "<$1mark>");
+}
+
+/** SQL expression selecting the text search config for a row's locale column */
+export function localeConfigSql(column: Prisma.Sql = Prisma.sql`p.locale`): Prisma.Sql {
+  const cases = Object.entries(SEARCH_CONFIGS).map(
+    ([locale, config]) => Prisma.sql`WHEN ${locale} THEN ${config}`
+  );
+  return Prisma.sql`(CASE ${column} ${Prisma.join(cases, " ")} ELSE 'simple' END)::regconfig`;
+}
+
+/**
+ * Recomputes the full-text search vector for the given posts.
+ * Weights: title (A), tag names and excerpt (B), content with HTML stripped (C).
+ */
+export async function updateSearchVectors(postIds: string[]): Promise<void> {
+  if (postIds.length === 0) return;
+
+  const config = localeConfigSql();
+  await prisma.$executeRaw`
+    UPDATE "Post" AS p SET "searchVector" =
+      setweight(to_tsvector(${config}, coalesce(p.title, '')), 'A') ||
+      setweight(to_tsvector(${config}, coalesce((
+        SELECT string_agg(t.name, ' ')
+        FROM "PostTag" pt JOIN "Tag" t ON t.id = pt."tagId"
+        WHERE pt."postId" = p.id
+      ), '')), 'B') ||
+      setweight(to_tsvector(${config}, regexp_replace(coalesce(p.excerpt, ''), '<[^>]*>', ' ', 'g')), 'B') ||
+      setweight(to_tsvector(${config}, regexp_replace(p.content, '<[^>]*>', ' ', 'g')), 'C')
+    WHERE p.id IN (${Prisma.join(postIds)})
+  `;
+}
+
+/**
+ * Recomputes the search vectors of every post, in batches.
+ * Returns the number of posts indexed.
+ */
+export async function reindexAllPosts(batchSize: number = 100): Promise<number> {
+  let indexed = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.post.findMany({
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    if (batch.length === 0) break;
+
+    await updateSearchVectors(batch.map((p) => p.id));
+    indexed += batch.length;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return indexed;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) return undefined;
+  return value;
+}
+
+/**
+ * Reads search filters from URL search params, dropping invalid values.
+ */
+export function parseSearchFilters(params: Record<string, string | string[] | undefined>): SearchFilters {
+  const get = (key: string) => {
+    const value = params[key];
+    const first = Array.isArray(value) ? value[0] : value;
+    return first?.trim() || undefined;
+  };
+
+  const sort = get("sort");
+  return {
+    category: get("category"),
+    tag: get("tag"),
+    author: get("author"),
+    from: parseDate(get("from")),
+    to: parseDate(get("to")),
+    sort: SEARCH_SORTS.includes(sort as SearchSort) ? (sort as SearchSort) : undefined,
+  };
+}
+
+/** Whether any filter narrows the result set (sort does not) */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return Boolean(filters.category || filters.tag || filters.author || filters.from || filters.to);
+}
+
+/**
+ * Builds a search page URL for a query and filters.
+ * Page is left out so that changing a filter starts from the first page.
+ */
+export function buildSearchUrl(locale: string, query: string, filters: SearchFilters): string {
+  const params = new URLSearchParams();
+  if (query.trim()) params.set("q", query.trim());
+  for (const key of ["category", "tag", "author", "from", "to", "sort"] as const) {
+    const value = filters[key];
+    if (value) params.set(key, value);
+  }
+
+  const search = params.toString();
+  return search ? `/${locale}/search?${search}` : `/${locale}/search`;
+}
+
+/**
+ * Rolls per-category post counts up the category tree, so a parent counts the
+ * posts of all its subcategories. Returns categories in tree order.
+ */
+export function rollUpCategoryCounts(
+  directCounts: Map<string, number>,
+  categories: CategoryNode[]
+): FacetCount[] {
+  const facets: FacetCount[] = [];
+
+  for (const category of flattenTree(buildCategoryTree(categories))) {
+    const count = [category, ...getDescendants(category.id, categories)].reduce(
+      (sum, c) => sum + (directCounts.get(c.id) ?? 0),
+      0
+    );
+    if (count > 0) {
+      facets.push({ value: category.slug, label: category.name, count, depth: category.depth });
+    }
+  }
+
+  return facets;
+}
+
+/** FROM clause; the tsquery is only joined when there is a query */
+function searchFromSql(config: string, query: string): Prisma.Sql {
+  return isEmptyQuery(query)
+    ? Prisma.sql`"Post" p`
+    : Prisma.sql`"Post" p CROSS JOIN websearch_to_tsquery(${config}::regconfig, ${query.trim()}) q`;
+}
+
+/**
+ * WHERE clause for a search. `omit` leaves out one facet's own filter, so that
+ * facet still counts its alternative values.
+ */
+function searchWhereSql(
+  query: string,
+  locale: Locale,
+  filters: SearchFilters,
+  categoryIds: string[] | null,
+  omit?: FacetKey
+): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`p.locale = ${locale}`,
+    Prisma.sql`p.status = 'PUBLISHED'`,
+    Prisma.sql`p."publishedAt" <= now()`,
+  ];
+
+  if (!isEmptyQuery(query)) {
+    conditions.push(Prisma.sql`p."searchVector" @@ q`);
+  }
+  if (categoryIds && omit !== "category") {
+    conditions.push(
+      categoryIds.length > 0 ? Prisma.sql`p."categoryId" IN (${Prisma.join(categoryIds)})` : Prisma.sql`FALSE`
+    );
+  }
+  if (filters.tag && omit !== "tag") {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "PostTag" pt JOIN "Tag" t ON t.id = pt."tagId"
+      WHERE pt."postId" = p.id AND t.slug = ${filters.tag}
+    )`);
+  }
+  if (filters.author && omit !== "author") {
+    conditions.push(Prisma.sql`p."authorId" = ${filters.author}`);
+  }
+  if (filters.from) {
+    conditions.push(Prisma.sql`p."publishedAt" >= ${filters.from}::date`);
+  }
+  if (filters.to) {
+    conditions.push(Prisma.sql`p."publishedAt" < ${filters.to}::date + 1`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+function searchOrderSql(query: string, sort: SearchSort | undefined): Prisma.Sql {
+  const effectiveSort = sort ?? (isEmptyQuery(query) ? "newest" : "relevance");
+  if (effectiveSort === "views") return Prisma.sql`"viewCount" DESC, p."publishedAt" DESC`;
+  if (effectiveSort === "relevance" && !isEmptyQuery(query)) {
+    return Prisma.sql`rank DESC, p."publishedAt" DESC`;
+  }
+  return Prisma.sql`p."publishedAt" DESC`;
+}
+
+/**
+ * Facet counts for categories, tags and authors. Each facet is counted with
+ * every other active filter applied.
+ */
+async function getSearchFacets(
+  query: string,
+  locale: Locale,
+  filters: SearchFilters,
+  categoryIds: string[] | null,
+  categories: CategoryNode[]
+): Promise<SearchFacets> {
+  const from = searchFromSql(SEARCH_CONFIGS[locale] ?? "simple", query);
+  const where = (omit: FacetKey) => searchWhereSql(query, locale, filters, categoryIds, omit);
+
+  const [categoryRows, tagRows, authorRows] = await Promise.all([
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT p."categoryId" AS value, NULL AS label, COUNT(*)::int AS count
+      FROM ${from}
+      WHERE ${where("category")} AND p."categoryId" IS NOT NULL
+      GROUP BY p."categoryId"
+    `,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT t.slug AS value, t.name AS label, COUNT(*)::int AS count
+      FROM ${from} JOIN "PostTag" pt ON pt."postId" = p.id JOIN "Tag" t ON t.id = pt."tagId"
+      WHERE ${where("tag")}
+      GROUP BY t.slug, t.name
+      ORDER BY count DESC, t.name
+      LIMIT ${FACET_LIMIT}
+    `,
+    prisma.$queryRaw<FacetRow[]>`
+      SELECT u.id AS value, concat_ws(' ', u."firstName", u."lastName") AS label, COUNT(*)::int AS count
+      FROM ${from} JOIN "User" u ON u.id = p."authorId"
+      WHERE ${where("author")}
+      GROUP BY u.id, u."firstName", u."lastName"
+      ORDER BY count DESC, label
+      LIMIT ${FACET_LIMIT}
+    `,
+  ]);
+
+  return {
+    categories: rollUpCategoryCounts(new Map(categoryRows.map((r) => [r.value, r.count])), categories),
+    tags: tagRows.map((r) => ({ value: r.value, label: r.label ?? r.value, count: r.count })),
+    authors: authorRows.map((r) => ({ value: r.value, label: r.label || "Anonymous", count: r.count })),
+  };
+}
+
+/**
+ * Full-text search over published posts in a locale.
+ * Supports web-search syntax ("quoted phrases", OR, -exclusions), category
+ * (including subcategories), tag, author and date filters, and sorting by
+ * relevance, date or views. Filters alone, without a query, browse posts.
+ * Requirements: 4.1, 4.2, 4.3
+ */
+export async function searchPosts(query: string, options: SearchOptions): Promise<SearchPage> {
+  const page = Math.max(1, options.page ?? 1);
+  const pageSize = options.pageSize ?? SEARCH_PAGE_SIZE;
+  const filters = options.filters ?? {};
+  const { locale } = options;
+
+  if (isEmptyQuery(query) && !hasActiveFilters(filters)) {
+    return {
+      results: [],
+      total: 0,
+      page,
+      pageSize,
+      totalPages: 0,
+      facets: { categories: [], tags: [], authors: [] },
+    };
+  }
+
+  const categories = await prisma.category.findMany({
+    select: { id: true, name: true, slug: true, parentId: true, depth: true },
+  });
+
+  // A category filter matches the category and all of its subcategories
+  let categoryIds: string[] | null = null;
+  if (filters.category) {
+    const category = categories.find((c) => c.slug === filters.category);
+    categoryIds = category ? [category.id, ...getDescendants(category.id, categories).map((c) => c.id)] : [];
+  }
+
+  const config = SEARCH_CONFIGS[locale] ?? "simple";
+  const hasQuery = !isEmptyQuery(query);
+  const plainExcerpt = Prisma.sql`regexp_replace(coalesce(nullif(p.excerpt, ''), p.content), '<[^>]*>', ' ', 'g')`;
+
+  const [rows, facets] = await Promise.all([
+    prisma.$queryRaw<SearchRow[]>`
+      SELECT p.id,
+        ${hasQuery ? Prisma.sql`ts_headline(${config}::regconfig, p.title, q, ${TITLE_HEADLINE_OPTIONS})` : Prisma.sql`p.title`} AS "highlightedTitle",
+        ${hasQuery ? Prisma.sql`ts_headline(${config}::regconfig, ${plainExcerpt}, q, ${EXCERPT_HEADLINE_OPTIONS})` : Prisma.sql`left(${plainExcerpt}, 160)`} AS "highlightedExcerpt",
+        ${hasQuery ? Prisma.sql`ts_rank_cd(p."searchVector", q)` : Prisma.sql`0`}::float8 AS rank,
+        (SELECT COUNT(*) FROM "PageView" v WHERE v."postId" = p.id) AS "viewCount",
+        COUNT(*) OVER() AS total
+      FROM ${searchFromSql(config, query)}
+      WHERE ${searchWhereSql(query, locale, filters, categoryIds)}
+      ORDER BY ${searchOrderSql(query, filters.sort)}
+      LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+    `,
+    getSearchFacets(query, locale, filters, categoryIds, categories),
+  ]);
+
+  const total = rows.length > 0 ? Number(rows[0].total) : 0;
+  const posts = new Map((await getPostsByIds(rows.map((r) => r.id))).map((p) => [p.id, p]));
+  const terms = hasQuery ? query.trim().toLowerCase().split(/\s+/) : [];
+
+  const results: SearchResult[] = [];
+  for (const row of rows) {
+    const post = posts.get(row.id);
+    if (!post) continue;
+
+    const matchedIn: SearchResult["matchedIn"] = [];
+    if (row.highlightedTitle.includes("<mark>")) matchedIn.push("title");
+    if (row.highlightedExcerpt.includes("<mark>")) matchedIn.push("content");
+    if (post.tags.some((tag) => terms.some((term) => tag.toLowerCase().includes(term)))) {
+      matchedIn.push("tags");
+    }
+
+    results.push({
+      post: toPostPreview(post),
+      matchedIn,
+      highlightedTitle: headlineToHtml(row.highlightedTitle),
+      highlightedExcerpt: headlineToHtml(row.highlightedExcerpt),
+      rank: row.rank,
+      viewCount: Number(row.viewCount),
+    });
+  }
+
+  return { results, total, page, pageSize, totalPages: Math.ceil(total / pageSize), facets };
+}
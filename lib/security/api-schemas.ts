@@ -5,6 +5,9 @@
  */
 
 import { z } from 'zod';
+import { WEBHOOK_EVENTS } from '@/lib/webhooks/types';
+import { ARCHIVE_CONFLICT_STRATEGIES } from '@/lib/archive/types';
+import { REDIRECT_STATUS_CODES } from '@/lib/redirects/types';
 
 // ============================================================================
 // Common Schemas
@@ -168,8 +171,8 @@ export type PostsListQuery = z.infer<typeof postsListQuerySchema>;
 /**
  * Post status enum
  */
-export const postStatusSchema = z.enum(['DRAFT', 'SCHEDULED', 'PUBLISHED'], {
-  message: 'Status must be DRAFT, SCHEDULED, or PUBLISHED',
+export const postStatusSchema = z.enum(['DRAFT', 'IN_REVIEW', 'REJECTED', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'], {
+  message: 'Status must be DRAFT, IN_REVIEW, REJECTED, SCHEDULED, PUBLISHED, or ARCHIVED',
 });
 
 /**
@@ -201,6 +204,19 @@ export const adminPostsListQuerySchema = z.object({
 
 export type AdminPostsListQuery = z.infer<typeof adminPostsListQuerySchema>;
 
+/**
+ * A post must go live before it is taken down: the unpublish time has to be
+ * after the scheduled time when one is given, otherwise after now
+ */
+function unpublishesAfterPublishing(data: { scheduledAt?: Date | null; unpublishAt?: Date | null }): boolean {
+  return !data.unpublishAt || data.unpublishAt.getTime() > (data.scheduledAt ?? new Date()).getTime();
+}
+
+const unpublishAtOrderError = {
+  message: 'Unpublish time must be after the scheduled time and in the future',
+  path: ['unpublishAt'],
+};
+
 /**
  * Create post request body
  * Requirements: 8.1 - Validate data structure using Zod schemas
@@ -215,9 +231,11 @@ export const createPostSchema = z.object({
   categoryId: z.string().optional(),
   tagIds: z.array(z.string()).optional(),
   scheduledAt: z.string().datetime().optional().transform(v => v ? new Date(v) : undefined),
+  unpublishAt: z.string().datetime().optional().transform(v => v ? new Date(v) : undefined),
   featured: z.boolean().default(false),
   readingTime: z.number().int().positive().optional(),
-});
+  translationOf: z.string().optional(),
+}).refine(unpublishesAfterPublishing, unpublishAtOrderError);
 
 export type CreatePostInput = z.infer<typeof createPostSchema>;
 
@@ -235,12 +253,55 @@ export const updatePostSchema = z.object({
   categoryId: z.string().nullable().optional(),
   tagIds: z.array(z.string()).optional(),
   scheduledAt: z.string().datetime().nullable().optional().transform(v => v ? new Date(v) : v === null ? null : undefined),
+  unpublishAt: z.string().datetime().nullable().optional().transform(v => v ? new Date(v) : v === null ? null : undefined),
   featured: z.boolean().optional(),
   readingTime: z.number().int().positive().optional(),
-});
+  translationOf: z.string().nullable().optional(),
+}).refine(unpublishesAfterPublishing, unpublishAtOrderError);
 
 export type UpdatePostSchemaInput = z.infer<typeof updatePostSchema>;
 
+/**
+ * Review decision request body
+ * A comment is required when rejecting so the author knows what to fix
+ */
+export const reviewPostSchema = z.object({
+  decision: z.enum(['APPROVE', 'REJECT'], {
+    message: 'Decision must be APPROVE or REJECT',
+  }),
+  comment: z.string().max(2000, 'Comment must be 2000 characters or less').optional(),
+}).refine(
+  (data) => data.decision === 'APPROVE' || (data.comment?.trim().length ?? 0) > 0,
+  { message: 'A comment is required when rejecting a post', path: ['comment'] }
+);
+
+export type ReviewPostInput = z.infer<typeof reviewPostSchema>;
+
+/**
+ * Bulk action on posts selected in the dashboard table
+ */
+export const MAX_BULK_POSTS = 500;
+
+const tagIdsSchema = z.array(z.string().min(1)).min(1, 'Select at least one tag');
+
+export const bulkPostActionSchema = z.object({
+  ids: z.array(z.string().min(1))
+    .min(1, 'Select at least one post')
+    .max(MAX_BULK_POSTS, `At most ${MAX_BULK_POSTS} posts can be changed at once`),
+  action: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('publish') }),
+    z.object({ type: z.literal('unpublish') }),
+    z.object({ type: z.literal('schedule'), publishAt: z.coerce.date() }),
+    z.object({ type: z.literal('delete') }),
+    z.object({ type: z.literal('setCategory'), categoryId: z.string().min(1).nullable() }),
+    z.object({ type: z.literal('addTags'), tagIds: tagIdsSchema }),
+    z.object({ type: z.literal('removeTags'), tagIds: tagIdsSchema }),
+    z.object({ type: z.literal('setFeatured'), featured: z.boolean() }),
+  ]),
+});
+
+export type BulkPostActionInput = z.infer<typeof bulkPostActionSchema>;
+
 // ============================================================================
 // Categories API Schemas
 // ============================================================================
@@ -256,6 +317,180 @@ export const categoriesListQuerySchema = z.object({
 
 export type CategoriesListQuery = z.infer<typeof categoriesListQuerySchema>;
 
+// ============================================================================
+// Search API Schemas (Public)
+// ============================================================================
+
+/**
+ * Search suggestion query parameters
+ */
+export const searchSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Query is required').max(100, 'Query must be 100 characters or less'),
+  locale: localeSchema.default('en'),
+  limit: z.coerce.number().int().positive().max(10).default(5),
+});
+
+export type SearchSuggestQuery = z.infer<typeof searchSuggestQuerySchema>;
+
+// ============================================================================
+// Public Content API v1 Schemas
+// ============================================================================
+
+/**
+ * Opaque pagination cursor returned as `pagination.nextCursor`
+ */
+const cursorSchema = z.string().max(500, 'Cursor must be 500 characters or less').optional();
+
+/**
+ * v1 posts list query parameters
+ */
+export const v1PostsQuerySchema = z.object({
+  locale: localeSchema.optional(),
+  category: z.string().max(200).optional(),
+  tag: z.string().max(200).optional(),
+  featured: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+  cursor: cursorSchema,
+  limit: z.coerce.number().int().positive().max(MAX_LIMIT).default(DEFAULT_LIMIT),
+});
+
+export type V1PostsQuery = z.infer<typeof v1PostsQuerySchema>;
+
+/**
+ * v1 single post query parameters
+ */
+export const v1PostQuerySchema = z.object({
+  locale: localeSchema.default('en'),
+});
+
+export type V1PostQuery = z.infer<typeof v1PostQuerySchema>;
+
+/**
+ * v1 categories and tags list query parameters
+ */
+export const v1TermsQuerySchema = z.object({
+  locale: localeSchema.optional(),
+  cursor: cursorSchema,
+  limit: z.coerce.number().int().positive().max(MAX_LIMIT).default(MAX_LIMIT),
+});
+
+export type V1TermsQuery = z.infer<typeof v1TermsQuerySchema>;
+
+// ============================================================================
+// Newsletter Schemas (Public)
+// ============================================================================
+
+/**
+ * Newsletter subscribe request body
+ */
+export const newsletterSubscribeSchema = z.object({
+  email: z.string().trim().max(254, 'Email must be 254 characters or less').email('Invalid email address'),
+  locale: localeSchema.default('en'),
+  categories: z.array(z.string().max(200)).max(50, 'Too many categories').default([]),
+});
+
+export type NewsletterSubscribeInput = z.infer<typeof newsletterSubscribeSchema>;
+
+/**
+ * Confirm and unsubscribe link query parameters
+ */
+export const newsletterTokenQuerySchema = z.object({
+  token: z.string().min(1, 'Token is required').max(100),
+});
+
+export type NewsletterTokenQuery = z.infer<typeof newsletterTokenQuerySchema>;
+
+// ============================================================================
+// Comment Schemas (Public)
+// ============================================================================
+
+/**
+ * Comment submission request body
+ */
+export const commentSubmitSchema = z.object({
+  postId: z.string().min(1, 'Post ID is required').max(100),
+  parentId: z.string().min(1).max(100).optional(),
+  authorName: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  authorEmail: z.string().trim().max(254, 'Email must be 254 characters or less').email('Invalid email address'),
+  body: z.string().trim().min(1, 'Comment is required').max(5000, 'Comment must be 5000 characters or less'),
+});
+
+export type CommentSubmitInput = z.infer<typeof commentSubmitSchema>;
+
+// ============================================================================
+// Webhook Schemas (Admin)
+// ============================================================================
+
+/**
+ * Webhook endpoint create/update input
+ */
+export const webhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url('Invalid URL')
+    .max(2000, 'URL must be 2000 characters or less')
+    .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  description: z.string().trim().max(200, 'Description must be 200 characters or less').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+// ============================================================================
+// Archive Schemas (Admin)
+// ============================================================================
+
+/**
+ * Archive restore query parameters
+ */
+export const archiveRestoreQuerySchema = z.object({
+  conflict: z.enum(ARCHIVE_CONFLICT_STRATEGIES).default('skip'),
+  dryRun: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+  author: z.string().min(1).optional(),
+});
+
+export type ArchiveRestoreQuery = z.infer<typeof archiveRestoreQuerySchema>;
+
+// ============================================================================
+// Redirect Schemas (Admin)
+// ============================================================================
+
+/** Paths the middleware never redirects */
+const RESERVED_REDIRECT_PREFIXES = ['/dashboard', '/api', '/_next'];
+
+/**
+ * Redirect create/update input
+ */
+export const redirectSchema = z
+  .object({
+    source: z
+      .string()
+      .trim()
+      .min(1, 'Source path is required')
+      .max(500, 'Source path must be 500 characters or less')
+      .refine((source) => source.startsWith('/'), 'Source must be a path starting with /')
+      .refine(
+        (source) => !RESERVED_REDIRECT_PREFIXES.some((prefix) => source === prefix || source.startsWith(`${prefix}/`)),
+        'Dashboard, API and asset paths cannot be redirected'
+      ),
+    target: z
+      .string()
+      .trim()
+      .max(2000, 'Target must be 2000 characters or less')
+      .refine(
+        (target) => target === '' || target.startsWith('/') || /^https?:\/\//i.test(target),
+        'Target must be a path or an http(s) URL'
+      )
+      .optional(),
+    statusCode: z.literal(REDIRECT_STATUS_CODES),
+  })
+  .refine((data) => data.statusCode === 410 || !!data.target, {
+    message: 'A target is required for 301 and 302 redirects',
+    path: ['target'],
+  });
+
+export type RedirectFormInput = z.infer<typeof redirectSchema>;
+
 // ============================================================================
 // Validation Helper Functions
 // ============================================================================
@@ -60,6 +60,18 @@ export const RATE_LIMIT_CONFIGS = {
     maxRequests: 20,
     keyPrefix: 'ratelimit:upload',
   },
+  /** Newsletter sign-ups, which send an email each */
+  NEWSLETTER: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 5,
+    keyPrefix: 'ratelimit:newsletter',
+  },
+  /** Reader comment submissions */
+  COMMENT: {
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    maxRequests: 5,
+    keyPrefix: 'ratelimit:comment',
+  },
 } as const;
 
 /**
@@ -32,6 +32,8 @@ import {
   addMediaToPostSchema,
   updatePostMediaSchema,
   moveMediaToFolderSchema,
+  createPostSchema,
+  updatePostSchema,
 } from './api-schemas';
 
 // Arbitrary for generating IPv4 loopback addresses (127.x.x.x)
@@ -983,6 +985,38 @@ describe('Property 9: Input Schema Validation', () => {
     );
   });
 
+  /**
+   * **Feature: owasp-security-audit, Property 9: Input Schema Validation**
+   * **Validates: Requirements 8.1**
+   *
+   * Property: For any unpublish time not after the scheduled time (or, without
+   * one, not in the future), createPostSchema and updatePostSchema SHALL reject it.
+   */
+  it('post schemas reject unpublish times before the post goes live', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const post = { title: 'Title', content: '<p>Body</p>', slug: 'title', locale: 'en' };
+    const at = (offsetDays: number) => new Date(Date.now() + offsetDays * day).toISOString();
+
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 365 }), fc.integer({ min: 0, max: 365 }), (scheduledIn, gap) => {
+        const scheduledAt = at(scheduledIn);
+        const early = { ...post, scheduledAt, unpublishAt: at(scheduledIn - gap) };
+        const late = { ...post, scheduledAt, unpublishAt: at(scheduledIn + gap + 1) };
+
+        expect(validateBody(early, createPostSchema).success).toBe(false);
+        expect(validateBody(early, updatePostSchema).success).toBe(false);
+        expect(validateBody(late, createPostSchema).success).toBe(true);
+        expect(validateBody(late, updatePostSchema).success).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(validateBody({ ...post, unpublishAt: at(-1) }, createPostSchema).success).toBe(false);
+    expect(validateBody({ unpublishAt: at(-1) }, updatePostSchema).success).toBe(false);
+    expect(validateBody({ unpublishAt: at(1) }, updatePostSchema).success).toBe(true);
+    expect(validateBody({ unpublishAt: null }, updatePostSchema).success).toBe(true);
+  });
+
   /**
    * **Feature: owasp-security-audit, Property 9: Input Schema Validation**
    * **Validates: Requirements 8.1**
@@ -0,0 +1,184 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  generateBreadcrumbJsonLd,
+  generateNewsArticleJsonLd,
+  generateOrganizationJsonLd,
+  generateWebsiteJsonLd,
+  getCategoryBreadcrumbItems,
+  serializeJsonLd,
+  siteLogoUrl,
+  siteName,
+  siteUrl,
+} from "./seo";
+import { locales, type Locale } from "./i18n/config";
+import type { Post } from "./types";
+
+/**
+ * Schema shape tests for structured data
+ *
+ * For any post, the NewsArticle JSON-LD SHALL carry the fields Google Top
+ * Stories requires: headline, image array, datePublished, dateModified,
+ * Person authors and a publisher Organization with a logo.
+ */
+describe("Structured data (JSON-LD)", () => {
+  const localeArb = fc.constantFrom(...locales) as fc.Arbitrary<Locale>;
+  const slugArb = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+  const imageArb = slugArb.map((name) => `https://ik.imagekit.io/demo/${name}.jpg`);
+
+  const postArb: fc.Arbitrary<Post> = fc.record({
+    id: fc.uuid(),
+    slug: slugArb,
+    title: fc.string({ minLength: 1, maxLength: 200 }),
+    content: fc.string({ maxLength: 300 }),
+    excerpt: fc.string({ maxLength: 160 }),
+    author: fc.record({
+      name: fc.string({ minLength: 1, maxLength: 40 }),
+      avatar: fc.option(fc.webUrl(), { nil: undefined }),
+      social: fc.option(
+        fc.record({
+          twitter: fc.option(slugArb, { nil: undefined }),
+          github: fc.option(slugArb, { nil: undefined }),
+        }),
+        { nil: undefined }
+      ),
+    }),
+    publishedAt: fc.date({ min: new Date("2020-01-01"), max: new Date("2030-01-01"), noInvalidDate: true }),
+    updatedAt: fc.option(fc.date({ min: new Date("2020-01-01"), max: new Date("2030-01-01"), noInvalidDate: true }), {
+      nil: undefined,
+    }),
+    category: fc.string({ minLength: 1, maxLength: 30 }),
+    tags: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { maxLength: 5 }),
+    readingTime: fc.integer({ min: 1, max: 60 }),
+    image: fc.option(imageArb, { nil: undefined }),
+    images: fc.option(fc.array(imageArb, { maxLength: 4 }), { nil: undefined }),
+    locale: localeArb,
+    status: fc.constant("published" as const),
+  });
+
+  const publisherShape = {
+    "@type": "Organization",
+    name: siteName,
+    url: siteUrl,
+    logo: { "@type": "ImageObject", url: siteLogoUrl },
+  };
+
+  describe("NewsArticle", () => {
+    it("has the fields required for Top Stories", () => {
+      fc.assert(
+        fc.property(postArb, localeArb, (post, locale) => {
+          const jsonLd = generateNewsArticleJsonLd(post, locale);
+          const url = `${siteUrl}/${locale}/blog/${post.slug}`;
+
+          expect(jsonLd["@context"]).toBe("https://schema.org");
+          expect(jsonLd["@type"]).toBe("NewsArticle");
+          expect(typeof jsonLd.headline).toBe("string");
+          expect((jsonLd.headline as string).length).toBeLessThanOrEqual(110);
+          expect(jsonLd.datePublished).toBe(post.publishedAt.toISOString());
+          expect(jsonLd.dateModified).toBe((post.updatedAt ?? post.publishedAt).toISOString());
+          expect(jsonLd.mainEntityOfPage).toEqual({ "@type": "WebPage", "@id": url });
+          expect(jsonLd.publisher).toMatchObject(publisherShape);
+          expect(jsonLd.inLanguage).toBe(locale);
+
+          const authors = jsonLd.author as Record<string, unknown>[];
+          expect(authors).toHaveLength(1);
+          expect(authors[0]).toMatchObject({ "@type": "Person", name: post.author.name });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("lists attached images, falling back to the cover", () => {
+      fc.assert(
+        fc.property(postArb, localeArb, (post, locale) => {
+          const jsonLd = generateNewsArticleJsonLd(post, locale);
+          const expected = post.images?.length ? post.images : post.image ? [post.image] : undefined;
+
+          expect(jsonLd.image).toEqual(expected);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it("keeps every social profile in sameAs", () => {
+      const [post] = fc.sample(postArb, 1);
+      const jsonLd = generateNewsArticleJsonLd(
+        { ...post, author: { name: "Ada", social: { twitter: "ada", github: "ada-l" } } },
+        "en"
+      );
+
+      expect((jsonLd.author as Record<string, unknown>[])[0].sameAs).toEqual([
+        "https://twitter.com/ada",
+        "https://github.com/ada-l",
+      ]);
+    });
+  });
+
+  describe("BreadcrumbList", () => {
+    it("numbers items from 1 in order", () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.record({ name: fc.string({ minLength: 1 }), url: fc.webUrl() }), { minLength: 1, maxLength: 6 }),
+          (items) => {
+            const jsonLd = generateBreadcrumbJsonLd(items);
+            expect(jsonLd["@type"]).toBe("BreadcrumbList");
+            expect(jsonLd.itemListElement).toEqual(
+              items.map((item, i) => ({ "@type": "ListItem", position: i + 1, name: item.name, item: item.url }))
+            );
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it("follows the category path from home to the current category", () => {
+      const items = getCategoryBreadcrumbItems(
+        "th",
+        "หน้าแรก",
+        [{ name: "Tech", slug: "tech" }, { name: "Web", slug: "web" }],
+        { name: "React", slug: "react" }
+      );
+
+      expect(items).toEqual([
+        { name: "หน้าแรก", url: `${siteUrl}/th` },
+        { name: "Tech", url: `${siteUrl}/th/category/tech` },
+        { name: "Web", url: `${siteUrl}/th/category/web` },
+        { name: "React", url: `${siteUrl}/th/category/react` },
+      ]);
+    });
+  });
+
+  describe("Organization and WebSite", () => {
+    it("describes the publisher with a logo", () => {
+      expect(generateOrganizationJsonLd()).toMatchObject({ "@context": "https://schema.org", ...publisherShape });
+    });
+
+    it("offers a SearchAction for each locale", () => {
+      for (const locale of locales) {
+        const jsonLd = generateWebsiteJsonLd(locale);
+        expect(jsonLd["@type"]).toBe("WebSite");
+        expect(jsonLd.url).toBe(`${siteUrl}/${locale}`);
+        expect(jsonLd.potentialAction).toEqual({
+          "@type": "SearchAction",
+          target: { "@type": "EntryPoint", urlTemplate: `${siteUrl}/${locale}/search?q={search_term_string}` },
+          "query-input": "required name=search_term_string",
+        });
+        expect(jsonLd.publisher).toEqual({ "@id": generateOrganizationJsonLd()["@id"] });
+      }
+    });
+  });
+
+  describe("serializeJsonLd", () => {
+    it("cannot close the script tag and round-trips through JSON.parse", () => {
+      fc.assert(
+        fc.property(fc.string(), (title) => {
+          const data = { headline: `${title}</script><script>alert(1)</script>` };
+          const serialized = serializeJsonLd(data);
+          expect(serialized).not.toContain("<");
+          expect(JSON.parse(serialized)).toEqual(data);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -8,20 +8,37 @@ import { locales } from "./i18n/config";
  */
 export const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "https://example.com";
 
+/**
+ * Site name used in titles, feeds and structured data
+ */
+export const siteName = "Advanced Web Blog";
+
+/**
+ * Dimensions of Open Graph cards, generated or not
+ */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/**
+ * Generated Open Graph card served by a page's `opengraph-image` route.
+ */
+export function generatedOgImage(pageUrl: string, alt: string) {
+  return { url: `${pageUrl}/opengraph-image`, ...OG_IMAGE_SIZE, alt };
+}
+
 /**
  * Default site metadata
  */
 export const defaultMetadata: Metadata = {
   title: {
-    default: "Advanced Web Blog",
-    template: "%s | Advanced Web Blog",
+    default: siteName,
+    template: `%s | ${siteName}`,
   },
   description: "A modern, performant blog platform built with Next.js featuring MDX content, i18n support, and SEO optimization.",
   metadataBase: new URL(siteUrl),
   openGraph: {
     type: "website",
     locale: "en_US",
-    siteName: "Advanced Web Blog",
+    siteName,
   },
   twitter: {
     card: "summary_large_image",
@@ -52,6 +69,9 @@ export function generatePostMetadata(
     }
   }
 
+  // Posts without a cover get a generated card instead
+  const images = [post.image ? { url: post.image, alt: post.title } : generatedOgImage(url, post.title)];
+
   return {
     title: post.title,
     description: post.excerpt,
@@ -65,12 +85,14 @@ export function generatePostMetadata(
       authors: [post.author.name],
       tags: post.tags,
       locale: locale,
-      siteName: "Advanced Web Blog",
+      siteName,
+      images,
     },
     twitter: {
       card: "summary_large_image",
       title: post.title,
       description: post.excerpt,
+      images,
     },
     alternates: {
       canonical: url,
@@ -79,6 +101,17 @@ export function generatePostMetadata(
   };
 }
 
+/**
+ * Feed discovery links (RSS, Atom and JSON Feed) for a page that has feeds.
+ */
+export function feedAlternates(pageUrl: string): Record<string, string> {
+  return {
+    "application/rss+xml": `${pageUrl}/feed.xml`,
+    "application/atom+xml": `${pageUrl}/atom.xml`,
+    "application/feed+json": `${pageUrl}/feed.json`,
+  };
+}
+
 /**
  * Generates metadata for a category page.
  * Requirements: 6.1
@@ -91,6 +124,7 @@ export function generateCategoryMetadata(
   const title = `${category} - Category`;
   const description = `Browse ${postCount} posts in the ${category} category.`;
   const url = `${siteUrl}/${locale}/category/${encodeURIComponent(category.toLowerCase())}`;
+  const images = [generatedOgImage(url, title)];
 
   return {
     title,
@@ -101,10 +135,18 @@ export function generateCategoryMetadata(
       type: "website",
       url,
       locale,
-      siteName: "Advanced Web Blog",
+      siteName,
+      images,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images,
     },
     alternates: {
       canonical: url,
+      types: feedAlternates(url),
     },
   };
 }
@@ -131,10 +173,11 @@ export function generateTagMetadata(
       type: "website",
       url,
       locale,
-      siteName: "Advanced Web Blog",
+      siteName,
     },
     alternates: {
       canonical: url,
+      types: feedAlternates(url),
     },
   };
 }
@@ -149,8 +192,8 @@ export function generateSearchMetadata(
 ): Metadata {
   const title = query ? `Search: ${query}` : "Search";
   const description = query
-    ? `Search results for "${query}" on Advanced Web Blog.`
-    : "Search for blog posts on Advanced Web Blog.";
+    ? `Search results for "${query}" on ${siteName}.`
+    : `Search for blog posts on ${siteName}.`;
   const url = `${siteUrl}/${locale}/search${query ? `?q=${encodeURIComponent(query)}` : ""}`;
 
   return {
@@ -162,7 +205,7 @@ export function generateSearchMetadata(
       type: "website",
       url,
       locale,
-      siteName: "Advanced Web Blog",
+      siteName,
     },
     robots: {
       index: false, // Don't index search pages
@@ -176,7 +219,7 @@ export function generateSearchMetadata(
  * Requirements: 6.1
  */
 export function generateHomeMetadata(locale: Locale): Metadata {
-  const title = "Advanced Web Blog";
+  const title = siteName;
   const description = "A modern, performant blog platform built with Next.js featuring MDX content, i18n support, and SEO optimization.";
   const url = `${siteUrl}/${locale}`;
 
@@ -195,11 +238,12 @@ export function generateHomeMetadata(locale: Locale): Metadata {
       type: "website",
       url,
       locale,
-      siteName: "Advanced Web Blog",
+      siteName,
     },
     alternates: {
       canonical: url,
       languages: alternateLanguages,
+      types: feedAlternates(url),
     },
   };
 }
@@ -230,3 +274,141 @@ export function getOGLocale(locale: Locale): string {
   };
   return localeMap[locale] || "en_US";
 }
+
+/**
+ * Publisher logo for structured data - override with NEXT_PUBLIC_SITE_LOGO_URL
+ */
+export const siteLogoUrl = process.env.NEXT_PUBLIC_SITE_LOGO_URL || `${siteUrl}/logo.png`;
+
+export type JsonLd = Record<string, unknown>;
+
+// Google truncates longer NewsArticle headlines
+const MAX_HEADLINE_LENGTH = 110;
+
+const organizationId = `${siteUrl}/#organization`;
+
+function publisherJsonLd(): JsonLd {
+  return {
+    "@type": "Organization",
+    "@id": organizationId,
+    name: siteName,
+    url: siteUrl,
+    logo: { "@type": "ImageObject", url: siteLogoUrl },
+  };
+}
+
+/**
+ * Organization schema for the publisher, shared by every page.
+ */
+export function generateOrganizationJsonLd(): JsonLd {
+  return { "@context": "https://schema.org", ...publisherJsonLd() };
+}
+
+/**
+ * WebSite schema with a SearchAction pointing at the locale's search page.
+ */
+export function generateWebsiteJsonLd(locale: Locale): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "WebSite",
+    "@id": `${siteUrl}/${locale}#website`,
+    name: siteName,
+    description: "A modern, performant blog platform built with Next.js",
+    url: `${siteUrl}/${locale}`,
+    inLanguage: locale,
+    publisher: { "@id": organizationId },
+    potentialAction: {
+      "@type": "SearchAction",
+      target: {
+        "@type": "EntryPoint",
+        urlTemplate: `${siteUrl}/${locale}/search?q={search_term_string}`,
+      },
+      "query-input": "required name=search_term_string",
+    },
+  };
+}
+
+/**
+ * NewsArticle schema for a post, eligible for Google Top Stories.
+ * Images come from the post's attached media, cover first.
+ * Requirements: 6.2
+ */
+export function generateNewsArticleJsonLd(post: Post | LocalizedPost, locale: Locale): JsonLd {
+  const url = `${siteUrl}/${locale}/blog/${post.slug}`;
+  const images = post.images?.length ? post.images : post.image ? [post.image] : [];
+  const sameAs = [
+    post.author.social?.twitter && `https://twitter.com/${post.author.social.twitter}`,
+    post.author.social?.github && `https://github.com/${post.author.social.github}`,
+  ].filter(Boolean);
+  const headline =
+    post.title.length > MAX_HEADLINE_LENGTH ? `${post.title.slice(0, MAX_HEADLINE_LENGTH - 1)}…` : post.title;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "NewsArticle",
+    headline,
+    description: post.excerpt,
+    ...(images.length > 0 && { image: images }),
+    datePublished: post.publishedAt.toISOString(),
+    dateModified: (post.updatedAt ?? post.publishedAt).toISOString(),
+    author: [
+      {
+        "@type": "Person",
+        name: post.author.name,
+        ...(post.author.avatar && { image: post.author.avatar }),
+        ...(sameAs.length > 0 && { sameAs }),
+      },
+    ],
+    publisher: publisherJsonLd(),
+    mainEntityOfPage: { "@type": "WebPage", "@id": url },
+    url,
+    inLanguage: locale,
+    keywords: post.tags.join(", "),
+    articleSection: post.category,
+    wordCount: post.content.replace(/<[^>]*>/g, " ").split(/\s+/).filter(Boolean).length,
+    timeRequired: `PT${post.readingTime}M`,
+  };
+}
+
+/**
+ * BreadcrumbList schema; items are ordered from the root to the current page.
+ */
+export function generateBreadcrumbJsonLd(items: { name: string; url: string }[]): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: items.map((item, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: item.name,
+      item: item.url,
+    })),
+  };
+}
+
+/**
+ * Breadcrumb trail of a category page: Home > ancestors > category,
+ * matching CategoryBreadcrumb.
+ */
+export function getCategoryBreadcrumbItems(
+  locale: Locale,
+  homeName: string,
+  ancestors: { name: string; slug: string }[],
+  category: { name: string; slug: string }
+): { name: string; url: string }[] {
+  return [
+    { name: homeName, url: `${siteUrl}/${locale}` },
+    ...[...ancestors, category].map((c) => ({
+      name: c.name,
+      url: `${siteUrl}/${locale}/category/${encodeURIComponent(c.slug)}`,
+    })),
+  ];
+}
+
+/**
+ * Serializes JSON-LD for a `<script>` tag; `<` is escaped so content
+ * such as a title containing `</script>` cannot end the tag early.
+ */
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,148 @@
+/**
+ * Property-Based Tests for the Sitemap Index
+ *
+ * Property: Each locale's post sitemap SHALL contain exactly one URL per post,
+ * linking every published language version as an hreflang alternate, and all
+ * sitemap documents SHALL be well-formed XML.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { locales, defaultLocale, type Locale } from "./i18n/config";
+import { siteUrl } from "./seo";
+import {
+  buildPostUrls,
+  parseSitemapFile,
+  renderNewsSitemap,
+  renderSitemapIndex,
+  renderUrlset,
+  sitemapPath,
+  SITEMAP_SECTIONS,
+  type SitemapPostRow,
+} from "./sitemap";
+
+const slugArb = fc.stringMatching(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+
+const postRowArb: fc.Arbitrary<SitemapPostRow> = fc.record({
+  id: fc.uuid(),
+  slug: slugArb,
+  locale: fc.constantFrom(...locales),
+  translationGroupId: fc.option(fc.constantFrom("g1", "g2", "g3"), { nil: null }),
+  updatedAt: fc.date({ min: new Date("2020-01-01"), max: new Date("2030-01-01"), noInvalidDate: true }),
+  publishedAt: fc.date({ min: new Date("2020-01-01"), max: new Date("2030-01-01"), noInvalidDate: true }),
+});
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+  return doc;
+}
+
+describe("buildPostUrls", () => {
+  it("emits one URL per post and links every language version of a group", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...locales), fc.array(postRowArb, { maxLength: 12 }), (locale: Locale, siblings) => {
+        const posts = siblings.filter((post) => post.locale === locale);
+        const urls = buildPostUrls(locale, posts, siblings);
+
+        expect(urls).toHaveLength(posts.length);
+        urls.forEach((entry, i) => {
+          const post = posts[i];
+          expect(entry.url).toBe(`${siteUrl}/${locale}/blog/${post.slug}`);
+          expect(entry.priority).toBe(0.8);
+          expect(entry.alternates?.[locale]).toBeDefined();
+
+          for (const sibling of siblings) {
+            const sameGroup = post.translationGroupId
+              ? sibling.translationGroupId === post.translationGroupId
+              : !sibling.translationGroupId && sibling.slug === post.slug;
+            if (sameGroup) {
+              expect(Object.keys(entry.alternates!)).toContain(sibling.locale);
+            }
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("gives fallback pages a lower priority and points them at the original", () => {
+    const post: SitemapPostRow = {
+      id: "p1",
+      slug: "hello",
+      locale: defaultLocale,
+      translationGroupId: null,
+      updatedAt: new Date("2025-01-02"),
+      publishedAt: new Date("2025-01-01"),
+    };
+
+    const [entry] = buildPostUrls("th", [post], []);
+
+    expect(entry.url).toBe(`${siteUrl}/th/blog/hello`);
+    expect(entry.priority).toBe(0.6);
+    expect(entry.alternates).toEqual({ [defaultLocale]: `${siteUrl}/${defaultLocale}/blog/hello` });
+    expect(entry.lastModified).toEqual(post.updatedAt);
+  });
+});
+
+describe("sitemap files", () => {
+  it("parses every chunk path it generates", () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...locales), fc.constantFrom(...SITEMAP_SECTIONS), fc.nat({ max: 999 }), (locale, section, chunk) => {
+        const file = sitemapPath(locale, section, chunk).split("/").pop()!;
+        expect(parseSitemapFile(file)).toEqual({ section, chunk });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("rejects unknown sections and malformed chunk numbers", () => {
+    for (const file of ["users-0.xml", "posts-01.xml", "posts--1.xml", "posts-1.txt", "posts.xml"]) {
+      expect(parseSitemapFile(file)).toBeNull();
+    }
+  });
+});
+
+describe("sitemap XML", () => {
+  it("renders well-formed urlsets with hreflang alternates", () => {
+    fc.assert(
+      fc.property(fc.array(postRowArb, { maxLength: 8 }), (rows) => {
+        const posts = rows.filter((post) => post.locale === "en");
+        const doc = parseXml(renderUrlset(buildPostUrls("en", posts, rows)));
+
+        const urls = Array.from(doc.getElementsByTagName("url"));
+        expect(urls).toHaveLength(posts.length);
+        urls.forEach((url, i) => {
+          expect(url.getElementsByTagName("loc")[0].textContent).toBe(`${siteUrl}/en/blog/${posts[i].slug}`);
+          expect(url.getElementsByTagName("xhtml:link").length).toBeGreaterThan(0);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("renders a sitemap index", () => {
+    const doc = parseXml(
+      renderSitemapIndex([
+        { url: `${siteUrl}${sitemapPath("en", "posts", 0)}` },
+        { url: `${siteUrl}/sitemaps/news.xml`, lastModified: new Date("2025-01-01") },
+      ])
+    );
+    expect(doc.documentElement.tagName).toBe("sitemapindex");
+    expect(Array.from(doc.getElementsByTagName("loc")).map((loc) => loc.textContent)).toEqual([
+      `${siteUrl}/sitemaps/en/posts-0.xml`,
+      `${siteUrl}/sitemaps/news.xml`,
+    ]);
+  });
+
+  it("renders Google News entries with escaped titles", () => {
+    const doc = parseXml(
+      renderNewsSitemap([
+        { url: `${siteUrl}/th/blog/x`, title: "Q&A <live>", locale: "th", publishedAt: new Date("2025-01-01T10:00:00Z") },
+      ])
+    );
+    expect(doc.getElementsByTagName("news:title")[0].textContent).toBe("Q&A <live>");
+    expect(doc.getElementsByTagName("news:language")[0].textContent).toBe("th");
+    expect(doc.getElementsByTagName("news:publication_date")[0].textContent).toBe("2025-01-01T10:00:00.000Z");
+  });
+});
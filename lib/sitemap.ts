@@ -0,0 +1,358 @@
+import prisma from "@/lib/db/prisma";
+import { Prisma } from "@/lib/generated/prisma";
+import { escapeXml } from "./feed";
+import { publicPostWhere } from "./posts";
+import { siteName, siteUrl } from "./seo";
+import { defaultLocale, locales, type Locale } from "./i18n/config";
+
+/**
+ * Sitemap index with chunked per-locale sitemaps and a Google News sitemap.
+ *
+ *   /sitemap.xml                          index of everything below
+ *   /sitemaps/{locale}/{section}-{n}.xml  pages, categories, tags or posts of a locale
+ *   /sitemaps/news.xml                    posts published in the last 48 hours
+ */
+
+export type SitemapSection = "pages" | "categories" | "tags" | "posts";
+
+export const SITEMAP_SECTIONS: SitemapSection[] = ["pages", "categories", "tags", "posts"];
+
+// Sitemaps may hold 50,000 URLs; chunks stay well below so each file stays small
+export const SITEMAP_CHUNK_SIZE = 10_000;
+
+// Google News only reads articles from the last two days, at most 1,000 per sitemap
+export const NEWS_WINDOW_HOURS = 48;
+export const NEWS_MAX_URLS = 1000;
+
+export const SITEMAP_CACHE_CONTROL = "public, max-age=900, s-maxage=3600, stale-while-revalidate=86400";
+
+export interface SitemapUrl {
+  url: string;
+  lastModified?: Date;
+  changeFrequency?: "daily" | "weekly" | "monthly";
+  priority?: number;
+  /** hreflang -> URL of the same page in other languages */
+  alternates?: Record<string, string>;
+}
+
+export interface SitemapRef {
+  url: string;
+  lastModified?: Date;
+}
+
+export interface NewsSitemapItem {
+  url: string;
+  title: string;
+  locale: string;
+  publishedAt: Date;
+}
+
+/** Published post row used to build sitemap entries */
+export interface SitemapPostRow {
+  id: string;
+  slug: string;
+  locale: string;
+  translationGroupId: string | null;
+  updatedAt: Date;
+  publishedAt: Date;
+}
+
+type SiblingRow = Pick<SitemapPostRow, "slug" | "locale" | "translationGroupId">;
+
+const published = Prisma.sql`p.status = 'PUBLISHED' AND p."publishedAt" <= now()
+  AND (p."unpublishAt" IS NULL OR p."unpublishAt" > now())`;
+
+/** Path of a sitemap chunk, relative to the site root */
+export function sitemapPath(locale: Locale, section: SitemapSection, chunk: number): string {
+  return `/sitemaps/${locale}/${section}-${chunk}.xml`;
+}
+
+/** Parses a chunk file name such as `posts-2.xml` */
+export function parseSitemapFile(file: string): { section: SitemapSection; chunk: number } | null {
+  const match = /^([a-z]+)-(0|[1-9]\d{0,5})\.xml$/.exec(file);
+  if (!match || !SITEMAP_SECTIONS.includes(match[1] as SitemapSection)) return null;
+  return { section: match[1] as SitemapSection, chunk: Number(match[2]) };
+}
+
+function postUrl(locale: string, slug: string): string {
+  return `${siteUrl}/${locale}/blog/${slug}`;
+}
+
+/** Translation group key: posts without a group are linked by a shared slug */
+function groupKey(post: SiblingRow): string {
+  return post.translationGroupId ?? `slug:${post.slug}`;
+}
+
+/**
+ * Post URLs of one locale: its own posts plus, outside the default locale,
+ * fallback pages for default-locale posts that have no translation at all.
+ */
+function localePostsWhere(locale: Locale): Prisma.Sql {
+  if (locale === defaultLocale) {
+    return Prisma.sql`${published} AND p.locale = ${locale}`;
+  }
+
+  return Prisma.sql`${published} AND (
+    p.locale = ${locale}
+    OR (p.locale = ${defaultLocale} AND NOT EXISTS (
+      SELECT 1 FROM "Post" o
+      WHERE o.id <> p.id AND o.status = 'PUBLISHED' AND o."publishedAt" <= now()
+        AND (o."unpublishAt" IS NULL OR o."unpublishAt" > now())
+        AND (
+          o."translationGroupId" = p."translationGroupId"
+          OR (p."translationGroupId" IS NULL AND o."translationGroupId" IS NULL AND o.slug = p.slug)
+        )
+    ))
+  )`;
+}
+
+/**
+ * Builds the sitemap entries of a locale's posts. Translated posts list every
+ * language version as an alternate; fallback pages (default-locale posts shown
+ * in another locale) get a lower priority and point back at the original.
+ */
+export function buildPostUrls(locale: Locale, posts: SitemapPostRow[], siblings: SiblingRow[]): SitemapUrl[] {
+  const groups = new Map<string, Record<string, string>>();
+  for (const sibling of siblings) {
+    const key = groupKey(sibling);
+    groups.set(key, { ...groups.get(key), [sibling.locale]: postUrl(sibling.locale, sibling.slug) });
+  }
+
+  return posts.map((post) => {
+    const lastModified = post.updatedAt ?? post.publishedAt;
+
+    if (post.locale !== locale) {
+      return {
+        url: postUrl(locale, post.slug),
+        lastModified,
+        changeFrequency: "weekly",
+        priority: 0.6,
+        alternates: { [post.locale]: postUrl(post.locale, post.slug) },
+      };
+    }
+
+    return {
+      url: postUrl(post.locale, post.slug),
+      lastModified,
+      changeFrequency: "weekly",
+      priority: 0.8,
+      alternates: groups.get(groupKey(post)) ?? { [post.locale]: postUrl(post.locale, post.slug) },
+    };
+  });
+}
+
+/** Number of URLs in each section of a locale */
+async function countSection(locale: Locale, section: SitemapSection): Promise<number> {
+  switch (section) {
+    case "pages":
+      return 2;
+    case "categories":
+      return prisma.category.count({
+        where: { posts: { some: { ...publicPostWhere(), locale } } },
+      });
+    case "tags":
+      return prisma.tag.count({
+        where: { posts: { some: { post: { ...publicPostWhere(), locale } } } },
+      });
+    case "posts": {
+      const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+        SELECT COUNT(*) AS count FROM "Post" p WHERE ${localePostsWhere(locale)}
+      `;
+      return Number(count);
+    }
+  }
+}
+
+/** Every chunk sitemap, for the sitemap index */
+export async function getSitemapIndex(): Promise<SitemapRef[]> {
+  const refs: SitemapRef[] = [];
+
+  for (const locale of locales) {
+    for (const section of SITEMAP_SECTIONS) {
+      const count = await countSection(locale, section);
+      const chunks = Math.ceil(count / SITEMAP_CHUNK_SIZE);
+      for (let chunk = 0; chunk < chunks; chunk++) {
+        refs.push({ url: `${siteUrl}${sitemapPath(locale, section, chunk)}` });
+      }
+    }
+  }
+
+  refs.push({ url: `${siteUrl}/sitemaps/news.xml`, lastModified: new Date() });
+  return refs;
+}
+
+/**
+ * URLs of one sitemap chunk, or null when the chunk does not exist.
+ * Rows are paged by id, so chunk boundaries stay stable between requests.
+ */
+export async function getSitemapChunk(
+  locale: Locale,
+  section: SitemapSection,
+  chunk: number
+): Promise<SitemapUrl[] | null> {
+  const skip = chunk * SITEMAP_CHUNK_SIZE;
+  let urls: SitemapUrl[];
+
+  switch (section) {
+    case "pages": {
+      const languages = Object.fromEntries(locales.map((l) => [l, `${siteUrl}/${l}`]));
+      urls = chunk > 0 ? [] : [
+        { url: `${siteUrl}/${locale}`, lastModified: new Date(), changeFrequency: "daily", priority: 1.0, alternates: languages },
+        { url: `${siteUrl}/${locale}/search`, changeFrequency: "monthly", priority: 0.3 },
+      ];
+      break;
+    }
+    case "categories": {
+      const categories = await prisma.category.findMany({
+        where: { posts: { some: { ...publicPostWhere(), locale } } },
+        select: { slug: true, updatedAt: true },
+        orderBy: { id: "asc" },
+        skip,
+        take: SITEMAP_CHUNK_SIZE,
+      });
+      urls = categories.map((category) => ({
+        url: `${siteUrl}/${locale}/category/${encodeURIComponent(category.slug)}`,
+        lastModified: category.updatedAt,
+        changeFrequency: "weekly",
+        priority: 0.6,
+      }));
+      break;
+    }
+    case "tags": {
+      const tags = await prisma.tag.findMany({
+        where: { posts: { some: { post: { ...publicPostWhere(), locale } } } },
+        select: { slug: true, updatedAt: true },
+        orderBy: { id: "asc" },
+        skip,
+        take: SITEMAP_CHUNK_SIZE,
+      });
+      urls = tags.map((tag) => ({
+        url: `${siteUrl}/${locale}/tag/${encodeURIComponent(tag.slug)}`,
+        lastModified: tag.updatedAt,
+        changeFrequency: "weekly",
+        priority: 0.5,
+      }));
+      break;
+    }
+    case "posts": {
+      const posts = await prisma.$queryRaw<SitemapPostRow[]>`
+        SELECT p.id, p.slug, p.locale, p."translationGroupId", p."updatedAt", p."publishedAt"
+        FROM "Post" p
+        WHERE ${localePostsWhere(locale)}
+        ORDER BY p.id
+        LIMIT ${SITEMAP_CHUNK_SIZE} OFFSET ${skip}
+      `;
+
+      // All language versions of the chunk's posts, in one query
+      const own = posts.filter((post) => post.locale === locale);
+      const groupIds = own.flatMap((post) => (post.translationGroupId ? [post.translationGroupId] : []));
+      const ungroupedSlugs = own.filter((post) => !post.translationGroupId).map((post) => post.slug);
+      const siblings = own.length === 0 ? [] : await prisma.post.findMany({
+        where: {
+          ...publicPostWhere(),
+          OR: [
+            { translationGroupId: { in: groupIds } },
+            { translationGroupId: null, slug: { in: ungroupedSlugs } },
+          ],
+        },
+        select: { slug: true, locale: true, translationGroupId: true },
+      });
+
+      urls = buildPostUrls(locale, posts, siblings);
+      break;
+    }
+  }
+
+  return urls.length === 0 && chunk > 0 ? null : urls;
+}
+
+/** Posts published in the last 48 hours, newest first */
+export async function getNewsSitemapItems(now: Date = new Date()): Promise<NewsSitemapItem[]> {
+  const since = new Date(now.getTime() - NEWS_WINDOW_HOURS * 60 * 60 * 1000);
+  const posts = await prisma.post.findMany({
+    where: { ...publicPostWhere(now), publishedAt: { gte: since, lte: now } },
+    select: { slug: true, locale: true, title: true, publishedAt: true },
+    orderBy: { publishedAt: "desc" },
+    take: NEWS_MAX_URLS,
+  });
+
+  return posts.map((post) => ({
+    url: postUrl(post.locale, post.slug),
+    title: post.title,
+    locale: post.locale,
+    publishedAt: post.publishedAt!,
+  }));
+}
+
+/** Renders a `<urlset>` with hreflang alternates */
+export function renderUrlset(urls: SitemapUrl[]): string {
+  const entries = urls.map((entry) => {
+    const lines = [`    <loc>${escapeXml(entry.url)}</loc>`];
+    if (entry.lastModified) lines.push(`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`);
+    if (entry.changeFrequency) lines.push(`    <changefreq>${entry.changeFrequency}</changefreq>`);
+    if (entry.priority !== undefined) lines.push(`    <priority>${entry.priority.toFixed(1)}</priority>`);
+    for (const [hreflang, href] of Object.entries(entry.alternates ?? {})) {
+      lines.push(`    <xhtml:link rel="alternate" hreflang="${escapeXml(hreflang)}" href="${escapeXml(href)}"/>`);
+    }
+    return `  <url>\n${lines.join("\n")}\n  </url>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${entries.join("\n")}
+</urlset>
+`;
+}
+
+/** Renders a `<sitemapindex>` */
+export function renderSitemapIndex(refs: SitemapRef[]): string {
+  const entries = refs.map((ref) => {
+    const lastmod = ref.lastModified ? `\n    <lastmod>${ref.lastModified.toISOString()}</lastmod>` : "";
+    return `  <sitemap>\n    <loc>${escapeXml(ref.url)}</loc>${lastmod}\n  </sitemap>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries.join("\n")}
+</sitemapindex>
+`;
+}
+
+/** Renders a Google News sitemap with `news:news` entries */
+export function renderNewsSitemap(items: NewsSitemapItem[]): string {
+  const entries = items.map(
+    (item) => `  <url>
+    <loc>${escapeXml(item.url)}</loc>
+    <news:news>
+      <news:publication>
+        <news:name>${escapeXml(siteName)}</news:name>
+        <news:language>${escapeXml(item.locale)}</news:language>
+      </news:publication>
+      <news:publication_date>${item.publishedAt.toISOString()}</news:publication_date>
+      <news:title>${escapeXml(item.title)}</news:title>
+    </news:news>
+  </url>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+${entries.join("\n")}
+</urlset>
+`;
+}
+
+/** Serves sitemap XML with caching headers */
+export async function handleSitemapRequest(render: () => Promise<string | null>): Promise<Response> {
+  try {
+    const xml = await render();
+    if (xml === null) {
+      return new Response("Sitemap not found", { status: 404 });
+    }
+    return new Response(xml, {
+      headers: { "Content-Type": "application/xml; charset=utf-8", "Cache-Control": SITEMAP_CACHE_CONTROL },
+    });
+  } catch (error) {
+    console.error("Error generating sitemap:", error);
+    return new Response("Failed to generate sitemap", { status: 500 });
+  }
+}
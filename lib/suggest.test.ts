@@ -0,0 +1,88 @@
+/**
+ * Property-Based Tests for Search Suggestions
+ *
+ * Property: "Did you mean" corrections SHALL only replace unknown terms, and
+ * only with vocabulary words within the allowed edit distance.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import * as fc from "fast-check";
+
+vi.mock("@/lib/cache/redis", () => ({
+  default: { get: vi.fn(async () => null), set: vi.fn(async () => {}) },
+  CACHE_KEYS: { SEARCH: "search" },
+  CACHE_TTL: { SEARCH_VOCABULARY: 1800 },
+}));
+
+import { editDistance, suggestCorrection } from "./suggest";
+
+const wordArb = fc.stringMatching(/^[a-z]{3,10}$/);
+
+describe("editDistance", () => {
+  it("is zero only for equal strings and symmetric", () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 12 }), fc.string({ maxLength: 12 }), (a, b) => {
+        const distance = editDistance(a, b);
+        expect(distance === 0).toBe(a === b);
+        expect(editDistance(b, a)).toBe(distance);
+        expect(distance).toBeLessThanOrEqual(Math.max(a.length, b.length));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it("a single substitution is one edit", () => {
+    expect(editDistance("react", "reast")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("reports max + 1 once the bound is exceeded", () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 12 }), fc.string({ maxLength: 12 }), fc.nat({ max: 4 }), (a, b, max) => {
+        const exact = editDistance(a, b);
+        expect(editDistance(a, b, max)).toBe(exact <= max ? exact : max + 1);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe("suggestCorrection", () => {
+  it("returns null when every term is known", () => {
+    fc.assert(
+      fc.property(fc.array(wordArb, { minLength: 1, maxLength: 8 }), (vocabulary) => {
+        const query = vocabulary.slice(0, 3).join(" ");
+        expect(suggestCorrection(query, vocabulary)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it("corrects a one-letter typo to a close vocabulary word", () => {
+    fc.assert(
+      fc.property(
+        fc.array(wordArb, { minLength: 1, maxLength: 8 }),
+        fc.nat(),
+        fc.constantFrom(..."abcdefghijklmnopqrstuvwxyz"),
+        (vocabulary, position, letter) => {
+          const word = vocabulary[0];
+          const i = position % word.length;
+          const typo = word.slice(0, i) + letter + word.slice(i + 1);
+          fc.pre(!vocabulary.includes(typo));
+
+          const correction = suggestCorrection(typo, vocabulary);
+          expect(correction).not.toBeNull();
+          expect(vocabulary).toContain(correction);
+          expect(editDistance(typo, correction!)).toBe(1);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it("keeps known and short terms and prefers the more frequent word", () => {
+    expect(suggestCorrection("nextjs raect ai", ["react", "nextjs", "reach"])).toBe("nextjs react ai");
+    expect(suggestCorrection("reacg", ["reach", "react"])).toBe("reach");
+    expect(suggestCorrection("zzzzzz", ["react"])).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import prisma from "@/lib/db/prisma";
+import cacheService, { CACHE_KEYS, CACHE_TTL } from "@/lib/cache/redis";
+import type { Locale } from "./i18n/config";
+import type { SearchSuggestion, SearchSuggestions } from "./types";
+
+// Minimum trigram word similarity for a fuzzy suggestion
+const SIMILARITY_THRESHOLD = 0.3;
+
+// Terms shorter than this are never corrected
+const MIN_CORRECTION_LENGTH = 3;
+
+type SuggestionRow = { label: string; slug: string; score: number };
+
+/** Escapes LIKE wildcards so the query matches literally */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Levenshtein edit distance between two strings.
+ * Stops early and returns `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Corrects misspelled query terms against a vocabulary of known words.
+ * Each unknown term is replaced by the closest vocabulary word within one edit
+ * (two for terms longer than four characters); ties go to the word listed
+ * first, so the vocabulary should be ordered by frequency.
+ * Returns null when nothing was corrected.
+ */
+export function suggestCorrection(query: string, vocabulary: string[]): string | null {
+  const known = new Set(vocabulary);
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  let changed = false;
+
+  const corrected = terms.map((term) => {
+    if (term.length < MIN_CORRECTION_LENGTH || known.has(term)) return term;
+
+    const maxDistance = term.length > 4 ? 2 : 1;
+    let best: string | null = null;
+    let bestDistance = maxDistance + 1;
+    for (const word of vocabulary) {
+      const distance = editDistance(term, word, bestDistance - 1);
+      if (distance < bestDistance) {
+        best = word;
+        bestDistance = distance;
+        if (distance === 1) break;
+      }
+    }
+
+    if (!best) return term;
+    changed = true;
+    return best;
+  });
+
+  return changed ? corrected.join(" ") : null;
+}
+
+/**
+ * Words used in published post titles, tag names and category names of a
+ * locale, most frequent first. Cached, since it only feeds spelling hints.
+ */
+export async function getSearchVocabulary(locale: Locale): Promise<string[]> {
+  const cacheKey = `${CACHE_KEYS.SEARCH}:vocabulary:${locale}`;
+  const cached = await cacheService.get<string[]>(cacheKey);
+  if (cached) return cached;
+
+  const rows = await prisma.$queryRaw<{ word: string }[]>`
+    SELECT word FROM (
+      SELECT regexp_split_to_table(lower(p.title), '[^[:alnum:]]+') AS word
+      FROM "Post" p
+      WHERE p.locale = ${locale} AND p.status = 'PUBLISHED' AND p."publishedAt" <= now()
+      UNION ALL
+      SELECT regexp_split_to_table(lower(t.name), '[^[:alnum:]]+') FROM "Tag" t
+      UNION ALL
+      SELECT regexp_split_to_table(lower(c.name), '[^[:alnum:]]+') FROM "Category" c
+    ) words
+    WHERE length(word) >= ${MIN_CORRECTION_LENGTH}
+    GROUP BY word
+    ORDER BY COUNT(*) DESC, word
+  `;
+
+  const vocabulary = rows.map((r) => r.word);
+  await cacheService.set(cacheKey, vocabulary, CACHE_TTL.SEARCH_VOCABULARY);
+  return vocabulary;
+}
+
+/**
+ * "Did you mean" hint for a query, or null when every term is known.
+ */
+export async function getDidYouMean(query: string, locale: Locale): Promise<string | null> {
+  if (!query.trim()) return null;
+  return suggestCorrection(query, await getSearchVocabulary(locale));
+}
+
+/**
+ * Autocomplete suggestions for post titles, tags and categories.
+ * Uses pg_trgm word similarity, so misspelled and partial queries still match;
+ * tags and categories are limited to those with published posts in the locale.
+ */
+export async function getSuggestions(
+  query: string,
+  locale: Locale,
+  limit: number = 5
+): Promise<SearchSuggestions> {
+  const q = query.trim();
+  const contains = `%${escapeLike(q)}%`;
+
+  const [posts, tags, categories, didYouMean] = await Promise.all([
+    prisma.$queryRaw<SuggestionRow[]>`
+      SELECT p.title AS label, p.slug, word_similarity(${q}, p.title) AS score
+      FROM "Post" p
+      WHERE p.locale = ${locale} AND p.status = 'PUBLISHED' AND p."publishedAt" <= now()
+        AND (p.title ILIKE ${contains} OR word_similarity(${q}, p.title) >= ${SIMILARITY_THRESHOLD})
+      ORDER BY (p.title ILIKE ${contains}) DESC, score DESC, p."publishedAt" DESC
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<SuggestionRow[]>`
+      SELECT t.name AS label, t.slug, word_similarity(${q}, t.name) AS score
+      FROM "Tag" t
+      WHERE (t.name ILIKE ${contains} OR word_similarity(${q}, t.name) >= ${SIMILARITY_THRESHOLD})
+        AND EXISTS (
+          SELECT 1 FROM "PostTag" pt JOIN "Post" p ON p.id = pt."postId"
+          WHERE pt."tagId" = t.id AND p.locale = ${locale} AND p.status = 'PUBLISHED'
+        )
+      ORDER BY (t.name ILIKE ${contains}) DESC, score DESC, t.name
+      LIMIT ${limit}
+    `,
+    prisma.$queryRaw<SuggestionRow[]>`
+      SELECT c.name AS label, c.slug, word_similarity(${q}, c.name) AS score
+      FROM "Category" c
+      WHERE (c.name ILIKE ${contains} OR word_similarity(${q}, c.name) >= ${SIMILARITY_THRESHOLD})
+        AND EXISTS (
+          SELECT 1 FROM "Post" p
+          WHERE p."categoryId" = c.id AND p.locale = ${locale} AND p.status = 'PUBLISHED'
+        )
+      ORDER BY (c.name ILIKE ${contains}) DESC, score DESC, c.name
+      LIMIT ${limit}
+    `,
+    getDidYouMean(q, locale),
+  ]);
+
+  const toSuggestions = (rows: SuggestionRow[], type: SearchSuggestion["type"]): SearchSuggestion[] =>
+    rows.map((r) => ({ type, label: r.label, slug: r.slug, score: Number(r.score) }));
+
+  return {
+    posts: toSuggestions(posts, "post"),
+    tags: toSuggestions(tags, "tag"),
+    categories: toSuggestions(categories, "category"),
+    didYouMean,
+  };
+}
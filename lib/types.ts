@@ -26,7 +26,11 @@ export interface Post {
   readingTime: number;
   featured?: boolean;
   image?: string;
+  imageType?: string;     // Cover image MIME type
+  imageSize?: number;     // Cover image size in bytes
+  images?: string[];      // All attached image URLs, cover first
   locale: string;
+  translationGroupId?: string;  // Links localized versions with different slugs
   status: PostStatus;
 }
 
@@ -62,6 +66,50 @@ export interface SearchResult {
   matchedIn: ("title" | "content" | "tags")[];
   highlightedTitle: string;
   highlightedExcerpt: string;
+  rank?: number;          // Full-text relevance score
+  viewCount?: number;
+}
+
+// Search result ordering
+export type SearchSort = "relevance" | "newest" | "views";
+
+// URL-driven search filters; category and tag are slugs, author is a user id
+export interface SearchFilters {
+  category?: string;
+  tag?: string;
+  author?: string;
+  from?: string;          // YYYY-MM-DD, inclusive
+  to?: string;            // YYYY-MM-DD, inclusive
+  sort?: SearchSort;
+}
+
+// Facet value with the number of matching posts
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+  depth?: number;         // Category nesting level
+}
+
+export interface SearchFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+  authors: FacetCount[];
+}
+
+// Autocomplete suggestion linking to a post, tag or category page
+export interface SearchSuggestion {
+  type: "post" | "tag" | "category";
+  label: string;
+  slug: string;
+  score: number;          // Trigram similarity to the query, 0-1
+}
+
+export interface SearchSuggestions {
+  posts: SearchSuggestion[];
+  tags: SearchSuggestion[];
+  categories: SearchSuggestion[];
+  didYouMean: string | null;
 }
 
 // Category with post count
@@ -79,10 +127,11 @@ export interface Tag {
 }
 
 // Admin types
-export type PostStatus = "draft" | "scheduled" | "published";
+export type PostStatus = "draft" | "in_review" | "rejected" | "scheduled" | "published" | "archived";
 
 export interface AdminPost extends Post {
   scheduledAt?: Date;
+  unpublishAt?: Date;
   createdAt: Date;
   viewCount: number;
 }
@@ -96,6 +145,7 @@ export interface CreatePostInput {
   locale: Locale;
   status: PostStatus;
   scheduledAt?: Date;
+  unpublishAt?: Date;
   authorId: string;
 }
 
@@ -0,0 +1,225 @@
+/**
+ * Tests for webhook signing and delivery
+ *
+ * Property: Deliveries SHALL carry svix signatures that verify with the
+ * endpoint secret, failed attempts SHALL be retried with exponentially
+ * growing delays until MAX_DELIVERY_ATTEMPTS, and resending SHALL reuse the
+ * delivery's message id. A retry run SHALL sign each attempt when it is
+ * sent and stop starting attempts once its time budget is spent.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { Webhook } from 'svix';
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/generated/prisma';
+
+const deliveries = new Map<string, WebhookDelivery>();
+const endpoints = new Map<string, WebhookEndpoint>();
+
+vi.mock('@/lib/db/prisma', () => ({
+  default: {
+    webhookEndpoint: {
+      findMany: async ({ where }: { where: { enabled: boolean; events: { has: string } } }) =>
+        [...endpoints.values()].filter((e) => e.enabled === where.enabled && e.events.includes(where.events.has)),
+    },
+    webhookDelivery: {
+      createMany: async ({ data }: { data: Partial<WebhookDelivery>[] }) => {
+        for (const item of data) {
+          const delivery = {
+            id: `msg_${deliveries.size + 1}`,
+            status: 'PENDING',
+            attempts: 0,
+            createdAt: new Date(),
+            ...item,
+          } as WebhookDelivery;
+          deliveries.set(delivery.id, delivery);
+        }
+        return { count: data.length };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<WebhookDelivery> }) => {
+        const next = { ...deliveries.get(where.id)!, ...data };
+        deliveries.set(where.id, next);
+        return next;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const delivery = deliveries.get(where.id);
+        return delivery ? { ...delivery, endpoint: endpoints.get(delivery.endpointId)! } : null;
+      },
+      findMany: async ({ where }: { where: { nextAttemptAt: { lte: Date } } }) =>
+        [...deliveries.values()]
+          .filter((d) => d.status === 'PENDING' && d.nextAttemptAt && d.nextAttemptAt <= where.nextAttemptAt.lte)
+          .map((d) => ({ ...d, endpoint: endpoints.get(d.endpointId)! })),
+    },
+  },
+}));
+
+import {
+  getRetryDelay,
+  processDueDeliveries,
+  resendDelivery,
+  DELIVERY_TIMEOUT_MS,
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRY_RUN_BUDGET_MS,
+} from './delivery';
+import { dispatchWebhookEvent } from './dispatch';
+import { generateWebhookSecret, signWebhook } from './signing';
+
+describe('signWebhook', () => {
+  it('produces headers that svix verifies with the endpoint secret', () => {
+    fc.assert(
+      fc.property(fc.json({ maxDepth: 2 }), fc.stringMatching(/^msg_[a-z0-9]{1,20}$/), (body, id) => {
+        const secret = generateWebhookSecret();
+        const headers = signWebhook(secret, id, body);
+
+        expect(() => new Webhook(secret).verify(body, headers)).not.toThrow();
+        expect(() => new Webhook(generateWebhookSecret()).verify(body, headers)).toThrow();
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles after every failed attempt up to the cap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 40 }), (attempts) => {
+        const delay = getRetryDelay(attempts);
+        expect(delay).toBeLessThanOrEqual(RETRY_MAX_DELAY_MS);
+        expect(delay).toBe(Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS));
+        expect(getRetryDelay(attempts + 1)).toBeGreaterThanOrEqual(delay);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('delivery', () => {
+  const fetchMock = vi.fn();
+  const secret = generateWebhookSecret();
+
+  beforeEach(() => {
+    deliveries.clear();
+    endpoints.clear();
+    endpoints.set('ep-1', {
+      id: 'ep-1',
+      url: 'https://hooks.example.com/newsloop',
+      description: null,
+      secret,
+      events: ['post.published'],
+      enabled: true,
+      createdById: 'user-1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  const post = {
+    id: 'post-1',
+    slug: 'hello',
+    locale: 'en',
+    title: 'Hello',
+    status: 'PUBLISHED',
+    url: 'https://example.com/en/blog/hello',
+    publishedAt: null,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('queues events for subscribed endpoints and sends them signed on the next run', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    expect(await dispatchWebhookEvent('media.deleted', { id: 'm', fileId: 'f', url: 'u', filename: 'x.png' })).toBe(0);
+    expect(await dispatchWebhookEvent('post.published', post)).toBe(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect([...deliveries.values()][0]).toMatchObject({ status: 'PENDING', attempts: 0 });
+
+    expect(await processDueDeliveries()).toEqual({ attempted: 1, succeeded: 1, deferred: 0 });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const payload = new Webhook(secret).verify(init.body as string, headers);
+
+    expect(url).toBe('https://hooks.example.com/newsloop');
+    expect(payload).toMatchObject({ type: 'post.published', data: post });
+    expect([...deliveries.values()][0]).toMatchObject({ status: 'SUCCEEDED', attempts: 1 });
+  });
+
+  it('retries with backoff and gives up after the last attempt', async () => {
+    fetchMock.mockResolvedValue(new Response('down', { status: 503 }));
+    let now = new Date('2025-01-01T00:00:00Z');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+
+    await dispatchWebhookEvent('post.published', post, now);
+    await processDueDeliveries(now);
+    const [delivery] = deliveries.values();
+
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      const current = deliveries.get(delivery.id)!;
+      expect(current).toMatchObject({ status: 'PENDING', attempts: attempt, responseStatus: 503 });
+      expect(current.nextAttemptAt!.getTime() - now.getTime()).toBe(getRetryDelay(attempt));
+
+      // Nothing is due before the backoff elapses
+      expect((await processDueDeliveries(new Date(current.nextAttemptAt!.getTime() - 1))).attempted).toBe(0);
+
+      now = current.nextAttemptAt!;
+      vi.setSystemTime(now);
+      expect(await processDueDeliveries(now)).toEqual({ attempted: 1, succeeded: 0, deferred: 0 });
+    }
+
+    expect(deliveries.get(delivery.id)).toMatchObject({
+      status: 'FAILED',
+      attempts: MAX_DELIVERY_ATTEMPTS,
+      nextAttemptAt: null,
+    });
+  });
+
+  it('signs every retry when it is sent and defers the rest once the run budget is spent', async () => {
+    const start = new Date('2025-01-01T00:00:00Z');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+    for (let i = 0; i < 8; i++) {
+      await dispatchWebhookEvent('post.published', post, start);
+    }
+
+    // Every endpoint answers just before the delivery timeout
+    const sentAt: number[] = [];
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+      const headers = init.headers as Record<string, string>;
+      expect(() => new Webhook(secret).verify(init.body as string, headers)).not.toThrow();
+      sentAt.push(Number(headers['svix-timestamp']));
+      expect(sentAt.at(-1)).toBe(Math.floor(Date.now() / 1000));
+      vi.setSystemTime(Date.now() + DELIVERY_TIMEOUT_MS - 1);
+      return new Response(null, { status: 204 });
+    });
+    vi.setSystemTime(start.getTime() + 60 * 1000);
+
+    const attempted = Math.ceil(RETRY_RUN_BUDGET_MS / (DELIVERY_TIMEOUT_MS - 1));
+    expect(await processDueDeliveries()).toEqual({ attempted, succeeded: attempted, deferred: 8 - attempted });
+    expect(new Set(sentAt).size).toBe(attempted);
+    expect(await processDueDeliveries()).toEqual({ attempted: 8 - attempted, succeeded: 8 - attempted, deferred: 0 });
+  });
+
+  it('resends with the same message id and records network errors', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    await dispatchWebhookEvent('post.published', post);
+    await processDueDeliveries();
+    const [delivery] = deliveries.values();
+    expect(deliveries.get(delivery.id)).toMatchObject({ status: 'PENDING', error: 'connect ECONNREFUSED' });
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const resent = await resendDelivery(delivery.id);
+
+    expect(resent).toMatchObject({ status: 'SUCCEEDED', attempts: 1, error: null, responseStatus: 204 });
+    const headers = (fetchMock.mock.calls[1] as [string, RequestInit])[1].headers as Record<string, string>;
+    expect(headers['svix-id']).toBe(delivery.id);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Webhook Delivery
+ *
+ * POSTs signed payloads to endpoints and records every attempt. Failed
+ * deliveries are retried with exponential backoff until MAX_DELIVERY_ATTEMPTS.
+ */
+
+import prisma from '@/lib/db/prisma';
+import type { WebhookDelivery, WebhookEndpoint } from '@/lib/generated/prisma';
+import { signWebhook } from './signing';
+
+/** Attempts before a delivery is marked FAILED */
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+/** Delay before the first retry; doubles with every further attempt */
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/** Upper bound for the delay between attempts */
+export const RETRY_MAX_DELAY_MS = 12 * 60 * 60 * 1000;
+
+/** How long an endpoint may take to answer */
+export const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/** Deliveries retried per processDueDeliveries run */
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * No retry is started after a processDueDeliveries run has taken this long,
+ * so the last one (up to DELIVERY_TIMEOUT_MS) ends within a one-minute cron
+ */
+export const RETRY_RUN_BUDGET_MS = 45 * 1000;
+
+/** Characters of the response body kept in the delivery log */
+const RESPONSE_BODY_LIMIT = 1000;
+
+export type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint };
+
+export interface RetryRunResult {
+  attempted: number;
+  succeeded: number;
+  /** Due deliveries left for the next run because the time budget ran out */
+  deferred: number;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Sends a delivery once and records the outcome: SUCCEEDED on a 2xx answer,
+ * otherwise PENDING with the next retry time, or FAILED when out of attempts.
+ * The signature is timestamped when the request is sent, as receivers reject
+ * timestamps more than five minutes off their clock.
+ */
+export async function attemptDelivery(delivery: DeliveryWithEndpoint): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'NewsLoop-Webhooks/1.0',
+        ...signWebhook(delivery.endpoint.secret, delivery.id, delivery.payload, now),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) {
+      error = `Endpoint responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Delivery failed';
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      responseBody,
+      error,
+      status: succeeded ? 'SUCCEEDED' : exhausted ? 'FAILED' : 'PENDING',
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(now.getTime() + getRetryDelay(attempts)),
+    },
+  });
+}
+
+/**
+ * Retries pending deliveries whose next attempt is due, until
+ * RETRY_RUN_BUDGET_MS has passed; the rest wait for the next run.
+ * Deliveries to disabled endpoints wait until the endpoint is enabled again.
+ * This should be called by a cron job every minute
+ */
+export async function processDueDeliveries(now: Date = new Date()): Promise<RetryRunResult> {
+  const startedAt = Date.now();
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+      endpoint: { enabled: true },
+    },
+    include: { endpoint: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+
+  let attempted = 0;
+  let succeeded = 0;
+  for (const delivery of due) {
+    if (Date.now() - startedAt >= RETRY_RUN_BUDGET_MS) {
+      break;
+    }
+
+    attempted++;
+    const result = await attemptDelivery(delivery);
+    if (result.status === 'SUCCEEDED') {
+      succeeded++;
+    }
+  }
+
+  return { attempted, succeeded, deferred: due.length - attempted };
+}
+
+/**
+ * Sends a delivery again right away with the same message id, starting a
+ * fresh round of retries if it fails
+ */
+export async function resendDelivery(id: string): Promise<WebhookDelivery> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id },
+    include: { endpoint: true },
+  });
+
+  if (!delivery) {
+    throw new Error('Delivery not found');
+  }
+
+  return attemptDelivery({ ...delivery, attempts: 0 });
+}
@@ -0,0 +1,71 @@
+/**
+ * Webhook Dispatch
+ *
+ * Fans a content event out to every enabled endpoint subscribed to it.
+ * Each endpoint gets its own delivery, due at once; the per-minute
+ * /api/cron/webhooks run (processDueDeliveries) sends it and retries it,
+ * so a slow endpoint never holds up the content change.
+ */
+
+import prisma from '@/lib/db/prisma';
+import { siteUrl } from '@/lib/seo';
+import type { PostEventData, WebhookEventData, WebhookEventType, WebhookPayload } from './types';
+
+/**
+ * Builds the data sent with post events
+ */
+export function toPostEventData(post: {
+  id: string;
+  slug: string;
+  locale: string;
+  title: string;
+  status: string;
+  publishedAt: Date | null;
+  updatedAt: Date;
+}): PostEventData {
+  return {
+    id: post.id,
+    slug: post.slug,
+    locale: post.locale,
+    title: post.title,
+    status: post.status,
+    url: `${siteUrl}/${post.locale}/blog/${post.slug}`,
+    publishedAt: post.publishedAt?.toISOString() ?? null,
+    updatedAt: post.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Queues an event for subscribed endpoints.
+ * Never throws: a broken endpoint must not fail the content change that
+ * triggered it.
+ *
+ * @returns Number of deliveries queued
+ */
+export async function dispatchWebhookEvent<E extends WebhookEventType>(
+  type: E,
+  data: WebhookEventData[E],
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { enabled: true, events: { has: type } },
+    });
+
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const payload: WebhookPayload<E> = { type, timestamp: now.toISOString(), data };
+    const body = JSON.stringify(payload);
+
+    const { count } = await prisma.webhookDelivery.createMany({
+      data: endpoints.map((endpoint) => ({ endpointId: endpoint.id, event: type, payload: body, nextAttemptAt: now })),
+    });
+
+    return count;
+  } catch (error) {
+    console.error(`Failed to dispatch ${type} webhooks:`, error);
+    return 0;
+  }
+}
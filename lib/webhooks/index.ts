@@ -0,0 +1,37 @@
+/**
+ * Webhooks Module Barrel Export
+ *
+ * Outbound webhooks for content lifecycle events: signing, delivery with
+ * retries and event dispatch.
+ */
+
+// Types
+export { WEBHOOK_EVENTS } from './types';
+export type {
+  WebhookEventType,
+  WebhookEventData,
+  WebhookPayload,
+  PostEventData,
+  CategoryMovedData,
+  MediaDeletedData,
+} from './types';
+
+// Signing
+export { generateWebhookSecret, signWebhook } from './signing';
+
+// Delivery
+export {
+  attemptDelivery,
+  processDueDeliveries,
+  resendDelivery,
+  getRetryDelay,
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRY_RUN_BUDGET_MS,
+  DELIVERY_TIMEOUT_MS,
+} from './delivery';
+export type { DeliveryWithEndpoint, RetryRunResult } from './delivery';
+
+// Dispatch
+export { dispatchWebhookEvent, toPostEventData } from './dispatch';
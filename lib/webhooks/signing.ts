@@ -0,0 +1,33 @@
+/**
+ * Webhook Signing
+ *
+ * Signs deliveries with svix, the scheme we already verify for incoming
+ * Clerk webhooks, so receivers can check them with `new Webhook(secret).verify()`.
+ */
+
+import { randomBytes } from 'crypto';
+import { Webhook } from 'svix';
+
+/**
+ * Creates a new endpoint secret in svix's `whsec_<base64>` format
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64')}`;
+}
+
+/**
+ * Builds the svix-id, svix-timestamp and svix-signature headers for a payload.
+ * The message id stays the same across retries so receivers can deduplicate.
+ */
+export function signWebhook(
+  secret: string,
+  messageId: string,
+  payload: string,
+  timestamp: Date = new Date()
+): Record<string, string> {
+  return {
+    'svix-id': messageId,
+    'svix-timestamp': Math.floor(timestamp.getTime() / 1000).toString(),
+    'svix-signature': new Webhook(secret).sign(messageId, timestamp, payload),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Webhooks Types Module
+ *
+ * Defines the content lifecycle events sent to webhook endpoints and the
+ * payload delivered for each.
+ */
+
+/**
+ * Events an endpoint can subscribe to
+ */
+export const WEBHOOK_EVENTS = [
+  'post.published',
+  'post.updated',
+  'post.unpublished',
+  'post.deleted',
+  'category.moved',
+  'media.deleted',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * Post fields sent with post events
+ */
+export interface PostEventData {
+  id: string;
+  slug: string;
+  locale: string;
+  title: string;
+  status: string;
+  /** Public URL of the post */
+  url: string;
+  publishedAt: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Sent when a category gets a new parent
+ */
+export interface CategoryMovedData {
+  id: string;
+  slug: string;
+  name: string;
+  previousParentId: string | null;
+  parentId: string | null;
+}
+
+/**
+ * Sent when a media file is removed from the library
+ */
+export interface MediaDeletedData {
+  id: string;
+  fileId: string;
+  url: string;
+  filename: string;
+}
+
+/**
+ * Data sent with each event
+ */
+export interface WebhookEventData {
+  'post.published': PostEventData;
+  'post.updated': PostEventData;
+  'post.unpublished': PostEventData;
+  'post.deleted': Pick<PostEventData, 'id' | 'slug' | 'locale' | 'title'>;
+  'category.moved': CategoryMovedData;
+  'media.deleted': MediaDeletedData;
+}
+
+/**
+ * JSON body POSTed to endpoints, shaped like Clerk's webhook events
+ */
+export interface WebhookPayload<E extends WebhookEventType = WebhookEventType> {
+  type: E;
+  /** When the event happened (ISO 8601) */
+  timestamp: string;
+  data: WebhookEventData[E];
+}
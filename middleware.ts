@@ -1,11 +1,12 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
-import { NextRequest, NextResponse } from 'next/server';
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
 import {
   detectLocaleFromHeaders,
   detectLocaleFromCookie,
   pathnameHasLocale,
 } from './lib/i18n/detection';
 import { applySecurityHeaders } from './lib/security/headers';
+import { resolveRedirect, recordRedirectHit } from './lib/redirects/table';
 
 export const LOCALE_COOKIE = 'NEXT_LOCALE';
 
@@ -30,7 +31,27 @@ const isPublicAsset = (pathname: string) => {
   );
 };
 
-export default clerkMiddleware(async (auth, request: NextRequest) => {
+/**
+ * Applies a managed redirect (or 410 Gone) for the request path, if any.
+ * Query strings are carried over to on-site targets.
+ */
+async function applyRedirect(request: NextRequest, event: NextFetchEvent): Promise<NextResponse | null> {
+  const rule = await resolveRedirect(request.nextUrl.pathname);
+  if (!rule) return null;
+
+  event.waitUntil(recordRedirectHit(rule.id));
+
+  if (rule.statusCode === 410 || !rule.target) {
+    return new NextResponse('Gone', { status: 410 });
+  }
+
+  const url = rule.target.startsWith('/')
+    ? new URL(rule.target + request.nextUrl.search, request.nextUrl.origin)
+    : new URL(rule.target);
+  return NextResponse.redirect(url, rule.statusCode);
+}
+
+export default clerkMiddleware(async (auth, request: NextRequest, event: NextFetchEvent) => {
   const { pathname } = request.nextUrl;
 
   // Redirect sign-up to sign-in (self-registration disabled)
@@ -54,6 +75,12 @@ export default clerkMiddleware(async (auth, request: NextRequest) => {
     return applySecurityHeaders(response);
   }
 
+  // Managed redirects, e.g. old slugs of renamed posts and categories
+  const redirect = await applyRedirect(request, event);
+  if (redirect) {
+    return applySecurityHeaders(redirect);
+  }
+
   // Check if pathname already has a locale
   if (pathnameHasLocale(pathname)) {
     const response = NextResponse.next();
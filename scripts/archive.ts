@@ -0,0 +1,99 @@
+/**
+ * Exports the whole site to an NDJSON archive, or restores one
+ * Run with:
+ *   bun run scripts/archive.ts export [file]
+ *   bun run scripts/archive.ts restore <file> --author <userId> [--conflict skip|overwrite|rename] [--dry-run]
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { prisma } from '../lib/db/prisma';
+import {
+  ARCHIVE_CONFLICT_STRATEGIES,
+  ArchiveError,
+  RestoreInterruptedError,
+  exportArchiveLines,
+  restoreArchive,
+  type ArchiveConflictStrategy,
+  type RestoreReport,
+} from '../lib/archive';
+
+const USAGE =
+  'Usage:\n' +
+  '  bun run scripts/archive.ts export [file]\n' +
+  '  bun run scripts/archive.ts restore <file> --author <userId> [--conflict skip|overwrite|rename] [--dry-run]';
+
+async function exportTo(file: string | undefined) {
+  const out = file ? createWriteStream(file) : process.stdout;
+  let lines = 0;
+  for await (const line of exportArchiveLines()) {
+    if (!out.write(line)) await once(out, 'drain');
+    lines++;
+  }
+  if (file) {
+    out.end();
+    await once(out, 'finish');
+    console.log(`Exported ${lines - 1} records to ${file}`);
+  }
+}
+
+function printReport(report: RestoreReport) {
+  const prefix = report.dryRun ? '[dry run] ' : '';
+  for (const [type, counts] of Object.entries(report.counts)) {
+    console.log(
+      `${prefix}${type.padEnd(10)} ${counts.created} created, ${counts.updated} updated, ${counts.skipped} skipped`
+    );
+  }
+  for (const warning of report.warnings) {
+    console.log(`warning: ${warning}`);
+  }
+}
+
+async function restoreFrom(file: string, author: string, conflict: ArchiveConflictStrategy, dryRun: boolean) {
+  const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  try {
+    printReport(await restoreArchive(lines, { conflict, dryRun, defaultAuthorId: author }));
+  } catch (error) {
+    if ((error instanceof ArchiveError || error instanceof RestoreInterruptedError) && error.report) {
+      console.log('Restore stopped; records restored before the error:');
+      printReport(error.report);
+    }
+    throw error;
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      author: { type: 'string' },
+      conflict: { type: 'string', default: 'skip' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const [command, file] = positionals;
+
+  if (command === 'export') {
+    await exportTo(file);
+    return;
+  }
+
+  const conflict = values.conflict as ArchiveConflictStrategy;
+  if (command !== 'restore' || !file || !values.author || !ARCHIVE_CONFLICT_STRATEGIES.includes(conflict)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await restoreFrom(file, values.author, conflict, values['dry-run']);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -294,6 +294,193 @@ function generatePublicApiFolder(): PostmanFolder {
   };
 }
 
+/**
+ * Generate Public Content API v1 endpoints folder
+ */
+function generatePublicApiV1Folder(): PostmanFolder {
+  const items: PostmanRequest[] = [];
+
+  const examplePost = {
+    id: 'clx123abc',
+    slug: 'example-post',
+    locale: 'en',
+    url: 'https://your-domain.com/en/blog/example-post',
+    title: 'Example Post Title',
+    excerpt: 'This is an example post excerpt...',
+    publishedAt: '2025-12-01T10:00:00.000Z',
+    updatedAt: '2025-12-02T08:30:00.000Z',
+    readingTime: 5,
+    featured: false,
+    translationGroupId: 'clx999grp',
+    author: { name: 'John Doe', avatarUrl: 'https://example.com/avatar.jpg' },
+    category: { name: 'Technology', slug: 'technology' },
+    tags: [{ name: 'News', slug: 'news' }],
+    image: {
+      url: 'https://ik.imagekit.io/example/image.jpg',
+      thumbnailUrl: 'https://ik.imagekit.io/example/image_thumb.jpg',
+      mimeType: 'image/jpeg',
+      size: 245678,
+    },
+  };
+
+  const conditionalHeader: PostmanHeader = {
+    key: 'If-None-Match',
+    value: '{{etag}}',
+    type: 'text',
+    description: 'ETag from a previous response; the server answers 304 Not Modified if unchanged',
+  };
+
+  // GET /api/v1/posts
+  const listPostsRequest: PostmanRequest['request'] = {
+    method: 'GET',
+    header: [conditionalHeader],
+    url: createUrl('/api/v1/posts', [
+      { key: 'locale', value: 'en', description: 'Filter by locale (en, es, fr, th)' },
+      { key: 'limit', value: '20', description: 'Posts per page (default: 20, max: 50)' },
+      { key: 'cursor', value: '{{nextCursor}}', description: 'pagination.nextCursor from the previous page', disabled: true },
+      { key: 'category', value: '', description: 'Filter by category slug', disabled: true },
+      { key: 'tag', value: '', description: 'Filter by tag slug', disabled: true },
+      { key: 'featured', value: 'true', description: 'Featured posts only', disabled: true },
+    ]),
+    description: 'Published posts, newest first, with cursor pagination. Stable v1 response shape.',
+  };
+
+  items.push({
+    name: 'List Posts',
+    request: listPostsRequest,
+    response: [
+      createSuccessResponse('Success', listPostsRequest, {
+        data: [examplePost],
+        pagination: { limit: 20, nextCursor: 'WyIyMDI1LTEyLTAxVDEwOjAwOjAwLjAwMFoiLCJjbHgxMjNhYmMiXQ', hasMore: true },
+      }),
+      createErrorResponse('Invalid Cursor', listPostsRequest, 400, 'Bad Request', 'Invalid cursor'),
+      createErrorResponse('Rate Limited', listPostsRequest, 429, 'Too Many Requests', 'Too many requests'),
+    ],
+  });
+
+  // GET /api/v1/posts/:slug
+  const getPostRequest: PostmanRequest['request'] = {
+    method: 'GET',
+    header: [conditionalHeader],
+    url: createUrl('/api/v1/posts/{{postSlug}}', [
+      { key: 'locale', value: 'en', description: 'Locale of the post (default: en)' },
+    ]),
+    description: 'A published post with its full sanitized HTML content.',
+  };
+
+  items.push({
+    name: 'Get Post',
+    request: getPostRequest,
+    response: [
+      createSuccessResponse('Success', getPostRequest, {
+        data: { ...examplePost, contentHtml: '<p>Full post content...</p>' },
+      }),
+      createErrorResponse('Not Found', getPostRequest, 404, 'Not Found', 'Post not found'),
+    ],
+  });
+
+  // GET /api/v1/categories
+  const listCategoriesRequest: PostmanRequest['request'] = {
+    method: 'GET',
+    header: [conditionalHeader],
+    url: createUrl('/api/v1/categories', [
+      { key: 'locale', value: 'en', description: 'Count only posts in this locale', disabled: true },
+      { key: 'limit', value: '50', description: 'Categories per page (default: 50, max: 50)' },
+      { key: 'cursor', value: '{{nextCursor}}', description: 'pagination.nextCursor from the previous page', disabled: true },
+    ]),
+    description: 'Categories ordered by slug, with published post counts.',
+  };
+
+  items.push({
+    name: 'List Categories',
+    request: listCategoriesRequest,
+    response: [
+      createSuccessResponse('Success', listCategoriesRequest, {
+        data: [
+          {
+            id: 'cat123',
+            name: 'Technology',
+            slug: 'technology',
+            description: 'Tech news and updates',
+            parentSlug: null,
+            depth: 0,
+            postCount: 25,
+          },
+        ],
+        pagination: { limit: 50, nextCursor: null, hasMore: false },
+      }),
+      createErrorResponse('Invalid Cursor', listCategoriesRequest, 400, 'Bad Request', 'Invalid cursor'),
+    ],
+  });
+
+  // GET /api/v1/tags
+  const listTagsRequest: PostmanRequest['request'] = {
+    method: 'GET',
+    header: [conditionalHeader],
+    url: createUrl('/api/v1/tags', [
+      { key: 'locale', value: 'en', description: 'Count only posts in this locale', disabled: true },
+      { key: 'limit', value: '50', description: 'Tags per page (default: 50, max: 50)' },
+      { key: 'cursor', value: '{{nextCursor}}', description: 'pagination.nextCursor from the previous page', disabled: true },
+    ]),
+    description: 'Tags ordered by slug, with published post counts.',
+  };
+
+  items.push({
+    name: 'List Tags',
+    request: listTagsRequest,
+    response: [
+      createSuccessResponse('Success', listTagsRequest, {
+        data: [{ id: 'tag_123', name: 'Breaking News', slug: 'breaking-news', postCount: 15 }],
+        pagination: { limit: 50, nextCursor: null, hasMore: false },
+      }),
+      createErrorResponse('Invalid Cursor', listTagsRequest, 400, 'Bad Request', 'Invalid cursor'),
+    ],
+  });
+
+  // GET /:locale/feed.json
+  const jsonFeedRequest: PostmanRequest['request'] = {
+    method: 'GET',
+    header: [conditionalHeader],
+    url: createUrl('/en/feed.json'),
+    description: 'JSON Feed 1.1 of the latest posts in a locale. Also available under /:locale/category/:slug and /:locale/tag/:slug.',
+  };
+
+  items.push({
+    name: 'JSON Feed',
+    request: jsonFeedRequest,
+    response: [
+      createSuccessResponse('Success', jsonFeedRequest, {
+        version: 'https://jsonfeed.org/version/1.1',
+        title: 'Advanced Web Blog',
+        home_page_url: 'https://your-domain.com/en',
+        feed_url: 'https://your-domain.com/en/feed.json',
+        description: 'Latest posts from Advanced Web Blog.',
+        language: 'en',
+        items: [
+          {
+            id: 'https://your-domain.com/en/blog/example-post',
+            url: 'https://your-domain.com/en/blog/example-post',
+            title: 'Example Post Title',
+            content_html: '<p>Full post content...</p>',
+            summary: 'This is an example post excerpt...',
+            date_published: '2025-12-01T10:00:00.000Z',
+            date_modified: '2025-12-02T08:30:00.000Z',
+            authors: [{ name: 'John Doe' }],
+            tags: ['Technology', 'News'],
+            language: 'en',
+          },
+        ],
+      }),
+    ],
+  });
+
+  return {
+    name: 'Public API v1',
+    description: 'Versioned public content API with stable response shapes, cursor pagination and ETag support. No authentication required.',
+    item: items,
+  };
+}
+
 
 /**
  * Generate Admin Users API endpoints folder
@@ -659,10 +846,17 @@ Admin endpoints require a Clerk authentication token. Set the \`authToken\` envi
 3. Find the Clerk session token in cookies or network requests
 4. Copy the token and set it as the \`authToken\` variable
 
+## Public API v1
+
+\`/api/v1\` is the stable public content API. Response shapes are versioned: v1 fields are never renamed or removed.
+List endpoints return \`{ data, pagination: { limit, nextCursor, hasMore } }\`; pass \`nextCursor\` as \`cursor\` for the next page.
+Responses carry an \`ETag\`; send it back in \`If-None-Match\` to get \`304 Not Modified\` when nothing changed.
+
 ## Rate Limiting
 
-Admin endpoints are rate limited:
+Endpoints are rate limited:
 - Standard admin endpoints: 100 requests per minute
+- Public API v1: 100 requests per minute
 - Upload endpoints: 10 requests per minute
 
 ## Roles
@@ -692,6 +886,7 @@ Common HTTP status codes:
     },
     item: [
       generatePublicApiFolder(),
+      generatePublicApiV1Folder(),
       generateAdminUsersFolder(),
       generateAdminInvitationsFolder(),
       generateAdminMediaFolder(),
@@ -710,6 +905,24 @@ Common HTTP status codes:
         type: 'string',
         description: 'Clerk authentication token (Bearer token)',
       },
+      {
+        key: 'postSlug',
+        value: 'example-post',
+        type: 'string',
+        description: 'Post slug for v1 get operations',
+      },
+      {
+        key: 'nextCursor',
+        value: '',
+        type: 'string',
+        description: 'pagination.nextCursor from a v1 list response',
+      },
+      {
+        key: 'etag',
+        value: '',
+        type: 'string',
+        description: 'ETag from a previous v1 response, for conditional requests',
+      },
       {
         key: 'invitationId',
         value: '',
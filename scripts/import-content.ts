@@ -0,0 +1,73 @@
+/**
+ * Imports posts from a WordPress WXR export or a directory of Markdown files
+ * Run with:
+ *   bun run scripts/import-content.ts --wxr export.xml --author <userId> [--locale en] [--dry-run]
+ *   bun run scripts/import-content.ts --markdown ./posts --author <userId> [--locale en] [--dry-run]
+ */
+
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { prisma } from '../lib/db/prisma';
+import { importPosts, parseWxr, readMarkdownDirectory } from '../lib/import';
+
+const USAGE =
+  'Usage: bun run scripts/import-content.ts (--wxr <file> | --markdown <dir>) --author <userId> [--locale <locale>] [--dry-run]';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      wxr: { type: 'string' },
+      markdown: { type: 'string' },
+      author: { type: 'string' },
+      locale: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.author || (!values.wxr === !values.markdown)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const posts = values.wxr
+    ? parseWxr(await readFile(values.wxr, 'utf8'))
+    : await readMarkdownDirectory(values.markdown!);
+
+  const report = await importPosts(posts, {
+    dryRun: values['dry-run'],
+    defaultAuthorId: values.author,
+    defaultLocale: values.locale,
+  });
+
+  const prefix = report.dryRun ? '[dry run] ' : '';
+  for (const post of report.posts) {
+    console.log(`${prefix}${post.status.padEnd(9)} ${post.locale}/${post.slug}  <- ${post.sourceId}`);
+    if (post.category) console.log(`    category: ${post.category.join(' > ')}`);
+    if (post.tags.length > 0) console.log(`    tags: ${post.tags.join(', ')}`);
+    for (const warning of post.warnings) {
+      console.log(`    warning: ${warning}`);
+    }
+  }
+
+  console.log(
+    `\n${prefix}${report.posts.length} posts, ` +
+    `${report.createdCategories.length} new categories, ` +
+    `${report.createdTags.length} new tags, ` +
+    `${report.uploadedImages} images uploaded`
+  );
+  if (report.createdCategories.length > 0) {
+    console.log(`New categories: ${report.createdCategories.join('; ')}`);
+  }
+  if (report.createdTags.length > 0) {
+    console.log(`New tags: ${report.createdTags.join(', ')}`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
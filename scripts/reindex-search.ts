@@ -0,0 +1,17 @@
+import { prisma } from '../lib/db/prisma';
+import { reindexAllPosts } from '../lib/search';
+
+// Rebuilds the full-text search vectors of all posts, e.g. after a bulk import
+async function main() {
+  const count = await reindexAllPosts();
+  console.log(`Reindexed ${count} posts`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
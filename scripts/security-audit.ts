@@ -320,8 +320,9 @@ function auditInjection(): SecurityFinding[] {
   const findings: SecurityFinding[] = [];
   let findingIndex = 1;
 
-  // Check for raw SQL queries (should use Prisma)
-  const rawSqlPattern = /\$queryRaw|\.query\s*\(/;
+  // Check for unparameterized raw SQL; tagged $queryRaw/$executeRaw templates bind their values,
+  // but Prisma.raw() splices its string into them unescaped
+  const rawSqlPattern = /\$queryRawUnsafe|\$executeRawUnsafe|Prisma\.raw\(|\.query\s*\(/;
   const filesWithRawSql = searchInFiles(rawSqlPattern, 'lib', ['.ts']);
 
   if (filesWithRawSql.length > 0) {